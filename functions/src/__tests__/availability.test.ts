@@ -0,0 +1,509 @@
+import {
+  computeAvailableSlots,
+  isSlotAvailable,
+  getZonedDateTime,
+  addDays,
+  getWeekdayKey,
+  toBusyInterval,
+  mergeSlots,
+  findConflictingException,
+  findSlotConflict,
+  assignResources,
+  AvailabilityInput
+} from '../lib/availability';
+import {
+  buildAvailabilityInput,
+  toServiceLines,
+  pickLeastBooked,
+  type ScheduleContext
+} from '../lib/schedule';
+import { DEFAULT_BOOKING_POLICY } from '../lib/policies';
+import type { ProfessionalDoc, ScheduleException, ServiceDoc } from '../types/models';
+
+// 2030-01-07 is a Monday
+const MONDAY = '2030-01-07';
+const TUESDAY = '2030-01-08';
+const SUNDAY = '2030-01-13';
+
+const weekdaySchedule = { start: '09:00', end: '12:00', available: true };
+const dayOff = { start: '09:00', end: '17:00', available: false };
+
+const createInput = (overrides: Partial<AvailabilityInput> = {}): AvailabilityInput => ({
+  professionalId: 'pro-1',
+  availability: {
+    monday: weekdaySchedule,
+    tuesday: weekdaySchedule,
+    wednesday: weekdaySchedule,
+    thursday: weekdaySchedule,
+    friday: weekdaySchedule,
+    saturday: dayOff,
+    sunday: dayOff
+  },
+  operatingHours: null,
+  durationMin: 60,
+  bufferBefore: 0,
+  bufferAfter: 0,
+  advanceBookingDays: 30,
+  timezone: 'UTC',
+  startDate: MONDAY,
+  endDate: MONDAY,
+  now: new Date('2030-01-06T12:00:00Z'),
+  busy: [],
+  ...overrides
+});
+
+const times = (input: AvailabilityInput) =>
+  computeAvailableSlots(input)
+    .filter(slot => slot.available)
+    .map(slot => `${slot.date} ${slot.time}`);
+
+describe('Availability engine', () => {
+  describe('date helpers', () => {
+    it('should add days across month boundaries', () => {
+      expect(addDays('2030-01-31', 1)).toBe('2030-02-01');
+      expect(addDays('2030-03-01', -1)).toBe('2030-02-28');
+    });
+
+    it('should resolve the weekday of a date', () => {
+      expect(getWeekdayKey(MONDAY)).toBe('monday');
+      expect(getWeekdayKey(SUNDAY)).toBe('sunday');
+    });
+
+    it('should resolve wall-clock time in a timezone', () => {
+      const instant = new Date('2030-01-07T02:30:00Z');
+      expect(getZonedDateTime(instant, 'UTC')).toEqual({ date: MONDAY, minutes: 150 });
+      expect(getZonedDateTime(instant, 'America/Sao_Paulo')).toEqual({
+        date: '2030-01-06',
+        minutes: 23 * 60 + 30
+      });
+    });
+  });
+
+  describe('computeAvailableSlots', () => {
+    it('should generate slots within the professional schedule', () => {
+      expect(times(createInput())).toEqual([
+        `${MONDAY} 09:00`,
+        `${MONDAY} 09:30`,
+        `${MONDAY} 10:00`,
+        `${MONDAY} 10:30`,
+        `${MONDAY} 11:00`
+      ]);
+    });
+
+    it('should use the service duration and a stable slot id', () => {
+      const [slot] = computeAvailableSlots(createInput({ durationMin: 45 }));
+      expect(slot).toEqual({
+        id: `pro-1-${MONDAY}-09:00`,
+        date: MONDAY,
+        time: '09:00',
+        duration: 45,
+        available: true,
+        professionalId: 'pro-1'
+      });
+    });
+
+    it('should honour a custom slot interval', () => {
+      expect(times(createInput({ slotInterval: 60 }))).toEqual([
+        `${MONDAY} 09:00`,
+        `${MONDAY} 10:00`,
+        `${MONDAY} 11:00`
+      ]);
+    });
+
+    it('should skip days the professional is not available', () => {
+      const slots = computeAvailableSlots(createInput({ startDate: MONDAY, endDate: SUNDAY }));
+      const dates = [...new Set(slots.map(slot => slot.date))];
+      expect(dates).toEqual(['2030-01-07', '2030-01-08', '2030-01-09', '2030-01-10', '2030-01-11']);
+    });
+
+    it('should intersect the schedule with store operating hours', () => {
+      const input = createInput({
+        operatingHours: {
+          monday: { open: '10:00', close: '18:00', closed: false },
+          tuesday: { open: '09:00', close: '18:00', closed: true }
+        },
+        startDate: MONDAY,
+        endDate: TUESDAY
+      });
+
+      expect(times(input)).toEqual([`${MONDAY} 10:00`, `${MONDAY} 10:30`, `${MONDAY} 11:00`]);
+    });
+
+    it('should mark slots overlapping existing bookings as unavailable', () => {
+      const input = createInput({
+        busy: [toBusyInterval({ date: MONDAY, time: '10:00', duration: 60 })]
+      });
+
+      const slots = computeAvailableSlots(input);
+      expect(slots).toHaveLength(5);
+      expect(times(input)).toEqual([`${MONDAY} 09:00`, `${MONDAY} 11:00`]);
+    });
+
+    it('should keep the buffer time free around existing bookings', () => {
+      const input = createInput({
+        bufferAfter: 15,
+        busy: [toBusyInterval({ date: MONDAY, time: '10:00', duration: 30 })]
+      });
+
+      // The booking blocks 09:45-10:45 once the buffer is applied on both sides
+      expect(times(input)).toEqual([`${MONDAY} 11:00`]);
+    });
+
+    it('should keep the before and after buffers of both appointments free', () => {
+      const input = createInput({
+        durationMin: 30,
+        bufferBefore: 15,
+        bufferAfter: 15,
+        busy: [toBusyInterval({ date: MONDAY, time: '10:00', duration: 30 })]
+      });
+
+      // 30 minutes between appointments: the after buffer of one and the
+      // before buffer of the next
+      expect(times(input)).toEqual([`${MONDAY} 09:00`, `${MONDAY} 11:00`, `${MONDAY} 11:30`]);
+    });
+
+    it('should start slots at the slot interval', () => {
+      const input = createInput({ slotInterval: 60 });
+      expect(times(input)).toEqual([`${MONDAY} 09:00`, `${MONDAY} 10:00`, `${MONDAY} 11:00`]);
+    });
+
+    it('should leave out slots within the minimum lead time', () => {
+      const input = createInput({ now: new Date('2030-01-07T08:00:00Z'), minLeadTimeMinutes: 120 });
+      expect(times(input)).toEqual([`${MONDAY} 10:30`, `${MONDAY} 11:00`]);
+    });
+
+    it('should carry the minimum lead time over to the next day', () => {
+      const input = createInput({ now: new Date('2030-01-06T22:00:00Z'), minLeadTimeMinutes: 12 * 60 });
+      expect(times(input)).toEqual([`${MONDAY} 10:30`, `${MONDAY} 11:00`]);
+    });
+
+    it('should ignore bookings on other days', () => {
+      const input = createInput({
+        busy: [toBusyInterval({ date: TUESDAY, time: '09:00', duration: 180 })]
+      });
+
+      expect(times(input)).toHaveLength(5);
+    });
+
+    it('should leave out past slots for today', () => {
+      const input = createInput({ now: new Date('2030-01-07T10:00:00Z') });
+      expect(times(input)).toEqual([`${MONDAY} 10:30`, `${MONDAY} 11:00`]);
+    });
+
+    it('should leave out past dates', () => {
+      const input = createInput({ now: new Date('2030-01-08T08:00:00Z'), endDate: TUESDAY });
+      expect(computeAvailableSlots(input).every(slot => slot.date === TUESDAY)).toBe(true);
+    });
+
+    it('should leave out dates beyond the advance booking window', () => {
+      const input = createInput({ advanceBookingDays: 1, endDate: '2030-01-10' });
+      const dates = [...new Set(computeAvailableSlots(input).map(slot => slot.date))];
+      expect(dates).toEqual([MONDAY]);
+    });
+
+    it('should evaluate "now" in the schedule timezone', () => {
+      // 12:30 UTC is 09:30 in Sao Paulo (UTC-3)
+      const input = createInput({
+        timezone: 'America/Sao_Paulo',
+        now: new Date('2030-01-07T12:30:00Z')
+      });
+
+      expect(times(input)).toEqual([`${MONDAY} 10:00`, `${MONDAY} 10:30`, `${MONDAY} 11:00`]);
+    });
+  });
+
+  describe('schedule exceptions', () => {
+    const timeOff: ScheduleException = { id: 'vacation', startDate: MONDAY, endDate: TUESDAY, type: 'closed' };
+
+    it('should skip every day of the professional\'s time off', () => {
+      const input = createInput({ exceptions: [timeOff], endDate: '2030-01-09' });
+      const dates = [...new Set(times(input).map(time => time.split(' ')[0]))];
+      expect(dates).toEqual(['2030-01-09']);
+    });
+
+    it('should skip the store\'s holidays', () => {
+      const input = createInput({ storeExceptions: [{ ...timeOff, id: 'holiday', endDate: MONDAY }] });
+      expect(times(input)).toEqual([]);
+    });
+
+    it('should replace the weekly hours with custom hours, even on a day off', () => {
+      const custom: ScheduleException = {
+        id: 'saturday',
+        startDate: '2030-01-12',
+        endDate: '2030-01-12',
+        type: 'custom_hours',
+        start: '14:00',
+        end: '16:00'
+      };
+      const input = createInput({ exceptions: [custom], startDate: '2030-01-12', endDate: '2030-01-12' });
+
+      expect(times(input)).toEqual(['2030-01-12 14:00', '2030-01-12 14:30', '2030-01-12 15:00']);
+    });
+
+    it('should intersect custom store hours with the professional schedule', () => {
+      const input = createInput({
+        operatingHours: { monday: { open: '08:00', close: '18:00', closed: false } },
+        storeExceptions: [
+          {
+            id: 'short-day',
+            startDate: MONDAY,
+            endDate: MONDAY,
+            type: 'custom_hours',
+            start: '08:00',
+            end: '11:00'
+          }
+        ]
+      });
+
+      expect(times(input)).toEqual([`${MONDAY} 09:00`, `${MONDAY} 09:30`, `${MONDAY} 10:00`]);
+    });
+
+    it('should mark slots overlapping a blocked range as unavailable', () => {
+      const input = createInput({
+        exceptions: [
+          { id: 'dentist', startDate: MONDAY, endDate: MONDAY, type: 'blocked', start: '10:00', end: '11:00' }
+        ]
+      });
+
+      expect(times(input)).toEqual([`${MONDAY} 09:00`, `${MONDAY} 11:00`]);
+    });
+
+    it('should find the exception a booking conflicts with', () => {
+      const booking = { date: MONDAY, time: '10:00', duration: 60 };
+      const blocked: ScheduleException = {
+        id: 'blocked',
+        startDate: MONDAY,
+        endDate: MONDAY,
+        type: 'blocked',
+        start: '10:30',
+        end: '12:00'
+      };
+      const shortDay: ScheduleException = {
+        ...blocked,
+        id: 'short-day',
+        type: 'custom_hours',
+        start: '09:00',
+        end: '10:30'
+      };
+
+      expect(findConflictingException(booking, [timeOff])).toBe(timeOff);
+      expect(findConflictingException(booking, [blocked])).toBe(blocked);
+      expect(findConflictingException(booking, [shortDay])).toBe(shortDay);
+      expect(findConflictingException({ ...booking, time: '09:00' }, [blocked, shortDay])).toBeNull();
+      expect(findConflictingException({ ...booking, date: '2030-01-09' }, [timeOff])).toBeNull();
+    });
+  });
+
+  describe('store resources', () => {
+    const rooms = { id: 'massage-room', name: 'Massage room', quantity: 2 };
+    const roomTaken = (unit: number, time: string) => ({
+      ...toBusyInterval({ date: MONDAY, time, duration: 60 }),
+      resourceId: rooms.id,
+      unit
+    });
+    const noBuffers = { before: 0, after: 0 };
+
+    it('should offer slots while a unit of every required resource is free', () => {
+      const input = createInput({
+        resources: [rooms],
+        resourceUsage: [roomTaken(1, '09:00'), roomTaken(2, '09:30')]
+      });
+
+      expect(times(input)).toEqual([`${MONDAY} 10:00`, `${MONDAY} 10:30`, `${MONDAY} 11:00`]);
+    });
+
+    it('should never offer a resource the store has none of', () => {
+      expect(times(createInput({ resources: [{ ...rooms, quantity: 0 }] }))).toEqual([]);
+    });
+
+    it('should take the lowest numbered free unit', () => {
+      const usage = [roomTaken(1, '09:00')];
+
+      expect(assignResources([rooms], usage, MONDAY, 600, 660, noBuffers)).toEqual([
+        { resourceId: 'massage-room', name: 'Massage room', unit: 1 }
+      ]);
+      expect(assignResources([rooms], usage, MONDAY, 540, 600, noBuffers)).toEqual([
+        { resourceId: 'massage-room', name: 'Massage room', unit: 2 }
+      ]);
+      expect(assignResources([rooms], [...usage, roomTaken(2, '09:00')], MONDAY, 540, 600, noBuffers)).toBeNull();
+    });
+
+    it('should keep the buffer time free around a unit in use', () => {
+      const input = createInput({
+        bufferAfter: 15,
+        resources: [{ ...rooms, quantity: 1 }],
+        resourceUsage: [roomTaken(1, '10:00')]
+      });
+
+      expect(times(input)).toEqual([]);
+    });
+  });
+
+  describe('isSlotAvailable', () => {
+    it('should accept a free slot', () => {
+      expect(isSlotAvailable(createInput(), MONDAY, '09:30')).toBe(true);
+    });
+
+    it('should reject a slot outside working hours', () => {
+      expect(isSlotAvailable(createInput(), MONDAY, '11:30')).toBe(false);
+      expect(isSlotAvailable(createInput(), SUNDAY, '09:00')).toBe(false);
+    });
+
+    it('should reject a slot that collides with a booking', () => {
+      const input = createInput({
+        busy: [toBusyInterval({ date: MONDAY, time: '09:00', duration: 60 })]
+      });
+      expect(isSlotAvailable(input, MONDAY, '09:30')).toBe(false);
+    });
+  });
+
+  describe('findSlotConflict', () => {
+    it('should accept any free start time, even off the slot interval', () => {
+      expect(findSlotConflict(createInput(), MONDAY, '09:10')).toBeNull();
+    });
+
+    it('should ignore the lead time and advance booking window', () => {
+      const input = createInput({ minLeadTimeMinutes: 24 * 60, advanceBookingDays: 0 });
+      expect(findSlotConflict(input, MONDAY, '09:00')).toBeNull();
+    });
+
+    it('should reject times that have passed', () => {
+      const input = createInput({ now: new Date('2030-01-07T10:00:00Z') });
+      expect(findSlotConflict(input, MONDAY, '09:30')).toBe('past');
+      expect(findSlotConflict(input, '2030-01-06', '10:00')).toBe('past');
+    });
+
+    it('should accept a walk-in that started moments ago', () => {
+      const input = createInput({ now: new Date('2030-01-07T09:07:00Z') });
+      expect(findSlotConflict(input, MONDAY, '09:05')).toBeNull();
+      expect(findSlotConflict(input, MONDAY, '08:50')).toBe('past');
+    });
+
+    it('should reject times outside working hours', () => {
+      expect(findSlotConflict(createInput(), MONDAY, '11:30')).toBe('closed');
+      expect(findSlotConflict(createInput(), SUNDAY, '09:00')).toBe('closed');
+    });
+
+    it('should reject time off', () => {
+      const timeOff: ScheduleException = { id: 'vacation', startDate: MONDAY, endDate: MONDAY, type: 'closed' };
+      const blocked: ScheduleException = {
+        id: 'dentist',
+        startDate: MONDAY,
+        endDate: MONDAY,
+        type: 'blocked',
+        start: '10:00',
+        end: '11:00'
+      };
+      expect(findSlotConflict(createInput({ exceptions: [timeOff] }), MONDAY, '09:00')).toBe('time_off');
+      expect(findSlotConflict(createInput({ exceptions: [blocked] }), MONDAY, '09:30')).toBe('time_off');
+    });
+
+    it('should reject times that collide with a booking or its buffers', () => {
+      const input = createInput({
+        bufferAfter: 15,
+        busy: [toBusyInterval({ date: MONDAY, time: '09:00', duration: 60 })]
+      });
+      expect(findSlotConflict(input, MONDAY, '10:10')).toBe('booked');
+      expect(findSlotConflict(input, MONDAY, '10:15')).toBeNull();
+    });
+
+    it('should reject times with no unit of a required resource free', () => {
+      const input = createInput({
+        resources: [{ id: 'massage-room', name: 'Massage room', quantity: 1 }],
+        resourceUsage: [
+          { ...toBusyInterval({ date: MONDAY, time: '09:00', duration: 60 }), resourceId: 'massage-room', unit: 1 }
+        ]
+      });
+      expect(findSlotConflict(input, MONDAY, '09:30')).toBe('resources');
+    });
+  });
+
+  describe('multi-service bookings', () => {
+    const now = new Date('2030-01-06T12:00:00Z');
+    const createService = (id: string, durationMin: number, price: number) =>
+      ({ id, name: id, durationMin, price }) as ServiceDoc;
+
+    const createContext = (services: ServiceDoc[]): ScheduleContext => ({
+      orgId: 'org-1',
+      professional: { id: 'pro-1', availability: createInput().availability } as ProfessionalDoc,
+      store: null,
+      services,
+      resources: [],
+      durationMin: services.reduce((total, service) => total + service.durationMin, 0),
+      timezone: 'UTC',
+      policy: DEFAULT_BOOKING_POLICY
+    });
+
+    it('should only offer slots that fit every service back to back', () => {
+      const context = createContext([createService('cut', 60, 50), createService('color', 90, 120)]);
+      const input = buildAvailabilityInput(context, [], MONDAY, MONDAY, now);
+
+      expect(input.durationMin).toBe(150);
+      expect(times(input)).toEqual([`${MONDAY} 09:00`, `${MONDAY} 09:30`]);
+    });
+
+    it('should not offer a block that spans an existing booking', () => {
+      const context = createContext([createService('cut', 60, 50), createService('color', 60, 120)]);
+      const busy = [toBusyInterval({ date: MONDAY, time: '10:30', duration: 30 })];
+      const input = buildAvailabilityInput(context, busy, MONDAY, MONDAY, now);
+
+      expect(times(input)).toEqual([]);
+    });
+
+    it('should keep the service lines in booking order', () => {
+      const context = createContext([createService('cut', 60, 50), createService('color', 90, 120)]);
+
+      expect(toServiceLines(context)).toEqual([
+        { serviceId: 'cut', serviceName: 'cut', duration: 60, price: 50 },
+        { serviceId: 'color', serviceName: 'color', duration: 90, price: 120 }
+      ]);
+    });
+  });
+
+  describe('any professional', () => {
+    it('should offer a time when at least one professional is free', () => {
+      const busyUntil1030 = createInput({
+        busy: [toBusyInterval({ date: MONDAY, time: '09:00', duration: 90 })]
+      });
+      const busyFrom1030 = createInput({
+        professionalId: 'pro-2',
+        busy: [toBusyInterval({ date: MONDAY, time: '10:30', duration: 90 })]
+      });
+
+      const slots = mergeSlots(
+        [computeAvailableSlots(busyUntil1030), computeAvailableSlots(busyFrom1030)],
+        'any'
+      );
+
+      expect(slots.filter(slot => slot.available).map(slot => slot.time)).toEqual([
+        '09:00',
+        '09:30',
+        '10:30',
+        '11:00'
+      ]);
+      expect(slots.find(slot => slot.time === '10:00')).toMatchObject({ available: false, professionalId: 'any' });
+      expect(slots[0].id).toBe(`any-${MONDAY}-09:00`);
+    });
+
+    it('should assign the professional with the fewest booked minutes', () => {
+      const candidates = [
+        { id: 'pro-1', busy: [toBusyInterval({ date: MONDAY, time: '09:00', duration: 60 })] },
+        { id: 'pro-2', busy: [toBusyInterval({ date: MONDAY, time: '09:00', duration: 30 })] },
+        { id: 'pro-3', busy: [toBusyInterval({ date: MONDAY, time: '09:00', duration: 90 })] }
+      ];
+
+      expect(pickLeastBooked(candidates).id).toBe('pro-2');
+    });
+
+    it('should break ties between equally booked professionals at random', () => {
+      const candidates = [
+        { id: 'pro-1', busy: [] },
+        { id: 'pro-2', busy: [toBusyInterval({ date: MONDAY, time: '09:00', duration: 30 })] },
+        { id: 'pro-3', busy: [] }
+      ];
+
+      expect(pickLeastBooked(candidates, () => 0).id).toBe('pro-1');
+      expect(pickLeastBooked(candidates, () => 0.99).id).toBe('pro-3');
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { assertAttendanceChange, canChangeStatus, getNoShowChange } from '../lib/bookingStatus';
+import type { BookingDoc, BookingStatus } from '../types/models';
+
+const createBooking = (status: BookingStatus): BookingDoc =>
+  ({
+    id: 'booking-1',
+    orgId: 'org-1',
+    date: '2026-03-10',
+    time: '10:00',
+    duration: 60,
+    timezone: 'UTC',
+    status
+  }) as BookingDoc;
+
+describe('Booking status lifecycle', () => {
+  it('should only allow changes along the lifecycle', () => {
+    expect(canChangeStatus('confirmed', 'checked_in')).toBe(true);
+    expect(canChangeStatus('confirmed', 'no_show')).toBe(true);
+    expect(canChangeStatus('checked_in', 'completed')).toBe(true);
+    expect(canChangeStatus('no_show', 'checked_in')).toBe(true);
+    expect(canChangeStatus('draft', 'checked_in')).toBe(false);
+    expect(canChangeStatus('checked_in', 'no_show')).toBe(false);
+    expect(canChangeStatus('completed', 'no_show')).toBe(false);
+    expect(canChangeStatus('cancelled', 'confirmed')).toBe(false);
+  });
+
+  it('should only complete or mark no-shows once the booking has started', () => {
+    const before = new Date('2026-03-10T09:30:00Z');
+    const after = new Date('2026-03-10T10:15:00Z');
+
+    expect(() => assertAttendanceChange(createBooking('confirmed'), 'checked_in', before)).not.toThrow();
+    expect(() => assertAttendanceChange(createBooking('confirmed'), 'no_show', before)).toThrow(HttpsError);
+    expect(() => assertAttendanceChange(createBooking('confirmed'), 'no_show', after)).not.toThrow();
+    expect(() => assertAttendanceChange(createBooking('checked_in'), 'completed', after)).not.toThrow();
+    expect(() => assertAttendanceChange(createBooking('cancelled'), 'checked_in', after)).toThrow(
+      'A booking that is cancelled cannot be marked checked_in'
+    );
+  });
+
+  it('should count no-shows, and take them back for late arrivals', () => {
+    expect(getNoShowChange('confirmed', 'no_show')).toBe(1);
+    expect(getNoShowChange('no_show', 'checked_in')).toBe(-1);
+    expect(getNoShowChange('confirmed', 'checked_in')).toBe(0);
+    expect(getNoShowChange('no_show', 'no_show')).toBe(0);
+  });
+});
@@ -0,0 +1,60 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import {
+  getClaimExpiry,
+  isWaitingFor,
+  WAITLIST_CLAIM_MINUTES,
+  type FreedTime
+} from '../lib/bookingWaitlist';
+import { ANY_PROFESSIONAL } from '../lib/schedule';
+import type { BookingWaitlistEntryDoc } from '../types/models';
+
+const NOW = new Date('2030-01-07T13:00:00Z');
+
+const minutesFromNow = (minutes: number) => Timestamp.fromDate(new Date(NOW.getTime() + minutes * 60000));
+
+const createEntry = (overrides: Partial<BookingWaitlistEntryDoc> = {}): BookingWaitlistEntryDoc => ({
+  id: 'entry-1',
+  orgId: 'org-1',
+  storeId: 'store-1',
+  professionalId: 'pro-1',
+  serviceIds: ['service-1'],
+  serviceName: 'Haircut',
+  dateFrom: '2030-01-07',
+  dateTo: '2030-01-14',
+  customer: { firstName: 'Ana', lastName: 'Silva', email: 'ana@example.com' },
+  status: 'waiting',
+  createdAt: minutesFromNow(-60),
+  updatedAt: minutesFromNow(-60),
+  ...overrides
+});
+
+const FREED: FreedTime = { orgId: 'org-1', storeId: 'store-1', professionalId: 'pro-1', date: '2030-01-10' };
+
+describe('Booking waitlist', () => {
+  it('should give claims the claim period to be booked', () => {
+    expect(getClaimExpiry(NOW).getTime() - NOW.getTime()).toBe(WAITLIST_CLAIM_MINUTES * 60000);
+  });
+
+  it('should match entries waiting for the professional on a date in their window', () => {
+    expect(isWaitingFor(createEntry(), FREED)).toBe(true);
+    expect(isWaitingFor(createEntry(), { ...FREED, date: '2030-01-14' })).toBe(true);
+    expect(isWaitingFor(createEntry(), { ...FREED, date: '2030-01-15' })).toBe(false);
+    expect(isWaitingFor(createEntry(), { ...FREED, date: '2030-01-06' })).toBe(false);
+    expect(isWaitingFor(createEntry(), { ...FREED, professionalId: 'pro-2' })).toBe(false);
+    expect(isWaitingFor(createEntry(), { ...FREED, orgId: 'org-2' })).toBe(false);
+  });
+
+  it('should match entries for anyone at the store to every professional there', () => {
+    const entry = createEntry({ professionalId: ANY_PROFESSIONAL });
+
+    expect(isWaitingFor(entry, { ...FREED, professionalId: 'pro-2' })).toBe(true);
+    expect(isWaitingFor(entry, { ...FREED, storeId: 'store-2' })).toBe(false);
+    expect(isWaitingFor(entry, { ...FREED, storeId: null })).toBe(false);
+  });
+
+  it('should skip entries that are no longer waiting', () => {
+    expect(isWaitingFor(createEntry({ status: 'notified' }), FREED)).toBe(false);
+    expect(isWaitingFor(createEntry({ status: 'booked' }), FREED)).toBe(false);
+    expect(isWaitingFor(createEntry({ status: 'expired' }), FREED)).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { Timestamp, type QuerySnapshot } from 'firebase-admin/firestore';
+import { getDraftExpiry, isDraftExpired, DRAFT_BOOKING_MINUTES } from '../lib/bookings';
+import { toBusyIntervals } from '../lib/schedule';
+import { toResourceUsage } from '../lib/resources';
+import type { BookingDoc } from '../types/models';
+
+const NOW = new Date('2030-01-07T13:00:00Z');
+
+const minutesFromNow = (minutes: number) => Timestamp.fromDate(new Date(NOW.getTime() + minutes * 60000));
+
+const createBooking = (overrides: Partial<BookingDoc> = {}): BookingDoc =>
+  ({
+    id: 'booking-1',
+    date: '2030-01-07',
+    time: '10:00',
+    duration: 60,
+    status: 'draft',
+    expiresAt: minutesFromNow(10),
+    createdAt: minutesFromNow(-20),
+    resources: [{ resourceId: 'massage-room', name: 'Massage room', unit: 1 }],
+    ...overrides
+  }) as BookingDoc;
+
+const toSnapshot = (bookings: BookingDoc[]) =>
+  ({ docs: bookings.map(booking => ({ id: booking.id, data: () => booking })) }) as unknown as QuerySnapshot;
+
+describe('Draft bookings', () => {
+  it('should expire drafts after the draft period', () => {
+    expect(getDraftExpiry(NOW).getTime() - NOW.getTime()).toBe(DRAFT_BOOKING_MINUTES * 60000);
+  });
+
+  it('should only expire drafts', () => {
+    expect(isDraftExpired(createBooking(), NOW)).toBe(false);
+    expect(isDraftExpired(createBooking({ expiresAt: minutesFromNow(0) }), NOW)).toBe(true);
+    expect(isDraftExpired(createBooking({ status: 'confirmed', expiresAt: minutesFromNow(-1) }), NOW)).toBe(false);
+  });
+
+  it('should expire drafts saved without an expiry from when they were created', () => {
+    const { expiresAt: _expiresAt, ...draft } = createBooking();
+
+    expect(isDraftExpired({ ...draft, createdAt: minutesFromNow(-DRAFT_BOOKING_MINUTES + 1) }, NOW)).toBe(false);
+    expect(isDraftExpired({ ...draft, createdAt: minutesFromNow(-DRAFT_BOOKING_MINUTES) }, NOW)).toBe(true);
+  });
+
+  it('should stop expired drafts from holding time and resources', () => {
+    const snapshot = toSnapshot([
+      createBooking(),
+      createBooking({ id: 'booking-2', time: '12:00', expiresAt: minutesFromNow(-1) })
+    ]);
+
+    expect(toBusyIntervals(snapshot, undefined, NOW)).toEqual([{ date: '2030-01-07', start: 600, end: 660 }]);
+    expect(toResourceUsage(snapshot, undefined, NOW)).toEqual([
+      { date: '2030-01-07', start: 600, end: 660, resourceId: 'massage-room', unit: 1 }
+    ]);
+  });
+});
@@ -4,7 +4,8 @@ import {
   verifyResendSignature, 
   extractSignature,
   isValidEmail,
-  normalizeEmail 
+  normalizeEmail,
+  generateConfirmationCode
 } from '../lib/crypto';
 
 describe('Crypto utilities', () => {
@@ -110,4 +111,19 @@ describe('Crypto utilities', () => {
       expect(normalizeEmail('')).toBe('');
     });
   });
+
+  describe('generateConfirmationCode', () => {
+    it('should generate a 6 character code by default', () => {
+      expect(generateConfirmationCode()).toMatch(/^[A-Z2-9]{6}$/);
+    });
+
+    it('should respect the requested length', () => {
+      expect(generateConfirmationCode(8)).toHaveLength(8);
+    });
+
+    it('should not use ambiguous characters', () => {
+      const codes = Array.from({ length: 200 }, () => generateConfirmationCode()).join('');
+      expect(codes).not.toMatch(/[01OIL]/);
+    });
+  });
 });
@@ -0,0 +1,82 @@
+import { getRebookPath, splitBookingHistory } from '../lib/customers';
+import { createCustomerToken, validateCustomerToken } from '../tokens';
+import type { BookingDoc, OrgDoc, ProfessionalDoc, ServiceDoc, StoreDoc } from '../types/models';
+
+jest.mock('firebase-functions/params', () => ({
+  defineSecret: (name: string) => ({
+    value: () => (name === 'PUBLIC_APP_URL' ? 'https://calendado.test' : 'test-secret')
+  })
+}));
+
+// Monday 2030-01-07, 10:00 in America/Sao_Paulo
+const NOW = new Date('2030-01-07T13:00:00Z');
+
+const createBooking = (id: string, date: string, time: string, overrides: Partial<BookingDoc> = {}) =>
+  ({ id, date, time, timezone: 'America/Sao_Paulo', status: 'confirmed', ...overrides }) as BookingDoc;
+
+const org = { slug: 'glow' } as OrgDoc;
+const store = { slug: 'centro' } as StoreDoc;
+const professional = { slug: 'ana' } as ProfessionalDoc;
+const service = { slug: 'haircut' } as ServiceDoc;
+
+describe('Customer accounts', () => {
+  describe('splitBookingHistory', () => {
+    it('should list upcoming bookings soonest first and past ones latest first', () => {
+      const { upcoming, past } = splitBookingHistory(
+        [
+          createBooking('next-week', '2030-01-14', '09:00'),
+          createBooking('last-week', '2029-12-31', '09:00'),
+          createBooking('later-today', '2030-01-07', '15:00'),
+          createBooking('earlier-today', '2030-01-07', '09:00')
+        ],
+        NOW
+      );
+
+      expect(upcoming.map(booking => booking.id)).toEqual(['later-today', 'next-week']);
+      expect(past.map(booking => booking.id)).toEqual(['earlier-today', 'last-week']);
+    });
+
+    it('should list cancelled bookings as past and leave out drafts', () => {
+      const { upcoming, past } = splitBookingHistory(
+        [
+          createBooking('cancelled', '2030-01-14', '09:00', { status: 'cancelled' }),
+          createBooking('draft', '2030-01-15', '09:00', { status: 'draft' })
+        ],
+        NOW
+      );
+
+      expect(upcoming).toEqual([]);
+      expect(past.map(booking => booking.id)).toEqual(['cancelled']);
+    });
+  });
+
+  describe('getRebookPath', () => {
+    it('should book the same service with the same professional', () => {
+      expect(getRebookPath(org, store, professional, service)).toBe('/book/glow/centro/ana?service=haircut');
+      expect(getRebookPath(org, null, professional, service)).toBe('/book/u/ana?service=haircut');
+    });
+
+    it('should not rebook when the professional or service no longer exists', () => {
+      expect(getRebookPath(org, store, null, service)).toBeNull();
+      expect(getRebookPath(org, store, professional, null)).toBeNull();
+    });
+  });
+
+  describe('customer tokens', () => {
+    it('should link sign-in tokens to the sign-in page', () => {
+      const signIn = createCustomerToken('ana@example.com', 'sign_in');
+      expect(signIn.url).toBe(`https://calendado.test/me/sign-in?token=${signIn.token}`);
+      expect(validateCustomerToken(signIn.token as string, 'sign_in').payload?.email).toBe('ana@example.com');
+    });
+
+    it('should only accept a token for the purpose it was issued for', () => {
+      const signIn = createCustomerToken('ana@example.com', 'sign_in');
+      const session = createCustomerToken('ana@example.com', 'session');
+
+      expect(session.url).toBeUndefined();
+      expect(validateCustomerToken(signIn.token as string, 'session').valid).toBe(false);
+      expect(validateCustomerToken(session.token as string, 'sign_in').valid).toBe(false);
+      expect(validateCustomerToken(session.token as string, 'session').valid).toBe(true);
+    });
+  });
+});
@@ -6,7 +6,27 @@
  */
 
 import { describe, test, expect } from '@jest/globals';
-import { sendInviteEmail, sendPasswordResetEmail } from '../email';
+import { sendInviteEmail, sendPasswordResetEmail, sendBookingConfirmationEmail } from '../email';
+import {
+  buildBookingConfirmationEmail,
+  buildBookingReminderEmail,
+  buildBookingUpdateEmail,
+  buildSessionSeatOpenEmail,
+  buildWaitlistClaimEmail,
+  type BookingEmailData
+} from '../lib/email';
+
+const bookingData: BookingEmailData = {
+  customerName: 'John Doe',
+  serviceName: 'Haircut',
+  professionalName: 'Maria Silva',
+  appointmentDate: '2030-01-07',
+  appointmentTime: '10:00',
+  timezone: 'America/Sao_Paulo',
+  location: 'Glow Beauty Studio, Rua A 1',
+  confirmationCode: 'ABC234',
+  manageUrl: 'https://calendado.com/booking/manage/token-123'
+};
 
 describe('Email Functions', () => {
   describe('Function Exports', () => {
@@ -21,6 +41,99 @@ describe('Email Functions', () => {
       expect(sendPasswordResetEmail).toBeDefined();
       expect(typeof sendPasswordResetEmail).toBe('function');
     });
+
+    test('should export sendBookingConfirmationEmail function', () => {
+      expect(sendBookingConfirmationEmail).toBeDefined();
+      expect(typeof sendBookingConfirmationEmail).toBe('function');
+    });
+  });
+
+  describe('Booking Confirmation Template', () => {
+    test('should localize the subject and labels', () => {
+      const ptBR = buildBookingConfirmationEmail(bookingData, 'pt-BR');
+      expect(ptBR.subject).toBe('Seu agendamento de Haircut está confirmado');
+      expect(ptBR.html).toContain('Código de confirmação');
+      expect(ptBR.html).toContain('<html lang="pt-BR">');
+
+      const itIT = buildBookingConfirmationEmail(bookingData, 'it-IT');
+      expect(itIT.subject).toBe('Il tuo appuntamento per Haircut è confermato');
+      expect(itIT.html).toContain('Sposta o annulla');
+    });
+
+    test('should format the date in the customer locale', () => {
+      expect(buildBookingConfirmationEmail(bookingData, 'en-US').html).toContain('Monday, January 7, 2030');
+      expect(buildBookingConfirmationEmail(bookingData, 'pt-BR').html).toContain('7 de janeiro de 2030');
+    });
+
+    test('should fall back to English without a locale', () => {
+      const template = buildBookingConfirmationEmail(bookingData, null);
+      expect(template.subject).toBe('Your Haircut appointment is confirmed');
+    });
+
+    test('should link to the manage-booking page', () => {
+      const template = buildBookingConfirmationEmail(bookingData, 'en-US');
+      expect(template.html).toContain('href="https://calendado.com/booking/manage/token-123"');
+      expect(template.html).toContain('ABC234');
+    });
+
+    test('should escape customer-provided text', () => {
+      const template = buildBookingConfirmationEmail(
+        { ...bookingData, customerName: '<script>alert(1)</script>' },
+        'en-US'
+      );
+      expect(template.html).not.toContain('<script>');
+      expect(template.html).toContain('&lt;script&gt;');
+    });
+  });
+
+  describe('Booking Reminder Template', () => {
+    test('should say how long until the appointment', () => {
+      expect(buildBookingReminderEmail(bookingData, 'en-US', 24).subject).toBe(
+        'Reminder: your Haircut appointment is in 24 hours'
+      );
+      expect(buildBookingReminderEmail(bookingData, 'pt-BR', 2).subject).toBe(
+        'Lembrete: seu agendamento de Haircut é em 2 horas'
+      );
+      expect(buildBookingReminderEmail(bookingData, 'it-IT', 1).subject).toBe(
+        'Promemoria: il tuo appuntamento per Haircut è tra 1 ora'
+      );
+    });
+  });
+
+  describe('Booking Update Template', () => {
+    test('should localize reschedule and cancellation emails', () => {
+      expect(buildBookingUpdateEmail(bookingData, 'cancelled', 'pt-BR').subject).toBe(
+        'Seu agendamento de Haircut foi cancelado'
+      );
+
+      const itIT = buildBookingUpdateEmail(bookingData, 'rescheduled', 'it-IT');
+      expect(itIT.subject).toBe('Il tuo appuntamento per Haircut è stato spostato');
+      expect(itIT.html).toContain('<html lang="it-IT">');
+      expect(itIT.html).toContain('Sposta o annulla');
+    });
+
+    test('should fall back to English without a locale', () => {
+      expect(buildBookingUpdateEmail(bookingData, 'cancelled', null).subject).toBe(
+        'Your Haircut appointment was cancelled'
+      );
+    });
+  });
+
+  describe('Seat Open Template', () => {
+    test('should localize the seat open email', () => {
+      const template = buildSessionSeatOpenEmail(bookingData, 'https://calendado.com/book', 'it-IT');
+      expect(template.subject).toBe('Si è liberato un posto in Haircut');
+      expect(template.html).toContain('Prenota il tuo posto');
+    });
+  });
+
+  describe('Waitlist Claim Template', () => {
+    test('should localize the claim email and say how long the time is held', () => {
+      const template = buildWaitlistClaimEmail(bookingData, 'https://calendado.com/claim', 60, 'pt-BR');
+      expect(template.subject).toBe('Abriu um horário para Haircut');
+      expect(template.html).toContain('reservado por 60 minutos');
+      expect(template.html).toContain('Agendar este horário');
+    });
   });
 
   describe('Type Definitions', () => {
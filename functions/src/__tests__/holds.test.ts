@@ -0,0 +1,49 @@
+import { Timestamp, type QuerySnapshot } from 'firebase-admin/firestore';
+import { getHoldExpiry, isHoldActive, toHoldBusyIntervals, SLOT_HOLD_MINUTES } from '../lib/holds';
+import type { SlotHoldDoc } from '../types/models';
+
+const NOW = new Date('2030-01-07T13:00:00Z');
+
+const minutesFromNow = (minutes: number) => Timestamp.fromDate(new Date(NOW.getTime() + minutes * 60000));
+
+const createHold = (overrides: Partial<SlotHoldDoc> = {}): SlotHoldDoc => ({
+  id: 'hold-1',
+  professionalId: 'pro-1',
+  date: '2030-01-07',
+  time: '10:00',
+  duration: 90,
+  expiresAt: minutesFromNow(5),
+  createdAt: minutesFromNow(-5),
+  ...overrides
+});
+
+const toSnapshot = (holds: SlotHoldDoc[]) =>
+  ({ docs: holds.map(hold => ({ id: hold.id, data: () => hold })) }) as unknown as QuerySnapshot;
+
+describe('Slot holds', () => {
+  it('should expire holds after the hold period', () => {
+    expect(getHoldExpiry(NOW).getTime() - NOW.getTime()).toBe(SLOT_HOLD_MINUTES * 60000);
+  });
+
+  it('should only count holds that have not expired', () => {
+    expect(isHoldActive(createHold(), NOW)).toBe(true);
+    expect(isHoldActive(createHold({ expiresAt: minutesFromNow(0) }), NOW)).toBe(false);
+    expect(isHoldActive(createHold({ expiresAt: minutesFromNow(-1) }), NOW)).toBe(false);
+  });
+
+  it('should treat active holds as busy for their whole duration', () => {
+    expect(toHoldBusyIntervals(toSnapshot([createHold()]), NOW)).toEqual([
+      { date: '2030-01-07', start: 600, end: 690 }
+    ]);
+  });
+
+  it('should leave out expired holds and the caller\'s own hold', () => {
+    const snapshot = toSnapshot([
+      createHold(),
+      createHold({ id: 'hold-2', time: '14:00' }),
+      createHold({ id: 'hold-3', time: '16:00', expiresAt: minutesFromNow(-1) })
+    ]);
+
+    expect(toHoldBusyIntervals(snapshot, NOW, 'hold-1')).toEqual([{ date: '2030-01-07', start: 840, end: 930 }]);
+  });
+});
@@ -0,0 +1,227 @@
+import ICAL from 'ical.js';
+import { generateICSContent, foldLine, getICSFileName, BookingData } from '../ics';
+
+const createBooking = (overrides: Partial<BookingData> = {}): BookingData => ({
+  id: 'booking-1',
+  serviceName: 'Haircut & Styling',
+  professionalName: 'Maria Silva',
+  customerName: 'John Doe',
+  customerEmail: 'john.doe@example.com',
+  appointmentDate: '2030-01-07',
+  appointmentTime: '10:00',
+  duration: 60,
+  timezone: 'America/Sao_Paulo',
+  organizerName: 'Glow Beauty Studio',
+  organizerEmail: 'hello@glowstudio.com',
+  location: 'Glow Beauty Studio, Rua A 1, Porto Alegre, RS',
+  ...overrides
+});
+
+/**
+ * Parse generated ICS content and register its VTIMEZONE so that
+ * TZID-qualified times resolve to the right instant
+ */
+const parse = (content: string) => {
+  const calendar = new ICAL.Component(ICAL.parse(content));
+  for (const vtimezone of calendar.getAllSubcomponents('vtimezone')) {
+    ICAL.TimezoneService.register(vtimezone);
+  }
+  const vevent = calendar.getFirstSubcomponent('vevent');
+  if (!vevent) {
+    throw new Error('No VEVENT in calendar');
+  }
+  return { calendar, vevent, event: new ICAL.Event(vevent) };
+};
+
+describe('ICS generation', () => {
+  afterEach(() => {
+    ICAL.TimezoneService.reset();
+  });
+
+  describe('timezones', () => {
+    it('should anchor the appointment to the store timezone', () => {
+      const { event, vevent } = parse(generateICSContent(createBooking()));
+
+      expect(vevent.getFirstProperty('dtstart')?.getParameter('tzid')).toBe('America/Sao_Paulo');
+      expect(event.startDate.toString()).toBe('2030-01-07T10:00:00');
+      // 10:00 in Sao Paulo (UTC-3) is 13:00 UTC, wherever the function runs
+      expect(event.startDate.toJSDate().toISOString()).toBe('2030-01-07T13:00:00.000Z');
+      expect(event.endDate.toJSDate().toISOString()).toBe('2030-01-07T14:00:00.000Z');
+    });
+
+    it('should include a VTIMEZONE matching the TZID', () => {
+      const { calendar } = parse(generateICSContent(createBooking()));
+      const vtimezone = calendar.getFirstSubcomponent('vtimezone');
+
+      expect(vtimezone?.getFirstPropertyValue('tzid')).toBe('America/Sao_Paulo');
+      expect(vtimezone?.getFirstSubcomponent('standard')?.getFirstPropertyValue('tzoffsetto')?.toString()).toBe(
+        '-03:00'
+      );
+    });
+
+    it('should resolve daylight saving time correctly', () => {
+      const summer = parse(
+        generateICSContent(createBooking({ timezone: 'America/New_York', appointmentDate: '2030-07-15' }))
+      );
+      expect(summer.event.startDate.toJSDate().toISOString()).toBe('2030-07-15T14:00:00.000Z');
+
+      ICAL.TimezoneService.reset();
+
+      const winter = parse(
+        generateICSContent(createBooking({ timezone: 'America/New_York', appointmentDate: '2030-12-02' }))
+      );
+      expect(winter.event.startDate.toJSDate().toISOString()).toBe('2030-12-02T15:00:00.000Z');
+    });
+
+    it('should describe both observances for zones with DST', () => {
+      const { calendar } = parse(
+        generateICSContent(createBooking({ timezone: 'Europe/Rome', appointmentDate: '2030-05-20' }))
+      );
+      const vtimezone = calendar.getFirstSubcomponent('vtimezone');
+
+      expect(vtimezone?.getAllSubcomponents('daylight').length).toBeGreaterThan(0);
+      expect(vtimezone?.getAllSubcomponents('standard').length).toBeGreaterThan(0);
+    });
+
+    it('should keep the wall-clock end time across a DST change', () => {
+      // Clocks in New York go forward at 02:00 on 2030-03-10
+      const { event } = parse(
+        generateICSContent(
+          createBooking({
+            timezone: 'America/New_York',
+            appointmentDate: '2030-03-10',
+            appointmentTime: '01:30',
+            duration: 60
+          })
+        )
+      );
+
+      expect(event.startDate.toJSDate().toISOString()).toBe('2030-03-10T06:30:00.000Z');
+      expect(event.endDate.toString()).toBe('2030-03-10T03:30:00');
+    });
+  });
+
+  describe('participants', () => {
+    it('should use the store contact email as organizer', () => {
+      const { event, calendar } = parse(generateICSContent(createBooking()));
+
+      expect(event.organizer).toBe('mailto:hello@glowstudio.com');
+      expect(calendar.getFirstPropertyValue('method')).toBe('REQUEST');
+    });
+
+    it('should list the customer as attendee', () => {
+      const { vevent } = parse(generateICSContent(createBooking()));
+      const attendee = vevent.getFirstProperty('attendee');
+
+      expect(attendee?.getFirstValue()).toBe('mailto:john.doe@example.com');
+      expect(attendee?.getParameter('cn')).toBe('John Doe');
+    });
+
+    it('should publish without an organizer when the store has no email', () => {
+      const { vevent, calendar } = parse(generateICSContent(createBooking({ organizerEmail: undefined })));
+
+      expect(vevent.getFirstProperty('organizer')).toBeNull();
+      expect(calendar.getFirstPropertyValue('method')).toBe('PUBLISH');
+    });
+  });
+
+  describe('updates', () => {
+    it('should carry the sequence number of the booking', () => {
+      const { event } = parse(generateICSContent(createBooking({ sequence: 2 })));
+      expect(event.sequence).toBe(2);
+    });
+
+    it('should emit a cancellation for cancelled bookings', () => {
+      const { vevent, calendar } = parse(generateICSContent(createBooking({ sequence: 1, cancelled: true })));
+
+      expect(calendar.getFirstPropertyValue('method')).toBe('CANCEL');
+      expect(vevent.getFirstPropertyValue('status')).toBe('CANCELLED');
+      expect(vevent.getFirstSubcomponent('valarm')).toBeNull();
+    });
+  });
+
+  describe('recurring series', () => {
+    const recurrence = {
+      seriesId: 'series-1',
+      rrule: 'FREQ=WEEKLY;INTERVAL=2;COUNT=3',
+      exdates: ['2030-01-21'],
+      lastDate: '2030-02-04'
+    };
+
+    it('should describe the series with RRULE and EXDATE', () => {
+      const { event, vevent } = parse(generateICSContent(createBooking({ recurrence })));
+
+      expect(event.uid).toBe('series-series-1@calendado.com');
+      expect(vevent.getFirstPropertyValue('rrule')?.toString()).toBe('FREQ=WEEKLY;COUNT=3;INTERVAL=2');
+
+      const exdate = vevent.getFirstProperty('exdate');
+      expect(exdate?.getParameter('tzid')).toBe('America/Sao_Paulo');
+      expect(exdate?.getFirstValue()?.toString()).toBe('2030-01-21T10:00:00');
+    });
+
+    it('should expand to the booked occurrences only', () => {
+      const { event, vevent } = parse(generateICSContent(createBooking({ recurrence })));
+      const excluded = vevent.getFirstProperty('exdate')?.getValues().map(String) || [];
+
+      const starts: string[] = [];
+      const iterator = event.iterator();
+      for (let next = iterator.next(); next; next = iterator.next()) {
+        starts.push(next.toString());
+      }
+
+      expect(starts.filter(start => !excluded.includes(start))).toEqual([
+        '2030-01-07T10:00:00',
+        '2030-02-04T10:00:00'
+      ]);
+    });
+
+    it('should omit EXDATE when every occurrence is booked', () => {
+      const { vevent } = parse(generateICSContent(createBooking({ recurrence: { ...recurrence, exdates: [] } })));
+      expect(vevent.getFirstProperty('exdate')).toBeNull();
+    });
+  });
+
+  describe('text and folding', () => {
+    it('should round-trip escaped text', () => {
+      const { event } = parse(
+        generateICSContent(createBooking({ location: 'Studio; Floor 2, Room "A"\nBack entrance' }))
+      );
+
+      expect(event.summary).toBe('Haircut & Styling - Maria Silva');
+      expect(event.location).toBe('Studio; Floor 2, Room "A"\nBack entrance');
+    });
+
+    it('should fold lines longer than 75 octets', () => {
+      const content = generateICSContent(createBooking({ description: 'Long description '.repeat(20) }));
+      const lines = content.split('\r\n');
+
+      for (const line of lines) {
+        expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+      }
+      expect(lines.some(line => line.startsWith(' '))).toBe(true);
+
+      const { event } = parse(content);
+      expect(event.description).toBe('Long description '.repeat(20));
+    });
+
+    it('should not split multi-byte characters when folding', () => {
+      const text = 'Atendimento com a profissional São João ção ção ção '.repeat(5);
+      const folded = foldLine(`DESCRIPTION:${text}`);
+
+      for (const line of folded.split('\r\n')) {
+        expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+      }
+      expect(folded.split('\r\n ').join('')).toBe(`DESCRIPTION:${text}`);
+    });
+
+    it('should leave short lines untouched', () => {
+      expect(foldLine('SUMMARY:Haircut')).toBe('SUMMARY:Haircut');
+    });
+  });
+
+  describe('getICSFileName', () => {
+    it('should build the file name from the appointment date and time', () => {
+      expect(getICSFileName(createBooking())).toBe('appointment-20300107-1000.ics');
+    });
+  });
+});
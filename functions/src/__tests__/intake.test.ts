@@ -0,0 +1,86 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { collectIntakeAnswers, getIntakeQuestions } from '../lib/intake';
+import type { IntakeQuestion, ServiceDoc } from '../types/models';
+
+const allergies: IntakeQuestion = { id: 'allergies', type: 'textarea', label: 'Allergies', required: false };
+const consent: IntakeQuestion = {
+  id: 'consent',
+  type: 'checkbox',
+  label: 'I consent to a patch test',
+  required: true
+};
+const placement: IntakeQuestion = {
+  id: 'placement',
+  type: 'select',
+  label: 'Placement',
+  required: true,
+  options: ['Arm', 'Leg', 'Back']
+};
+const reference: IntakeQuestion = { id: 'reference', type: 'photo', label: 'Reference photo', required: false };
+
+const questions = [allergies, consent, placement, reference];
+
+const createService = (id: string, intakeQuestions: IntakeQuestion[]) =>
+  ({ id, name: id, intakeQuestions }) as ServiceDoc;
+
+const expectInvalid = (answers: Record<string, string | boolean>, message: string) => {
+  expect(() => collectIntakeAnswers(questions, answers)).toThrow(HttpsError);
+  expect(() => collectIntakeAnswers(questions, answers)).toThrow(message);
+};
+
+describe('Intake questions', () => {
+  it('should ask a question shared by several services once', () => {
+    const services = [createService('color', [allergies, consent]), createService('cut', [allergies])];
+    expect(getIntakeQuestions(services)).toEqual([allergies, consent]);
+    expect(getIntakeQuestions([createService('wash', [])])).toEqual([]);
+  });
+
+  it('should store answers with the question as it was asked', () => {
+    const answers = collectIntakeAnswers(questions, {
+      placement: 'Arm',
+      consent: true,
+      allergies: '  Latex  ',
+      reference: 'intake/upload-123/photo'
+    });
+
+    expect(answers).toEqual([
+      { questionId: 'allergies', type: 'textarea', label: 'Allergies', value: 'Latex' },
+      { questionId: 'consent', type: 'checkbox', label: 'I consent to a patch test', value: true },
+      { questionId: 'placement', type: 'select', label: 'Placement', value: 'Arm' },
+      { questionId: 'reference', type: 'photo', label: 'Reference photo', value: 'intake/upload-123/photo' }
+    ]);
+  });
+
+  it('should leave out optional questions left blank and questions not asked', () => {
+    const answers = collectIntakeAnswers(questions, {
+      consent: true,
+      placement: 'Leg',
+      allergies: '',
+      other: 'x'
+    });
+    expect(answers.map(answer => answer.questionId)).toEqual(['consent', 'placement']);
+  });
+
+  it('should require answers to required questions', () => {
+    expectInvalid({ consent: true }, 'Placement is required');
+    expect(() => collectIntakeAnswers(questions, undefined)).toThrow(HttpsError);
+  });
+
+  it('should require consent checkboxes to be checked', () => {
+    expectInvalid({ consent: false, placement: 'Arm' }, 'I consent to a patch test must be checked');
+  });
+
+  it('should only accept the choices of a select question', () => {
+    expectInvalid({ consent: true, placement: 'Face' }, 'Placement is not one of the choices');
+  });
+
+  it('should only accept photos uploaded to the intake folder', () => {
+    for (const reference of ['https://example.com/a.jpg', 'intake/../bookings/a.jpg', 'intake/upload-123/a.jpg']) {
+      expectInvalid({ consent: true, placement: 'Arm', reference }, 'Reference photo is not an uploaded photo');
+    }
+  });
+
+  it('should accept no answers when no questions are asked', () => {
+    expect(collectIntakeAnswers([], undefined)).toEqual([]);
+  });
+});
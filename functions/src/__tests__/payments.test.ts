@@ -0,0 +1,156 @@
+import { getAmountDue, getNoShowRequirements, getRefundAmount, getPaymentProvider } from '../lib/payments';
+import { FakePaymentProvider } from '../lib/fakePaymentProvider';
+import type { BookingPayment, BookingServiceLine } from '../types/models';
+
+const cut: BookingServiceLine = { serviceId: 'cut', serviceName: 'Haircut', duration: 60, price: 50 };
+const color: BookingServiceLine = { serviceId: 'color', serviceName: 'Hair Coloring', duration: 120, price: 120 };
+
+const createPayment = (overrides: Partial<BookingPayment> = {}): BookingPayment => ({
+  provider: 'fake',
+  intentId: 'fake_pi_1',
+  mode: 'deposit',
+  amountDue: 20,
+  amountPaid: 20,
+  currency: 'USD',
+  status: 'paid',
+  ...overrides
+});
+
+describe('Booking payments', () => {
+  describe('getAmountDue', () => {
+    it('should not require payment without requirements', () => {
+      expect(getAmountDue([cut], undefined)).toBeNull();
+      expect(getAmountDue([cut], {})).toBeNull();
+    });
+
+    it('should charge a deposit, capped at the service price', () => {
+      expect(getAmountDue([cut], { cut: { mode: 'deposit', amount: 20 } })).toEqual({ amount: 20, mode: 'deposit' });
+      expect(getAmountDue([cut], { cut: { mode: 'deposit', amount: 80 } })).toEqual({ amount: 50, mode: 'deposit' });
+    });
+
+    it('should charge the full price for prepaid services', () => {
+      expect(getAmountDue([cut, color], { cut: { mode: 'full' }, color: { mode: 'full' } })).toEqual({
+        amount: 170,
+        mode: 'full'
+      });
+    });
+
+    it('should add up mixed requirements across services', () => {
+      expect(getAmountDue([cut, color], { cut: { mode: 'deposit', amount: 10.5 }, color: { mode: 'full' } })).toEqual({
+        amount: 130.5,
+        mode: 'deposit'
+      });
+    });
+  });
+
+  describe('getNoShowRequirements', () => {
+    const policy = { after: 2, requirement: { mode: 'deposit' as const, amount: 30 } };
+
+    it('should keep the store requirements below the no-show threshold', () => {
+      const requirements = { cut: { mode: 'deposit' as const, amount: 10 } };
+
+      expect(getNoShowRequirements([cut, color], requirements, policy, 1)).toBe(requirements);
+      expect(getNoShowRequirements([cut, color], requirements, undefined, 5)).toBe(requirements);
+    });
+
+    it('should ask repeat no-shows for the larger of the two deposits', () => {
+      const requirements = getNoShowRequirements(
+        [cut, color],
+        { cut: { mode: 'deposit', amount: 10 }, color: { mode: 'full' } },
+        policy,
+        2
+      );
+
+      expect(requirements).toEqual({ cut: policy.requirement, color: { mode: 'full' } });
+      expect(getAmountDue([cut, color], requirements)).toEqual({ amount: 150, mode: 'deposit' });
+      expect(getNoShowRequirements([cut], undefined, policy, 3)).toEqual({ cut: policy.requirement });
+    });
+  });
+
+  describe('getRefundAmount', () => {
+    const deadline = new Date('2030-01-06T13:00:00Z');
+
+    it('should refund everything paid before the cancellation window closes', () => {
+      expect(getRefundAmount(createPayment(), new Date('2030-01-06T12:00:00Z'), deadline)).toBe(20);
+    });
+
+    it('should keep the payment once the cancellation window has closed', () => {
+      expect(getRefundAmount(createPayment(), deadline, deadline)).toBe(0);
+    });
+
+    it('should not refund twice or refund unpaid bookings', () => {
+      const before = new Date('2030-01-06T12:00:00Z');
+      expect(getRefundAmount(createPayment({ refundedAmount: 20 }), before, deadline)).toBe(0);
+      expect(getRefundAmount(createPayment({ status: 'pending', amountPaid: 0 }), before, deadline)).toBe(0);
+      expect(getRefundAmount(undefined, before, deadline)).toBe(0);
+    });
+  });
+
+  describe('FakePaymentProvider', () => {
+    const provider = new FakePaymentProvider('test-webhook-secret');
+
+    it('should be the default provider in tests', () => {
+      expect(getPaymentProvider('test-webhook-secret')).toBeInstanceOf(FakePaymentProvider);
+    });
+
+    it('should not take payments outside the emulator and tests', () => {
+      const env = { ...process.env };
+      try {
+        process.env.NODE_ENV = 'production';
+        delete process.env.FUNCTIONS_EMULATOR;
+        delete process.env.PAYMENT_PROVIDER;
+        expect(getPaymentProvider('test-webhook-secret')).toBeNull();
+
+        process.env.PAYMENT_PROVIDER = 'fake';
+        expect(() => getPaymentProvider('test-webhook-secret')).toThrow('only runs in the emulator and tests');
+
+        process.env.FUNCTIONS_EMULATOR = 'true';
+        expect(getPaymentProvider('test-webhook-secret')).toBeInstanceOf(FakePaymentProvider);
+      } finally {
+        process.env = env;
+      }
+    });
+
+    it('should create intents for the requested amount', async () => {
+      const intent = await provider.createIntent({
+        bookingId: 'booking-1',
+        amount: 20,
+        currency: 'USD',
+        description: 'Haircut'
+      });
+
+      expect(intent.id).toMatch(/^fake_pi_/);
+      expect(intent.clientSecret).toContain(intent.id);
+      expect(intent).toMatchObject({ amount: 20, currency: 'USD' });
+    });
+
+    it('should accept its own signed webhook events', () => {
+      const delivery = provider.createWebhookEvent({
+        type: 'payment.succeeded',
+        intentId: 'fake_pi_1',
+        bookingId: 'booking-1',
+        amount: 20
+      });
+
+      expect(provider.parseWebhookEvent(delivery.payload, delivery.signature)).toMatchObject({
+        type: 'payment.succeeded',
+        intentId: 'fake_pi_1',
+        bookingId: 'booking-1',
+        amount: 20
+      });
+    });
+
+    it('should reject tampered or unsigned webhook events', () => {
+      const delivery = provider.createWebhookEvent({
+        type: 'payment.succeeded',
+        intentId: 'fake_pi_1',
+        bookingId: 'booking-1',
+        amount: 1
+      });
+
+      expect(provider.parseWebhookEvent(delivery.payload.replace('"amount":1', '"amount":100'), delivery.signature)).toBeNull();
+      expect(provider.parseWebhookEvent(delivery.payload, undefined)).toBeNull();
+      expect(new FakePaymentProvider('other-secret').parseWebhookEvent(delivery.payload, delivery.signature)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  DEFAULT_BOOKING_POLICY,
+  combineServicePolicies,
+  resolveBookingPolicy,
+  toPolicyOverrides
+} from '../lib/policies';
+import type { BookingPolicySettings, OrgDoc, ProfessionalDoc, ServiceDoc, StoreDoc } from '../types/models';
+
+const withSettings = <T>(bookingSettings: BookingPolicySettings) => ({ settings: { bookingSettings } }) as T;
+const createService = (id: string, bookingSettings?: BookingPolicySettings) =>
+  ({ id, name: id, ...(bookingSettings ? { bookingSettings } : {}) }) as ServiceDoc;
+
+describe('Booking policies', () => {
+  it('should fall back to the defaults when nothing is set', () => {
+    expect(resolveBookingPolicy({})).toEqual(DEFAULT_BOOKING_POLICY);
+  });
+
+  it('should let the most specific level win', () => {
+    const policy = resolveBookingPolicy({
+      org: withSettings<OrgDoc>({ advanceBookingDays: 90, minLeadTimeMinutes: 60, cancellationHours: 48 }),
+      store: withSettings<StoreDoc>({ advanceBookingDays: 60, minLeadTimeMinutes: 30 }),
+      professional: withSettings<ProfessionalDoc>({ advanceBookingDays: 14 }),
+      services: [createService('color', { slotInterval: 15 })]
+    });
+
+    expect(policy).toEqual({
+      ...DEFAULT_BOOKING_POLICY,
+      advanceBookingDays: 14,
+      minLeadTimeMinutes: 30,
+      cancellationHours: 48,
+      slotInterval: 15
+    });
+  });
+
+  it('should let a service override the professional and store', () => {
+    const policy = resolveBookingPolicy({
+      store: withSettings<StoreDoc>({ minLeadTimeMinutes: 0 }),
+      professional: withSettings<ProfessionalDoc>({ minLeadTimeMinutes: 30 }),
+      services: [createService('massage', { minLeadTimeMinutes: 120 })]
+    });
+
+    expect(policy.minLeadTimeMinutes).toBe(120);
+  });
+
+  it('should read the single buffer of older settings as the after buffer', () => {
+    expect(toPolicyOverrides({ advanceBookingDays: 30, cancellationHours: 24, bufferTime: 15 })).toEqual({
+      advanceBookingDays: 30,
+      cancellationHours: 24,
+      bufferAfter: 15
+    });
+    expect(toPolicyOverrides({ bufferTime: 15, bufferAfter: 5 })).toEqual({ bufferAfter: 5 });
+  });
+
+  it('should take the strictest policy of services booked together', () => {
+    const services = [
+      createService('cut', { advanceBookingDays: 60, minLeadTimeMinutes: 60, slotInterval: 15 }),
+      createService('color', { advanceBookingDays: 30, bufferAfter: 15, slotInterval: 30 }),
+      createService('wash')
+    ];
+
+    expect(combineServicePolicies(services)).toEqual({
+      advanceBookingDays: 30,
+      minLeadTimeMinutes: 60,
+      bufferAfter: 15,
+      slotInterval: 30
+    });
+  });
+});
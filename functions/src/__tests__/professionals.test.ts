@@ -0,0 +1,14 @@
+import { normalizeSpecialties } from '../lib/professionals';
+
+describe('Professional profiles', () => {
+  it('should trim specialties and drop empty ones', () => {
+    expect(normalizeSpecialties(['  Hair Cutting ', '', '   ', 'Hair   Coloring'])).toEqual([
+      'Hair Cutting',
+      'Hair Coloring'
+    ]);
+  });
+
+  it('should keep the first spelling of repeated specialties', () => {
+    expect(normalizeSpecialties(['Balayage', 'Updos', 'balayage', 'UPDOS'])).toEqual(['Balayage', 'Updos']);
+  });
+});
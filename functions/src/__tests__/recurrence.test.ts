@@ -0,0 +1,91 @@
+import { expandRecurrence, toRRule, checkOccurrences, isSeriesEmpty, MAX_OCCURRENCES } from '../lib/recurrence';
+import type { AvailabilityInput } from '../lib/availability';
+
+// 2030-01-07 is a Monday
+const MONDAY = '2030-01-07';
+
+const weekdaySchedule = { start: '09:00', end: '12:00', available: true };
+const dayOff = { start: '09:00', end: '17:00', available: false };
+
+const createInput = (overrides: Partial<AvailabilityInput> = {}): Omit<AvailabilityInput, 'startDate' | 'endDate'> => ({
+  professionalId: 'pro-1',
+  availability: {
+    monday: weekdaySchedule,
+    tuesday: weekdaySchedule,
+    wednesday: weekdaySchedule,
+    thursday: weekdaySchedule,
+    friday: weekdaySchedule,
+    saturday: dayOff,
+    sunday: dayOff
+  },
+  operatingHours: null,
+  durationMin: 60,
+  bufferBefore: 0,
+  bufferAfter: 0,
+  advanceBookingDays: 30,
+  timezone: 'UTC',
+  now: new Date('2030-01-06T12:00:00Z'),
+  busy: [],
+  ...overrides
+});
+
+describe('Recurring appointments', () => {
+  describe('expandRecurrence', () => {
+    it('should repeat weekly for the given count', () => {
+      expect(expandRecurrence(MONDAY, { interval: 1, count: 3 })).toEqual(['2030-01-07', '2030-01-14', '2030-01-21']);
+    });
+
+    it('should repeat every N weeks up to the end date', () => {
+      expect(expandRecurrence(MONDAY, { interval: 2, until: '2030-02-04' })).toEqual([
+        '2030-01-07',
+        '2030-01-21',
+        '2030-02-04'
+      ]);
+      expect(expandRecurrence(MONDAY, { interval: 2, until: '2030-02-03' })).toEqual(['2030-01-07', '2030-01-21']);
+    });
+
+    it('should cap long series', () => {
+      expect(expandRecurrence(MONDAY, { interval: 1, until: '2035-01-01' })).toHaveLength(MAX_OCCURRENCES);
+    });
+  });
+
+  describe('toRRule', () => {
+    it('should spell out the number of occurrences', () => {
+      const rule = { interval: 2, until: '2030-02-04' };
+      expect(toRRule(rule, expandRecurrence(MONDAY, rule))).toBe('FREQ=WEEKLY;INTERVAL=2;COUNT=3');
+    });
+  });
+
+  describe('checkOccurrences', () => {
+    const dates = expandRecurrence(MONDAY, { interval: 1, count: 3 });
+
+    it('should flag occurrences that collide with existing bookings', () => {
+      const input = createInput({ busy: [{ date: '2030-01-14', start: 600, end: 660 }] });
+
+      expect(checkOccurrences(input, dates, '10:00')).toEqual([
+        { date: '2030-01-07', available: true },
+        { date: '2030-01-14', available: false },
+        { date: '2030-01-21', available: true }
+      ]);
+    });
+
+    it('should let the series run past the advance booking window, but not start beyond it', () => {
+      const input = createInput({ advanceBookingDays: 3 });
+
+      expect(checkOccurrences(input, dates, '10:00').map(occurrence => occurrence.available)).toEqual([
+        true,
+        true,
+        true
+      ]);
+      expect(checkOccurrences(input, ['2030-01-14', '2030-01-21'], '10:00')[0].available).toBe(false);
+    });
+  });
+
+  describe('isSeriesEmpty', () => {
+    it('should only be empty once every occurrence is left out', () => {
+      const occurrences = ['2030-01-07', '2030-01-14'];
+      expect(isSeriesEmpty({ occurrences, exdates: ['2030-01-07'] })).toBe(false);
+      expect(isSeriesEmpty({ occurrences, exdates: ['2030-01-14', '2030-01-07'] })).toBe(true);
+    });
+  });
+});
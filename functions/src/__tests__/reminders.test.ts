@@ -0,0 +1,112 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import {
+  getReminderOffsets,
+  getReminderKey,
+  getDueReminders,
+  DEFAULT_REMINDER_OFFSETS,
+  REMINDER_CLAIM_MINUTES
+} from '../lib/reminders';
+import type { BookingDoc, StoreDoc } from '../types/models';
+
+// Appointment at 10:00 in Sao Paulo (UTC-3), i.e. 13:00 UTC
+const APPOINTMENT_START = new Date('2030-01-07T13:00:00Z');
+
+const hoursBefore = (hours: number) => new Date(APPOINTMENT_START.getTime() - hours * 3600000);
+
+const createBooking = (overrides: Partial<BookingDoc> = {}): BookingDoc => ({
+  id: 'booking-1',
+  orgId: 'org-1',
+  storeId: 'store-1',
+  professionalId: 'pro-1',
+  serviceId: 'service-1',
+  serviceName: 'Haircut',
+  price: 50,
+  date: '2030-01-07',
+  time: '10:00',
+  duration: 60,
+  timezone: 'America/Sao_Paulo',
+  customer: { firstName: 'John', lastName: 'Doe', email: 'john@example.com', phone: '+5551999999999' },
+  status: 'confirmed',
+  confirmedAt: Timestamp.fromDate(hoursBefore(24 * 7)),
+  createdAt: Timestamp.fromDate(hoursBefore(24 * 7)),
+  updatedAt: Timestamp.fromDate(hoursBefore(24 * 7)),
+  ...overrides
+});
+
+const createStore = (reminderOffsets?: unknown): StoreDoc =>
+  ({
+    id: 'store-1',
+    settings: {
+      bookingSettings: { advanceBookingDays: 30, cancellationHours: 24, bufferTime: 0, reminderOffsets }
+    }
+  }) as StoreDoc;
+
+describe('Booking reminders', () => {
+  describe('getReminderOffsets', () => {
+    it('should default to 24h and 2h', () => {
+      expect(getReminderOffsets(null)).toEqual(DEFAULT_REMINDER_OFFSETS);
+      expect(getReminderOffsets(createStore())).toEqual([24, 2]);
+    });
+
+    it('should sort, dedupe and drop invalid offsets', () => {
+      expect(getReminderOffsets(createStore([1, 48, 'x', 48, -2, 0, 1.5, 500]))).toEqual([48, 1]);
+    });
+
+    it('should allow turning reminders off', () => {
+      expect(getReminderOffsets(createStore([]))).toEqual([]);
+    });
+  });
+
+  describe('getDueReminders', () => {
+    it('should not send anything before the first offset', () => {
+      expect(getDueReminders(createBooking(), [24, 2], hoursBefore(25))).toEqual([]);
+    });
+
+    it('should send a reminder once its offset is reached', () => {
+      expect(getDueReminders(createBooking(), [24, 2], hoursBefore(23))).toEqual([24]);
+      expect(getDueReminders(createBooking(), [24, 2], hoursBefore(1))).toEqual([2, 24]);
+    });
+
+    it('should skip reminders already recorded on the booking', () => {
+      const booking = createBooking({
+        comms: {
+          reminders: {
+            [getReminderKey(24)]: { sent: true, sentAt: null, messageId: 'msg-1', error: null }
+          }
+        }
+      });
+
+      expect(getDueReminders(booking, [24, 2], hoursBefore(23))).toEqual([]);
+      expect(getDueReminders(booking, [24, 2], hoursBefore(1))).toEqual([2]);
+    });
+
+    it('should skip reminders that were due before the booking was confirmed', () => {
+      const booking = createBooking({ confirmedAt: Timestamp.fromDate(hoursBefore(3)) });
+      expect(getDueReminders(booking, [24, 2], hoursBefore(1))).toEqual([2]);
+    });
+
+    it('should skip reminders being sent, until their claim goes stale', () => {
+      const claimedAt = (hours: number) => Timestamp.fromDate(hoursBefore(hours));
+      const claim = { sent: false, sentAt: null, messageId: null, error: null };
+      const booking = (hours: number) =>
+        createBooking({ comms: { reminders: { [getReminderKey(24)]: { ...claim, claimedAt: claimedAt(hours) } } } });
+      const staleAfter = 23 - REMINDER_CLAIM_MINUTES / 60;
+
+      expect(getDueReminders(booking(23), [24, 2], hoursBefore(23))).toEqual([]);
+      expect(getDueReminders(booking(23), [24, 2], hoursBefore(staleAfter))).toEqual([24]);
+    });
+
+    it('should work reminders out from the last reschedule', () => {
+      const booking = createBooking({ rescheduledAt: Timestamp.fromDate(hoursBefore(3)) });
+      expect(getDueReminders(booking, [24, 2], hoursBefore(1))).toEqual([2]);
+    });
+
+    it('should not send reminders once the appointment has started', () => {
+      expect(getDueReminders(createBooking(), [24, 2], APPOINTMENT_START)).toEqual([]);
+    });
+
+    it('should only remind confirmed bookings', () => {
+      expect(getDueReminders(createBooking({ status: 'cancelled' }), [24, 2], hoursBefore(1))).toEqual([]);
+    });
+  });
+});
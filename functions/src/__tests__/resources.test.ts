@@ -0,0 +1,95 @@
+import { Timestamp, type QuerySnapshot } from 'firebase-admin/firestore';
+import { getRequiredResources, toHoldResourceUsage, toResourceUsage } from '../lib/resources';
+import type { BookingDoc, ServiceDoc, SlotHoldDoc, StoreDoc } from '../types/models';
+
+const NOW = new Date('2030-01-07T13:00:00Z');
+
+const createService = (id: string, requiredResources?: string[]): ServiceDoc => ({
+  id,
+  orgId: 'org-1',
+  name: id,
+  slug: id,
+  durationMin: 60,
+  price: 50,
+  ...(requiredResources ? { requiredResources } : {}),
+  active: true,
+  createdAt: Timestamp.fromDate(NOW),
+  updatedAt: Timestamp.fromDate(NOW),
+  createdBy: 'user-1'
+});
+
+const store = {
+  id: 'store-1',
+  resources: [
+    { id: 'massage-room', name: 'Massage room', quantity: 2 },
+    { id: 'chair', name: 'Styling chair', quantity: 5 }
+  ]
+} as StoreDoc;
+
+const toSnapshot = (bookings: Partial<BookingDoc>[] | Partial<SlotHoldDoc>[]) =>
+  ({ docs: bookings.map(booking => ({ id: booking.id, data: () => booking })) }) as unknown as QuerySnapshot;
+
+describe('Store resources', () => {
+  it('should list every resource the services require once', () => {
+    const services = [createService('massage', ['massage-room']), createService('facial', ['massage-room'])];
+
+    expect(getRequiredResources(store, services)).toEqual([
+      { id: 'massage-room', name: 'Massage room', quantity: 2 }
+    ]);
+    expect(getRequiredResources(store, [createService('consultation')])).toEqual([]);
+  });
+
+  it('should treat resources the store does not have as unavailable', () => {
+    expect(getRequiredResources(store, [createService('sauna', ['sauna'])])).toEqual([
+      { id: 'sauna', name: 'sauna', quantity: 0 }
+    ]);
+  });
+
+  it('should not constrain solo professionals', () => {
+    expect(getRequiredResources(null, [createService('massage', ['massage-room'])])).toEqual([]);
+  });
+
+  it('should convert the units bookings took into usage', () => {
+    const snapshot = toSnapshot([
+      {
+        id: 'booking-1',
+        date: '2030-01-07',
+        time: '10:00',
+        duration: 90,
+        resources: [{ resourceId: 'massage-room', name: 'Massage room', unit: 2 }]
+      },
+      { id: 'booking-2', date: '2030-01-07', time: '11:00', duration: 60 },
+      {
+        id: 'booking-3',
+        date: '2030-01-07',
+        time: '12:00',
+        duration: 60,
+        resources: [{ resourceId: 'massage-room', name: 'Massage room', unit: 1 }]
+      }
+    ]);
+
+    expect(toResourceUsage(snapshot, 'booking-3')).toEqual([
+      { date: '2030-01-07', start: 600, end: 690, resourceId: 'massage-room', unit: 2 }
+    ]);
+  });
+
+  it('should count the units active holds took, except the caller\'s own hold', () => {
+    const createHold = (id: string, time: string, unit: number, expiresInMinutes: number): Partial<SlotHoldDoc> => ({
+      id,
+      date: '2030-01-07',
+      time,
+      duration: 60,
+      resources: [{ resourceId: 'massage-room', name: 'Massage room', unit }],
+      expiresAt: Timestamp.fromDate(new Date(NOW.getTime() + expiresInMinutes * 60000))
+    });
+    const snapshot = toSnapshot([
+      createHold('hold-1', '14:00', 1, 5),
+      createHold('hold-2', '15:00', 2, -1),
+      createHold('hold-3', '16:00', 2, 5)
+    ]);
+
+    expect(toHoldResourceUsage(snapshot, NOW, 'hold-3')).toEqual([
+      { date: '2030-01-07', start: 840, end: 900, resourceId: 'massage-room', unit: 1 }
+    ]);
+  });
+});
@@ -343,6 +343,25 @@ describe('Firestore Security Rules', () => {
         })
       ).rejects.toThrow();
     });
+
+    test('professional can read but not write services', async () => {
+      const adminDb = testEnv.authenticatedContext('platform-admin-123', mockPlatformAdminToken).firestore();
+      await adminDb.collection('orgs').doc('org-123').collection('services').doc('service-123').set({
+        id: 'service-123',
+        orgId: 'org-123',
+        name: 'Haircut',
+        durationMin: 60,
+        price: 50,
+        active: true
+      });
+
+      const db = testEnv.authenticatedContext('professional-123', mockProfessionalToken).firestore();
+      const services = db.collection('orgs').doc('org-123').collection('services');
+
+      const doc = await services.doc('service-123').get();
+      expect(doc.exists).toBe(true);
+      await expect(services.doc('service-123').update({ price: 10 })).rejects.toThrow();
+    });
   });
 
   describe('Professional Access Control', () => {
@@ -390,6 +409,60 @@ describe('Firestore Security Rules', () => {
       ).rejects.toThrow();
     });
 
+    test('professional cannot hand their profile to another user', async () => {
+      const db = testEnv.authenticatedContext('professional-123', mockProfessionalToken).firestore();
+
+      await expect(
+        db.collection('orgs').doc('org-123').collection('professionals').doc('professional-123').update({
+          userId: 'other-user-123'
+        })
+      ).rejects.toThrow();
+    });
+
+    test('professional cannot change their slug', async () => {
+      const db = testEnv.authenticatedContext('professional-123', mockProfessionalToken).firestore();
+
+      await expect(
+        db.collection('orgs').doc('org-123').collection('professionals').doc('professional-123').update({
+          slug: 'someone-else'
+        })
+      ).rejects.toThrow();
+    });
+
+    test('professional can read own profile but not other profiles', async () => {
+      const adminDb = testEnv.authenticatedContext('platform-admin-123', mockPlatformAdminToken).firestore();
+      await adminDb.collection('orgs').doc('org-123').collection('professionals').doc('other-professional').set({
+        ...mockProfessionalData,
+        id: 'other-professional',
+        userId: 'other-user-123'
+      });
+
+      const db = testEnv.authenticatedContext('professional-123', mockProfessionalToken).firestore();
+      const professionals = db.collection('orgs').doc('org-123').collection('professionals');
+
+      await expect(professionals.doc('professional-123').get()).resolves.toBeDefined();
+      await expect(professionals.doc('other-professional').get()).rejects.toThrow();
+    });
+
+    test('professional can only read their own bookings', async () => {
+      const adminDb = testEnv.authenticatedContext('platform-admin-123', mockPlatformAdminToken).firestore();
+      await adminDb.collection('orgs').doc('org-123').collection('professionals').doc('other-professional').set({
+        ...mockProfessionalData,
+        id: 'other-professional',
+        userId: 'other-user-123'
+      });
+      await testEnv.withSecurityRulesDisabled(async context => {
+        const bookings = context.firestore().collection('bookings');
+        await bookings.doc('own-booking').set({ orgId: 'org-123', professionalId: 'professional-123' });
+        await bookings.doc('other-booking').set({ orgId: 'org-123', professionalId: 'other-professional' });
+      });
+
+      const db = testEnv.authenticatedContext('professional-123', mockProfessionalToken).firestore();
+
+      await expect(db.collection('bookings').doc('own-booking').get()).resolves.toBeDefined();
+      await expect(db.collection('bookings').doc('other-booking').get()).rejects.toThrow();
+    });
+
     test('org admin can update any professional profile', async () => {
       const db = testEnv.authenticatedContext('org-admin-123', mockOrgAdminToken).firestore();
       
@@ -0,0 +1,117 @@
+import { Timestamp, type QuerySnapshot } from 'firebase-admin/firestore';
+import {
+  getClassService,
+  getSeatsLeft,
+  isClassService,
+  isSessionUpcoming,
+  toSessionBusyIntervals,
+  toSessionSlots
+} from '../lib/sessions';
+import type { ClassSessionDoc, ServiceDoc } from '../types/models';
+
+// Monday 2030-01-07, 10:00 in America/Sao_Paulo
+const NOW = new Date('2030-01-07T13:00:00Z');
+
+const createService = (overrides: Partial<ServiceDoc> = {}): ServiceDoc => ({
+  id: 'service-1',
+  orgId: 'org-1',
+  name: 'Haircut',
+  slug: 'haircut',
+  durationMin: 60,
+  price: 50,
+  active: true,
+  createdAt: Timestamp.fromDate(NOW),
+  updatedAt: Timestamp.fromDate(NOW),
+  createdBy: 'user-1',
+  ...overrides
+});
+
+const createSession = (overrides: Partial<ClassSessionDoc> = {}): ClassSessionDoc => ({
+  id: 'session-1',
+  orgId: 'org-1',
+  serviceId: 'yoga',
+  professionalId: 'pro-1',
+  storeId: null,
+  date: '2030-01-07',
+  time: '18:00',
+  duration: 60,
+  timezone: 'America/Sao_Paulo',
+  capacity: 12,
+  seatsBooked: 0,
+  status: 'scheduled',
+  createdAt: Timestamp.fromDate(NOW),
+  updatedAt: Timestamp.fromDate(NOW),
+  createdBy: 'user-1',
+  ...overrides
+});
+
+const toSnapshot = (sessions: ClassSessionDoc[]) =>
+  ({ docs: sessions.map(session => ({ id: session.id, data: () => session })) }) as unknown as QuerySnapshot;
+
+describe('Class sessions', () => {
+  const yoga = createService({ id: 'yoga', name: 'Yoga', capacity: 12 });
+
+  it('should treat services with a capacity as classes', () => {
+    expect(isClassService(yoga)).toBe(true);
+    expect(isClassService(createService())).toBe(false);
+  });
+
+  it('should only book classes on their own', () => {
+    expect(getClassService([yoga])).toBe(yoga);
+    expect(getClassService([createService()])).toBeNull();
+    expect(() => getClassService([createService(), yoga])).toThrow('Classes must be booked on their own');
+  });
+
+  it('should count the seats left, never below zero', () => {
+    expect(getSeatsLeft(createSession({ seatsBooked: 5 }))).toBe(7);
+    expect(getSeatsLeft(createSession({ seatsBooked: 12 }))).toBe(0);
+    expect(getSeatsLeft(createSession({ capacity: 8, seatsBooked: 10 }))).toBe(0);
+  });
+
+  it('should only offer scheduled sessions that have not started', () => {
+    expect(isSessionUpcoming(createSession(), NOW)).toBe(true);
+    expect(isSessionUpcoming(createSession({ time: '10:00' }), NOW)).toBe(false);
+    expect(isSessionUpcoming(createSession({ date: '2030-01-06' }), NOW)).toBe(false);
+    expect(isSessionUpcoming(createSession({ status: 'cancelled' }), NOW)).toBe(false);
+  });
+
+  it('should list sessions as slots with their seats left, full ones unavailable', () => {
+    const slots = toSessionSlots(
+      [
+        createSession({ id: 'session-2', date: '2030-01-08', seatsBooked: 12 }),
+        createSession({ seatsBooked: 9 }),
+        createSession({ id: 'session-3', time: '09:00' })
+      ],
+      NOW
+    );
+
+    expect(slots).toEqual([
+      {
+        id: 'session-1',
+        date: '2030-01-07',
+        time: '18:00',
+        duration: 60,
+        available: true,
+        professionalId: 'pro-1',
+        sessionId: 'session-1',
+        seatsLeft: 3
+      },
+      {
+        id: 'session-2',
+        date: '2030-01-08',
+        time: '18:00',
+        duration: 60,
+        available: false,
+        professionalId: 'pro-1',
+        sessionId: 'session-2',
+        seatsLeft: 0
+      }
+    ]);
+  });
+
+  it('should keep the professional busy for every session they teach', () => {
+    expect(toSessionBusyIntervals(toSnapshot([createSession()]))).toEqual([
+      { date: '2030-01-07', start: 1080, end: 1140 }
+    ]);
+  });
+});
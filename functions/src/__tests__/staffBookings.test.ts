@@ -0,0 +1,43 @@
+import { findOrgCustomers, matchesCustomer } from '../lib/staffBookings';
+import type { BookingDoc } from '../types/models';
+
+const createBooking = (id: string, customer: Partial<BookingDoc['customer']> = {}): BookingDoc =>
+  ({
+    id,
+    orgId: 'org-1',
+    customer: {
+      firstName: 'Ana',
+      lastName: 'Silva',
+      email: 'ana@example.com',
+      phone: '+1 (555) 123-4567',
+      ...customer
+    }
+  }) as BookingDoc;
+
+describe('Staff bookings', () => {
+  it('should match customers by name, email or phone number', () => {
+    const customer = { firstName: 'Ana', lastName: 'Silva', email: 'ana@example.com', phone: '+1 (555) 123-4567' };
+
+    expect(matchesCustomer(customer, 'ana sil')).toBe(true);
+    expect(matchesCustomer(customer, 'EXAMPLE.com')).toBe(true);
+    expect(matchesCustomer(customer, '555-123')).toBe(true);
+    expect(matchesCustomer(customer, '55')).toBe(false);
+    expect(matchesCustomer(customer, 'bruno')).toBe(false);
+    expect(matchesCustomer(customer, '  ')).toBe(false);
+  });
+
+  it('should list each customer once with their latest details', () => {
+    const bookings = [
+      createBooking('booking-1', { email: 'ANA@example.com', phone: '555 000 1111' }),
+      createBooking('booking-2'),
+      createBooking('booking-3', { firstName: 'Anabel', email: 'anabel@example.com' }),
+      createBooking('booking-4', { firstName: 'Bruno', email: 'bruno@example.com' })
+    ];
+
+    expect(findOrgCustomers(bookings, 'ana')).toEqual([
+      { firstName: 'Ana', lastName: 'Silva', email: 'ana@example.com', phone: '555 000 1111' },
+      { firstName: 'Anabel', lastName: 'Silva', email: 'anabel@example.com', phone: '+1 (555) 123-4567' }
+    ]);
+    expect(findOrgCustomers(bookings, 'ana', 1)).toHaveLength(1);
+  });
+});
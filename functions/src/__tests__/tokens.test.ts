@@ -1,11 +1,13 @@
 /**
  * Unit tests for token functions
  * 
- * These are stub tests that verify the basic structure and types.
+ * Most of these are stub tests that verify the basic structure and types.
+ * Booking tokens are signed and checked for real, with a test secret.
  * Full integration testing should be done with the Firebase emulator.
  */
 
-import { describe, test, expect } from '@jest/globals';
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import type { Request, Response } from 'express';
 import { 
   createInviteToken, 
   createPasswordResetToken, 
@@ -13,8 +15,15 @@ import {
   extractTokenFromUrl,
   isTokenExpired,
   getTokenExpiration,
-  createShortLivedToken
+  createShortLivedToken,
+  createBookingToken,
+  validateBookingToken
 } from '../tokens';
+import { handleICSRequest } from '../ics';
+
+jest.mock('firebase-functions/params', () => ({
+  defineSecret: () => ({ value: () => 'test-secret' })
+}));
 
 describe('Token Functions', () => {
   describe('Function Exports', () => {
@@ -52,6 +61,16 @@ describe('Token Functions', () => {
       expect(createShortLivedToken).toBeDefined();
       expect(typeof createShortLivedToken).toBe('function');
     });
+
+    test('should export createBookingToken function', () => {
+      expect(createBookingToken).toBeDefined();
+      expect(typeof createBookingToken).toBe('function');
+    });
+
+    test('should export validateBookingToken function', () => {
+      expect(validateBookingToken).toBeDefined();
+      expect(typeof validateBookingToken).toBe('function');
+    });
   });
 
   describe('Type Definitions', () => {
@@ -61,5 +80,51 @@ describe('Token Functions', () => {
       expect(true).toBe(true);
     });
   });
-});
 
+  describe('Booking tokens', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should accept a token for the booking and purpose it was issued for', () => {
+      const { token } = createBookingToken('booking-1', 'manage');
+
+      const result = validateBookingToken(token as string, 'manage');
+
+      expect(result.valid).toBe(true);
+      expect(result.payload).toMatchObject({ bookingId: 'booking-1', purpose: 'manage' });
+    });
+
+    test('should reject a calendar token used to manage the booking', () => {
+      const { token } = createBookingToken('booking-1', 'ics');
+
+      expect(validateBookingToken(token as string, 'manage')).toEqual({
+        valid: false,
+        error: 'Invalid token payload'
+      });
+    });
+
+    test('should reject an expired token', () => {
+      jest.useFakeTimers({ now: new Date('2030-01-07T13:00:00Z') });
+      const { token } = createBookingToken('booking-1', 'manage', 1);
+
+      jest.setSystemTime(new Date('2030-01-08T13:00:01Z'));
+
+      expect(validateBookingToken(token as string, 'manage')).toEqual({
+        valid: false,
+        error: 'Token has expired'
+      });
+    });
+
+    test('should not serve the calendar file of another booking', async () => {
+      const { token } = createBookingToken('booking-1', 'ics');
+      const req = { method: 'GET', path: '/api/bookings/booking-2/ics', query: { token } } as unknown as Request;
+      const res = { status: jest.fn().mockReturnThis(), json: jest.fn(), send: jest.fn() };
+
+      await handleICSRequest(req, res as unknown as Response);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Availability Cloud Functions
+ *
+ * Exposes the availability engine to the booking wizard. Slots are computed
+ * server-side so customers never need read access to other people's bookings.
+ */
+
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { z } from 'zod';
+import { computeAvailableSlots, mergeSlots, addDays, type AvailabilitySlot } from './lib/availability';
+import {
+  loadScheduleContext,
+  loadScheduleContexts,
+  loadBusyIntervals,
+  loadResourceUsage,
+  buildAvailabilityInput,
+  ANY_PROFESSIONAL
+} from './lib/schedule';
+import { expandRecurrence, checkOccurrences, type OccurrenceAvailability } from './lib/recurrence';
+import { getClassService, classSessionsQuery, toSessionSlots } from './lib/sessions';
+import type { BookingPolicy, ClassSessionDoc } from './types/models';
+import { SlotRequestSchema, RecurrenceSchema } from './bookings';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 62;
+
+export interface GetAvailabilityRequest {
+  orgId?: string; // the brand's ID or slug
+  professionalId: string; // or ANY_PROFESSIONAL, which requires the brand and store
+  serviceIds: string[]; // in the order they're performed
+  storeId?: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  holdId?: string; // the customer's hold, such as a waitlist claim, whose slot shows as free
+}
+
+export interface GetAvailabilityResponse {
+  success: boolean;
+  timezone: string;
+  slots: AvailabilitySlot[];
+  policy: BookingPolicy; // for any professional, the first one's
+}
+
+/**
+ * Gets the available booking slots for a professional and services
+ *
+ * Multiple services are performed back to back, so a slot is only offered
+ * when the professional is free for their combined duration. With "any
+ * professional" the schedules of everyone at the store offering the
+ * services are merged.
+ *
+ * For a class service the slots are its scheduled sessions instead, each
+ * with the seats left; full sessions come back unavailable.
+ *
+ * Public callable: no authentication is required to browse availability.
+ */
+export const getAvailability = onCall(
+  { region: 'us-central1', cors: true },
+  async (request: CallableRequest<GetAvailabilityRequest>): Promise<GetAvailabilityResponse> => {
+    try {
+      const { orgId, professionalId, serviceIds, storeId, startDate, endDate, holdId } = request.data || {};
+
+      if (
+        !professionalId ||
+        !Array.isArray(serviceIds) ||
+        serviceIds.length === 0 ||
+        !serviceIds.every(serviceId => typeof serviceId === 'string' && serviceId)
+      ) {
+        throw new HttpsError('invalid-argument', 'Professional ID and service IDs are required');
+      }
+
+      if (!DATE_REGEX.test(startDate || '') || !DATE_REGEX.test(endDate || '')) {
+        throw new HttpsError('invalid-argument', 'Dates must use the YYYY-MM-DD format');
+      }
+
+      if (orgId !== undefined && (typeof orgId !== 'string' || !orgId)) {
+        throw new HttpsError('invalid-argument', 'Brand ID must be a non-empty string');
+      }
+
+      if (holdId !== undefined && (typeof holdId !== 'string' || !holdId)) {
+        throw new HttpsError('invalid-argument', 'Hold ID must be a non-empty string');
+      }
+
+      if (endDate < startDate || endDate > addDays(startDate, MAX_RANGE_DAYS)) {
+        throw new HttpsError('invalid-argument', `Date range must be between 0 and ${MAX_RANGE_DAYS} days`);
+      }
+
+      const db = getFirestore();
+      const contexts = await loadScheduleContexts(db, { orgId, professionalId, serviceIds, storeId });
+
+      const classService = getClassService(contexts[0].services);
+      if (classService) {
+        const teachers = contexts.map(context => context.professional.id);
+        const snapshot = await classSessionsQuery(db, contexts[0].orgId, classService.id, startDate, endDate).get();
+        const sessions = snapshot.docs
+          .map(doc => ({ ...doc.data(), id: doc.id }) as ClassSessionDoc)
+          .filter(session => teachers.includes(session.professionalId))
+          .filter(session => !contexts[0].store || session.storeId === contexts[0].store.id);
+
+        return {
+          success: true,
+          timezone: contexts[0].timezone,
+          slots: toSessionSlots(sessions, new Date()),
+          policy: contexts[0].policy
+        };
+      }
+
+      // Every context shares the same store and services, so the same resources
+      const usage = await loadResourceUsage(db, contexts[0], startDate, endDate);
+      const slotLists = await Promise.all(
+        contexts.map(async context => {
+          const busy = await loadBusyIntervals(db, context.professional.id, startDate, endDate, { holdId });
+          const input = buildAvailabilityInput(context, busy, startDate, endDate, new Date(), usage);
+          return computeAvailableSlots(input);
+        })
+      );
+
+      return {
+        success: true,
+        timezone: contexts[0].timezone,
+        slots: professionalId === ANY_PROFESSIONAL ? mergeSlots(slotLists, ANY_PROFESSIONAL) : slotLists[0],
+        policy: contexts[0].policy
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in getAvailability:', error);
+      throw new HttpsError('internal', 'Failed to get availability');
+    }
+  }
+);
+
+const CheckRecurringAvailabilitySchema = SlotRequestSchema.extend({
+  recurrence: RecurrenceSchema,
+  holdId: z.string().trim().min(1).optional() // the customer's hold on the first date
+});
+
+export type CheckRecurringAvailabilityRequest = z.infer<typeof CheckRecurringAvailabilitySchema>;
+
+export interface CheckRecurringAvailabilityResponse {
+  success: boolean;
+  timezone: string;
+  occurrences: OccurrenceAvailability[];
+}
+
+/**
+ * Checks every occurrence of a recurring series before it's booked
+ *
+ * Lets the wizard show which dates conflict so the customer can choose to
+ * leave them out. Series are always booked with a specific professional.
+ *
+ * Public callable, like getAvailability.
+ */
+export const checkRecurringAvailability = onCall(
+  { region: 'us-central1', cors: true },
+  async (
+    request: CallableRequest<CheckRecurringAvailabilityRequest>
+  ): Promise<CheckRecurringAvailabilityResponse> => {
+    try {
+      const parsed = CheckRecurringAvailabilitySchema.safeParse(request.data);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new HttpsError('invalid-argument', `Invalid request: ${issue.path.join('.')} ${issue.message}`);
+      }
+
+      const { orgId, professionalId, serviceIds, storeId, date, time, recurrence, holdId } = parsed.data;
+      if (professionalId === ANY_PROFESSIONAL) {
+        throw new HttpsError('invalid-argument', 'Choose a professional to book a recurring series');
+      }
+
+      const db = getFirestore();
+      const context = await loadScheduleContext(db, { orgId, professionalId, serviceIds, storeId });
+      if (getClassService(context.services)) {
+        throw new HttpsError('invalid-argument', 'Classes are booked one session at a time');
+      }
+
+      const dates = expandRecurrence(date, recurrence);
+      const [busy, usage] = await Promise.all([
+        loadBusyIntervals(db, context.professional.id, dates[0], dates[dates.length - 1], { holdId }),
+        loadResourceUsage(db, context, dates[0], dates[dates.length - 1])
+      ]);
+
+      return {
+        success: true,
+        timezone: context.timezone,
+        occurrences: checkOccurrences(
+          buildAvailabilityInput(context, busy, dates[0], dates[dates.length - 1], new Date(), usage),
+          dates,
+          time
+        )
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in checkRecurringAvailability:', error);
+      throw new HttpsError('internal', 'Failed to check availability');
+    }
+  }
+);
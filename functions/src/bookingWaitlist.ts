@@ -0,0 +1,382 @@
+/**
+ * Booking waitlist Cloud Functions
+ *
+ * Customers who find no free time for their services can join the booking
+ * waitlist for a date window. When a booking is cancelled or moved, or a
+ * claim runs out, the customer waiting longest whose services fit the freed
+ * time gets a slot held for them and an email with a link to book it.
+ */
+
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getFirestore, FieldValue, Timestamp, type Firestore } from 'firebase-admin/firestore';
+import { defineSecret } from 'firebase-functions/params';
+import { z } from 'zod';
+import { addDays, getZonedDateTime } from './lib/availability';
+import { loadScheduleContexts, findFreeCandidates, bookingLockRef, ANY_PROFESSIONAL } from './lib/schedule';
+import { resourceLockRef } from './lib/resources';
+import { enforceRateLimit } from './lib/rateLimiter';
+import { getClientIP } from './lib/security';
+import { getCustomerId } from './lib/customers';
+import type { ScheduleContext } from './lib/schedule';
+import { getClassService } from './lib/sessions';
+import { formatStoreLocation, getBookingPagePath } from './lib/bookings';
+import {
+  bookingWaitlistQuery,
+  findClaimableSlot,
+  getClaimExpiry,
+  isWaitingFor,
+  MAX_WAITLIST_DAYS,
+  WAITLIST_CLAIM_MINUTES,
+  type FreedTime
+} from './lib/bookingWaitlist';
+import { sendWaitlistClaimEmail } from './email';
+import { DateSchema, SlotRequestSchema } from './bookings';
+import type { BookingWaitlistEntryDoc, OrgDoc } from './types/models';
+
+// Define secrets
+const jwtSecret = defineSecret('JWT_SECRET');
+const publicAppUrl = defineSecret('PUBLIC_APP_URL');
+const resendApiKey = defineSecret('RESEND_API_KEY');
+const fromEmail = defineSecret('FROM_EMAIL');
+const fromName = defineSecret('FROM_NAME');
+
+const EXPIRY_BATCH_SIZE = 100;
+
+// Waitlist joins per 15 minutes, from one IP address and for one email
+const WAITLIST_IP_RATE_LIMIT = { windowMs: 15 * 60 * 1000, maxRequests: 20 };
+const WAITLIST_EMAIL_RATE_LIMIT = { windowMs: 15 * 60 * 1000, maxRequests: 5 };
+
+const JoinBookingWaitlistSchema = SlotRequestSchema.omit({ date: true, time: true })
+  .extend({
+    dateFrom: DateSchema,
+    dateTo: DateSchema,
+    customer: z.object({
+      firstName: z.string().trim().min(1).max(100),
+      lastName: z.string().trim().min(1).max(100),
+      email: z.email().max(254)
+    }),
+    locale: z.enum(['en-US', 'pt-BR', 'it-IT']).optional()
+  })
+  .refine(request => request.dateFrom <= request.dateTo, {
+    message: 'must not be before dateFrom',
+    path: ['dateTo']
+  })
+  .refine(request => request.dateTo <= addDays(request.dateFrom, MAX_WAITLIST_DAYS), {
+    message: `must be within ${MAX_WAITLIST_DAYS} days of dateFrom`,
+    path: ['dateTo']
+  });
+
+export type JoinBookingWaitlistRequest = z.infer<typeof JoinBookingWaitlistSchema>;
+
+export interface JoinBookingWaitlistResponse {
+  success: boolean;
+  entryId: string;
+}
+
+/**
+ * Adds a customer to the booking waitlist for a professional, or anyone at a
+ * store, and services in a date window
+ *
+ * Public callable, like createBooking. Joining twice with the same email,
+ * professional and services returns the existing entry with the new window.
+ */
+export const joinBookingWaitlist = onCall(
+  { region: 'us-central1', cors: true },
+  async (request: CallableRequest<JoinBookingWaitlistRequest>): Promise<JoinBookingWaitlistResponse> => {
+    try {
+      const parsed = JoinBookingWaitlistSchema.safeParse(request.data);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new HttpsError('invalid-argument', `Invalid waitlist request: ${issue.path.join('.')} ${issue.message}`);
+      }
+
+      const { orgId, professionalId, serviceIds, storeId, dateFrom, dateTo, customer, locale } = parsed.data;
+      const email = customer.email.toLowerCase();
+      await enforceRateLimit(`bookingWaitlist:ip:${getClientIP(request.rawRequest)}`, WAITLIST_IP_RATE_LIMIT);
+      await enforceRateLimit(`bookingWaitlist:email:${getCustomerId(email)}`, WAITLIST_EMAIL_RATE_LIMIT);
+
+      const db = getFirestore();
+      const contexts = await loadScheduleContexts(db, { orgId, professionalId, serviceIds, storeId });
+      const context = contexts[0];
+      if (getClassService(context.services)) {
+        throw new HttpsError('invalid-argument', 'Join the waitlist of a class session instead');
+      }
+
+      const today = getZonedDateTime(new Date(), context.timezone).date;
+      if (dateTo < today) {
+        throw new HttpsError('invalid-argument', 'The window must not be in the past');
+      }
+
+      const entry = {
+        orgId: context.orgId,
+        storeId: context.store?.id || null,
+        professionalId: professionalId === ANY_PROFESSIONAL ? ANY_PROFESSIONAL : context.professional.id,
+        serviceIds: context.services.map(service => service.id),
+        serviceName: context.services.map(service => service.name).join(' + '),
+        dateFrom: dateFrom < today ? today : dateFrom,
+        dateTo
+      };
+
+      const waitlist = db.collection('bookingWaitlist');
+      const entryId = await db.runTransaction(async transaction => {
+        const existing = await transaction.get(
+          waitlist.where('customer.email', '==', email).where('status', '==', 'waiting')
+        );
+        const same = existing.docs.find(doc => {
+          const candidate = doc.data() as BookingWaitlistEntryDoc;
+          return (
+            candidate.orgId === entry.orgId &&
+            candidate.professionalId === entry.professionalId &&
+            candidate.serviceIds.join(',') === entry.serviceIds.join(',')
+          );
+        });
+
+        if (same) {
+          transaction.update(same.ref, {
+            dateFrom: entry.dateFrom,
+            dateTo: entry.dateTo,
+            updatedAt: FieldValue.serverTimestamp()
+          });
+          return same.id;
+        }
+
+        const entryRef = waitlist.doc();
+        transaction.set(entryRef, {
+          id: entryRef.id,
+          ...entry,
+          customer: {
+            firstName: customer.firstName,
+            lastName: customer.lastName,
+            email
+          },
+          ...(locale ? { locale } : {}),
+          status: 'waiting',
+          createdAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp()
+        });
+        return entryRef.id;
+      });
+
+      return {
+        success: true,
+        entryId
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in joinBookingWaitlist:', error);
+      throw new HttpsError('internal', 'Failed to join waitlist');
+    }
+  }
+);
+
+/**
+ * Inside a transaction, hold a slot for a waiting entry and mark it notified.
+ * Returns the hold ID, or null when the entry stopped waiting or the slot was
+ * taken in the meantime.
+ */
+async function claimSlot(
+  db: Firestore,
+  entry: BookingWaitlistEntryDoc,
+  context: ScheduleContext,
+  date: string,
+  time: string,
+  now: Date
+): Promise<string | null> {
+  const entryRef = db.collection('bookingWaitlist').doc(entry.id);
+  const holdRef = db.collection('slotHolds').doc();
+  const expiresAt = Timestamp.fromDate(getClaimExpiry(now));
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(entryRef);
+    if (snapshot.data()?.status !== 'waiting') {
+      return null;
+    }
+
+    const candidates = await findFreeCandidates(transaction, db, [context], date, time, now);
+    if (candidates.length === 0) {
+      return null;
+    }
+    const { resources } = candidates[0];
+
+    transaction.set(
+      bookingLockRef(db, context.professional.id, date),
+      {
+        professionalId: context.professional.id,
+        date,
+        lastHoldId: holdRef.id,
+        updatedAt: FieldValue.serverTimestamp()
+      },
+      { merge: true }
+    );
+
+    if (context.store && resources.length > 0) {
+      transaction.set(
+        resourceLockRef(db, context.store.id, date),
+        {
+          storeId: context.store.id,
+          date,
+          lastHoldId: holdRef.id,
+          updatedAt: FieldValue.serverTimestamp()
+        },
+        { merge: true }
+      );
+    }
+
+    transaction.set(holdRef, {
+      id: holdRef.id,
+      professionalId: context.professional.id,
+      date,
+      time,
+      duration: context.durationMin,
+      ...(context.store && resources.length > 0 ? { storeId: context.store.id, resources } : {}),
+      waitlistEntryId: entry.id,
+      expiresAt,
+      createdAt: FieldValue.serverTimestamp()
+    });
+
+    transaction.update(entryRef, {
+      status: 'notified',
+      claim: {
+        holdId: holdRef.id,
+        professionalId: context.professional.id,
+        date,
+        time,
+        expiresAt
+      },
+      notifiedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+
+    return holdRef.id;
+  });
+}
+
+/**
+ * Offer time freed on a professional's schedule to the customer waiting
+ * longest for it whose services fit, holding the slot for them and emailing
+ * them a link to book it
+ *
+ * Called after a booking is cancelled or moved, or a claim runs out. Needs
+ * the PUBLIC_APP_URL and Resend secrets on the calling function.
+ */
+export async function notifyBookingWaitlist(db: Firestore, freed: FreedTime): Promise<void> {
+  const now = new Date();
+  let page = await bookingWaitlistQuery(db, freed).get();
+
+  while (!page.empty) {
+    for (const doc of page.docs) {
+      const entry = { ...doc.data(), id: doc.id } as BookingWaitlistEntryDoc;
+      if (await offerFreedTime(db, entry, freed, now)) {
+        return;
+      }
+    }
+    page = await bookingWaitlistQuery(db, freed, page.docs[page.docs.length - 1]).get();
+  }
+}
+
+/**
+ * Hold the earliest free time that fits an entry's services for them and
+ * email them the link to book it, returning whether the entry took it
+ */
+async function offerFreedTime(
+  db: Firestore,
+  entry: BookingWaitlistEntryDoc,
+  freed: FreedTime,
+  now: Date
+): Promise<boolean> {
+  if (!isWaitingFor(entry, freed)) {
+    return false;
+  }
+
+  const slot = await findClaimableSlot(db, entry, freed, now);
+  const holdId = slot ? await claimSlot(db, entry, slot.context, freed.date, slot.time, now) : null;
+  if (!slot || !holdId) {
+    return false;
+  }
+
+  const { context, time } = slot;
+  const org = (await db.collection('orgs').doc(context.orgId).get()).data() as OrgDoc;
+  const claimPath = getBookingPagePath(org.slug, context.store?.slug || null, context.professional.slug, {
+    service: context.services[0].slug,
+    date: freed.date,
+    time,
+    claim: holdId
+  });
+
+  const result = await sendWaitlistClaimEmail({
+    entryId: entry.id,
+    holdId,
+    email: entry.customer.email,
+    locale: entry.locale || null,
+    claimUrl: `${publicAppUrl.value()}${claimPath}`,
+    claimMinutes: WAITLIST_CLAIM_MINUTES,
+    customerName: `${entry.customer.firstName} ${entry.customer.lastName}`,
+    serviceName: entry.serviceName,
+    professionalName: context.professional.name,
+    appointmentDate: freed.date,
+    appointmentTime: time,
+    timezone: context.timezone,
+    location: formatStoreLocation(context.store)
+  });
+
+  if (!result.success) {
+    console.error(`Failed to notify booking waitlist entry ${entry.id}:`, result.error);
+  }
+  return true;
+}
+
+/**
+ * Expires waitlist claims nobody booked in time every 5 minutes, offering
+ * the time they held to the next customer waiting
+ */
+export const expireBookingWaitlistClaims = onSchedule(
+  {
+    schedule: 'every 5 minutes',
+    region: 'us-central1',
+    timeZone: 'UTC',
+    timeoutSeconds: 300,
+    secrets: [jwtSecret, publicAppUrl, resendApiKey, fromEmail, fromName]
+  },
+  async () => {
+    const db = getFirestore();
+    const snapshot = await db
+      .collection('bookingWaitlist')
+      .where('status', '==', 'notified')
+      .where('claim.expiresAt', '<=', Timestamp.now())
+      .limit(EXPIRY_BATCH_SIZE)
+      .get();
+
+    let expired = 0;
+    for (const doc of snapshot.docs) {
+      const entry = { ...doc.data(), id: doc.id } as BookingWaitlistEntryDoc;
+
+      const stillNotified = await db.runTransaction(async transaction => {
+        const current = await transaction.get(doc.ref);
+        if (current.data()?.status !== 'notified') {
+          return false;
+        }
+        transaction.update(doc.ref, { status: 'expired', updatedAt: FieldValue.serverTimestamp() });
+        return true;
+      });
+
+      if (!stillNotified || !entry.claim) {
+        continue;
+      }
+      expired++;
+
+      await notifyBookingWaitlist(db, {
+        orgId: entry.orgId,
+        storeId: entry.storeId,
+        professionalId: entry.claim.professionalId,
+        date: entry.claim.date
+      }).catch(error => console.error(`Failed to pass on waitlist claim of entry ${entry.id}:`, error));
+    }
+
+    console.log('Booking waitlist claim expiry completed:', { expired });
+  }
+);
@@ -0,0 +1,859 @@
+/**
+ * Booking Cloud Functions
+ *
+ * Bookings are only ever written here, never from the browser, so the slot
+ * check and the write can happen atomically inside a Firestore transaction.
+ */
+
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getFirestore, FieldValue, Timestamp, type Firestore } from 'firebase-admin/firestore';
+import { z } from 'zod';
+import { defineSecret } from 'firebase-functions/params';
+import { generateConfirmationCode } from './lib/crypto';
+import { createBookingToken, validateBookingToken } from './tokens';
+import {
+  getBooking,
+  getDraftExpiry,
+  isDraftExpired,
+  loadBookingDetails,
+  toConfirmationData,
+  getIcsFilePath,
+  getManagePath,
+  type BookingConfirmationData,
+  type BookingLinks
+} from './lib/bookings';
+import {
+  loadScheduleContexts,
+  findFreeCandidates,
+  findSeriesConflicts,
+  bookingLockRef,
+  toServiceLines,
+  pickLeastBooked,
+  MAX_SERVICES_PER_BOOKING,
+  ANY_PROFESSIONAL
+} from './lib/schedule';
+import { isHoldActive } from './lib/holds';
+import { resourceLockRef } from './lib/resources';
+import { expandRecurrence, toRRule, MAX_OCCURRENCES, MAX_RECURRENCE_INTERVAL } from './lib/recurrence';
+import { getClassService, classSessionRef, getSeatsLeft, isSessionUpcoming } from './lib/sessions';
+import { getIntakeQuestions, collectIntakeAnswers, verifyIntakeUploads } from './lib/intake';
+import { saveCustomerDetails } from './lib/customers';
+import { authorizeStaffBooking } from './lib/staffBookings';
+import { createBookingAuditLog } from './lib/audit';
+import { saveBookingToDeadLetterQueue } from './lib/firestore';
+import { isFeatureEnabled } from './lib/featureFlags';
+import {
+  getAmountDue,
+  getNoShowRequirements,
+  getPaymentProvider,
+  DEFAULT_CURRENCY,
+  type PaymentIntent
+} from './lib/payments';
+import { getNoShowCount } from './lib/bookingStatus';
+import { sendBookingConfirmationEmail, type EmailResult } from './email';
+import { toICSBookingData, generateICSFile, getICSFileName } from './ics';
+import type {
+  BookingDoc,
+  BookingResource,
+  BookingStatus,
+  ClassSessionDoc,
+  PaymentMode,
+  SlotHoldDoc
+} from './types/models';
+
+// Define secrets
+const jwtSecret = defineSecret('JWT_SECRET');
+const publicAppUrl = defineSecret('PUBLIC_APP_URL');
+const resendApiKey = defineSecret('RESEND_API_KEY');
+const fromEmail = defineSecret('FROM_EMAIL');
+const fromName = defineSecret('FROM_NAME');
+const paymentWebhookSecret = defineSecret('PAYMENT_WEBHOOK_SECRET');
+
+const MAX_CONFIRMATION_CODE_ATTEMPTS = 5;
+const CLEANUP_BATCH_SIZE = 500;
+
+/**
+ * Sign the calendar file and manage-booking links for a booking
+ */
+export function createBookingLinks(bookingId: string): BookingLinks {
+  const icsToken = createBookingToken(bookingId, 'ics');
+  const manageToken = createBookingToken(bookingId, 'manage');
+
+  if (!icsToken.token || !manageToken.token) {
+    throw new Error(icsToken.error || manageToken.error || 'Failed to create booking tokens');
+  }
+
+  return {
+    icsFileUrl: getIcsFilePath(bookingId, icsToken.token),
+    manageUrl: getManagePath(manageToken.token)
+  };
+}
+
+/**
+ * Email the customer their booking confirmation, unless it was already sent
+ *
+ * Records the outcome on the booking's `comms.confirmation`. Used both right
+ * after confirming and by the DLQ replayer.
+ */
+export async function sendBookingConfirmation(db: Firestore, bookingId: string): Promise<EmailResult> {
+  const booking = await getBooking(db, bookingId);
+  const sent = booking.comms?.confirmation;
+  if (sent?.sent) {
+    return { success: true, messageId: sent.messageId || undefined };
+  }
+
+  const details = await loadBookingDetails(db, booking);
+  const links = createBookingLinks(bookingId);
+  const icsBooking = toICSBookingData(details);
+
+  const result = await sendBookingConfirmationEmail({
+    ...toConfirmationData(details, links),
+    bookingId,
+    email: booking.customer.email,
+    locale: booking.locale || null,
+    manageUrl: `${publicAppUrl.value()}${links.manageUrl}`,
+    ics: {
+      filename: getICSFileName(icsBooking),
+      content: generateICSFile(icsBooking)
+    }
+  });
+
+  await db.collection('bookings').doc(bookingId).update({
+    'comms.confirmation': {
+      sent: result.success,
+      sentAt: result.success ? FieldValue.serverTimestamp() : null,
+      messageId: result.messageId || null,
+      error: result.success ? null : { code: 'SEND_FAILED', msg: result.error || 'Unknown error' }
+    }
+  });
+
+  return result;
+}
+
+export const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must use the YYYY-MM-DD format');
+export const TimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must use the HH:MM format');
+
+// A slot for one or more services, as picked in the booking wizard
+export const SlotRequestSchema = z.object({
+  orgId: z.string().trim().min(1).optional(), // the brand's ID or slug, required for any professional
+  professionalId: z.string().trim().min(1),
+  serviceIds: z.array(z.string().trim().min(1)).min(1).max(MAX_SERVICES_PER_BOOKING),
+  storeId: z.string().trim().min(1).optional(),
+  date: DateSchema,
+  time: TimeSchema
+});
+
+// Weekly repetition of a slot, ending after a number of occurrences or on a date
+export const RecurrenceSchema = z
+  .object({
+    interval: z.number().int().min(1).max(MAX_RECURRENCE_INTERVAL),
+    count: z.number().int().min(2).max(MAX_OCCURRENCES).optional(),
+    until: DateSchema.optional()
+  })
+  .refine(rule => (rule.count === undefined) !== (rule.until === undefined), {
+    message: 'Set either a count or an end date'
+  });
+
+const CreateBookingSchema = SlotRequestSchema.extend({
+  holdId: z.string().trim().min(1).optional(),
+  sessionId: z.string().trim().min(1).optional(), // required for class services
+  recurrence: RecurrenceSchema.optional(),
+  skipDates: z.array(DateSchema).max(MAX_OCCURRENCES).optional(), // occurrences the customer agreed to leave out
+  customer: z.object({
+    firstName: z.string().trim().min(1).max(100),
+    lastName: z.string().trim().min(1).max(100),
+    email: z.email().max(254),
+    phone: z.string().trim().min(1).max(40),
+    notes: z.string().trim().max(1000).optional()
+  }),
+  intake: z.record(z.string(), z.union([z.string().max(2000), z.boolean()])).optional(), // answers by question ID
+  customerSession: z.string().min(1).optional(), // signed-in customers get their details saved
+  source: z.literal('staff').optional(), // added by signed-in staff from the dashboard
+  overrideAvailability: z.boolean().optional(), // staff only: book even when the time isn't free
+  locale: z.enum(['en-US', 'pt-BR', 'it-IT']).optional()
+});
+
+export type CreateBookingRequest = z.infer<typeof CreateBookingSchema>;
+
+/**
+ * What the wizard needs to collect an upfront payment
+ */
+export interface BookingPaymentRequest {
+  provider: string;
+  intentId: string;
+  clientSecret: string;
+  amount: number;
+  currency: string;
+  mode: PaymentMode;
+}
+
+export interface CreateBookingResponse {
+  success: boolean;
+  bookingId: string;
+  professionalId: string; // the one assigned for "any professional" requests
+  status: BookingStatus;
+  date: string;
+  time: string;
+  duration: number;
+  timezone: string;
+  manageToken: string; // proves the caller made the booking when confirming it
+  payment?: BookingPaymentRequest; // present when the booking must be paid before it's confirmed
+  seriesId?: string; // present for recurring bookings
+  occurrences?: string[]; // dates booked in the series, the first being `date`
+}
+
+/**
+ * Creates a booking for a professional and one or more services
+ *
+ * Services are booked as one contiguous block in the order given. The
+ * booking's top-level service fields summarize them (first service ID,
+ * joined names, total price and duration) and `services` lists each line.
+ *
+ * Public callable: customers book without signing in. The professional's
+ * schedule and existing bookings are re-checked inside a transaction that
+ * also writes a per-professional, per-day lock document, so two concurrent
+ * requests for the same slot cannot both succeed.
+ *
+ * For "any professional" every eligible professional at the store is checked
+ * in the same transaction, and the booking goes to the least booked of those
+ * free at the requested time.
+ *
+ * Passing the `holdId` from holdSlot books the held slot, with the
+ * professional it was held for, and releases the hold.
+ *
+ * With paymentsAlpha on, services the store requires a deposit or prepayment
+ * for get a payment intent; such bookings stay drafts until the payment
+ * webhook confirms them.
+ *
+ * With `recurrence`, every occurrence of the series is checked and booked in
+ * the same transaction, minus the `skipDates` the customer chose to leave
+ * out. If any other date isn't free the whole series fails, with the
+ * conflicting dates in the error details. Series need a specific
+ * professional and can't be paid upfront.
+ *
+ * Class services are booked into the scheduled session given as
+ * `sessionId`, taking one of its seats in the same transaction.
+ *
+ * Customers signed in to their account pass their `customerSession`, and
+ * the details they booked with are saved to their profile.
+ *
+ * Staff booking phone and walk-in customers from the dashboard pass
+ * `source: 'staff'` and must be signed in as the professional or as org
+ * staff with write access. Their bookings skip upfront payment, which is
+ * taken at the desk, and with `overrideAvailability` they can book a
+ * specific professional at a time that isn't free, once they've confirmed
+ * the warning. The customer gets the same confirmation email either way.
+ */
+export const createBooking = onCall(
+  { region: 'us-central1', cors: true, secrets: [jwtSecret, paymentWebhookSecret] },
+  async (request: CallableRequest<CreateBookingRequest>): Promise<CreateBookingResponse> => {
+    try {
+      const parsed = CreateBookingSchema.safeParse(request.data);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new HttpsError('invalid-argument', `Invalid booking request: ${issue.path.join('.')} ${issue.message}`);
+      }
+
+      const {
+        orgId,
+        professionalId,
+        serviceIds,
+        storeId,
+        date,
+        time,
+        holdId,
+        sessionId,
+        recurrence,
+        skipDates,
+        customer,
+        intake,
+        customerSession,
+        source,
+        overrideAvailability,
+        locale
+      } = parsed.data;
+
+      if (recurrence && professionalId === ANY_PROFESSIONAL) {
+        throw new HttpsError('invalid-argument', 'Choose a professional to book a recurring series');
+      }
+
+      if (overrideAvailability && (source !== 'staff' || professionalId === ANY_PROFESSIONAL)) {
+        throw new HttpsError('invalid-argument', 'Only staff booking a professional can override availability');
+      }
+
+      const db = getFirestore();
+      const contexts = await loadScheduleContexts(db, { orgId, professionalId, serviceIds, storeId });
+      const staff =
+        source === 'staff'
+          ? await authorizeStaffBooking(
+              request,
+              contexts[0].orgId,
+              professionalId === ANY_PROFESSIONAL ? null : contexts[0].professional
+            )
+          : null;
+
+      const classService = getClassService(contexts[0].services);
+      if (classService && !sessionId) {
+        throw new HttpsError('invalid-argument', 'Choose a session to book a class');
+      }
+      if (classService && recurrence) {
+        throw new HttpsError('invalid-argument', 'Classes are booked one session at a time');
+      }
+
+      const intakeAnswers = collectIntakeAnswers(getIntakeQuestions(contexts[0].services), intake);
+      await verifyIntakeUploads(intakeAnswers);
+
+      const services = toServiceLines(contexts[0]);
+      const serviceName = services.map(service => service.serviceName).join(' + ');
+      const bookingRef = db.collection('bookings').doc();
+
+      // Every context shares the same store, so payment settings are the same
+      const { store } = contexts[0];
+      const paymentSettings = store?.settings?.bookingSettings;
+      const amountDue =
+        !staff && (await isFeatureEnabled(db, 'paymentsAlpha'))
+          ? getAmountDue(
+            services,
+            getNoShowRequirements(
+              services,
+              paymentSettings?.paymentRequirements,
+              paymentSettings?.noShowDeposit,
+              paymentSettings?.noShowDeposit ? await getNoShowCount(db, contexts[0].orgId, customer.email) : 0
+            )
+          )
+          : null;
+      const currency = store?.settings?.currency || DEFAULT_CURRENCY;
+      const provider = amountDue ? getPaymentProvider(paymentWebhookSecret.value()) : null;
+      if (amountDue && !provider) {
+        throw new HttpsError('failed-precondition', 'Bookings that require payment are not available right now');
+      }
+
+      if (recurrence && amountDue) {
+        throw new HttpsError('invalid-argument', 'Recurring bookings are not available for services paid upfront');
+      }
+
+      // The pattern's dates, and the ones actually booked
+      const pattern = recurrence ? expandRecurrence(date, recurrence) : [date];
+      const dates = pattern.filter(occurrence => !skipDates?.includes(occurrence));
+      if (dates.length === 0) {
+        throw new HttpsError('invalid-argument', 'At least one date must be booked');
+      }
+
+      const seriesRef = recurrence ? db.collection('bookingSeries').doc() : null;
+      const occurrenceRefs = dates.map((_, index) => (index === 0 ? bookingRef : db.collection('bookings').doc()));
+      const holdRef = holdId ? db.collection('slotHolds').doc(holdId) : null;
+      const sessionRef = classService && sessionId ? classSessionRef(db, contexts[0].orgId, sessionId) : null;
+      const now = new Date();
+
+      const manageToken = createBookingToken(bookingRef.id, 'manage');
+      if (!manageToken.token) {
+        throw new Error(manageToken.error || 'Failed to create booking token');
+      }
+
+      let context = contexts[0];
+      let resources: Record<string, BookingResource[]> = {}; // units taken on each date, by date
+      let overridden = false; // staff booked time that wasn't free
+
+      await db.runTransaction(async transaction => {
+        overridden = false;
+
+        // A live hold on this slot reserves it for its professional
+        const holdSnapshot = holdRef ? await transaction.get(holdRef) : null;
+        const hold = holdSnapshot?.exists ? (holdSnapshot.data() as SlotHoldDoc) : null;
+        const held =
+          hold && isHoldActive(hold, now) && hold.date === date && hold.time === time
+            ? contexts.filter(candidate => candidate.professional.id === hold.professionalId)
+            : [];
+
+        if (sessionRef) {
+          // The session already keeps its professional busy, so only its seats are checked
+          const sessionSnap = await transaction.get(sessionRef);
+          const session = sessionSnap.exists
+            ? ({ ...sessionSnap.data(), id: sessionSnap.id } as ClassSessionDoc)
+            : null;
+          const teacher = session && contexts.find(candidate => candidate.professional.id === session.professionalId);
+
+          if (
+            !session ||
+            !teacher ||
+            session.serviceId !== classService?.id ||
+            session.date !== date ||
+            session.time !== time ||
+            !isSessionUpcoming(session, now)
+          ) {
+            throw new HttpsError('failed-precondition', 'The selected class session is no longer available');
+          }
+          if (getSeatsLeft(session) === 0) {
+            throw new HttpsError('failed-precondition', 'The selected class session is full');
+          }
+
+          context = teacher;
+          transaction.update(sessionRef, {
+            seatsBooked: FieldValue.increment(1),
+            updatedAt: FieldValue.serverTimestamp()
+          });
+        } else if (recurrence) {
+          const check = await findSeriesConflicts(transaction, db, context, dates, time, now, { holdId }, !!staff);
+          if (check.conflicts.length > 0 && !overrideAvailability) {
+            throw new HttpsError('failed-precondition', 'Some dates of the series are no longer available', {
+              conflicts: check.conflicts
+            });
+          }
+          overridden = check.conflicts.length > 0;
+          resources = check.resources;
+        } else {
+          const candidates = await findFreeCandidates(
+            transaction,
+            db,
+            held.length > 0 ? held : contexts,
+            date,
+            time,
+            now,
+            { holdId },
+            !!staff
+          );
+
+          if (candidates.length > 0) {
+            const picked = pickLeastBooked(candidates);
+            context = picked.context;
+            resources = { [date]: picked.resources };
+          } else if (overrideAvailability) {
+            // Only a specific professional can be overridden, so there is a single context
+            overridden = true;
+            resources = {};
+          } else {
+            throw new HttpsError('failed-precondition', 'The selected time slot is no longer available');
+          }
+        }
+
+        dates.forEach((occurrence, index) => {
+          transaction.set(bookingLockRef(db, context.professional.id, occurrence), {
+            professionalId: context.professional.id,
+            date: occurrence,
+            lastBookingId: occurrenceRefs[index].id,
+            updatedAt: FieldValue.serverTimestamp()
+          });
+
+          if (context.store && resources[occurrence]?.length) {
+            transaction.set(resourceLockRef(db, context.store.id, occurrence), {
+              storeId: context.store.id,
+              date: occurrence,
+              lastBookingId: occurrenceRefs[index].id,
+              updatedAt: FieldValue.serverTimestamp()
+            });
+          }
+        });
+
+        if (holdRef && holdSnapshot?.exists) {
+          transaction.delete(holdRef);
+        }
+
+        // Booking the slot held for a waitlist claim takes the customer off the waitlist
+        if (held.length > 0 && hold?.waitlistEntryId) {
+          transaction.update(db.collection('bookingWaitlist').doc(hold.waitlistEntryId), {
+            status: 'booked',
+            bookingId: bookingRef.id,
+            updatedAt: FieldValue.serverTimestamp()
+          });
+        }
+
+        if (seriesRef && recurrence) {
+          transaction.set(seriesRef, {
+            id: seriesRef.id,
+            orgId: context.orgId,
+            storeId: context.store?.id || null,
+            professionalId: context.professional.id,
+            rule: recurrence,
+            rrule: toRRule(recurrence, pattern),
+            startDate: pattern[0],
+            time,
+            duration: context.durationMin,
+            timezone: context.timezone,
+            occurrences: pattern,
+            exdates: pattern.filter(occurrence => !dates.includes(occurrence)),
+            sequence: 0,
+            createdAt: FieldValue.serverTimestamp(),
+            updatedAt: FieldValue.serverTimestamp()
+          });
+        }
+
+        const booking = {
+          orgId: context.orgId,
+          storeId: context.store?.id || null,
+          professionalId: context.professional.id,
+          serviceId: services[0].serviceId,
+          serviceName,
+          price: services.reduce((total, service) => total + service.price, 0),
+          services,
+          ...(professionalId === ANY_PROFESSIONAL ? { autoAssigned: true } : {}),
+          ...(seriesRef ? { seriesId: seriesRef.id } : {}),
+          ...(sessionRef ? { sessionId: sessionRef.id } : {}),
+          ...(staff ? { source: 'staff', createdBy: staff.uid } : {}),
+          ...(overridden ? { availabilityOverridden: true } : {}),
+          time,
+          duration: context.durationMin,
+          timezone: context.timezone,
+          cancellationHours: context.policy.cancellationHours,
+          customer: {
+            firstName: customer.firstName,
+            lastName: customer.lastName,
+            email: customer.email.toLowerCase(),
+            phone: customer.phone,
+            ...(customer.notes ? { notes: customer.notes } : {})
+          },
+          ...(intakeAnswers.length > 0 ? { intake: intakeAnswers } : {}),
+          ...(locale ? { locale } : {}),
+          ...(provider && amountDue
+            ? {
+                payment: {
+                  provider: provider.name,
+                  intentId: null,
+                  mode: amountDue.mode,
+                  amountDue: amountDue.amount,
+                  amountPaid: 0,
+                  currency,
+                  status: 'pending'
+                }
+              }
+            : {}),
+          status: 'draft',
+          expiresAt: Timestamp.fromDate(getDraftExpiry(now)),
+          createdAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp()
+        };
+
+        dates.forEach((occurrence, index) => {
+          const ref = occurrenceRefs[index];
+          transaction.set(ref, {
+            ...booking,
+            id: ref.id,
+            date: occurrence,
+            ...(resources[occurrence]?.length ? { resources: resources[occurrence] } : {})
+          });
+        });
+      });
+
+      if (staff) {
+        await createBookingAuditLog(
+          staff,
+          'create',
+          bookingRef.id,
+          {
+            orgId: context.orgId,
+            professionalId: context.professional.id,
+            date: dates[0],
+            time,
+            ...(seriesRef ? { seriesId: seriesRef.id, dates } : {}),
+            ...(overridden ? { availabilityOverridden: true } : {})
+          },
+          { source: 'staff' }
+        );
+      }
+
+      if (customerSession) {
+        try {
+          await saveCustomerDetails(db, customerSession, customer);
+        } catch (error) {
+          // The booking stands; the customer just types their details again next time
+          console.error('Failed to save customer details:', error);
+        }
+      }
+
+      let intent: PaymentIntent | null = null;
+      if (provider && amountDue) {
+        try {
+          intent = await provider.createIntent({
+            bookingId: bookingRef.id,
+            amount: amountDue.amount,
+            currency,
+            description: serviceName
+          });
+        } catch (error) {
+          // Release the slot so the customer can simply try again
+          await bookingRef.update({
+            status: 'cancelled',
+            cancellationReason: 'payment_setup_failed',
+            cancelledAt: FieldValue.serverTimestamp(),
+            updatedAt: FieldValue.serverTimestamp()
+          });
+          if (sessionRef) {
+            await sessionRef.update({
+              seatsBooked: FieldValue.increment(-1),
+              updatedAt: FieldValue.serverTimestamp()
+            });
+          }
+          throw error;
+        }
+
+        await bookingRef.update({
+          'payment.intentId': intent.id,
+          updatedAt: FieldValue.serverTimestamp()
+        });
+      }
+
+      return {
+        success: true,
+        bookingId: bookingRef.id,
+        professionalId: context.professional.id,
+        status: 'draft',
+        date: dates[0],
+        time,
+        duration: context.durationMin,
+        timezone: context.timezone,
+        manageToken: manageToken.token,
+        ...(provider && intent && amountDue
+          ? {
+              payment: {
+                provider: provider.name,
+                intentId: intent.id,
+                clientSecret: intent.clientSecret,
+                amount: intent.amount,
+                currency: intent.currency,
+                mode: amountDue.mode
+              }
+            }
+          : {}),
+        ...(seriesRef ? { seriesId: seriesRef.id, occurrences: dates } : {})
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in createBooking:', error);
+      throw new HttpsError('internal', 'Failed to create booking');
+    }
+  }
+);
+
+export interface ConfirmBookingRequest {
+  bookingId: string;
+  token: string; // the manage token createBooking returned
+}
+
+export interface ConfirmBookingResponse {
+  success: boolean;
+  confirmation: BookingConfirmationData;
+}
+
+/**
+ * Confirm a draft booking, assign it a confirmation code and email the customer
+ *
+ * Codes are reserved in the `bookingCodes` collection inside the same
+ * transaction, so two bookings can never share one. Confirming an already
+ * confirmed booking keeps the existing code, and bookings that require
+ * payment can only be confirmed once it has been received. Confirming one
+ * occurrence of a recurring series confirms the whole series, with a single
+ * email carrying the series' calendar file. If the email fails the booking
+ * stays confirmed and the email is queued for the DLQ replayer. Drafts that
+ * have expired can't be confirmed. Used by confirmBooking and the payment
+ * webhook.
+ */
+export async function confirmDraftBooking(db: Firestore, bookingId: string): Promise<BookingDoc> {
+  const bookingRef = db.collection('bookings').doc(bookingId);
+
+  await db.runTransaction(async transaction => {
+    const bookingSnap = await transaction.get(bookingRef);
+    if (!bookingSnap.exists) {
+      throw new HttpsError('not-found', 'Booking not found');
+    }
+
+    const booking = bookingSnap.data() as BookingDoc;
+    if (booking.status === 'confirmed' && booking.confirmationCode) {
+      return;
+    }
+    if (booking.status !== 'draft') {
+      throw new HttpsError('failed-precondition', `Booking cannot be confirmed from status ${booking.status}`);
+    }
+    if (isDraftExpired(booking, new Date())) {
+      throw new HttpsError('failed-precondition', 'This booking has expired, please book again');
+    }
+    if (booking.payment && booking.payment.status !== 'paid') {
+      throw new HttpsError('failed-precondition', 'Payment is required to confirm this booking');
+    }
+
+    // The rest of a series is confirmed along with the occurrence confirmed
+    const otherOccurrences = booking.seriesId
+      ? (
+          await transaction.get(
+            db.collection('bookings').where('seriesId', '==', booking.seriesId).where('status', '==', 'draft')
+          )
+        ).docs
+          .map(doc => doc.ref)
+          .filter(ref => ref.id !== bookingId)
+      : [];
+
+    const targets = [bookingRef, ...otherOccurrences];
+    const codes: string[] = [];
+    while (codes.length < targets.length) {
+      let code: string | null = null;
+      for (let attempt = 0; attempt < MAX_CONFIRMATION_CODE_ATTEMPTS && !code; attempt++) {
+        const candidate = generateConfirmationCode();
+        const codeSnap = await transaction.get(db.collection('bookingCodes').doc(candidate));
+        if (!codeSnap.exists && !codes.includes(candidate)) {
+          code = candidate;
+        }
+      }
+
+      if (!code) {
+        throw new Error('Could not generate a unique confirmation code');
+      }
+      codes.push(code);
+    }
+
+    targets.forEach((ref, index) => {
+      transaction.set(db.collection('bookingCodes').doc(codes[index]), {
+        bookingId: ref.id,
+        createdAt: FieldValue.serverTimestamp()
+      });
+
+      transaction.update(ref, {
+        status: 'confirmed',
+        confirmationCode: codes[index],
+        confirmedAt: FieldValue.serverTimestamp(),
+        expiresAt: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+    });
+  });
+
+  const emailResult = await sendBookingConfirmation(db, bookingId).catch((error): EmailResult => ({
+    success: false,
+    error: error instanceof Error ? error.message : String(error)
+  }));
+
+  const booking = await getBooking(db, bookingId);
+  if (!emailResult.success) {
+    console.error('Failed to send booking confirmation email:', emailResult.error);
+    await saveBookingToDeadLetterQueue(bookingId, booking.customer.email, {
+      code: 'SEND_FAILED',
+      msg: emailResult.error || 'Unknown error'
+    }).catch(error => console.error('Failed to queue booking confirmation email:', error));
+  }
+
+  return booking;
+}
+
+/**
+ * Confirms a draft booking and assigns it a confirmation code
+ *
+ * Takes the manage token createBooking returned, so only whoever made the
+ * booking can confirm it. Confirming an already confirmed booking returns
+ * the existing code. The confirmation email is sent once the booking is
+ * confirmed.
+ */
+export const confirmBooking = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+    secrets: [jwtSecret, publicAppUrl, resendApiKey, fromEmail, fromName]
+  },
+  async (request: CallableRequest<ConfirmBookingRequest>): Promise<ConfirmBookingResponse> => {
+    try {
+      const { bookingId, token } = request.data || {};
+
+      if (!bookingId || typeof bookingId !== 'string') {
+        throw new HttpsError('invalid-argument', 'Booking ID is required');
+      }
+      if (!token || typeof token !== 'string') {
+        throw new HttpsError('invalid-argument', 'Booking token is required');
+      }
+
+      const tokenResult = validateBookingToken(token, 'manage');
+      if (!tokenResult.valid || tokenResult.payload?.bookingId !== bookingId) {
+        throw new HttpsError('permission-denied', 'Invalid booking token');
+      }
+
+      const db = getFirestore();
+      const booking = await confirmDraftBooking(db, bookingId);
+      const details = await loadBookingDetails(db, booking);
+
+      return {
+        success: true,
+        confirmation: toConfirmationData(details, createBookingLinks(bookingId))
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in confirmBooking:', error);
+      throw new HttpsError('internal', 'Failed to confirm booking');
+    }
+  }
+);
+
+/**
+ * Cancel a draft that expired before it was confirmed, giving back its class
+ * seat. Returns false when the booking is no longer an expired draft.
+ */
+export async function cancelExpiredDraft(db: Firestore, bookingId: string): Promise<boolean> {
+  const bookingRef = db.collection('bookings').doc(bookingId);
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(bookingRef);
+    if (!snapshot.exists) {
+      return false;
+    }
+
+    const booking = { ...snapshot.data(), id: snapshot.id } as BookingDoc;
+    if (!isDraftExpired(booking, new Date())) {
+      return false;
+    }
+
+    transaction.update(bookingRef, {
+      status: 'cancelled',
+      cancellationReason: 'expired',
+      cancelledAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+    if (booking.sessionId) {
+      transaction.update(classSessionRef(db, booking.orgId, booking.sessionId), {
+        seatsBooked: FieldValue.increment(-1),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+    }
+    return true;
+  });
+}
+
+/**
+ * Cancels drafts that expired before they were confirmed or paid
+ *
+ * Expired drafts already stop counting against availability; this releases
+ * their class seats and keeps them out of the way. Payments that arrive for
+ * them later are refunded.
+ */
+export const expireDraftBookings = onSchedule(
+  {
+    schedule: 'every 5 minutes',
+    region: 'us-central1',
+    timeZone: 'UTC',
+    timeoutSeconds: 300
+  },
+  async () => {
+    const db = getFirestore();
+    const snapshot = await db
+      .collection('bookings')
+      .where('status', '==', 'draft')
+      .where('expiresAt', '<=', Timestamp.now())
+      .limit(CLEANUP_BATCH_SIZE)
+      .get();
+
+    let expired = 0;
+    for (const doc of snapshot.docs) {
+      try {
+        if (await cancelExpiredDraft(db, doc.id)) {
+          expired++;
+        }
+      } catch (error) {
+        console.error(`Failed to expire draft booking ${doc.id}:`, error);
+      }
+    }
+
+    console.log('Draft booking cleanup completed:', { expired });
+  }
+);
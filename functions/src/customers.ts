@@ -0,0 +1,283 @@
+/**
+ * Customer account Cloud Functions
+ *
+ * Customers can optionally sign in with a link emailed to them to have their
+ * details filled in when they book and to see their upcoming and past
+ * bookings. Signing in only proves they own the email address; their session
+ * is a signed token, separate from staff Firebase Auth accounts.
+ */
+
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { z } from 'zod';
+import { defineSecret } from 'firebase-functions/params';
+import { createCustomerToken, createBookingToken, validateCustomerToken } from './tokens';
+import { sendCustomerSignInEmail } from './email';
+import { getManagePath } from './lib/bookings';
+import { normalizeEmail } from './lib/crypto';
+import { enforceRateLimit } from './lib/rateLimiter';
+import { getClientIP } from './lib/security';
+import {
+  BookingDocCache,
+  getCustomer,
+  getCustomerId,
+  getRebookPath,
+  getSessionEmail,
+  splitBookingHistory
+} from './lib/customers';
+import type { BookingDoc, BookingStatus, CustomerDoc } from './types/models';
+
+// Define secrets
+const jwtSecret = defineSecret('JWT_SECRET');
+const publicAppUrl = defineSecret('PUBLIC_APP_URL');
+const resendApiKey = defineSecret('RESEND_API_KEY');
+const fromEmail = defineSecret('FROM_EMAIL');
+const fromName = defineSecret('FROM_NAME');
+
+// Bookings listed on a customer's account, most recent first
+const MAX_HISTORY = 100;
+
+// Sign-in links asked for per 15 minutes, from one IP address and for one email
+const SIGN_IN_IP_RATE_LIMIT = { windowMs: 15 * 60 * 1000, maxRequests: 20 };
+const SIGN_IN_EMAIL_RATE_LIMIT = { windowMs: 15 * 60 * 1000, maxRequests: 5 };
+
+const RequestCustomerSignInSchema = z.object({
+  email: z.string().trim().email()
+});
+
+const RedeemCustomerSignInSchema = z.object({
+  token: z.string().min(1)
+});
+
+const GetCustomerAccountSchema = z.object({
+  sessionToken: z.string().min(1)
+});
+
+export type RequestCustomerSignInRequest = z.infer<typeof RequestCustomerSignInSchema>;
+export type RedeemCustomerSignInRequest = z.infer<typeof RedeemCustomerSignInSchema>;
+export type GetCustomerAccountRequest = z.infer<typeof GetCustomerAccountSchema>;
+
+export interface CustomerProfile {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+}
+
+export interface CustomerBookingSummary {
+  bookingId: string;
+  date: string;
+  time: string;
+  timezone: string;
+  duration: number;
+  status: BookingStatus;
+  serviceName: string;
+  professionalName?: string;
+  storeName?: string;
+  manageUrl?: string; // upcoming bookings only
+  rebookUrl?: string; // while the professional and service still exist
+}
+
+export interface RequestCustomerSignInResponse {
+  success: boolean;
+}
+
+export interface RedeemCustomerSignInResponse {
+  success: boolean;
+  sessionToken: string;
+  expiresAt: string; // ISO timestamp
+  profile: CustomerProfile;
+}
+
+export interface GetCustomerAccountResponse {
+  success: boolean;
+  profile: CustomerProfile;
+  upcoming: CustomerBookingSummary[];
+  past: CustomerBookingSummary[];
+}
+
+function toCustomerProfile(email: string, customer: CustomerDoc | null): CustomerProfile {
+  return {
+    email,
+    ...(customer?.firstName ? { firstName: customer.firstName } : {}),
+    ...(customer?.lastName ? { lastName: customer.lastName } : {}),
+    ...(customer?.phone ? { phone: customer.phone } : {})
+  };
+}
+
+async function toBookingSummary(
+  cache: BookingDocCache,
+  booking: BookingDoc,
+  upcoming: boolean
+): Promise<CustomerBookingSummary> {
+  const [org, store, professional, service] = await Promise.all([
+    cache.org(booking.orgId),
+    cache.store(booking.orgId, booking.storeId),
+    cache.professional(booking.orgId, booking.professionalId),
+    cache.service(booking)
+  ]);
+
+  const manageToken = upcoming ? createBookingToken(booking.id, 'manage').token : undefined;
+  const rebookUrl = org ? getRebookPath(org, store, professional, service) : null;
+
+  return {
+    bookingId: booking.id,
+    date: booking.date,
+    time: booking.time,
+    timezone: booking.timezone,
+    duration: booking.duration,
+    status: booking.status,
+    serviceName: booking.serviceName,
+    ...(professional ? { professionalName: professional.name } : {}),
+    ...(store ? { storeName: store.name } : {}),
+    ...(manageToken ? { manageUrl: getManagePath(manageToken) } : {}),
+    ...(rebookUrl ? { rebookUrl } : {})
+  };
+}
+
+/**
+ * Public callable: emails a customer a link to sign in. Always succeeds, so
+ * it can't be used to find out who has booked before.
+ */
+export const requestCustomerSignIn = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+    secrets: [jwtSecret, publicAppUrl, resendApiKey, fromEmail, fromName]
+  },
+  async (request: CallableRequest<RequestCustomerSignInRequest>): Promise<RequestCustomerSignInResponse> => {
+    try {
+      const parsed = RequestCustomerSignInSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new HttpsError('invalid-argument', 'A valid email is required');
+      }
+
+      const email = normalizeEmail(parsed.data.email);
+      await enforceRateLimit(`signIn:ip:${getClientIP(request.rawRequest)}`, SIGN_IN_IP_RATE_LIMIT);
+      await enforceRateLimit(`signIn:email:${getCustomerId(email)}`, SIGN_IN_EMAIL_RATE_LIMIT);
+
+      const signIn = createCustomerToken(email, 'sign_in');
+      if (!signIn.success || !signIn.url) {
+        throw new Error(signIn.error || 'Failed to create sign-in link');
+      }
+
+      const result = await sendCustomerSignInEmail(email, signIn.url);
+      if (!result.success) {
+        console.error('Failed to send customer sign-in email:', result.error);
+      }
+
+      return { success: true };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in requestCustomerSignIn:', error);
+      throw new HttpsError('internal', 'Failed to send sign-in link');
+    }
+  }
+);
+
+/**
+ * Public callable: exchanges the token from a sign-in link for a session,
+ * creating the customer's profile on their first sign-in
+ */
+export const redeemCustomerSignIn = onCall(
+  { region: 'us-central1', cors: true, secrets: [jwtSecret] },
+  async (request: CallableRequest<RedeemCustomerSignInRequest>): Promise<RedeemCustomerSignInResponse> => {
+    try {
+      const parsed = RedeemCustomerSignInSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new HttpsError('invalid-argument', 'Sign-in token is required');
+      }
+
+      const validation = validateCustomerToken(parsed.data.token, 'sign_in');
+      if (!validation.valid || !validation.payload) {
+        throw new HttpsError('unauthenticated', validation.error || 'Invalid sign-in link');
+      }
+
+      const email = validation.payload.email;
+      const session = createCustomerToken(email, 'session');
+      if (!session.success || !session.token || !session.expiresAt) {
+        throw new Error(session.error || 'Failed to create session');
+      }
+
+      const db = getFirestore();
+      const customerRef = db.collection('customers').doc(getCustomerId(email));
+      const customer = await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(customerRef);
+        const now = FieldValue.serverTimestamp();
+        if (snapshot.exists) {
+          transaction.update(customerRef, { lastSignInAt: now });
+        } else {
+          transaction.set(customerRef, { email, createdAt: now, updatedAt: now, lastSignInAt: now });
+        }
+        return snapshot.exists ? (snapshot.data() as CustomerDoc) : null;
+      });
+
+      return {
+        success: true,
+        sessionToken: session.token,
+        expiresAt: session.expiresAt.toISOString(),
+        profile: toCustomerProfile(email, customer)
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in redeemCustomerSignIn:', error);
+      throw new HttpsError('internal', 'Failed to sign in');
+    }
+  }
+);
+
+/**
+ * Public callable: a signed-in customer's profile with their upcoming and
+ * past bookings across every org
+ */
+export const getCustomerAccount = onCall(
+  { region: 'us-central1', cors: true, secrets: [jwtSecret] },
+  async (request: CallableRequest<GetCustomerAccountRequest>): Promise<GetCustomerAccountResponse> => {
+    try {
+      const parsed = GetCustomerAccountSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new HttpsError('invalid-argument', 'Session token is required');
+      }
+
+      const email = getSessionEmail(parsed.data.sessionToken);
+      const db = getFirestore();
+
+      const [customer, bookingsSnap] = await Promise.all([
+        getCustomer(db, email),
+        db
+          .collection('bookings')
+          .where('customer.email', '==', email)
+          .orderBy('date', 'desc')
+          .limit(MAX_HISTORY)
+          .get()
+      ]);
+
+      const bookings = bookingsSnap.docs.map(doc => ({ ...doc.data(), id: doc.id }) as BookingDoc);
+      const { upcoming, past } = splitBookingHistory(bookings);
+      const cache = new BookingDocCache(db);
+
+      return {
+        success: true,
+        profile: toCustomerProfile(email, customer),
+        upcoming: await Promise.all(upcoming.map(booking => toBookingSummary(cache, booking, true))),
+        past: await Promise.all(past.map(booking => toBookingSummary(cache, booking, false)))
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in getCustomerAccount:', error);
+      throw new HttpsError('internal', 'Failed to load customer account');
+    }
+  }
+);
@@ -6,6 +6,17 @@
  */
 
 import { createResendClient } from './lib/resend';
+import {
+  buildBookingConfirmationEmail,
+  buildBookingReminderEmail,
+  buildBookingUpdateEmail,
+  buildSessionSeatOpenEmail,
+  buildWaitlistClaimEmail,
+  type BookingEmailData,
+  type BookingUpdateKind
+} from './lib/email';
+import { emailServiceCircuitBreaker } from './lib/circuitBreaker';
+import type { EmailTemplate, Locale } from './types/models';
 import { defineSecret } from 'firebase-functions/params';
 
 // Define secrets
@@ -139,6 +150,276 @@ export async function sendPasswordResetEmail(
   }
 }
 
+/**
+ * Sends a customer the link that signs them in to see their bookings
+ */
+export async function sendCustomerSignInEmail(email: string, signInUrl: string): Promise<EmailResult> {
+  try {
+    const brand = 'Calendado';
+
+    const emailHtml = generateCustomerSignInHtml({
+      brandName: brand,
+      signInUrl
+    });
+
+    // Use existing ResendClient
+    const resendClient = createResendClient(
+      process.env.RESEND_API_KEY!,
+      process.env.FROM_EMAIL!,
+      process.env.FROM_NAME!
+    );
+
+    const result = await resendClient.sendEmail({
+      from: `${process.env.FROM_NAME} <${process.env.FROM_EMAIL}>`, // Required by ResendEmailPayload type
+      to: [email],
+      subject: `Sign in to ${brand}`,
+      html: emailHtml,
+      tags: [
+        { name: 'type', value: 'customer_sign_in' },
+        { name: 'brand', value: brand }
+      ]
+    });
+
+    if (result.error) {
+      return {
+        success: false,
+        error: `Resend error: ${result.error}`
+      };
+    }
+
+    return {
+      success: true,
+      messageId: result.id
+    };
+
+  } catch (error) {
+    console.error('Error sending customer sign-in email:', error);
+    return {
+      success: false,
+      error: `Failed to send email: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
+
+export interface BookingConfirmationEmailData extends BookingEmailData {
+  bookingId: string;
+  email: string;
+  locale: Locale | null;
+  ics: {
+    filename: string;
+    content: Buffer;
+  };
+}
+
+/**
+ * Sends the customer a localized booking confirmation with the calendar file
+ * attached
+ */
+export async function sendBookingConfirmationEmail(data: BookingConfirmationEmailData): Promise<EmailResult> {
+  return sendBookingEmail({
+    email: data.email,
+    template: buildBookingConfirmationEmail(data, data.locale),
+    locale: data.locale,
+    type: 'booking_confirmation',
+    dedupeKey: `booking-confirmation-${data.bookingId}`,
+    attachment: data.ics
+  });
+}
+
+export interface BookingReminderEmailData extends BookingEmailData {
+  bookingId: string;
+  email: string;
+  locale: Locale | null;
+  offsetHours: number;
+}
+
+/**
+ * Sends the customer a localized reminder of an upcoming appointment
+ */
+export async function sendBookingReminderEmail(data: BookingReminderEmailData): Promise<EmailResult> {
+  return sendBookingEmail({
+    email: data.email,
+    template: buildBookingReminderEmail(data, data.locale, data.offsetHours),
+    locale: data.locale,
+    type: 'booking_reminder',
+    dedupeKey: `booking-reminder-${data.bookingId}-${data.offsetHours}h`
+  });
+}
+
+export interface SessionSeatOpenEmailData extends BookingEmailData {
+  sessionId: string;
+  entryId: string; // waitlist entry being notified
+  email: string;
+  locale: Locale | null;
+  bookUrl: string; // absolute URL of the booking page, with the session preselected
+}
+
+/**
+ * Tells a customer on a class session's waitlist, in their language, that a
+ * seat opened up
+ */
+export async function sendSessionSeatOpenEmail(data: SessionSeatOpenEmailData): Promise<EmailResult> {
+  return sendBookingEmail({
+    email: data.email,
+    template: buildSessionSeatOpenEmail(data, data.bookUrl, data.locale),
+    locale: data.locale,
+    type: 'class_seat_open',
+    dedupeKey: `class-seat-open-${data.sessionId}-${data.entryId}`
+  });
+}
+
+export interface WaitlistClaimEmailData extends BookingEmailData {
+  entryId: string; // booking waitlist entry being notified
+  holdId: string; // hold on the slot offered
+  email: string;
+  locale: Locale | null;
+  claimUrl: string; // absolute URL of the booking page, with the held slot preselected
+  claimMinutes: number; // how long the slot is held
+}
+
+/**
+ * Tells a customer on the booking waitlist, in their language, that a slot
+ * opened up and is held for them
+ */
+export async function sendWaitlistClaimEmail(data: WaitlistClaimEmailData): Promise<EmailResult> {
+  return sendBookingEmail({
+    email: data.email,
+    template: buildWaitlistClaimEmail(data, data.claimUrl, data.claimMinutes, data.locale),
+    locale: data.locale,
+    type: 'waitlist_claim',
+    dedupeKey: `waitlist-claim-${data.entryId}-${data.holdId}`
+  });
+}
+
+/**
+ * Sends a booking email through the email circuit breaker, so while Resend is
+ * failing sends are rejected fast and the caller can queue them for the DLQ
+ * replayer instead
+ */
+async function sendBookingEmail(message: {
+  email: string;
+  template: EmailTemplate;
+  locale: Locale | null;
+  type: string;
+  dedupeKey: string;
+  attachment?: { filename: string; content: Buffer };
+}): Promise<EmailResult> {
+  try {
+    const locale = message.locale || 'en-US';
+
+    const resendClient = createResendClient(
+      process.env.RESEND_API_KEY!,
+      process.env.FROM_EMAIL!,
+      process.env.FROM_NAME!
+    );
+
+    const result = await emailServiceCircuitBreaker.execute(async () => {
+      const response = await resendClient.sendEmail({
+        from: `${process.env.FROM_NAME} <${process.env.FROM_EMAIL}>`, // Required by ResendEmailPayload type
+        to: [message.email],
+        subject: message.template.subject,
+        html: message.template.html,
+        headers: {
+          'X-Dedupe-Key': message.dedupeKey,
+          'X-Locale': locale
+        },
+        ...(message.attachment ? {
+          attachments: [
+            {
+              filename: message.attachment.filename,
+              content: message.attachment.content,
+              contentType: 'text/calendar; charset=utf-8'
+            }
+          ]
+        } : {}),
+        tags: [
+          { name: 'type', value: message.type },
+          { name: 'locale', value: locale }
+        ]
+      });
+
+      if (response.error) {
+        throw new Error(`Resend error: ${JSON.stringify(response.error)}`);
+      }
+      return response;
+    });
+
+    return {
+      success: true,
+      messageId: result.id
+    };
+
+  } catch (error) {
+    console.error(`Error sending ${message.type} email:`, error);
+    return {
+      success: false,
+      error: `Failed to send email: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
+
+export interface BookingUpdateEmailData extends BookingEmailData {
+  email: string;
+  locale: Locale | null;
+  kind: BookingUpdateKind;
+  ics: {
+    filename: string;
+    content: Buffer;
+  };
+}
+
+/**
+ * Sends the customer a localized, updated calendar file after a reschedule or
+ * cancellation
+ */
+export async function sendBookingUpdateEmail(data: BookingUpdateEmailData): Promise<EmailResult> {
+  try {
+    const template = buildBookingUpdateEmail(data, data.kind, data.locale);
+
+    const resendClient = createResendClient(
+      process.env.RESEND_API_KEY!,
+      process.env.FROM_EMAIL!,
+      process.env.FROM_NAME!
+    );
+
+    const result = await resendClient.sendEmail({
+      from: `${process.env.FROM_NAME} <${process.env.FROM_EMAIL}>`, // Required by ResendEmailPayload type
+      to: [data.email],
+      subject: template.subject,
+      html: template.html,
+      attachments: [
+        {
+          filename: data.ics.filename,
+          content: data.ics.content,
+          contentType: 'text/calendar; charset=utf-8'
+        }
+      ],
+      tags: [
+        { name: 'type', value: `booking_${data.kind}` }
+      ]
+    });
+
+    if (result.error) {
+      return {
+        success: false,
+        error: `Resend error: ${result.error}`
+      };
+    }
+
+    return {
+      success: true,
+      messageId: result.id
+    };
+
+  } catch (error) {
+    console.error('Error sending booking update email:', error);
+    return {
+      success: false,
+      error: `Failed to send email: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
+
 /**
  * Generates HTML for invitation email
  */
@@ -382,3 +663,81 @@ function generatePasswordResetHtml(data: {
 </body>
 </html>`;
 }
+
+/**
+ * Generates HTML for the customer sign-in email
+ */
+function generateCustomerSignInHtml(data: {
+  brandName: string;
+  signInUrl: string;
+}): string {
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Sign in to ${data.brandName}</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+            background-color: #f8fafc;
+        }
+        .container {
+            background: white;
+            border-radius: 12px;
+            padding: 40px;
+            box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);
+        }
+        .logo {
+            font-size: 28px;
+            font-weight: bold;
+            color: #7c3aed;
+            text-align: center;
+            margin-bottom: 20px;
+        }
+        .cta-button {
+            display: inline-block;
+            background: linear-gradient(135deg, #7c3aed 0%, #a855f7 100%);
+            color: white;
+            text-decoration: none;
+            padding: 16px 32px;
+            border-radius: 8px;
+            font-weight: 600;
+            font-size: 16px;
+            margin: 20px 0;
+        }
+        .footer {
+            text-align: center;
+            color: #6b7280;
+            font-size: 14px;
+            margin-top: 30px;
+            padding-top: 20px;
+            border-top: 1px solid #e5e7eb;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="logo">${data.brandName}</div>
+        <p>Click the button below to sign in and see your upcoming and past bookings.</p>
+
+        <div style="text-align: center;">
+            <a href="${data.signInUrl}" class="cta-button">Sign In</a>
+        </div>
+
+        <p>This link will expire in 30 minutes. If the button doesn't work, copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; color: #7c3aed;">${data.signInUrl}</p>
+
+        <div class="footer">
+            <p>If you didn't ask to sign in, you can safely ignore this email.</p>
+        </div>
+    </div>
+</body>
+</html>`;
+}
@@ -1,4 +1,5 @@
 import { onRequest } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
 import type { Request, Response } from 'firebase-functions/v1';
 import { withAuth, requireMethod } from '../lib/middleware';
 import { createResendClient } from '../lib/resend';
@@ -8,10 +9,14 @@ import {
   updateWaitlistConfirmation,
   getDeadLetterQueueDocuments,
   deleteDeadLetterQueueDocument,
-  updateDeadLetterQueueAttempts
+  updateDeadLetterQueueAttempts,
+  getBookingDeadLetterQueueId
 } from '../lib/firestore';
-import type { DeadLetterQueueDoc } from '../types/models';
+import { getAppointmentStart } from '../lib/bookings';
+import type { BookingDoc, DeadLetterQueueDoc } from '../types/models';
 import { generateDedupeKey, normalizeEmail } from '../lib/crypto';
+import { sendBookingConfirmation } from '../bookings';
+import { sendBookingReminder } from '../reminders';
 
 export const dlqReplayer = onRequest(
   withAuth({ requireAdmin: true })(
@@ -53,7 +58,7 @@ export const dlqReplayer = onRequest(
         } catch (error) {
           results.failed++;
           results.processed++;
-          const errorMsg = `Failed to process DLQ item ${dlqDoc.waitlistId}: ${error instanceof Error ? error.message : String(error)}`;
+          const errorMsg = `Failed to process DLQ item ${dlqDoc.bookingId || dlqDoc.waitlistId}: ${error instanceof Error ? error.message : String(error)}`;
           results.errors.push(errorMsg);
           console.error(errorMsg);
         }
@@ -74,6 +79,11 @@ export const dlqReplayer = onRequest(
  * Process a single DLQ item
  */
 async function processDLQItem(dlqDoc: DeadLetterQueueDoc): Promise<void> {
+  if ((dlqDoc.type === 'booking_confirmation' || dlqDoc.type === 'booking_reminder') && dlqDoc.bookingId) {
+    await processBookingDLQItem(dlqDoc, dlqDoc.bookingId);
+    return;
+  }
+
   const { waitlistId, attempts, maxAttempts } = dlqDoc;
 
   // Check if we've exceeded max attempts
@@ -161,3 +171,53 @@ async function processDLQItem(dlqDoc: DeadLetterQueueDoc): Promise<void> {
     throw error;
   }
 }
+
+/**
+ * Process a queued booking confirmation or reminder email
+ */
+async function processBookingDLQItem(dlqDoc: DeadLetterQueueDoc, bookingId: string): Promise<void> {
+  const reminderOffset = dlqDoc.type === 'booking_reminder' ? dlqDoc.reminderOffset : undefined;
+  const dlqId = getBookingDeadLetterQueueId(bookingId, reminderOffset);
+
+  if (dlqDoc.attempts >= dlqDoc.maxAttempts) {
+    console.warn(`Max attempts exceeded for booking DLQ item: ${bookingId}`);
+    await deleteDeadLetterQueueDocument(dlqId);
+    return;
+  }
+
+  const db = getFirestore();
+  const bookingSnap = await db.collection('bookings').doc(bookingId).get();
+  if (!bookingSnap.exists || bookingSnap.data()?.status !== 'confirmed') {
+    console.warn(`Booking not found or no longer confirmed for DLQ item: ${bookingId}`);
+    await deleteDeadLetterQueueDocument(dlqId);
+    return;
+  }
+
+  const booking = { ...bookingSnap.data(), id: bookingSnap.id } as BookingDoc;
+  if (reminderOffset !== undefined && getAppointmentStart(booking) <= new Date()) {
+    console.warn(`Appointment already started, dropping reminder DLQ item: ${bookingId}`);
+    await deleteDeadLetterQueueDocument(dlqId);
+    return;
+  }
+
+  // Both skip the send if the email already went out
+  const result = reminderOffset === undefined
+    ? await sendBookingConfirmation(db, bookingId)
+    : await sendBookingReminder(db, bookingId, reminderOffset);
+
+  if (!result.success) {
+    await updateDeadLetterQueueAttempts(dlqId, {
+      code: 'RETRY_FAILED',
+      msg: result.error || 'Unknown error'
+    });
+    throw new Error(result.error || 'Failed to send booking email');
+  }
+
+  await deleteDeadLetterQueueDocument(dlqId);
+
+  console.log('Successfully processed booking DLQ item:', {
+    bookingId,
+    reminderOffset,
+    messageId: result.messageId
+  });
+}
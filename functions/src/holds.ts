@@ -0,0 +1,209 @@
+/**
+ * Slot hold Cloud Functions
+ *
+ * The booking wizard holds the slot a customer picks while they fill in
+ * their details, so nobody else can book it in the meantime. Holds expire
+ * after a few minutes; createBooking releases them when the booking is made.
+ */
+
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { z } from 'zod';
+import {
+  loadScheduleContexts,
+  findFreeCandidates,
+  bookingLockRef,
+  pickLeastBooked,
+  ANY_PROFESSIONAL
+} from './lib/schedule';
+import { resourceLockRef } from './lib/resources';
+import { enforceRateLimit } from './lib/rateLimiter';
+import { getClientIP } from './lib/security';
+import { getHoldExpiry, SLOT_HOLD_MINUTES } from './lib/holds';
+import { getClassService } from './lib/sessions';
+import { SlotRequestSchema } from './bookings';
+import type { SlotHoldDoc } from './types/models';
+
+const CLEANUP_BATCH_SIZE = 500;
+
+// Slots one IP address can hold a minute, enough for a customer trying several times
+const HOLD_RATE_LIMIT = { windowMs: 60 * 1000, maxRequests: 30 };
+
+// Holds placed on one professional's day (a store's for "any professional")
+// while a hold lasts, which caps the slots tied up whatever IP headers claim
+const HOLD_DAY_RATE_LIMIT = { windowMs: SLOT_HOLD_MINUTES * 60 * 1000, maxRequests: 30 };
+
+const HoldSlotSchema = SlotRequestSchema.extend({
+  replaceHoldId: z.string().trim().min(1).optional()
+});
+
+export type HoldSlotRequest = z.infer<typeof HoldSlotSchema>;
+
+export interface HoldSlotResponse {
+  success: boolean;
+  holdId: string;
+  professionalId: string; // the one picked for "any professional" requests
+  expiresAt: string; // ISO 8601
+}
+
+/**
+ * Holds a slot for the customer filling in the booking wizard
+ *
+ * Public callable. The slot is checked and held inside a transaction, like a
+ * booking, and for "any professional" the hold goes to the least booked of
+ * those free. Picking another slot passes the previous hold as
+ * `replaceHoldId`, which releases it; replacing the hold of a booking
+ * waitlist claim is how the claimed slot gets booked. Class sessions are
+ * booked straight away, without a hold.
+ */
+export const holdSlot = onCall(
+  { region: 'us-central1', cors: true },
+  async (request: CallableRequest<HoldSlotRequest>): Promise<HoldSlotResponse> => {
+    try {
+      const parsed = HoldSlotSchema.safeParse(request.data);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new HttpsError('invalid-argument', `Invalid hold request: ${issue.path.join('.')} ${issue.message}`);
+      }
+
+      const { orgId, professionalId, serviceIds, storeId, date, time, replaceHoldId } = parsed.data;
+      await enforceRateLimit(`holdSlot:ip:${getClientIP(request.rawRequest)}`, HOLD_RATE_LIMIT);
+
+      const db = getFirestore();
+      const contexts = await loadScheduleContexts(db, { orgId, professionalId, serviceIds, storeId });
+      if (getClassService(contexts[0].services)) {
+        throw new HttpsError('invalid-argument', 'Class seats are booked without a hold');
+      }
+
+      const schedule =
+        professionalId === ANY_PROFESSIONAL ? `store:${contexts[0].store?.id}` : contexts[0].professional.id;
+      await enforceRateLimit(`holdSlot:day:${schedule}:${date}`, HOLD_DAY_RATE_LIMIT);
+
+      const holdRef = db.collection('slotHolds').doc();
+      const now = new Date();
+      const expiresAt = getHoldExpiry(now);
+
+      let context = contexts[0];
+
+      await db.runTransaction(async transaction => {
+        // A waitlist claim carries over to the hold that replaces it
+        const replacedRef = replaceHoldId ? db.collection('slotHolds').doc(replaceHoldId) : null;
+        const replaced = replacedRef ? await transaction.get(replacedRef) : null;
+        const waitlistEntryId = (replaced?.data() as SlotHoldDoc | undefined)?.waitlistEntryId;
+
+        // The customer's previous hold doesn't stand in the way of re-holding
+        // the same slot
+        const candidates = await findFreeCandidates(transaction, db, contexts, date, time, now, {
+          holdId: replaceHoldId
+        });
+
+        if (candidates.length === 0) {
+          throw new HttpsError('failed-precondition', 'The selected time slot is no longer available');
+        }
+
+        const picked = pickLeastBooked(candidates);
+        context = picked.context;
+
+        transaction.set(
+          bookingLockRef(db, context.professional.id, date),
+          {
+            professionalId: context.professional.id,
+            date,
+            lastHoldId: holdRef.id,
+            updatedAt: FieldValue.serverTimestamp()
+          },
+          { merge: true }
+        );
+
+        // The hold takes its room or equipment as well, so it's still free at booking time
+        if (context.store && picked.resources.length > 0) {
+          transaction.set(
+            resourceLockRef(db, context.store.id, date),
+            {
+              storeId: context.store.id,
+              date,
+              lastHoldId: holdRef.id,
+              updatedAt: FieldValue.serverTimestamp()
+            },
+            { merge: true }
+          );
+        }
+
+        transaction.set(holdRef, {
+          id: holdRef.id,
+          professionalId: context.professional.id,
+          date,
+          time,
+          duration: context.durationMin,
+          ...(context.store && picked.resources.length > 0
+            ? { storeId: context.store.id, resources: picked.resources }
+            : {}),
+          ...(waitlistEntryId ? { waitlistEntryId } : {}),
+          expiresAt: Timestamp.fromDate(expiresAt),
+          createdAt: FieldValue.serverTimestamp()
+        });
+
+        if (replaceHoldId) {
+          transaction.delete(db.collection('slotHolds').doc(replaceHoldId));
+        }
+      });
+
+      return {
+        success: true,
+        holdId: holdRef.id,
+        professionalId: context.professional.id,
+        expiresAt: expiresAt.toISOString()
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in holdSlot:', error);
+      throw new HttpsError('internal', 'Failed to hold slot');
+    }
+  }
+);
+
+/**
+ * Deletes expired slot holds every 5 minutes
+ *
+ * Expired holds already stop counting as busy; this only keeps the
+ * collection small.
+ */
+export const releaseExpiredSlotHolds = onSchedule(
+  {
+    schedule: 'every 5 minutes',
+    region: 'us-central1',
+    timeZone: 'UTC',
+    timeoutSeconds: 300
+  },
+  async () => {
+    const db = getFirestore();
+    const query = db
+      .collection('slotHolds')
+      .where('expiresAt', '<=', Timestamp.now())
+      .limit(CLEANUP_BATCH_SIZE);
+
+    let released = 0;
+    for (;;) {
+      const snapshot = await query.get();
+      if (snapshot.empty) {
+        break;
+      }
+
+      const batch = db.batch();
+      snapshot.docs.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+      released += snapshot.size;
+
+      if (snapshot.size < CLEANUP_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    console.log('Slot hold cleanup completed:', { released });
+  }
+);
@@ -4,68 +4,200 @@
  */
 
 import { Request, Response } from 'express';
+import { getFirestore } from 'firebase-admin/firestore';
+import { validateBookingToken } from './tokens';
+import { loadBookingDetails, formatStoreLocation, type BookingDetails } from './lib/bookings';
+import type { BookingDoc } from './types/models';
+import { getWallClock, getTimezoneOffset, getOffsetTransitions, zonedTimeToUtc } from './lib/timezone';
+import { isSeriesEmpty } from './lib/recurrence';
 
-interface BookingData {
+export interface BookingData {
   id: string;
   serviceName: string;
   professionalName: string;
   customerName: string;
   customerEmail: string;
-  appointmentDate: string; // YYYY-MM-DD
-  appointmentTime: string; // HH:MM
+  appointmentDate: string; // YYYY-MM-DD, wall-clock date in `timezone`
+  appointmentTime: string; // HH:MM, wall-clock time in `timezone`
   duration: number; // minutes
+  timezone: string; // IANA timezone of the store or professional
+  organizerName?: string;
+  organizerEmail?: string;
   location?: string;
   description?: string;
+  sequence?: number; // bumped whenever the appointment changes
+  cancelled?: boolean;
+  recurrence?: {
+    seriesId: string;
+    rrule: string; // starting from appointmentDate
+    exdates: string[]; // YYYY-MM-DD, at appointmentTime
+    lastDate: string; // YYYY-MM-DD of the last occurrence
+  };
 }
 
-export function generateICSContent(booking: BookingData): string {
-  const startDate = new Date(`${booking.appointmentDate}T${booking.appointmentTime}:00`);
-  const endDate = new Date(startDate.getTime() + booking.duration * 60000);
-  
-  const formatDate = (date: Date): string => {
-    return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-  };
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 section 3.1), without
+ * splitting multi-byte UTF-8 characters
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+const escapeText = (text: string): string => {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '');
+};
 
-  const escapeText = (text: string): string => {
-    return text
-      .replace(/\\/g, '\\\\')
-      .replace(/;/g, '\\;')
-      .replace(/,/g, '\\,')
-      .replace(/\n/g, '\\n')
-      .replace(/\r/g, '');
+// Parameter values can't be escaped, only quoted
+const quoteParam = (value: string): string => `"${value.replace(/["\r\n]/g, '')}"`;
+
+const pad = (value: number, length: number = 2): string => String(value).padStart(length, '0');
+
+const formatUtc = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+};
+
+const formatLocal = (date: Date, timezone: string): string => {
+  const wall = getWallClock(date, timezone);
+  return `${wall.year}${pad(wall.month)}${pad(wall.day)}T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`;
+};
+
+// Wall-clock date and time as stored on bookings, e.g. 2030-01-07 10:00
+const formatWallClock = (date: string, time: string): string => `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+};
+
+/**
+ * Build a VTIMEZONE block describing the offsets in effect during the year
+ * of the appointment (through the year of `until` for recurring series), so
+ * clients don't need their own copy of the tz data
+ */
+export function buildVTimezone(timezone: string, around: Date, until: Date = around): string[] {
+  const year = around.getUTCFullYear();
+  const from = new Date(Date.UTC(year, 0, 1));
+  const to = new Date(Date.UTC(until.getUTCFullYear() + 1, 0, 1));
+
+  const initialOffset = getTimezoneOffset(from, timezone);
+  const transitions = getOffsetTransitions(timezone, from, to);
+  const standardOffset = Math.min(initialOffset, ...transitions.map(t => t.offsetTo));
+
+  const observance = (dtstart: string, offsetFrom: number, offsetTo: number): string[] => {
+    const type = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${type}`,
+      `DTSTART:${dtstart}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${type}`
+    ];
   };
 
-  const uid = `booking-${booking.id}@calendado.com`;
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timezone}`];
+  lines.push(...observance(`${year}0101T000000`, initialOffset, initialOffset));
+
+  for (const transition of transitions) {
+    // Observance start is expressed in the local time before the change
+    const localStart = new Date(transition.instant.getTime() + transition.offsetFrom * 60000);
+    const dtstart = formatUtc(localStart).replace('Z', '');
+    lines.push(...observance(dtstart, transition.offsetFrom, transition.offsetTo));
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+export function generateICSContent(booking: BookingData): string {
+  const startDate = zonedTimeToUtc(booking.appointmentDate, booking.appointmentTime, booking.timezone);
+  const endDate = new Date(startDate.getTime() + booking.duration * 60000);
+
+  // A series is a single recurring event, whichever occurrence it's sent for
+  const { recurrence } = booking;
+  const uid = recurrence ? `series-${recurrence.seriesId}@calendado.com` : `booking-${booking.id}@calendado.com`;
+  const lastStart = recurrence
+    ? zonedTimeToUtc(recurrence.lastDate, booking.appointmentTime, booking.timezone)
+    : startDate;
   const now = new Date();
-  
-  const icsContent = [
+
+  // Without an organizer the event is published rather than sent as an invitation
+  const organizer = booking.organizerEmail
+    ? `ORGANIZER;CN=${quoteParam(booking.organizerName || booking.professionalName)}:mailto:${booking.organizerEmail}`
+    : null;
+  const method = !organizer ? 'PUBLISH' : booking.cancelled ? 'CANCEL' : 'REQUEST';
+
+  const lines = [
     'BEGIN:VCALENDAR',
     'VERSION:2.0',
     'PRODID:-//Calendado//Booking System//EN',
     'CALSCALE:GREGORIAN',
-    'METHOD:REQUEST',
+    `METHOD:${method}`,
+    ...buildVTimezone(booking.timezone, startDate, lastStart),
     'BEGIN:VEVENT',
     `UID:${uid}`,
-    `DTSTAMP:${formatDate(now)}`,
-    `DTSTART:${formatDate(startDate)}`,
-    `DTEND:${formatDate(endDate)}`,
+    `SEQUENCE:${booking.sequence || 0}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART;TZID=${booking.timezone}:${formatLocal(startDate, booking.timezone)}`,
+    `DTEND;TZID=${booking.timezone}:${formatLocal(endDate, booking.timezone)}`,
+    ...(recurrence ? [`RRULE:${recurrence.rrule}`] : []),
+    ...(recurrence?.exdates.length
+      ? [
+          `EXDATE;TZID=${booking.timezone}:${recurrence.exdates
+            .map(date => formatWallClock(date, booking.appointmentTime))
+            .join(',')}`
+        ]
+      : []),
     `SUMMARY:${escapeText(booking.serviceName)} - ${escapeText(booking.professionalName)}`,
     `DESCRIPTION:${escapeText(booking.description || `Appointment with ${booking.professionalName} for ${booking.serviceName}`)}`,
-    `LOCATION:${escapeText(booking.location || 'Store Location')}`,
-    `ORGANIZER:CN=${escapeText(booking.professionalName)}:MAILTO:${escapeText(booking.customerEmail)}`,
-    `ATTENDEE:CN=${escapeText(booking.customerName)}:MAILTO:${escapeText(booking.customerEmail)}`,
-    'STATUS:CONFIRMED',
+    ...(booking.location ? [`LOCATION:${escapeText(booking.location)}`] : []),
+    ...(organizer ? [organizer] : []),
+    `ATTENDEE;CN=${quoteParam(booking.customerName)};ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:${booking.customerEmail}`,
+    `STATUS:${booking.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
     'TRANSP:OPAQUE',
-    'BEGIN:VALARM',
-    'TRIGGER:-PT15M',
-    'ACTION:DISPLAY',
-    `DESCRIPTION:Reminder: ${escapeText(booking.serviceName)} appointment in 15 minutes`,
-    'END:VALARM',
+    ...(booking.cancelled
+      ? []
+      : [
+          'BEGIN:VALARM',
+          'TRIGGER:-PT15M',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:Reminder: ${escapeText(booking.serviceName)} appointment in 15 minutes`,
+          'END:VALARM'
+        ]),
     'END:VEVENT',
     'END:VCALENDAR'
-  ].join('\r\n');
+  ];
 
-  return icsContent;
+  return lines.map(foldLine).join('\r\n') + '\r\n';
 }
 
 export function generateICSFile(booking: BookingData): Buffer {
@@ -79,28 +211,91 @@ export function getICSFileName(booking: BookingData): string {
   return `appointment-${date}-${time}.ics`;
 }
 
-// Express route handler
-export function handleICSRequest(req: Request, res: Response): void {
-  try {
-    const { bookingId } = req.params;
-    
-    // In a real implementation, you would fetch the booking data from Firestore
-    // For now, we'll create mock data
-    const mockBooking: BookingData = {
-      id: bookingId,
-      serviceName: 'Haircut & Styling',
-      professionalName: 'Maria Silva',
-      customerName: 'John Doe',
-      customerEmail: 'john.doe@example.com',
-      appointmentDate: '2024-01-15',
-      appointmentTime: '10:00',
-      duration: 60,
-      location: 'Glow Beauty Studio - Porto Alegre',
-      description: 'Professional haircut and styling service with Maria Silva'
+/**
+ * Map a stored booking and its related documents to calendar file data
+ *
+ * Occurrences of a series map to the whole series, so the customer's
+ * calendar always holds one recurring event with the current EXDATEs.
+ */
+export function toICSBookingData(details: BookingDetails): BookingData {
+  const { booking, professional, store, series } = details;
+  const professionalName = professional?.name || 'your professional';
+
+  if (series) {
+    return {
+      ...toICSBookingData({ ...details, series: null }),
+      appointmentDate: series.startDate,
+      sequence: series.sequence || 0,
+      cancelled: isSeriesEmpty(series),
+      recurrence: {
+        seriesId: series.id,
+        rrule: series.rrule,
+        exdates: series.exdates,
+        lastDate: series.occurrences[series.occurrences.length - 1]
+      }
     };
+  }
+
+  return {
+    id: booking.id,
+    serviceName: booking.serviceName,
+    professionalName,
+    customerName: `${booking.customer.firstName} ${booking.customer.lastName}`,
+    customerEmail: booking.customer.email,
+    appointmentDate: booking.date,
+    appointmentTime: booking.time,
+    duration: booking.duration,
+    timezone: booking.timezone,
+    organizerName: store?.name,
+    organizerEmail: store?.contact?.email,
+    location: formatStoreLocation(store),
+    description: `Appointment with ${professionalName} for ${booking.serviceName}`,
+    sequence: booking.sequence || 0,
+    cancelled: booking.status === 'cancelled'
+  };
+}
 
-    const icsContent = generateICSFile(mockBooking);
-    const fileName = getICSFileName(mockBooking);
+/**
+ * Serves the calendar file for a booking
+ *
+ * GET /api/bookings/{bookingId}/ics?token={token}
+ * The token is the signed booking token issued with the confirmation.
+ */
+export async function handleICSRequest(req: Request, res: Response): Promise<void> {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed. Use GET.' });
+    return;
+  }
+
+  try {
+    const match = req.path.match(/\/bookings\/([^/]+)\/ics\/?$/);
+    const bookingId = match?.[1];
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+    if (!bookingId || !token) {
+      res.status(400).json({ error: 'Booking ID and token are required' });
+      return;
+    }
+
+    const tokenResult = validateBookingToken(token, 'ics');
+    if (!tokenResult.valid || tokenResult.payload?.bookingId !== bookingId) {
+      res.status(403).json({ error: 'Invalid or expired link' });
+      return;
+    }
+
+    const db = getFirestore();
+    const snapshot = await db.collection('bookings').doc(bookingId).get();
+    if (!snapshot.exists) {
+      res.status(404).json({ error: 'Booking not found' });
+      return;
+    }
+
+    const booking = { ...snapshot.data(), id: snapshot.id } as BookingDoc;
+    const details = await loadBookingDetails(db, booking);
+    const icsBooking = toICSBookingData(details);
+
+    const icsContent = generateICSFile(icsBooking);
+    const fileName = getICSFileName(icsBooking);
 
     res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
     res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
@@ -111,4 +306,3 @@ export function handleICSRequest(req: Request, res: Response): void {
     res.status(500).json({ error: 'Failed to generate calendar file' });
   }
 }
-
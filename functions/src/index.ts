@@ -10,6 +10,20 @@ import { updateUserRoles } from './handlers/updateUserRoles';
 import { inviteFromWaitlist, rejectWaitlist, getWaitlistEntry } from './waitlist';
 import { issueMagicLink, validateMagicLink, redeemMagicLink } from './magicLink';
 import { consumeInvite } from './invite';
+import { getAvailability, checkRecurringAvailability } from './availability';
+import { createBooking, confirmBooking, expireDraftBookings } from './bookings';
+import { getManagedBooking, cancelBooking, rescheduleBooking } from './manageBooking';
+import { sendBookingReminders } from './reminders';
+import { holdSlot, releaseExpiredSlotHolds } from './holds';
+import { joinSessionWaitlist } from './sessions';
+import { joinBookingWaitlist, expireBookingWaitlistClaims } from './bookingWaitlist';
+import { updateScheduleExceptions } from './schedule';
+import { updateProfessionalProfile } from './professionals';
+import { searchOrgCustomers, moveBooking, updateBookingStatus } from './staffBookings';
+import { getIntakePhotoUrl } from './intake';
+import { requestCustomerSignIn, redeemCustomerSignIn, getCustomerAccount } from './customers';
+import { handlePaymentWebhook, completeTestPayment } from './payments';
+import { handleICSRequest } from './ics';
 
 // Initialize Firebase Admin
 initializeApp();
@@ -20,6 +34,9 @@ const resendWebhookSecret = defineSecret('RESEND_WEBHOOK_SECRET');
 const fromEmail = defineSecret('FROM_EMAIL');
 const fromName = defineSecret('FROM_NAME');
 const appBaseUrl = defineSecret('APP_BASE_URL');
+const jwtSecret = defineSecret('JWT_SECRET');
+const publicAppUrl = defineSecret('PUBLIC_APP_URL');
+const paymentWebhookSecret = defineSecret('PAYMENT_WEBHOOK_SECRET');
 
 // Export the Firestore trigger function (v2)
 export { sendWaitlistConfirmationFn };
@@ -49,11 +66,31 @@ export const dlqReplayerFn = onRequest(
     region: 'us-central1',
     memory: '256MiB',
     timeoutSeconds: 300,
-    secrets: [resendApiKey, fromEmail, fromName, appBaseUrl]
+    secrets: [resendApiKey, fromEmail, fromName, appBaseUrl, jwtSecret, publicAppUrl]
   },
   dlqReplayer
 );
 
+export const bookingIcsFn = onRequest(
+  {
+    region: 'us-central1',
+    memory: '256MiB',
+    timeoutSeconds: 30,
+    secrets: [jwtSecret]
+  },
+  handleICSRequest
+);
+
+export const paymentWebhookFn = onRequest(
+  {
+    region: 'us-central1',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+    secrets: [paymentWebhookSecret, jwtSecret, publicAppUrl, resendApiKey, fromEmail, fromName]
+  },
+  handlePaymentWebhook
+);
+
 // Health check endpoints
 export { healthCheck, livenessCheck, readinessCheck };
 
@@ -68,3 +105,36 @@ export { issueMagicLink, validateMagicLink, redeemMagicLink };
 
 // Invite consumption function
 export { consumeInvite };
+
+// Booking functions
+export { getAvailability, checkRecurringAvailability, holdSlot, createBooking, confirmBooking };
+
+// Class session functions
+export { joinSessionWaitlist };
+
+// Booking waitlist functions
+export { joinBookingWaitlist };
+
+// Schedule exception functions
+export { updateScheduleExceptions };
+
+// Professional profile functions
+export { updateProfessionalProfile };
+
+// Staff booking functions
+export { searchOrgCustomers, moveBooking, updateBookingStatus };
+
+// Booking intake functions
+export { getIntakePhotoUrl };
+
+// Customer account functions
+export { requestCustomerSignIn, redeemCustomerSignIn, getCustomerAccount };
+
+// Customer booking management functions
+export { getManagedBooking, cancelBooking, rescheduleBooking };
+
+// Payment functions (paymentsAlpha); test payments only exist in the emulator
+export { completeTestPayment };
+
+// Scheduled functions
+export { sendBookingReminders, releaseExpiredSlotHolds, expireBookingWaitlistClaims, expireDraftBookings };
@@ -0,0 +1,83 @@
+/**
+ * Booking intake Cloud Functions
+ *
+ * Reference photos customers upload with their intake answers can't be read
+ * from the client; org staff get a short-lived link to them here.
+ */
+
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import { z } from 'zod';
+import { validateOrgAccess } from './lib/authz';
+import type { BookingDoc } from './types/models';
+
+const PHOTO_URL_TTL_MS = 15 * 60 * 1000;
+
+const GetIntakePhotoUrlSchema = z.object({
+  bookingId: z.string().trim().min(1),
+  questionId: z.string().trim().min(1)
+});
+
+export type GetIntakePhotoUrlRequest = z.infer<typeof GetIntakePhotoUrlSchema>;
+
+export interface GetIntakePhotoUrlResponse {
+  success: boolean;
+  url: string;
+  expiresAt: string; // ISO timestamp
+}
+
+/**
+ * Gets a link to a photo a customer uploaded with their intake answers
+ */
+export const getIntakePhotoUrl = onCall(
+  { region: 'us-central1', cors: true },
+  async (request: CallableRequest<GetIntakePhotoUrlRequest>): Promise<GetIntakePhotoUrlResponse> => {
+    try {
+      const parsed = GetIntakePhotoUrlSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new HttpsError('invalid-argument', 'Booking ID and question ID are required');
+      }
+
+      const { bookingId, questionId } = parsed.data;
+      const db = getFirestore();
+      const bookingSnap = await db.collection('bookings').doc(bookingId).get();
+      if (!bookingSnap.exists) {
+        throw new HttpsError('not-found', 'Booking not found');
+      }
+
+      const booking = bookingSnap.data() as BookingDoc;
+      const accessResult = await validateOrgAccess(request, booking.orgId);
+      if (!accessResult.success) {
+        throw new HttpsError('permission-denied', accessResult.error || 'Booking access denied');
+      }
+
+      const answer = booking.intake?.find(
+        candidate => candidate.questionId === questionId && candidate.type === 'photo'
+      );
+      if (!answer) {
+        throw new HttpsError('not-found', 'Photo not found');
+      }
+
+      const expiresAt = new Date(Date.now() + PHOTO_URL_TTL_MS);
+      const [url] = await getStorage()
+        .bucket()
+        .file(answer.value as string)
+        .getSignedUrl({ action: 'read', expires: expiresAt });
+
+      return {
+        success: true,
+        url,
+        expiresAt: expiresAt.toISOString()
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in getIntakePhotoUrl:', error);
+      throw new HttpsError('internal', 'Failed to get intake photo');
+    }
+  }
+);
@@ -147,6 +147,26 @@ export async function createUserAuditLog(
   );
 }
 
+/**
+ * Creates an audit log entry for booking operations
+ */
+export async function createBookingAuditLog(
+  actor: AuthUser,
+  action: 'create' | 'cancel' | 'reschedule' | 'status',
+  bookingId: string,
+  details: Record<string, unknown> = {},
+  metadata?: Record<string, unknown>
+): Promise<AuditLogResult> {
+  return createAuditLog(
+    actor,
+    `booking_${action}`,
+    'booking',
+    bookingId,
+    details,
+    metadata
+  );
+}
+
 /**
  * Helper to format audit log details for waitlist operations
  */
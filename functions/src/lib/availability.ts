@@ -0,0 +1,432 @@
+/**
+ * Availability engine
+ *
+ * Computes bookable slots from a professional's weekly schedule, the store's
+ * operating hours and booking settings, minus time already taken by existing
+ * bookings and the store resources (rooms, chairs) they use. Everything it
+ * depends on (including "now") is passed in, so the result is deterministic
+ * and can be tested against fixtures.
+ */
+
+import type {
+  BookingResource,
+  ProfessionalDoc,
+  ScheduleException,
+  StoreDoc,
+  StoreResource
+} from '../types/models';
+
+export type WeekdayKey =
+  | 'sunday'
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday';
+
+export const WEEKDAY_KEYS: WeekdayKey[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday'
+];
+
+export const DEFAULT_SLOT_INTERVAL = 30; // minutes
+export const WALK_IN_GRACE = 15; // minutes a booking placed by hand may have started already
+
+export interface AvailabilitySlot {
+  id: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  duration: number; // minutes
+  available: boolean;
+  professionalId?: string;
+  sessionId?: string; // class sessions only
+  seatsLeft?: number; // class sessions only
+}
+
+/**
+ * A block of time that is already taken, in minutes since midnight
+ */
+export interface BusyInterval {
+  date: string; // YYYY-MM-DD
+  start: number;
+  end: number;
+}
+
+// Time a unit of a store resource is taken
+export interface ResourceUsage extends BusyInterval {
+  resourceId: string;
+  unit: number;
+}
+
+export interface AvailabilityInput {
+  professionalId: string;
+  availability: ProfessionalDoc['availability'];
+  operatingHours?: StoreDoc['operatingHours'] | null;
+  exceptions?: ScheduleException[]; // the professional's time off and one-off hours
+  storeExceptions?: ScheduleException[]; // the store's holidays and one-off hours
+  durationMin: number;
+  bufferBefore: number; // minutes kept free before the appointment
+  bufferAfter: number; // minutes kept free after the appointment
+  advanceBookingDays: number;
+  minLeadTimeMinutes?: number; // slots starting sooner than this from now aren't offered
+  slotInterval?: number; // minutes between slot starts
+  timezone: string;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  now: Date;
+  busy: BusyInterval[];
+  resources?: StoreResource[]; // resources every slot needs a free unit of
+  resourceUsage?: ResourceUsage[]; // units already taken at the store
+}
+
+/**
+ * Convert an HH:MM string into minutes since midnight
+ */
+export function parseTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Convert minutes since midnight into an HH:MM string
+ */
+export function formatTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD date string
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const result = new Date(Date.UTC(year, month - 1, day + days));
+  return result.toISOString().split('T')[0];
+}
+
+/**
+ * Get the weekday key (e.g. 'monday') for a YYYY-MM-DD date string
+ */
+export function getWeekdayKey(date: string): WeekdayKey {
+  const [year, month, day] = date.split('-').map(Number);
+  return WEEKDAY_KEYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a given timezone
+ */
+export function getZonedDateTime(
+  instant: Date,
+  timezone: string
+): { date: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(instant);
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '00';
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: Number(get('hour')) * 60 + Number(get('minute'))
+  };
+}
+
+/**
+ * Build the busy interval covered by an existing booking
+ */
+export function toBusyInterval(booking: { date: string; time: string; duration: number }): BusyInterval {
+  const start = parseTime(booking.time);
+  return {
+    date: booking.date,
+    start,
+    end: start + booking.duration
+  };
+}
+
+/**
+ * Get the exceptions of a schedule that apply on a date
+ */
+export function getExceptionsOn(exceptions: ScheduleException[] | undefined, date: string): ScheduleException[] {
+  return (exceptions || []).filter(exception => exception.startDate <= date && date <= exception.endDate);
+}
+
+const getCustomHours = (exceptions: ScheduleException[]): { start: string; end: string } | null => {
+  const custom = exceptions.find(exception => exception.type === 'custom_hours');
+  return custom?.start && custom.end ? { start: custom.start, end: custom.end } : null;
+};
+
+/**
+ * Get the ranges blocked on a day by the professional's or the store's
+ * exceptions, as busy intervals
+ */
+export function getBlockedIntervals(
+  input: Pick<AvailabilityInput, 'exceptions' | 'storeExceptions'>,
+  date: string
+): BusyInterval[] {
+  return [...getExceptionsOn(input.exceptions, date), ...getExceptionsOn(input.storeExceptions, date)]
+    .filter(exception => exception.type === 'blocked' && exception.start && exception.end)
+    .map(exception => ({ date, start: parseTime(exception.start || ''), end: parseTime(exception.end || '') }));
+}
+
+/**
+ * Get the bookable window for a day, intersecting the professional's
+ * schedule with the store's operating hours. Date-specific exceptions
+ * replace the weekly hours of either. Returns null when closed.
+ */
+function getWorkingWindow(
+  input: Pick<AvailabilityInput, 'availability' | 'operatingHours' | 'exceptions' | 'storeExceptions'>,
+  date: string
+): { start: number; end: number } | null {
+  const weekday = getWeekdayKey(date);
+  const exceptions = getExceptionsOn(input.exceptions, date);
+  const storeExceptions = getExceptionsOn(input.storeExceptions, date);
+
+  if ([...exceptions, ...storeExceptions].some(exception => exception.type === 'closed')) {
+    return null;
+  }
+
+  const schedule = getCustomHours(exceptions) || input.availability?.[weekday];
+  if (!schedule || ('available' in schedule && !schedule.available)) {
+    return null;
+  }
+
+  let start = parseTime(schedule.start);
+  let end = parseTime(schedule.end);
+
+  const storeHours = getCustomHours(storeExceptions);
+  if (storeHours) {
+    start = Math.max(start, parseTime(storeHours.start));
+    end = Math.min(end, parseTime(storeHours.end));
+  } else if (input.operatingHours) {
+    const hours = input.operatingHours[weekday];
+    if (!hours || hours.closed) {
+      return null;
+    }
+    start = Math.max(start, parseTime(hours.open));
+    end = Math.min(end, parseTime(hours.close));
+  }
+
+  return end > start ? { start, end } : null;
+}
+
+/**
+ * Find the exception a booking conflicts with, if any: a closed day, hours
+ * that no longer cover it, or a blocked range overlapping it
+ */
+export function findConflictingException(
+  booking: { date: string; time: string; duration: number },
+  exceptions: ScheduleException[]
+): ScheduleException | null {
+  const start = parseTime(booking.time);
+  const end = start + booking.duration;
+
+  return (
+    getExceptionsOn(exceptions, booking.date).find(exception => {
+      if (exception.type === 'closed') {
+        return true;
+      }
+      if (!exception.start || !exception.end) {
+        return false;
+      }
+
+      const from = parseTime(exception.start);
+      const to = parseTime(exception.end);
+      return exception.type === 'custom_hours' ? start < from || end > to : start < to && end > from;
+    }) || null
+  );
+}
+
+export interface Buffers {
+  before: number; // minutes
+  after: number; // minutes
+}
+
+// Every appointment, booked or not yet, keeps its buffers free, so the gap
+// between two of them is the after buffer of the first plus the before
+// buffer of the second
+function overlapsBusy(busy: BusyInterval[], start: number, end: number, buffers: Buffers): boolean {
+  const gap = buffers.before + buffers.after;
+  return busy.some(interval => start < interval.end + gap && end + gap > interval.start);
+}
+
+/**
+ * Pick a free unit of every required resource for a block of time, lowest
+ * numbered first. Returns null when any resource has no unit free.
+ */
+export function assignResources(
+  resources: StoreResource[],
+  usage: ResourceUsage[],
+  date: string,
+  start: number,
+  end: number,
+  buffers: Buffers
+): BookingResource[] | null {
+  const assigned: BookingResource[] = [];
+
+  for (const resource of resources) {
+    const taken = usage.filter(interval => interval.resourceId === resource.id && interval.date === date);
+    const isFree = (unit: number) =>
+      !overlapsBusy(
+        taken.filter(interval => interval.unit === unit),
+        start,
+        end,
+        buffers
+      );
+
+    const unit = Array.from({ length: resource.quantity }, (_, index) => index + 1).find(isFree);
+    if (unit === undefined) {
+      return null;
+    }
+    assigned.push({ resourceId: resource.id, name: resource.name, unit });
+  }
+
+  return assigned;
+}
+
+/**
+ * Compute the slots for every day in the requested range.
+ *
+ * Slots that fall in the past, within the minimum lead time or beyond the
+ * advance booking window are left out; slots that collide with an existing
+ * booking (including the buffers before and after), or need a store resource
+ * with no unit free, are returned with `available: false`.
+ */
+export function computeAvailableSlots(input: AvailabilityInput): AvailabilitySlot[] {
+  const slots: AvailabilitySlot[] = [];
+  const step = input.slotInterval || DEFAULT_SLOT_INTERVAL;
+  const buffers = { before: input.bufferBefore, after: input.bufferAfter };
+  const today = getZonedDateTime(input.now, input.timezone);
+  const lastBookableDate = addDays(today.date, input.advanceBookingDays);
+  const earliest = getZonedDateTime(
+    new Date(input.now.getTime() + (input.minLeadTimeMinutes || 0) * 60000),
+    input.timezone
+  );
+
+  for (let date = input.startDate; date <= input.endDate; date = addDays(date, 1)) {
+    if (date < earliest.date || date > lastBookableDate) continue;
+
+    const window = getWorkingWindow(input, date);
+    if (!window) continue;
+
+    const usageToday = (input.resourceUsage || []).filter(interval => interval.date === date);
+    const busyToday = [
+      ...input.busy.filter(interval => interval.date === date),
+      ...getBlockedIntervals(input, date)
+    ];
+
+    for (let start = window.start; start + input.durationMin <= window.end; start += step) {
+      if (date === earliest.date && start <= earliest.minutes) continue;
+
+      const end = start + input.durationMin;
+      const time = formatTime(start);
+
+      slots.push({
+        id: `${input.professionalId}-${date}-${time}`,
+        date,
+        time,
+        duration: input.durationMin,
+        available:
+          !overlapsBusy(busyToday, start, end, buffers) &&
+          assignResources(input.resources || [], usageToday, date, start, end, buffers) !== null,
+        professionalId: input.professionalId
+      });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Check whether a specific date and time is bookable under the given rules
+ */
+export function isSlotAvailable(
+  input: Omit<AvailabilityInput, 'startDate' | 'endDate'>,
+  date: string,
+  time: string
+): boolean {
+  const slots = computeAvailableSlots({ ...input, startDate: date, endDate: date });
+  return slots.some(slot => slot.time === time && slot.available);
+}
+
+/**
+ * Why a booking can't be placed at a time: it has passed, is outside working
+ * hours, overlaps time off or another booking (with buffers), or needs a
+ * store resource with no unit free
+ */
+export type SlotConflict = 'past' | 'closed' | 'time_off' | 'booked' | 'resources';
+
+/**
+ * Find why a booking can't be placed at a date and time, or null when it can
+ *
+ * For staff placing bookings by hand: unlike the slots offered to customers,
+ * any start time counts, a walk-in may have started up to WALK_IN_GRACE ago,
+ * and the lead time and advance booking window don't apply.
+ */
+export function findSlotConflict(
+  input: Omit<AvailabilityInput, 'startDate' | 'endDate'>,
+  date: string,
+  time: string
+): SlotConflict | null {
+  const start = parseTime(time);
+  const end = start + input.durationMin;
+  const buffers = { before: input.bufferBefore, after: input.bufferAfter };
+  const now = getZonedDateTime(input.now, input.timezone);
+
+  if (date < now.date || (date === now.date && start <= now.minutes - WALK_IN_GRACE)) {
+    return 'past';
+  }
+
+  const window = getWorkingWindow(input, date);
+  if (!window) {
+    const timeOff = getExceptionsOn(input.exceptions, date).some(exception => exception.type === 'closed');
+    return timeOff ? 'time_off' : 'closed';
+  }
+  if (start < window.start || end > window.end) {
+    return 'closed';
+  }
+
+  if (overlapsBusy(getBlockedIntervals(input, date), start, end, buffers)) {
+    return 'time_off';
+  }
+  if (overlapsBusy(input.busy.filter(interval => interval.date === date), start, end, buffers)) {
+    return 'booked';
+  }
+
+  const usage = (input.resourceUsage || []).filter(interval => interval.date === date);
+  return assignResources(input.resources || [], usage, date, start, end, buffers) === null ? 'resources' : null;
+}
+
+/**
+ * Merge the slots of several professionals into a single schedule, for
+ * customers happy to see anyone. A time is available when at least one of
+ * them is free; merged slots carry the given professional ID instead of any
+ * one person's.
+ */
+export function mergeSlots(slotLists: AvailabilitySlot[][], professionalId: string): AvailabilitySlot[] {
+  const merged = new Map<string, AvailabilitySlot>();
+
+  for (const slot of slotLists.flat()) {
+    const key = `${slot.date} ${slot.time}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.available = existing.available || slot.available;
+    } else {
+      merged.set(key, { ...slot, id: `${professionalId}-${slot.date}-${slot.time}`, professionalId });
+    }
+  }
+
+  return [...merged.values()].sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+}
@@ -0,0 +1,92 @@
+/**
+ * Booking status lifecycle
+ *
+ * Bookings start as drafts and are confirmed once booked (and paid, when the
+ * store requires it). On the day staff check the customer in and complete
+ * the booking, or mark it a no-show when they don't turn up. Each of these
+ * records when it happened, and no-shows are counted per customer and org so
+ * stores can ask repeat no-shows for a deposit.
+ */
+
+import { HttpsError } from 'firebase-functions/v2/https';
+import type { DocumentReference, Firestore } from 'firebase-admin/firestore';
+import { getAppointmentStart } from './bookings';
+import { getCustomerId } from './customers';
+import type { BookingDoc, BookingStatus, OrgCustomerStatsDoc } from '../types/models';
+
+// Statuses each status can move on to; confirming and cancelling have their own flows
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  draft: ['confirmed', 'cancelled'],
+  confirmed: ['checked_in', 'completed', 'no_show', 'cancelled'],
+  checked_in: ['completed'],
+  no_show: ['checked_in'], // the customer turned up late after all
+  completed: [],
+  cancelled: []
+};
+
+// Statuses staff set from the dashboard
+export const ATTENDANCE_STATUSES = ['checked_in', 'completed', 'no_show'] as const;
+
+export type AttendanceStatus = (typeof ATTENDANCE_STATUSES)[number];
+
+// Booking field recording when each attendance status was set
+export const ATTENDANCE_TIMESTAMPS: Record<AttendanceStatus, 'checkedInAt' | 'completedAt' | 'noShowAt'> = {
+  checked_in: 'checkedInAt',
+  completed: 'completedAt',
+  no_show: 'noShowAt'
+};
+
+/**
+ * Check whether a booking may move from one status to another
+ */
+export function canChangeStatus(from: BookingStatus, to: BookingStatus): boolean {
+  return BOOKING_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check a booking can be given an attendance status, throwing
+ * failed-precondition when it can't
+ *
+ * Customers can be checked in ahead of time, but a booking is only completed
+ * or marked a no-show once it has started.
+ */
+export function assertAttendanceChange(booking: BookingDoc, status: AttendanceStatus, now: Date): void {
+  if (!canChangeStatus(booking.status, status)) {
+    throw new HttpsError('failed-precondition', `A booking that is ${booking.status} cannot be marked ${status}`);
+  }
+  if (status !== 'checked_in' && now < getAppointmentStart(booking)) {
+    throw new HttpsError('failed-precondition', `A booking cannot be marked ${status} before it starts`);
+  }
+}
+
+/**
+ * Get the change to a customer's no-show count when a booking moves from
+ * one status to another
+ */
+export function getNoShowChange(from: BookingStatus, to: BookingStatus): number {
+  if (to === 'no_show' && from !== 'no_show') {
+    return 1;
+  }
+  if (from === 'no_show' && to !== 'no_show') {
+    return -1;
+  }
+  return 0;
+}
+
+/**
+ * Get the ref of a customer's stats with an org
+ */
+export function orgCustomerStatsRef(db: Firestore, orgId: string, email: string): DocumentReference {
+  return db.collection('orgs').doc(orgId).collection('customerStats').doc(getCustomerId(email.toLowerCase()));
+}
+
+/**
+ * Count the bookings with an org a customer didn't turn up for
+ */
+export async function getNoShowCount(db: Firestore, orgId: string, email: string): Promise<number> {
+  const snapshot = await orgCustomerStatsRef(db, orgId, email).get();
+  if (!snapshot.exists) {
+    return 0;
+  }
+  return Math.max((snapshot.data() as OrgCustomerStatsDoc).noShowCount || 0, 0);
+}
@@ -0,0 +1,119 @@
+/**
+ * Booking waitlist
+ *
+ * Customers who find no free time can ask to be told when a slot opens up
+ * for their services in a date window. Whenever a booking frees time, the
+ * customers waiting longest for that professional and date are checked in
+ * turn, and the first one a free slot fits gets it held for them for a
+ * while. Unlike class session seats, the claimed slot is theirs until the
+ * hold runs out.
+ */
+
+import type { Firestore, Query, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { computeAvailableSlots } from './availability';
+import {
+  loadScheduleContext,
+  loadBusyIntervals,
+  loadResourceUsage,
+  buildAvailabilityInput,
+  ANY_PROFESSIONAL,
+  type ScheduleContext
+} from './schedule';
+import type { BookingWaitlistEntryDoc } from '../types/models';
+
+// How long a notified customer has to book the slot held for them
+export const WAITLIST_CLAIM_MINUTES = 60;
+
+// Longest date window a customer can wait for
+export const MAX_WAITLIST_DAYS = 31;
+
+// Entries read at a time when a booking frees time
+const WAITLIST_PAGE_SIZE = 50;
+
+/**
+ * Time a cancelled, moved or expired booking or claim gave back
+ */
+export interface FreedTime {
+  orgId: string;
+  storeId: string | null;
+  professionalId: string;
+  date: string; // YYYY-MM-DD
+}
+
+/**
+ * When a claim made at the given time runs out
+ */
+export function getClaimExpiry(now: Date): Date {
+  return new Date(now.getTime() + WAITLIST_CLAIM_MINUTES * 60000);
+}
+
+/**
+ * Whether a waiting entry would take time freed on a professional's schedule:
+ * the date is in its window and it waits for that professional, or for
+ * anyone at their store
+ */
+export function isWaitingFor(entry: BookingWaitlistEntryDoc, freed: FreedTime): boolean {
+  return (
+    entry.status === 'waiting' &&
+    entry.orgId === freed.orgId &&
+    entry.dateFrom <= freed.date &&
+    entry.dateTo >= freed.date &&
+    (entry.professionalId === freed.professionalId ||
+      (entry.professionalId === ANY_PROFESSIONAL && entry.storeId !== null && entry.storeId === freed.storeId))
+  );
+}
+
+/**
+ * Query for a page of the entries still waiting for the freed professional,
+ * or for anyone at their store, the customer waiting longest first, starting
+ * after the last entry of the previous page
+ *
+ * An entry keeps the store of the professional it waits for, so one store
+ * filter covers both. Entries whose window doesn't hold the date are
+ * included, since Firestore can't filter dates by range while ordering by
+ * createdAt; isWaitingFor leaves them out.
+ */
+export function bookingWaitlistQuery(db: Firestore, freed: FreedTime, after?: QueryDocumentSnapshot): Query {
+  const query = db
+    .collection('bookingWaitlist')
+    .where('orgId', '==', freed.orgId)
+    .where('status', '==', 'waiting')
+    .where('storeId', '==', freed.storeId)
+    .where('professionalId', 'in', [freed.professionalId, ANY_PROFESSIONAL])
+    .orderBy('createdAt')
+    .limit(WAITLIST_PAGE_SIZE);
+  return after ? query.startAfter(after) : query;
+}
+
+/**
+ * Find the earliest free time on the freed date that fits an entry's
+ * services, or null when none does or the professional no longer offers them
+ */
+export async function findClaimableSlot(
+  db: Firestore,
+  entry: BookingWaitlistEntryDoc,
+  freed: FreedTime,
+  now: Date
+): Promise<{ context: ScheduleContext; time: string } | null> {
+  let context: ScheduleContext;
+  try {
+    context = await loadScheduleContext(db, {
+      professionalId: freed.professionalId,
+      serviceIds: entry.serviceIds,
+      ...(freed.storeId ? { storeId: freed.storeId } : {})
+    });
+  } catch {
+    return null;
+  }
+
+  const [busy, usage] = await Promise.all([
+    loadBusyIntervals(db, freed.professionalId, freed.date, freed.date, {}, now),
+    loadResourceUsage(db, context, freed.date, freed.date)
+  ]);
+
+  const slot = computeAvailableSlots(
+    buildAvailabilityInput(context, busy, freed.date, freed.date, now, usage)
+  ).find(candidate => candidate.available);
+
+  return slot ? { context, time: slot.time } : null;
+}
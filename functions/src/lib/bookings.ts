@@ -0,0 +1,240 @@
+/**
+ * Booking data access
+ *
+ * Loads bookings together with the professional and store documents needed
+ * to present them to customers (confirmation screen, emails, calendar files).
+ */
+
+import { HttpsError } from 'firebase-functions/v2/https';
+import type { Firestore } from 'firebase-admin/firestore';
+import type {
+  BookingDoc,
+  BookingSeriesDoc,
+  BookingServiceLine,
+  ProfessionalDoc,
+  StoreDoc
+} from '../types/models';
+import { zonedTimeToUtc } from './timezone';
+
+export const DEFAULT_CANCELLATION_HOURS = 24;
+
+// How long a draft holds its slot while the customer confirms or pays
+export const DRAFT_BOOKING_MINUTES = 30;
+
+export interface BookingDetails {
+  booking: BookingDoc;
+  professional: ProfessionalDoc | null;
+  store: StoreDoc | null;
+  series?: BookingSeriesDoc | null; // for occurrences of a recurring series
+}
+
+/**
+ * Shape returned to the booking wizard once a booking is confirmed
+ */
+export interface BookingConfirmationData {
+  bookingId: string;
+  confirmationCode: string;
+  icsFileUrl: string;
+  manageUrl: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  professionalName: string;
+  serviceName: string;
+  appointmentDate: string;
+  appointmentTime: string;
+  duration: number;
+  timezone: string;
+  location?: string;
+}
+
+/**
+ * When a draft created at the given time stops holding its slot
+ */
+export function getDraftExpiry(now: Date): Date {
+  return new Date(now.getTime() + DRAFT_BOOKING_MINUTES * 60000);
+}
+
+/**
+ * Whether a booking is a draft that ran out before it was confirmed. Drafts
+ * saved without an expiry run out `DRAFT_BOOKING_MINUTES` after they were
+ * created.
+ */
+export function isDraftExpired(booking: Pick<BookingDoc, 'status' | 'expiresAt' | 'createdAt'>, now: Date): boolean {
+  if (booking.status !== 'draft') {
+    return false;
+  }
+
+  const expiresAt = booking.expiresAt
+    ? booking.expiresAt.toMillis()
+    : (booking.createdAt?.toMillis() || 0) + DRAFT_BOOKING_MINUTES * 60000;
+  return expiresAt <= now.getTime();
+}
+
+/**
+ * Load a booking by ID, throwing not-found when it doesn't exist
+ */
+export async function getBooking(db: Firestore, bookingId: string): Promise<BookingDoc> {
+  const snapshot = await db.collection('bookings').doc(bookingId).get();
+  if (!snapshot.exists) {
+    throw new HttpsError('not-found', 'Booking not found');
+  }
+  return { ...snapshot.data(), id: snapshot.id } as BookingDoc;
+}
+
+/**
+ * Resolve the professional and store a booking belongs to
+ */
+export async function loadBookingDetails(db: Firestore, booking: BookingDoc): Promise<BookingDetails> {
+  const orgRef = db.collection('orgs').doc(booking.orgId);
+
+  const [professionalSnap, storeSnap, seriesSnap] = await Promise.all([
+    orgRef.collection('professionals').doc(booking.professionalId).get(),
+    booking.storeId ? orgRef.collection('stores').doc(booking.storeId).get() : Promise.resolve(null),
+    booking.seriesId ? db.collection('bookingSeries').doc(booking.seriesId).get() : Promise.resolve(null)
+  ]);
+
+  return {
+    booking,
+    professional: professionalSnap.exists
+      ? ({ ...professionalSnap.data(), id: professionalSnap.id } as ProfessionalDoc)
+      : null,
+    store: storeSnap?.exists ? ({ ...storeSnap.data(), id: storeSnap.id } as StoreDoc) : null,
+    series: seriesSnap?.exists ? ({ ...seriesSnap.data(), id: seriesSnap.id } as BookingSeriesDoc) : null
+  };
+}
+
+/**
+ * Format a store as a single-line location, e.g. "Glow Studio, Rua A 1, Porto Alegre, RS"
+ */
+export function formatStoreLocation(store: StoreDoc | null): string | undefined {
+  if (!store) {
+    return undefined;
+  }
+
+  const address = store.address;
+  const parts = [
+    store.name,
+    address?.street,
+    address?.city,
+    address?.state,
+    address?.zipCode,
+    address?.country
+  ].filter(Boolean);
+
+  return parts.join(', ');
+}
+
+/**
+ * Links sent to the customer, each carrying its own signed booking token
+ */
+export interface BookingLinks {
+  icsFileUrl: string;
+  manageUrl: string;
+}
+
+/**
+ * Path of the calendar file endpoint for a booking, served through the
+ * hosting rewrite for /api/bookings/**
+ */
+export function getIcsFilePath(bookingId: string, token: string): string {
+  return `/api/bookings/${bookingId}/ics?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Path of the customer's manage-booking page
+ */
+export function getManagePath(token: string): string {
+  return `/booking/manage/${encodeURIComponent(token)}`;
+}
+
+/**
+ * Path of the booking wizard for a professional, optionally with a service,
+ * date and time preselected, and the hold of a waitlist claim on that slot
+ */
+export function getBookingPagePath(
+  orgSlug: string,
+  storeSlug: string | null,
+  professionalSlug: string,
+  preselect: { service?: string; date?: string; time?: string; claim?: string } = {}
+): string {
+  const path = storeSlug ? `/book/${orgSlug}/${storeSlug}/${professionalSlug}` : `/book/u/${professionalSlug}`;
+  const query = new URLSearchParams(
+    Object.entries(preselect).filter((entry): entry is [string, string] => Boolean(entry[1]))
+  ).toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Get the services a booking covers, in the order they're performed
+ *
+ * Bookings made before multi-service support only carry the top-level
+ * service fields, which then describe their single service.
+ */
+export function getBookingServices(booking: BookingDoc): BookingServiceLine[] {
+  if (booking.services?.length) {
+    return booking.services;
+  }
+
+  return [
+    {
+      serviceId: booking.serviceId,
+      serviceName: booking.serviceName,
+      duration: booking.duration,
+      price: booking.price
+    }
+  ];
+}
+
+/**
+ * Get the UTC instant an appointment starts at
+ */
+export function getAppointmentStart(booking: BookingDoc): Date {
+  return zonedTimeToUtc(booking.date, booking.time, booking.timezone);
+}
+
+/**
+ * Get how many hours before the appointment customers may still cancel or
+ * reschedule: the policy the booking was made under, or for older bookings
+ * the professional's setting over the store's
+ */
+export function getCancellationHours(details: BookingDetails): number {
+  return (
+    details.booking.cancellationHours ??
+    details.professional?.settings?.bookingSettings?.cancellationHours ??
+    details.store?.settings?.bookingSettings?.cancellationHours ??
+    DEFAULT_CANCELLATION_HOURS
+  );
+}
+
+/**
+ * Get the last moment the customer can cancel or reschedule a booking
+ */
+export function getChangeDeadline(details: BookingDetails): Date {
+  const start = getAppointmentStart(details.booking);
+  return new Date(start.getTime() - getCancellationHours(details) * 3600000);
+}
+
+/**
+ * Build the confirmation payload shown to the customer
+ */
+export function toConfirmationData(details: BookingDetails, links: BookingLinks): BookingConfirmationData {
+  const { booking, professional, store } = details;
+
+  return {
+    bookingId: booking.id,
+    confirmationCode: booking.confirmationCode || '',
+    icsFileUrl: links.icsFileUrl,
+    manageUrl: links.manageUrl,
+    customerName: `${booking.customer.firstName} ${booking.customer.lastName}`,
+    customerEmail: booking.customer.email,
+    customerPhone: booking.customer.phone,
+    professionalName: professional?.name || '',
+    serviceName: booking.serviceName,
+    appointmentDate: booking.date,
+    appointmentTime: booking.time,
+    duration: booking.duration,
+    timezone: booking.timezone,
+    ...(store ? { location: formatStoreLocation(store) } : {})
+  };
+}
@@ -1,4 +1,7 @@
-import { createHmac, createHash } from 'crypto';
+import { createHmac, createHash, randomInt } from 'crypto';
+
+// Letters and digits that can't be confused with each other (no 0/O, 1/I/L)
+const CONFIRMATION_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
 
 /**
  * Generate SHA256 hash for email deduplication
@@ -90,3 +93,15 @@ export function isValidEmail(email: string): boolean {
 export function normalizeEmail(email: string): string {
   return email.trim().toLowerCase();
 }
+
+/**
+ * Generate a short, human-friendly booking confirmation code
+ * Uniqueness must be checked by the caller
+ */
+export function generateConfirmationCode(length: number = 6): string {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += CONFIRMATION_CODE_ALPHABET[randomInt(CONFIRMATION_CODE_ALPHABET.length)];
+  }
+  return code;
+}
@@ -0,0 +1,161 @@
+/**
+ * Customer accounts
+ *
+ * Customers sign in with a link emailed to them, so their account is simply
+ * their email address: the customer doc is keyed by its hash and bookings are
+ * found through the email they were made with. Customers are kept apart from
+ * staff users and their roles.
+ */
+
+import { FieldValue, type Firestore } from 'firebase-admin/firestore';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { generateDedupeKey } from './crypto';
+import { getAppointmentStart, getBookingPagePath, getBookingServices } from './bookings';
+import { validateCustomerToken } from '../tokens';
+import type {
+  BookingCustomer,
+  BookingDoc,
+  CustomerDoc,
+  OrgDoc,
+  ProfessionalDoc,
+  ServiceDoc,
+  StoreDoc
+} from '../types/models';
+
+/**
+ * Get the ID of the customer doc for an email address
+ */
+export function getCustomerId(email: string): string {
+  return generateDedupeKey(email);
+}
+
+/**
+ * Get the customer doc for an email address, or null before their first sign-in
+ */
+export async function getCustomer(db: Firestore, email: string): Promise<CustomerDoc | null> {
+  const snapshot = await db.collection('customers').doc(getCustomerId(email)).get();
+  return snapshot.exists ? ({ ...snapshot.data(), id: snapshot.id } as CustomerDoc) : null;
+}
+
+/**
+ * Get the email a customer session token was issued for, throwing
+ * unauthenticated when the session is invalid or has expired
+ */
+export function getSessionEmail(sessionToken: string): string {
+  const validation = validateCustomerToken(sessionToken, 'session');
+  if (!validation.valid || !validation.payload) {
+    throw new HttpsError('unauthenticated', validation.error || 'Invalid session');
+  }
+  return validation.payload.email;
+}
+
+/**
+ * Save the details a signed-in customer booked with to their profile, so
+ * they're filled in next time. Returns false without saving when the session
+ * is invalid or belongs to a different email than the booking's.
+ */
+export async function saveCustomerDetails(
+  db: Firestore,
+  sessionToken: string,
+  customer: Pick<BookingCustomer, 'firstName' | 'lastName' | 'email' | 'phone'>
+): Promise<boolean> {
+  const validation = validateCustomerToken(sessionToken, 'session');
+  const email = customer.email.toLowerCase();
+  if (!validation.valid || validation.payload?.email !== email) {
+    return false;
+  }
+
+  await db.collection('customers').doc(getCustomerId(email)).set(
+    {
+      email,
+      firstName: customer.firstName,
+      lastName: customer.lastName,
+      phone: customer.phone,
+      updatedAt: FieldValue.serverTimestamp()
+    },
+    { merge: true }
+  );
+  return true;
+}
+
+/**
+ * Split a customer's bookings into upcoming appointments, soonest first, and
+ * past or cancelled ones, latest first. Drafts never became appointments and
+ * are left out.
+ */
+export function splitBookingHistory(
+  bookings: BookingDoc[],
+  now: Date = new Date()
+): { upcoming: BookingDoc[]; past: BookingDoc[] } {
+  const byStart = bookings
+    .filter(booking => booking.status !== 'draft')
+    .map(booking => ({ booking, start: getAppointmentStart(booking).getTime() }))
+    .sort((a, b) => a.start - b.start);
+
+  const isUpcoming = (entry: { booking: BookingDoc; start: number }) =>
+    entry.booking.status !== 'cancelled' && entry.start >= now.getTime();
+
+  return {
+    upcoming: byStart.filter(isUpcoming).map(entry => entry.booking),
+    past: byStart
+      .filter(entry => !isUpcoming(entry))
+      .reverse()
+      .map(entry => entry.booking)
+  };
+}
+
+/**
+ * Path of the booking page that books a past booking's first service with the
+ * same professional again, or null when the professional or service has gone
+ */
+export function getRebookPath(
+  org: OrgDoc,
+  store: StoreDoc | null,
+  professional: ProfessionalDoc | null,
+  service: ServiceDoc | null
+): string | null {
+  if (!professional || !service) {
+    return null;
+  }
+
+  return getBookingPagePath(org.slug, store?.slug || null, professional.slug, { service: service.slug });
+}
+
+/**
+ * Loads the org docs a customer's bookings refer to, each doc once
+ */
+export class BookingDocCache {
+  private readonly docs = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly db: Firestore) {}
+
+  org(orgId: string): Promise<OrgDoc | null> {
+    return this.load<OrgDoc>(`orgs/${orgId}`);
+  }
+
+  store(orgId: string, storeId: string | null): Promise<StoreDoc | null> {
+    return storeId ? this.load<StoreDoc>(`orgs/${orgId}/stores/${storeId}`) : Promise.resolve(null);
+  }
+
+  professional(orgId: string, professionalId: string): Promise<ProfessionalDoc | null> {
+    return this.load<ProfessionalDoc>(`orgs/${orgId}/professionals/${professionalId}`);
+  }
+
+  service(booking: BookingDoc): Promise<ServiceDoc | null> {
+    const [first] = getBookingServices(booking);
+    return this.load<ServiceDoc>(`orgs/${booking.orgId}/services/${first.serviceId}`);
+  }
+
+  private load<T>(path: string): Promise<T | null> {
+    if (!this.docs.has(path)) {
+      this.docs.set(
+        path,
+        this.db
+          .doc(path)
+          .get()
+          .then(snapshot => (snapshot.exists ? { ...snapshot.data(), id: snapshot.id } : null))
+      );
+    }
+    return this.docs.get(path) as Promise<T | null>;
+  }
+}
@@ -1,5 +1,5 @@
 import type { Locale, EmailTemplate, LocalizedStrings } from '../types/models';
-import { getLocalizedStrings, resolveLocale } from './i18n';
+import { getLocalizedStrings, getBookingEmailStrings, resolveLocale, type BookingEmailStrings } from './i18n';
 
 /**
  * Build email template for waitlist confirmation
@@ -178,6 +178,273 @@ function buildEmailHTML(
   `.trim();
 }
 
+export interface BookingEmailData {
+  customerName: string;
+  serviceName: string;
+  professionalName: string;
+  appointmentDate: string; // YYYY-MM-DD
+  appointmentTime: string; // HH:MM
+  timezone: string;
+  location?: string;
+  confirmationCode?: string;
+  manageUrl?: string; // absolute URL of the manage-booking page
+}
+
+export type BookingUpdateKind = 'rescheduled' | 'cancelled';
+
+/**
+ * Build email template for a confirmed booking in the customer's language
+ */
+export function buildBookingConfirmationEmail(data: BookingEmailData, locale: Locale | null): EmailTemplate {
+  const resolvedLocale = resolveLocale(locale);
+  const strings = getBookingEmailStrings(resolvedLocale);
+
+  const subject = strings.subject.replace('{{service}}', data.serviceName);
+  const html = buildBookingEmailHTML({
+    title: subject,
+    greeting: strings.greeting.replace('{{name}}', data.customerName),
+    intro: strings.intro,
+    note: strings.calendarNote,
+    data,
+    locale: resolvedLocale,
+    labels: strings.labels,
+    cta: data.manageUrl ? { label: strings.manage, url: data.manageUrl } : undefined
+  });
+
+  return { subject, html };
+}
+
+/**
+ * Build email template reminding a customer of an upcoming appointment
+ * `offsetHours` before it starts
+ */
+export function buildBookingReminderEmail(
+  data: BookingEmailData,
+  locale: Locale | null,
+  offsetHours: number
+): EmailTemplate {
+  const resolvedLocale = resolveLocale(locale);
+  const strings = getBookingEmailStrings(resolvedLocale);
+
+  // e.g. "in 24 hours", "em 2 horas", "tra 2 ore"
+  const when = new Intl.RelativeTimeFormat(resolvedLocale, { numeric: 'auto' }).format(offsetHours, 'hour');
+  const subject = strings.reminder.subject
+    .replace('{{service}}', data.serviceName)
+    .replace('{{when}}', when);
+
+  const html = buildBookingEmailHTML({
+    title: subject,
+    greeting: strings.greeting.replace('{{name}}', data.customerName),
+    intro: strings.reminder.intro,
+    data,
+    locale: resolvedLocale,
+    labels: strings.labels,
+    cta: data.manageUrl ? { label: strings.manage, url: data.manageUrl } : undefined
+  });
+
+  return { subject, html };
+}
+
+/**
+ * Build email template sent in the customer's language when a booking is
+ * rescheduled or cancelled
+ */
+export function buildBookingUpdateEmail(
+  data: BookingEmailData,
+  kind: BookingUpdateKind,
+  locale: Locale | null
+): EmailTemplate {
+  const resolvedLocale = resolveLocale(locale);
+  const strings = getBookingEmailStrings(resolvedLocale);
+
+  const subject = strings.update[kind].subject.replace('{{service}}', data.serviceName);
+  const html = buildBookingEmailHTML({
+    title: subject,
+    greeting: strings.greeting.replace('{{name}}', data.customerName),
+    intro: strings.update[kind].intro,
+    data,
+    locale: resolvedLocale,
+    labels: strings.labels,
+    cta: kind === 'rescheduled' && data.manageUrl
+      ? { label: strings.manage, url: data.manageUrl }
+      : undefined
+  });
+
+  return { subject, html };
+}
+
+/**
+ * Build email template telling a customer on a class session's waitlist, in
+ * their language, that a seat opened up
+ */
+export function buildSessionSeatOpenEmail(
+  data: BookingEmailData,
+  bookUrl: string,
+  locale: Locale | null
+): EmailTemplate {
+  const resolvedLocale = resolveLocale(locale);
+  const strings = getBookingEmailStrings(resolvedLocale);
+
+  const subject = strings.seatOpen.subject.replace('{{service}}', data.serviceName);
+  const html = buildBookingEmailHTML({
+    title: subject,
+    greeting: strings.greeting.replace('{{name}}', data.customerName),
+    intro: strings.seatOpen.intro,
+    data,
+    locale: resolvedLocale,
+    labels: strings.labels,
+    cta: { label: strings.seatOpen.cta, url: bookUrl }
+  });
+
+  return { subject, html };
+}
+
+/**
+ * Build email template telling a customer on the booking waitlist, in their
+ * language, that a slot opened up and is held for them
+ */
+export function buildWaitlistClaimEmail(
+  data: BookingEmailData,
+  claimUrl: string,
+  claimMinutes: number,
+  locale: Locale | null
+): EmailTemplate {
+  const resolvedLocale = resolveLocale(locale);
+  const strings = getBookingEmailStrings(resolvedLocale);
+
+  const subject = strings.waitlistClaim.subject.replace('{{service}}', data.serviceName);
+  const html = buildBookingEmailHTML({
+    title: subject,
+    greeting: strings.greeting.replace('{{name}}', data.customerName),
+    intro: strings.waitlistClaim.intro,
+    note: strings.waitlistClaim.note.replace('{{minutes}}', String(claimMinutes)),
+    data,
+    locale: resolvedLocale,
+    labels: strings.labels,
+    cta: { label: strings.waitlistClaim.cta, url: claimUrl }
+  });
+
+  return { subject, html };
+}
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Format a YYYY-MM-DD date for display, e.g. "Monday, January 7, 2030"
+ */
+const formatBookingDate = (date: string, locale: Locale): string => {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(locale, {
+    timeZone: 'UTC',
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+};
+
+/**
+ * Build HTML for booking emails: a greeting, the appointment details and an
+ * optional call to action
+ */
+function buildBookingEmailHTML(content: {
+  title: string;
+  greeting: string;
+  intro: string;
+  note?: string;
+  data: BookingEmailData;
+  locale: Locale;
+  labels: BookingEmailStrings['labels'];
+  cta?: { label: string; url: string };
+}): string {
+  const { data, labels } = content;
+
+  const rows: [string, string | undefined][] = [
+    [labels.service, data.serviceName],
+    [labels.professional, data.professionalName],
+    [labels.date, formatBookingDate(data.appointmentDate, content.locale)],
+    [labels.time, `${data.appointmentTime} (${data.timezone})`],
+    [labels.location, data.location],
+    [labels.confirmationCode, data.confirmationCode]
+  ];
+
+  const details = rows
+    .filter((row): row is [string, string] => Boolean(row[1]))
+    .map(([label, value]) => `<tr><td class="label">${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`)
+    .join('');
+
+  return `
+<!DOCTYPE html>
+<html lang="${content.locale}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(content.title)}</title>
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      line-height: 1.6;
+      color: #333333;
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+      background-color: #f8f9fa;
+    }
+    .container {
+      background-color: #ffffff;
+      border-radius: 8px;
+      box-shadow: 0 2px 10px rgba(0, 0, 0, 0.1);
+      padding: 40px 30px;
+    }
+    .logo {
+      font-size: 24px;
+      font-weight: bold;
+      margin-bottom: 20px;
+    }
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      margin: 20px 0;
+    }
+    td {
+      padding: 8px 0;
+      border-bottom: 1px solid #e2e8f0;
+    }
+    td.label {
+      color: #718096;
+      width: 40%;
+    }
+    .cta-button {
+      display: inline-block;
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      text-decoration: none;
+      padding: 12px 24px;
+      border-radius: 6px;
+      font-weight: 600;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="logo">📅 Calendado</div>
+    <p>${escapeHtml(content.greeting)}</p>
+    <p>${escapeHtml(content.intro)}</p>
+    <table>${details}</table>
+    ${content.note ? `<p>${escapeHtml(content.note)}</p>` : ''}
+    ${content.cta ? `<p><a href="${escapeHtml(content.cta.url)}" class="cta-button">${escapeHtml(content.cta.label)}</a></p>` : ''}
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
 /**
  * Validate email template data
  */
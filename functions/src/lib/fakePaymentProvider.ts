@@ -0,0 +1,65 @@
+/**
+ * Local fake payment provider
+ *
+ * Behaves like a real processor from the booking code's point of view
+ * (intents, refunds, signed webhooks) without moving any money. Payments are
+ * completed on demand with `createWebhookEvent`, which produces the same
+ * signed delivery the real webhook endpoint receives.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type {
+  PaymentProvider,
+  PaymentIntent,
+  PaymentEvent,
+  RefundResult,
+  CreatePaymentIntentParams
+} from './payments';
+
+const randomId = (prefix: string) => `${prefix}_${randomBytes(12).toString('hex')}`;
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  constructor(private readonly webhookSecret: string) {}
+
+  async createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent> {
+    const id = randomId('fake_pi');
+    return {
+      id,
+      clientSecret: `${id}_secret_${randomBytes(12).toString('hex')}`,
+      amount: params.amount,
+      currency: params.currency
+    };
+  }
+
+  async refund(_intentId: string, amount: number): Promise<RefundResult> {
+    return { id: randomId('fake_re'), amount };
+  }
+
+  parseWebhookEvent(payload: string, signature: string | undefined): PaymentEvent | null {
+    if (!signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(payload), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return null;
+    }
+
+    return JSON.parse(payload) as PaymentEvent;
+  }
+
+  /**
+   * Build a signed webhook delivery, as the processor would send it
+   */
+  createWebhookEvent(event: Omit<PaymentEvent, 'id'>): { payload: string; signature: string } {
+    const payload = JSON.stringify({ ...event, id: randomId('fake_evt') });
+    return { payload, signature: this.sign(payload) };
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.webhookSecret).update(payload).digest('hex');
+  }
+}
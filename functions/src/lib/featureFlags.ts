@@ -0,0 +1,19 @@
+/**
+ * Feature flags
+ *
+ * Flags live in the `admin/featureFlags` document and are toggled from the
+ * admin panel. A missing document or field means the flag is off.
+ */
+
+import type { Firestore } from 'firebase-admin/firestore';
+import type { FeatureFlagsDoc } from '../types/shared';
+
+export type FeatureFlag = Exclude<keyof FeatureFlagsDoc, 'updatedAt' | 'updatedBy'>;
+
+/**
+ * Check whether a feature flag is turned on
+ */
+export async function isFeatureEnabled(db: Firestore, flag: FeatureFlag): Promise<boolean> {
+  const snapshot = await db.collection('admin').doc('featureFlags').get();
+  return snapshot.data()?.[flag] === true;
+}
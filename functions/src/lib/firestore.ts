@@ -155,6 +155,49 @@ export async function saveToDeadLetterQueue(
   }
 }
 
+/**
+ * Get the dead letter queue document ID for a booking confirmation, or for
+ * one of its reminders when an offset is given
+ */
+export function getBookingDeadLetterQueueId(bookingId: string, reminderOffset?: number): string {
+  return reminderOffset === undefined
+    ? `booking_${bookingId}`
+    : `booking_${bookingId}_reminder_${reminderOffset}h`;
+}
+
+/**
+ * Save a failed booking confirmation (or reminder) email to the dead letter queue
+ */
+export async function saveBookingToDeadLetterQueue(
+  bookingId: string,
+  email: string,
+  error: { code: string; msg: string },
+  reminderOffset?: number
+): Promise<void> {
+  try {
+    const dlqDoc = {
+      type: reminderOffset === undefined ? 'booking_confirmation' : 'booking_reminder',
+      bookingId,
+      ...(reminderOffset === undefined ? {} : { reminderOffset }),
+      email,
+      error,
+      lastAttempt: FieldValue.serverTimestamp(),
+      attempts: 1,
+      maxAttempts: 3
+    };
+
+    await getDb()
+      .collection('email_dlq')
+      .doc(getBookingDeadLetterQueueId(bookingId, reminderOffset))
+      .set(dlqDoc);
+
+    console.log('Saved booking to dead letter queue:', { bookingId, reminderOffset, email, error });
+  } catch (error) {
+    console.error('Error saving booking to dead letter queue:', error);
+    throw error;
+  }
+}
+
 /**
  * Update dead letter queue attempt count
  */
@@ -0,0 +1,60 @@
+/**
+ * Slot holds
+ *
+ * A hold keeps a slot out of everyone else's availability for a few minutes
+ * while a customer fills in their details. Expired holds stop counting right
+ * away; a scheduled job deletes them later.
+ */
+
+import type { Firestore, Query, QuerySnapshot } from 'firebase-admin/firestore';
+import type { SlotHoldDoc } from '../types/models';
+import { toBusyInterval, type BusyInterval } from './availability';
+
+export const SLOT_HOLD_MINUTES = 10;
+
+/**
+ * When a hold placed at the given time runs out
+ */
+export function getHoldExpiry(now: Date): Date {
+  return new Date(now.getTime() + SLOT_HOLD_MINUTES * 60000);
+}
+
+export function isHoldActive(hold: Pick<SlotHoldDoc, 'expiresAt'>, now: Date): boolean {
+  return hold.expiresAt.toMillis() > now.getTime();
+}
+
+/**
+ * Query for the holds on a professional's schedule in a date range,
+ * including expired ones that haven't been cleaned up yet
+ */
+export function slotHoldsQuery(db: Firestore, professionalId: string, startDate: string, endDate: string): Query {
+  return db
+    .collection('slotHolds')
+    .where('professionalId', '==', professionalId)
+    .where('date', '>=', startDate)
+    .where('date', '<=', endDate);
+}
+
+/**
+ * Query for the holds taking a store's resources in a date range, including
+ * expired ones that haven't been cleaned up yet
+ */
+export function storeHoldsQuery(db: Firestore, storeId: string, startDate: string, endDate: string): Query {
+  return db
+    .collection('slotHolds')
+    .where('storeId', '==', storeId)
+    .where('date', '>=', startDate)
+    .where('date', '<=', endDate);
+}
+
+/**
+ * Convert a holds query snapshot into busy intervals, leaving out expired
+ * holds and optionally the caller's own hold
+ */
+export function toHoldBusyIntervals(snapshot: QuerySnapshot, now: Date, excludeHoldId?: string): BusyInterval[] {
+  return snapshot.docs
+    .filter(doc => doc.id !== excludeHoldId)
+    .map(doc => doc.data() as SlotHoldDoc)
+    .filter(hold => isHoldActive(hold, now))
+    .map(toBusyInterval);
+}
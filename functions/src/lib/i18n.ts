@@ -101,4 +101,166 @@ export function resolveLocale(locale: string | null | undefined): Locale {
   if (!locale) return getFallbackLocale();
   if (isSupportedLocale(locale)) return locale;
   return getFallbackLocale();
-}
\ No newline at end of file
+}
+
+export interface BookingEmailStrings {
+  subject: string;
+  greeting: string;
+  intro: string;
+  calendarNote: string;
+  manage: string;
+  reminder: {
+    subject: string;
+    intro: string;
+  };
+  update: Record<'rescheduled' | 'cancelled', { subject: string; intro: string }>;
+  seatOpen: {
+    subject: string;
+    intro: string;
+    cta: string;
+  };
+  waitlistClaim: {
+    subject: string;
+    intro: string;
+    note: string;
+    cta: string;
+  };
+  labels: {
+    service: string;
+    professional: string;
+    date: string;
+    time: string;
+    location: string;
+    confirmationCode: string;
+  };
+}
+
+const bookingStrings: Record<Locale, BookingEmailStrings> = {
+  'en-US': {
+    subject: "Your {{service}} appointment is confirmed",
+    greeting: "Hi {{name}},",
+    intro: "Your appointment is confirmed. Here are the details:",
+    calendarNote: "The attached calendar file adds the appointment to your calendar.",
+    manage: "Reschedule or cancel",
+    reminder: {
+      subject: "Reminder: your {{service}} appointment is {{when}}",
+      intro: "This is a reminder of your upcoming appointment:"
+    },
+    update: {
+      rescheduled: {
+        subject: "Your {{service}} appointment was rescheduled",
+        intro: "Your appointment has been moved to the time below. The attached calendar file updates your calendar."
+      },
+      cancelled: {
+        subject: "Your {{service}} appointment was cancelled",
+        intro: "Your appointment has been cancelled. The attached calendar file removes it from your calendar."
+      }
+    },
+    seatOpen: {
+      subject: "A seat opened up in {{service}}",
+      intro: "A seat just opened up in the class below. Seats go to whoever books first.",
+      cta: "Book your seat"
+    },
+    waitlistClaim: {
+      subject: "A time opened up for {{service}}",
+      intro: "A time you were waiting for just opened up. We're holding it for you.",
+      note: "The time is held for {{minutes}} minutes. After that it goes to the next person waiting.",
+      cta: "Book this time"
+    },
+    labels: {
+      service: "Service",
+      professional: "With",
+      date: "Date",
+      time: "Time",
+      location: "Where",
+      confirmationCode: "Confirmation code"
+    }
+  },
+  'pt-BR': {
+    subject: "Seu agendamento de {{service}} está confirmado",
+    greeting: "Olá {{name}},",
+    intro: "Seu agendamento está confirmado. Confira os detalhes:",
+    calendarNote: "O arquivo de calendário em anexo adiciona o agendamento à sua agenda.",
+    manage: "Reagendar ou cancelar",
+    reminder: {
+      subject: "Lembrete: seu agendamento de {{service}} é {{when}}",
+      intro: "Este é um lembrete do seu próximo agendamento:"
+    },
+    update: {
+      rescheduled: {
+        subject: "Seu agendamento de {{service}} foi reagendado",
+        intro: "Seu agendamento foi movido para o horário abaixo. O arquivo de calendário em anexo atualiza sua agenda."
+      },
+      cancelled: {
+        subject: "Seu agendamento de {{service}} foi cancelado",
+        intro: "Seu agendamento foi cancelado. O arquivo de calendário em anexo o remove da sua agenda."
+      }
+    },
+    seatOpen: {
+      subject: "Abriu uma vaga em {{service}}",
+      intro: "Acabou de abrir uma vaga na aula abaixo. As vagas ficam com quem agendar primeiro.",
+      cta: "Reservar minha vaga"
+    },
+    waitlistClaim: {
+      subject: "Abriu um horário para {{service}}",
+      intro: "Abriu um horário que você estava esperando. Estamos reservando para você.",
+      note: "O horário fica reservado por {{minutes}} minutos. Depois disso, vai para a próxima pessoa da lista.",
+      cta: "Agendar este horário"
+    },
+    labels: {
+      service: "Serviço",
+      professional: "Com",
+      date: "Data",
+      time: "Horário",
+      location: "Local",
+      confirmationCode: "Código de confirmação"
+    }
+  },
+  'it-IT': {
+    subject: "Il tuo appuntamento per {{service}} è confermato",
+    greeting: "Ciao {{name}},",
+    intro: "Il tuo appuntamento è confermato. Ecco i dettagli:",
+    calendarNote: "Il file di calendario allegato aggiunge l'appuntamento al tuo calendario.",
+    manage: "Sposta o annulla",
+    reminder: {
+      subject: "Promemoria: il tuo appuntamento per {{service}} è {{when}}",
+      intro: "Ti ricordiamo il tuo prossimo appuntamento:"
+    },
+    update: {
+      rescheduled: {
+        subject: "Il tuo appuntamento per {{service}} è stato spostato",
+        intro: "Il tuo appuntamento è stato spostato all'orario qui sotto. Il file di calendario allegato aggiorna il tuo calendario."
+      },
+      cancelled: {
+        subject: "Il tuo appuntamento per {{service}} è stato annullato",
+        intro: "Il tuo appuntamento è stato annullato. Il file di calendario allegato lo rimuove dal tuo calendario."
+      }
+    },
+    seatOpen: {
+      subject: "Si è liberato un posto in {{service}}",
+      intro: "Si è appena liberato un posto nella lezione qui sotto. I posti vanno a chi prenota per primo.",
+      cta: "Prenota il tuo posto"
+    },
+    waitlistClaim: {
+      subject: "Si è liberato un orario per {{service}}",
+      intro: "Si è appena liberato un orario che stavi aspettando. Lo teniamo da parte per te.",
+      note: "L'orario resta riservato per {{minutes}} minuti. Dopo passa alla prossima persona in attesa.",
+      cta: "Prenota questo orario"
+    },
+    labels: {
+      service: "Servizio",
+      professional: "Con",
+      date: "Data",
+      time: "Orario",
+      location: "Dove",
+      confirmationCode: "Codice di conferma"
+    }
+  }
+};
+
+/**
+ * Get localized booking email strings for a given locale
+ */
+export function getBookingEmailStrings(locale: Locale): BookingEmailStrings {
+  return bookingStrings[locale] || bookingStrings['en-US'];
+}
@@ -0,0 +1,110 @@
+/**
+ * Booking intake questions
+ *
+ * Services can ask customers structured questions when they book:
+ * allergies, consent checkboxes, dropdowns or a reference photo. The
+ * answers are checked against the questions of every booked service and
+ * stored on the booking with the question as it was asked, so later edits
+ * to a service don't change what the customer answered.
+ */
+
+import { HttpsError } from 'firebase-functions/v2/https';
+import { getStorage } from 'firebase-admin/storage';
+import { z } from 'zod';
+import type { IntakeAnswer, IntakeQuestion, ServiceDoc } from '../types/models';
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_TEXTAREA_LENGTH = 2000;
+
+// Customers upload each reference photo to intake/{uploadId}/photo
+const UPLOAD_PATH_REGEX = /^intake\/[A-Za-z0-9_-]{8,64}\/photo$/;
+
+export type IntakeAnswerInput = Record<string, string | boolean>;
+
+/**
+ * Get the questions of every booked service in order, asking a question
+ * shared by several services once
+ */
+export function getIntakeQuestions(services: ServiceDoc[]): IntakeQuestion[] {
+  const questions = new Map<string, IntakeQuestion>();
+  for (const question of services.flatMap(service => service.intakeQuestions || [])) {
+    if (!questions.has(question.id)) {
+      questions.set(question.id, question);
+    }
+  }
+  return [...questions.values()];
+}
+
+function toAnswerSchema(question: IntakeQuestion): z.ZodType {
+  switch (question.type) {
+    case 'checkbox':
+      return question.required ? z.literal(true, { message: 'must be checked' }) : z.boolean();
+    case 'select':
+      return z.string().refine(value => (question.options || []).includes(value), {
+        message: 'is not one of the choices'
+      });
+    case 'photo':
+      return z.string().regex(UPLOAD_PATH_REGEX, { message: 'is not an uploaded photo' });
+    default:
+      return z
+        .string()
+        .trim()
+        .min(question.required ? 1 : 0)
+        .max(question.type === 'textarea' ? MAX_TEXTAREA_LENGTH : MAX_TEXT_LENGTH);
+  }
+}
+
+/**
+ * Build the schema answers to a set of questions must match, keyed by
+ * question ID. Answers to questions that weren't asked are dropped.
+ */
+export function buildIntakeSchema(questions: IntakeQuestion[]) {
+  return z.object(
+    Object.fromEntries(
+      questions.map(question => {
+        const schema = toAnswerSchema(question);
+        return [question.id, question.required ? schema : schema.optional()];
+      })
+    )
+  );
+}
+
+/**
+ * Validate a customer's answers and turn them into the answers stored on
+ * the booking, in the order the questions were asked
+ */
+export function collectIntakeAnswers(
+  questions: IntakeQuestion[],
+  answers: IntakeAnswerInput | undefined
+): IntakeAnswer[] {
+  const parsed = buildIntakeSchema(questions).safeParse(answers || {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const question = questions.find(candidate => candidate.id === issue.path[0]);
+    const message = issue.code === 'invalid_type' && question?.required ? 'is required' : issue.message;
+    throw new HttpsError('invalid-argument', `Invalid intake answer: ${question?.label || 'answers'} ${message}`);
+  }
+
+  const values = parsed.data as IntakeAnswerInput;
+  return questions
+    .filter(question => values[question.id] !== undefined && values[question.id] !== '')
+    .map(question => ({
+      questionId: question.id,
+      type: question.type,
+      label: question.label,
+      value: values[question.id]
+    }));
+}
+
+/**
+ * Throw unless every photo the answers point to was uploaded
+ */
+export async function verifyIntakeUploads(answers: IntakeAnswer[]): Promise<void> {
+  const bucket = getStorage().bucket();
+  for (const answer of answers.filter(candidate => candidate.type === 'photo')) {
+    const [exists] = await bucket.file(answer.value as string).exists();
+    if (!exists) {
+      throw new HttpsError('invalid-argument', `Invalid intake answer: ${answer.label} upload was not found`);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Booking payments
+ *
+ * Stores can require a deposit or full prepayment per service. Money moves
+ * through a `PaymentProvider`, so the booking code never depends on a
+ * specific processor; the provider confirms payments back to us through a
+ * signed webhook. The only provider so far is the local fake, which only
+ * runs in the emulator and tests; without a real one configured, paid
+ * bookings are refused.
+ */
+
+import type {
+  BookingPayment,
+  BookingServiceLine,
+  NoShowDepositPolicy,
+  PaymentMode,
+  PaymentRequirement
+} from '../types/models';
+import { FakePaymentProvider } from './fakePaymentProvider';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export interface CreatePaymentIntentParams {
+  bookingId: string;
+  amount: number;
+  currency: string;
+  description: string;
+}
+
+export interface PaymentIntent {
+  id: string;
+  clientSecret: string; // handed to the browser to complete the payment
+  amount: number;
+  currency: string;
+}
+
+export type PaymentEventType = 'payment.succeeded' | 'payment.failed';
+
+/**
+ * A webhook delivery from the provider, once its signature has been checked
+ */
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  intentId: string;
+  bookingId: string;
+  amount: number;
+}
+
+export interface RefundResult {
+  id: string;
+  amount: number;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent>;
+  refund(intentId: string, amount: number): Promise<RefundResult>;
+  /**
+   * Verify and parse a webhook delivery, returning null when the signature
+   * doesn't match
+   */
+  parseWebhookEvent(payload: string, signature: string | undefined): PaymentEvent | null;
+}
+
+/**
+ * Whether functions are running in the emulator or tests, the only places
+ * payments may be faked
+ */
+export function isTestEnvironment(): boolean {
+  return process.env.FUNCTIONS_EMULATOR === 'true' || process.env.NODE_ENV === 'test';
+}
+
+/**
+ * Get the configured payment provider, or null when none is configured.
+ * The fake provider is the default in the emulator and tests, and refused
+ * anywhere else.
+ */
+export function getPaymentProvider(webhookSecret: string): PaymentProvider | null {
+  const name = process.env.PAYMENT_PROVIDER || (isTestEnvironment() ? 'fake' : '');
+
+  switch (name) {
+    case '':
+      return null;
+    case 'fake':
+      if (!isTestEnvironment()) {
+        throw new Error('The fake payment provider only runs in the emulator and tests');
+      }
+      return new FakePaymentProvider(webhookSecret);
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Work out what a customer has to pay upfront for a booking
+ *
+ * Each service line is charged according to its requirement: a deposit
+ * (capped at the service price) or its full price. Returns null when none of
+ * the services require payment.
+ */
+export function getAmountDue(
+  services: BookingServiceLine[],
+  requirements: Record<string, PaymentRequirement> | undefined
+): { amount: number; mode: PaymentMode } | null {
+  let amount = 0;
+  let allFull = true;
+
+  for (const line of services) {
+    const requirement = requirements?.[line.serviceId];
+    if (requirement?.mode === 'full') {
+      amount += line.price;
+    } else if (requirement?.mode === 'deposit') {
+      amount += Math.min(Math.max(requirement.amount || 0, 0), line.price);
+      allFull = false;
+    } else {
+      allFull = false;
+    }
+  }
+
+  if (amount <= 0) {
+    return null;
+  }
+  return { amount: roundAmount(amount), mode: allFull ? 'full' : 'deposit' };
+}
+
+/**
+ * Get the payment requirements for a customer with the given number of
+ * no-shows at the org
+ *
+ * Once they reach the store's no-show policy, services that need no upfront
+ * payment, or a smaller deposit than the policy's, take the policy's instead.
+ */
+export function getNoShowRequirements(
+  services: BookingServiceLine[],
+  requirements: Record<string, PaymentRequirement> | undefined,
+  policy: NoShowDepositPolicy | undefined,
+  noShowCount: number
+): Record<string, PaymentRequirement> | undefined {
+  if (!policy || policy.after < 1 || noShowCount < policy.after) {
+    return requirements;
+  }
+
+  const charge = (line: BookingServiceLine, requirement: PaymentRequirement | undefined) =>
+    getAmountDue([line], requirement ? { [line.serviceId]: requirement } : undefined)?.amount || 0;
+
+  const result = { ...requirements };
+  for (const line of services) {
+    if (charge(line, policy.requirement) > charge(line, result[line.serviceId])) {
+      result[line.serviceId] = policy.requirement;
+    }
+  }
+  return result;
+}
+
+/**
+ * Work out how much of a booking's payment goes back to the customer when
+ * it's cancelled
+ *
+ * Cancelling before the cancellation window closes (`cancellationHours`
+ * before the appointment) refunds everything paid; after that the deposit or
+ * prepayment is kept.
+ */
+export function getRefundAmount(payment: BookingPayment | undefined, now: Date, changeDeadline: Date): number {
+  if (!payment || payment.status !== 'paid' || now >= changeDeadline) {
+    return 0;
+  }
+  return roundAmount(Math.max(payment.amountPaid - (payment.refundedAmount || 0), 0));
+}
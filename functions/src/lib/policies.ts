@@ -0,0 +1,100 @@
+/**
+ * Booking policies
+ *
+ * How far ahead and how late customers can book, the cancellation window,
+ * the buffers kept around appointments and how often slots start. Each can
+ * be set by the org, a store, a professional or a service; the most specific
+ * level that sets a policy wins: service > professional > store > org.
+ */
+
+import type {
+  BookingPolicy,
+  BookingPolicySettings,
+  OrgDoc,
+  ProfessionalDoc,
+  ServiceDoc,
+  StoreDoc
+} from '../types/models';
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  advanceBookingDays: 30,
+  minLeadTimeMinutes: 0,
+  cancellationHours: 24,
+  bufferBefore: 0,
+  bufferAfter: 0,
+  slotInterval: 30
+};
+
+const POLICY_KEYS = Object.keys(DEFAULT_BOOKING_POLICY) as Array<keyof BookingPolicy>;
+
+// Whether a service wanting each policy higher is the stricter one; a
+// shorter advance window is stricter, everything else the other way round
+const STRICTER_WHEN_HIGHER: Record<keyof BookingPolicy, boolean> = {
+  advanceBookingDays: false,
+  minLeadTimeMinutes: true,
+  cancellationHours: true,
+  bufferBefore: true,
+  bufferAfter: true,
+  slotInterval: true
+};
+
+export interface PolicyLevels {
+  org?: OrgDoc | null;
+  store?: StoreDoc | null;
+  professional?: ProfessionalDoc | null;
+  services?: ServiceDoc[];
+}
+
+/**
+ * Get the policies a level sets, leaving out the ones it doesn't
+ */
+export function toPolicyOverrides(settings: BookingPolicySettings | undefined): Partial<BookingPolicy> {
+  if (!settings) {
+    return {};
+  }
+
+  const values: Record<string, unknown> = {
+    ...settings,
+    bufferAfter: settings.bufferAfter ?? settings.bufferTime
+  };
+  return Object.fromEntries(
+    POLICY_KEYS.filter(key => typeof values[key] === 'number').map(key => [key, values[key]])
+  ) as Partial<BookingPolicy>;
+}
+
+/**
+ * Combine the policies of services booked back to back into one, taking the
+ * strictest value each sets
+ */
+export function combineServicePolicies(services: ServiceDoc[]): Partial<BookingPolicy> {
+  const combined: Partial<BookingPolicy> = {};
+
+  for (const service of services) {
+    const overrides = toPolicyOverrides(service.bookingSettings);
+    for (const key of POLICY_KEYS) {
+      const value = overrides[key];
+      const current = combined[key];
+      if (value === undefined) {
+        continue;
+      }
+      if (current === undefined || (STRICTER_WHEN_HIGHER[key] ? value > current : value < current)) {
+        Object.assign(combined, { [key]: value });
+      }
+    }
+  }
+
+  return combined;
+}
+
+/**
+ * Resolve the booking policy that applies to a booking
+ */
+export function resolveBookingPolicy(levels: PolicyLevels): BookingPolicy {
+  return {
+    ...DEFAULT_BOOKING_POLICY,
+    ...toPolicyOverrides(levels.org?.settings?.bookingSettings),
+    ...toPolicyOverrides(levels.store?.settings?.bookingSettings),
+    ...toPolicyOverrides(levels.professional?.settings?.bookingSettings),
+    ...combineServicePolicies(levels.services || [])
+  };
+}
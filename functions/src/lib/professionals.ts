@@ -0,0 +1,31 @@
+/**
+ * Professional profiles
+ *
+ * Professionals edit their public profile from the dashboard: the name,
+ * title and bio shown on their booking page and the specialties listed
+ * under it.
+ */
+
+// Specialties listed on a profile
+export const MAX_SPECIALTIES = 20;
+
+/**
+ * Trim specialties and drop empty ones and repeats, keeping the first
+ * spelling of each
+ */
+export function normalizeSpecialties(specialties: string[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+
+  for (const specialty of specialties) {
+    const trimmed = specialty.trim().replace(/\s+/g, ' ');
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    normalized.push(trimmed);
+  }
+
+  return normalized;
+}
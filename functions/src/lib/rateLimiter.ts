@@ -1,4 +1,5 @@
 // import { Request, Response } from 'firebase-functions/v1/https';
+import { HttpsError } from 'firebase-functions/v2/https';
 import { getClientIP } from './security';
 import { getFirestore, FieldValue } from 'firebase-admin/firestore';
 
@@ -156,6 +157,26 @@ export function rateLimit(config: RateLimitConfig) {
   };
 }
 
+/**
+ * Rate limit a callable, counting its requests under a key the same way the
+ * rateLimit middleware does
+ *
+ * Throws resource-exhausted once the key is over the limit.
+ */
+export async function enforceRateLimit(
+  key: string,
+  config: Omit<RateLimitConfig, 'keyGenerator'>
+): Promise<void> {
+  const clientData = await getRateLimitData(key, config.windowMs);
+
+  if (clientData.count > config.maxRequests) {
+    throw new HttpsError(
+      'resource-exhausted',
+      'Too many requests, please try again later'
+    );
+  }
+}
+
 // Predefined rate limiters
 export const waitlistRateLimit = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
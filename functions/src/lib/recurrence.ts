@@ -0,0 +1,83 @@
+/**
+ * Recurring appointments
+ *
+ * A series repeats the same slot every N weeks, ending after a number of
+ * occurrences or on a date. Each occurrence is stored as its own booking;
+ * the series keeps the pattern and the dates left out of it, which become
+ * the RRULE and EXDATEs of its calendar file.
+ */
+
+import type { RecurrenceRule } from '../types/models';
+import { addDays, isSlotAvailable, type AvailabilityInput } from './availability';
+
+export const MAX_OCCURRENCES = 52;
+export const MAX_RECURRENCE_INTERVAL = 4; // weeks
+
+export interface OccurrenceAvailability {
+  date: string; // YYYY-MM-DD
+  available: boolean;
+}
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+/**
+ * List the dates of a weekly series starting on the given date, capped at
+ * MAX_OCCURRENCES
+ */
+export function expandRecurrence(startDate: string, rule: RecurrenceRule): string[] {
+  const dates: string[] = [];
+  const step = 7 * rule.interval;
+
+  for (let date = startDate; dates.length < MAX_OCCURRENCES; date = addDays(date, step)) {
+    if (rule.until && date > rule.until) break;
+    if (rule.count && dates.length >= rule.count) break;
+    dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * Format the RRULE of a series. The count is always spelled out, even for
+ * series configured with an end date, so calendars show exactly the
+ * occurrences that were booked.
+ */
+export function toRRule(rule: RecurrenceRule, occurrences: string[]): string {
+  return `FREQ=WEEKLY;INTERVAL=${rule.interval};COUNT=${occurrences.length}`;
+}
+
+/**
+ * Check every occurrence of a series against a schedule
+ *
+ * Only the first occurrence has to fall within the advance booking window;
+ * the rest of the series may run past it. `input.busy` should cover every
+ * occurrence date.
+ */
+export function checkOccurrences(
+  input: Omit<AvailabilityInput, 'startDate' | 'endDate'>,
+  dates: string[],
+  time: string
+): OccurrenceAvailability[] {
+  if (dates.length === 0) {
+    return [];
+  }
+
+  const seriesInput = {
+    ...input,
+    advanceBookingDays: input.advanceBookingDays + daysBetween(dates[0], dates[dates.length - 1])
+  };
+
+  return dates.map((date, index) => ({
+    date,
+    available: isSlotAvailable(index === 0 ? input : seriesInput, date, time)
+  }));
+}
+
+/**
+ * Whether every occurrence of a series has been left out, i.e. nothing of
+ * it remains on the calendar
+ */
+export function isSeriesEmpty(series: { occurrences: string[]; exdates: string[] }): boolean {
+  return series.occurrences.every(date => series.exdates.includes(date));
+}
@@ -0,0 +1,86 @@
+/**
+ * Appointment reminder scheduling
+ *
+ * Works out which reminders are due for a booking. Offsets are whole hours
+ * before the appointment, configured per store in `bookingSettings`.
+ */
+
+import type { BookingDoc, ReminderComms, StoreDoc } from '../types/models';
+import { getAppointmentStart } from './bookings';
+
+export const DEFAULT_REMINDER_OFFSETS = [24, 2]; // hours
+export const MAX_REMINDER_OFFSET = 72; // hours, bounds the scheduler's scan window
+export const REMINDER_CLAIM_MINUTES = 10; // a send claimed longer ago than this never finished
+
+/**
+ * Get a store's reminder offsets, largest first, falling back to the defaults
+ *
+ * Invalid entries are dropped; an explicitly empty list turns reminders off.
+ */
+export function getReminderOffsets(store: StoreDoc | null): number[] {
+  const configured = store?.settings?.bookingSettings?.reminderOffsets;
+  if (!Array.isArray(configured)) {
+    return DEFAULT_REMINDER_OFFSETS;
+  }
+
+  const offsets = configured.filter(
+    offset => Number.isInteger(offset) && offset > 0 && offset <= MAX_REMINDER_OFFSET
+  );
+  return [...new Set(offsets)].sort((a, b) => b - a);
+}
+
+/**
+ * Key a reminder is recorded under in `comms.reminders`, e.g. "24h"
+ */
+export function getReminderKey(offset: number): string {
+  return `${offset}h`;
+}
+
+/**
+ * Whether a reminder was sent, handed to the DLQ, or is being sent right
+ * now. Claims older than `REMINDER_CLAIM_MINUTES` belong to sends that never
+ * finished, so the reminder can be sent again.
+ */
+export function isReminderHandled(record: ReminderComms | undefined, now: Date): boolean {
+  if (!record) {
+    return false;
+  }
+  if (record.claimedAt) {
+    return record.claimedAt.toMillis() + REMINDER_CLAIM_MINUTES * 60000 > now.getTime();
+  }
+  return true;
+}
+
+/**
+ * Get the reminders due for a booking, closest to the appointment first
+ *
+ * A reminder is due once its send time has passed and the appointment hasn't
+ * started. Reminders that were already handled (sent, or handed to the DLQ)
+ * are skipped, and so are those whose send time came before the booking was
+ * confirmed or last rescheduled: a customer booking 3 hours ahead doesn't
+ * need a "24 hours to go" email.
+ */
+export function getDueReminders(booking: BookingDoc, offsets: number[], now: Date): number[] {
+  if (booking.status !== 'confirmed') {
+    return [];
+  }
+
+  const start = getAppointmentStart(booking).getTime();
+  if (start <= now.getTime()) {
+    return [];
+  }
+
+  const scheduledAt = (booking.rescheduledAt ?? booking.confirmedAt)?.toMillis() ?? 0;
+  const records = booking.comms?.reminders || {};
+
+  return offsets
+    .filter(offset => {
+      const sendAt = start - offset * 3600000;
+      return (
+        sendAt <= now.getTime() &&
+        sendAt >= scheduledAt &&
+        !isReminderHandled(records[getReminderKey(offset)], now)
+      );
+    })
+    .sort((a, b) => a - b);
+}
@@ -23,7 +23,12 @@ export class ResendClient {
         subject: payload.subject,
         html: payload.html,
         headers: payload.headers,
-        tags: payload.tags
+        tags: payload.tags,
+        attachments: payload.attachments?.map(attachment => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          content_type: attachment.contentType
+        }))
       });
 
       if (result.error) {
@@ -0,0 +1,80 @@
+/**
+ * Store resources
+ *
+ * Stores can have a limited number of rooms, chairs or equipment shared by
+ * everyone working there. A service that requires a resource can only be
+ * booked when both a professional and a unit of the resource are free; the
+ * booking records which unit it took. Slot holds take their units too, so a
+ * customer filling in their details keeps the room they were offered.
+ */
+
+import type { DocumentReference, Firestore, QuerySnapshot } from 'firebase-admin/firestore';
+import type { BookingDoc, ServiceDoc, SlotHoldDoc, StoreDoc, StoreResource } from '../types/models';
+import { parseTime, type ResourceUsage } from './availability';
+import { isDraftExpired } from './bookings';
+import { isHoldActive } from './holds';
+
+/**
+ * Get the store resources a set of services needs, each listed once. A
+ * resource the store doesn't have counts as having none, so the services
+ * can't be booked there. Solo professionals have no shared resources.
+ */
+export function getRequiredResources(store: StoreDoc | null, services: ServiceDoc[]): StoreResource[] {
+  if (!store) {
+    return [];
+  }
+
+  const resourceIds = [...new Set(services.flatMap(service => service.requiredResources || []))];
+  return resourceIds.map(resourceId => {
+    const resource = store.resources?.find(candidate => candidate.id === resourceId);
+    return resource || { id: resourceId, name: resourceId, quantity: 0 };
+  });
+}
+
+/**
+ * Convert a store bookings query snapshot into the resource units they take,
+ * leaving out expired drafts and optionally one booking (the one being
+ * rescheduled)
+ */
+export function toResourceUsage(
+  snapshot: QuerySnapshot,
+  excludeBookingId?: string,
+  now: Date = new Date()
+): ResourceUsage[] {
+  return snapshot.docs
+    .filter(doc => doc.id !== excludeBookingId)
+    .map(doc => doc.data() as BookingDoc)
+    .filter(booking => !isDraftExpired(booking, now))
+    .flatMap(toUnitsTaken);
+}
+
+/**
+ * Convert a store holds query snapshot into the resource units they take,
+ * leaving out expired holds and optionally the caller's own hold
+ */
+export function toHoldResourceUsage(snapshot: QuerySnapshot, now: Date, excludeHoldId?: string): ResourceUsage[] {
+  return snapshot.docs
+    .filter(doc => doc.id !== excludeHoldId)
+    .map(doc => doc.data() as SlotHoldDoc)
+    .filter(hold => isHoldActive(hold, now))
+    .flatMap(toUnitsTaken);
+}
+
+function toUnitsTaken(taker: Pick<BookingDoc, 'date' | 'time' | 'duration' | 'resources'>): ResourceUsage[] {
+  const start = parseTime(taker.time);
+  return (taker.resources || []).map(resource => ({
+    date: taker.date,
+    start,
+    end: start + taker.duration,
+    resourceId: resource.resourceId,
+    unit: resource.unit
+  }));
+}
+
+/**
+ * The per-store, per-day document every transaction taking a resource reads
+ * and writes, so two professionals can't take the last room at once
+ */
+export function resourceLockRef(db: Firestore, storeId: string, date: string): DocumentReference {
+  return db.collection('resourceLocks').doc(`${storeId}_${date}`);
+}
@@ -0,0 +1,560 @@
+/**
+ * Schedule data access for booking functions
+ *
+ * Loads the professional, store and service documents that drive the
+ * availability engine, and the existing bookings that occupy a schedule.
+ */
+
+import { HttpsError } from 'firebase-functions/v2/https';
+import type {
+  Firestore,
+  CollectionReference,
+  DocumentReference,
+  Query,
+  QuerySnapshot,
+  Transaction
+} from 'firebase-admin/firestore';
+import type {
+  OrgDoc,
+  ProfessionalDoc,
+  StoreDoc,
+  StoreResource,
+  ServiceDoc,
+  BookingDoc,
+  BookingResource,
+  BookingServiceLine,
+  BookingStatus,
+  BookingPolicy
+} from '../types/models';
+import {
+  toBusyInterval,
+  isSlotAvailable,
+  findSlotConflict,
+  assignResources,
+  parseTime,
+  type AvailabilityInput,
+  type BusyInterval,
+  type ResourceUsage
+} from './availability';
+import { slotHoldsQuery, storeHoldsQuery, toHoldBusyIntervals } from './holds';
+import { professionalSessionsQuery, toSessionBusyIntervals } from './sessions';
+import { getRequiredResources, resourceLockRef, toHoldResourceUsage, toResourceUsage } from './resources';
+import { isDraftExpired } from './bookings';
+import { checkOccurrences } from './recurrence';
+import { resolveBookingPolicy } from './policies';
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export const MAX_SERVICES_PER_BOOKING = 5;
+
+// Professional ID sent by the booking wizard when the customer lets the store
+// pick who serves them
+export const ANY_PROFESSIONAL = 'any';
+
+// Bookings in these statuses hold their slot; a no-show frees what's left of it
+export const BLOCKING_STATUSES: BookingStatus[] = ['draft', 'confirmed', 'checked_in', 'completed'];
+
+export interface ScheduleRef {
+  orgId?: string; // document ID or slug of the brand booked with; required for any professional
+  professionalId: string; // document ID or slug, or ANY_PROFESSIONAL
+  serviceIds: string[]; // document IDs or slugs, in the order they're performed
+  storeId?: string; // document ID or slug; must be the professional's store when given
+}
+
+export interface ScheduleContext {
+  orgId: string;
+  professional: ProfessionalDoc;
+  store: StoreDoc | null;
+  services: ServiceDoc[];
+  resources: StoreResource[]; // store resources the services need, held for the whole block
+  durationMin: number; // all services back to back, booked as one block
+  timezone: string;
+  policy: BookingPolicy; // resolved for these services, this professional, store and org
+}
+
+/**
+ * Find the first document whose `id` or `slug` field matches the given value
+ */
+async function findByIdOrSlug<T>(source: CollectionReference | Query, idOrSlug: string): Promise<T | null> {
+  for (const field of ['id', 'slug']) {
+    const snapshot = await source.where(field, '==', idOrSlug).limit(1).get();
+    if (!snapshot.empty) {
+      const doc = snapshot.docs[0];
+      return { ...doc.data(), id: doc.id } as T;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load the services of a booking in order, checking each can be booked
+ */
+async function loadServices(orgRef: DocumentReference, serviceIds: string[]): Promise<ServiceDoc[]> {
+  if (serviceIds.length === 0 || serviceIds.length > MAX_SERVICES_PER_BOOKING) {
+    throw new HttpsError('invalid-argument', `Between 1 and ${MAX_SERVICES_PER_BOOKING} services can be booked at once`);
+  }
+
+  const services: ServiceDoc[] = [];
+  for (const serviceId of serviceIds) {
+    const service = await findByIdOrSlug<ServiceDoc>(orgRef.collection('services'), serviceId);
+    if (!service || service.active === false) {
+      throw new HttpsError('not-found', 'Service not found');
+    }
+    services.push(service);
+  }
+  return services;
+}
+
+function offersServices(professional: ProfessionalDoc, services: ServiceDoc[]): boolean {
+  return services.every(service => professional.services?.includes(service.id));
+}
+
+async function loadOrg(orgRef: DocumentReference): Promise<OrgDoc | null> {
+  const snapshot = await orgRef.get();
+  return snapshot.exists ? ({ ...snapshot.data(), id: snapshot.id } as OrgDoc) : null;
+}
+
+/**
+ * Find the org a booking request is made with, by document ID or slug
+ */
+async function findOrg(db: Firestore, orgId: string): Promise<OrgDoc> {
+  const org = await findByIdOrSlug<OrgDoc>(db.collection('orgs'), orgId);
+  if (!org) {
+    throw new HttpsError('not-found', 'Brand not found');
+  }
+  return org;
+}
+
+function toScheduleContext(
+  org: OrgDoc | null,
+  professional: ProfessionalDoc,
+  store: StoreDoc | null,
+  services: ServiceDoc[]
+): ScheduleContext {
+  return {
+    orgId: professional.orgId,
+    professional,
+    store,
+    services,
+    resources: getRequiredResources(store, services),
+    durationMin: services.reduce((total, service) => total + service.durationMin, 0),
+    timezone: store?.settings?.timezone || professional.settings?.timezone || DEFAULT_TIMEZONE,
+    policy: resolveBookingPolicy({ org, store, professional, services })
+  };
+}
+
+/**
+ * Load everything needed to compute availability for a professional and an
+ * ordered list of services
+ */
+export async function loadScheduleContext(db: Firestore, ref: ScheduleRef): Promise<ScheduleContext> {
+  // Slugs are only unique within an org, so look in the brand's when it's known
+  const requestedOrg = ref.orgId ? await findOrg(db, ref.orgId) : null;
+  const professionals = requestedOrg
+    ? db.collection('orgs').doc(requestedOrg.id).collection('professionals')
+    : db.collectionGroup('professionals');
+  const professional = await findByIdOrSlug<ProfessionalDoc>(professionals, ref.professionalId);
+  if (!professional) {
+    throw new HttpsError('not-found', 'Professional not found');
+  }
+
+  const orgRef = db.collection('orgs').doc(professional.orgId);
+
+  const services = await loadServices(orgRef, ref.serviceIds);
+  if (!offersServices(professional, services)) {
+    throw new HttpsError('failed-precondition', 'Professional does not offer this service');
+  }
+
+  // The store comes from the professional, so leaving it out of the request
+  // doesn't skip its hours, resources or booking policy
+  let store: StoreDoc | null = null;
+  if (professional.storeId) {
+    const storeSnapshot = await orgRef.collection('stores').doc(professional.storeId).get();
+    if (!storeSnapshot.exists) {
+      throw new HttpsError('not-found', 'Store not found');
+    }
+    store = { ...storeSnapshot.data(), id: storeSnapshot.id } as StoreDoc;
+  }
+
+  if (ref.storeId && ref.storeId !== store?.id && ref.storeId !== store?.slug) {
+    throw new HttpsError('invalid-argument', 'The professional does not work at this store');
+  }
+
+  const org = requestedOrg || (await loadOrg(orgRef));
+  return toScheduleContext(org, professional, store, services);
+}
+
+/**
+ * Load a schedule context for every professional at one of an org's stores
+ * who offers all the requested services
+ */
+export async function loadStoreScheduleContexts(
+  db: Firestore,
+  orgId: string,
+  storeId: string,
+  serviceIds: string[]
+): Promise<ScheduleContext[]> {
+  const org = await findOrg(db, orgId);
+  const orgRef = db.collection('orgs').doc(org.id);
+
+  // Store slugs are only unique within an org
+  const store = await findByIdOrSlug<StoreDoc>(orgRef.collection('stores'), storeId);
+  if (!store) {
+    throw new HttpsError('not-found', 'Store not found');
+  }
+
+  const services = await loadServices(orgRef, serviceIds);
+
+  const snapshot = await orgRef.collection('professionals').where('storeId', '==', store.id).get();
+  const contexts = snapshot.docs
+    .map(doc => ({ ...doc.data(), id: doc.id }) as ProfessionalDoc)
+    .filter(professional => offersServices(professional, services))
+    .map(professional => toScheduleContext(org, professional, store, services));
+
+  if (contexts.length === 0) {
+    throw new HttpsError('failed-precondition', 'No professional at this store offers this service');
+  }
+  return contexts;
+}
+
+/**
+ * Load the schedule contexts a booking request can be served by: the one
+ * professional asked for, or everyone eligible at the store when the
+ * customer picked "any professional"
+ */
+export async function loadScheduleContexts(db: Firestore, ref: ScheduleRef): Promise<ScheduleContext[]> {
+  if (ref.professionalId !== ANY_PROFESSIONAL) {
+    return [await loadScheduleContext(db, ref)];
+  }
+
+  if (!ref.orgId || !ref.storeId) {
+    throw new HttpsError('invalid-argument', 'A brand and store are required to book any professional');
+  }
+  return loadStoreScheduleContexts(db, ref.orgId, ref.storeId, ref.serviceIds);
+}
+
+/**
+ * Pick who serves an "any professional" booking among those free at the
+ * requested time
+ *
+ * Whoever has the fewest minutes booked that day gets it, which spreads the
+ * work evenly. Ties are broken at random so the same person isn't always
+ * first in line on quiet days.
+ */
+export function pickLeastBooked<T extends { busy: BusyInterval[] }>(
+  candidates: T[],
+  random: () => number = Math.random
+): T {
+  const bookedMinutes = (candidate: T) =>
+    candidate.busy.reduce((total, interval) => total + interval.end - interval.start, 0);
+
+  const fewest = Math.min(...candidates.map(bookedMinutes));
+  const leastBooked = candidates.filter(candidate => bookedMinutes(candidate) === fewest);
+  return leastBooked[Math.floor(random() * leastBooked.length)];
+}
+
+/**
+ * Describe the services of a schedule context as booking lines
+ */
+export function toServiceLines(context: ScheduleContext): BookingServiceLine[] {
+  return context.services.map(service => ({
+    serviceId: service.id,
+    serviceName: service.name,
+    duration: service.durationMin,
+    price: service.price
+  }));
+}
+
+/**
+ * Query for the bookings that occupy a professional's schedule in a date range
+ */
+export function busyBookingsQuery(
+  db: Firestore,
+  professionalId: string,
+  startDate: string,
+  endDate: string
+): Query {
+  return db
+    .collection('bookings')
+    .where('professionalId', '==', professionalId)
+    .where('status', 'in', BLOCKING_STATUSES)
+    .where('date', '>=', startDate)
+    .where('date', '<=', endDate);
+}
+
+/**
+ * Query for the bookings at a store in a date range, which may hold its
+ * resources
+ */
+export function storeBookingsQuery(db: Firestore, storeId: string, startDate: string, endDate: string): Query {
+  return db
+    .collection('bookings')
+    .where('storeId', '==', storeId)
+    .where('status', 'in', BLOCKING_STATUSES)
+    .where('date', '>=', startDate)
+    .where('date', '<=', endDate);
+}
+
+/**
+ * Convert a bookings query snapshot into busy intervals, leaving out expired
+ * drafts and optionally one booking (the one being rescheduled)
+ */
+export function toBusyIntervals(
+  snapshot: QuerySnapshot,
+  excludeBookingId?: string,
+  now: Date = new Date()
+): BusyInterval[] {
+  return snapshot.docs
+    .filter(doc => doc.id !== excludeBookingId)
+    .map(doc => doc.data() as BookingDoc)
+    .filter(booking => !isDraftExpired(booking, now))
+    .map(toBusyInterval);
+}
+
+export interface BusyExclusions {
+  bookingId?: string; // the booking being rescheduled
+  holdId?: string; // the caller's own hold
+}
+
+/**
+ * Load the bookings, active holds and class sessions of a professional in a
+ * date range as busy intervals
+ */
+export async function loadBusyIntervals(
+  db: Firestore,
+  professionalId: string,
+  startDate: string,
+  endDate: string,
+  exclude: BusyExclusions = {},
+  now: Date = new Date()
+): Promise<BusyInterval[]> {
+  const [bookings, holds, sessions] = await Promise.all([
+    busyBookingsQuery(db, professionalId, startDate, endDate).get(),
+    slotHoldsQuery(db, professionalId, startDate, endDate).get(),
+    professionalSessionsQuery(db, professionalId, startDate, endDate).get()
+  ]);
+  return [
+    ...toBusyIntervals(bookings, exclude.bookingId, now),
+    ...toHoldBusyIntervals(holds, now, exclude.holdId),
+    ...toSessionBusyIntervals(sessions)
+  ];
+}
+
+/**
+ * Read the bookings, active holds and class sessions of a professional on
+ * one day as busy intervals, inside a transaction
+ */
+export async function readBusyIntervals(
+  transaction: Transaction,
+  db: Firestore,
+  professionalId: string,
+  date: string,
+  now: Date,
+  exclude: BusyExclusions = {}
+): Promise<BusyInterval[]> {
+  const bookings = await transaction.get(busyBookingsQuery(db, professionalId, date, date));
+  const holds = await transaction.get(slotHoldsQuery(db, professionalId, date, date));
+  const sessions = await transaction.get(professionalSessionsQuery(db, professionalId, date, date));
+  return [
+    ...toBusyIntervals(bookings, exclude.bookingId, now),
+    ...toHoldBusyIntervals(holds, now, exclude.holdId),
+    ...toSessionBusyIntervals(sessions)
+  ];
+}
+
+/**
+ * Load the store resource units taken by bookings and active holds in a date
+ * range, when the context's services need any
+ */
+export async function loadResourceUsage(
+  db: Firestore,
+  context: ScheduleContext,
+  startDate: string,
+  endDate: string,
+  exclude: BusyExclusions = {},
+  now: Date = new Date()
+): Promise<ResourceUsage[]> {
+  if (!context.store || context.resources.length === 0) {
+    return [];
+  }
+
+  const [bookings, holds] = await Promise.all([
+    storeBookingsQuery(db, context.store.id, startDate, endDate).get(),
+    storeHoldsQuery(db, context.store.id, startDate, endDate).get()
+  ]);
+  return [...toResourceUsage(bookings, exclude.bookingId, now), ...toHoldResourceUsage(holds, now, exclude.holdId)];
+}
+
+/**
+ * Read the store resource units taken by bookings and active holds on one day
+ * inside a transaction, after the store's resource lock, when the context's
+ * services need any
+ */
+export async function readResourceUsage(
+  transaction: Transaction,
+  db: Firestore,
+  context: ScheduleContext,
+  date: string,
+  exclude: BusyExclusions = {},
+  now: Date = new Date()
+): Promise<ResourceUsage[]> {
+  if (!context.store || context.resources.length === 0) {
+    return [];
+  }
+
+  await transaction.get(resourceLockRef(db, context.store.id, date));
+  const bookings = await transaction.get(storeBookingsQuery(db, context.store.id, date, date));
+  const holds = await transaction.get(storeHoldsQuery(db, context.store.id, date, date));
+  return [...toResourceUsage(bookings, exclude.bookingId, now), ...toHoldResourceUsage(holds, now, exclude.holdId)];
+}
+
+/**
+ * Pick the resource units a booking takes, failing when one has been taken
+ * in the meantime
+ */
+export function pickResources(
+  context: ScheduleContext,
+  usage: ResourceUsage[],
+  date: string,
+  time: string
+): BookingResource[] {
+  const start = parseTime(time);
+  const resources = assignResources(
+    context.resources,
+    usage,
+    date,
+    start,
+    start + context.durationMin,
+    { before: context.policy.bufferBefore, after: context.policy.bufferAfter }
+  );
+  if (!resources) {
+    throw new HttpsError('failed-precondition', 'The selected time slot is no longer available');
+  }
+  return resources;
+}
+
+/**
+ * The per-professional, per-day document every transaction taking a slot
+ * reads and writes
+ */
+export function bookingLockRef(db: Firestore, professionalId: string, date: string): DocumentReference {
+  return db.collection('bookingLocks').doc(`${professionalId}_${date}`);
+}
+
+export interface ScheduleCandidate {
+  context: ScheduleContext;
+  busy: BusyInterval[];
+  resources: BookingResource[]; // the units the booking takes, if its services need any
+}
+
+/**
+ * Inside a transaction, find which of the given schedules are free at the
+ * requested time
+ *
+ * Reading the locks first makes concurrent transactions for the same
+ * professional and day conflict, so Firestore retries one of them. Staff
+ * booking by hand aren't held to the slots offered to customers.
+ */
+export async function findFreeCandidates(
+  transaction: Transaction,
+  db: Firestore,
+  contexts: ScheduleContext[],
+  date: string,
+  time: string,
+  now: Date,
+  exclude: BusyExclusions = {},
+  byHand = false
+): Promise<ScheduleCandidate[]> {
+  // Every context shares the same store and services, so the same resources
+  const usage = await readResourceUsage(transaction, db, contexts[0], date, exclude, now);
+
+  const candidates: ScheduleCandidate[] = [];
+  for (const context of contexts) {
+    await transaction.get(bookingLockRef(db, context.professional.id, date));
+    const busy = await readBusyIntervals(transaction, db, context.professional.id, date, now, exclude);
+
+    const input = buildAvailabilityInput(context, busy, date, date, now, usage);
+    if (byHand ? findSlotConflict(input, date, time) === null : isSlotAvailable(input, date, time)) {
+      candidates.push({ context, busy, resources: pickResources(context, usage, date, time) });
+    }
+  }
+  return candidates;
+}
+
+export interface SeriesCheck {
+  conflicts: string[]; // dates that aren't free
+  resources: Record<string, BookingResource[]>; // units each free date takes, by date
+}
+
+/**
+ * Inside a transaction, check every occurrence of a recurring series against
+ * a professional's schedule and the store's resources
+ *
+ * Takes the lock of every occurrence day, like findFreeCandidates does for a
+ * single booking, and checks staff booking by hand the same way.
+ */
+export async function findSeriesConflicts(
+  transaction: Transaction,
+  db: Firestore,
+  context: ScheduleContext,
+  dates: string[],
+  time: string,
+  now: Date,
+  exclude: BusyExclusions = {},
+  byHand = false
+): Promise<SeriesCheck> {
+  const busy: BusyInterval[] = [];
+  const usage: ResourceUsage[] = [];
+  for (const date of dates) {
+    await transaction.get(bookingLockRef(db, context.professional.id, date));
+    busy.push(...(await readBusyIntervals(transaction, db, context.professional.id, date, now, exclude)));
+    usage.push(...(await readResourceUsage(transaction, db, context, date, exclude, now)));
+  }
+
+  const input = buildAvailabilityInput(context, busy, dates[0], dates[dates.length - 1], now, usage);
+  const occurrences = byHand
+    ? dates.map(date => ({ date, available: findSlotConflict(input, date, time) === null }))
+    : checkOccurrences(input, dates, time);
+
+  return {
+    conflicts: occurrences.filter(occurrence => !occurrence.available).map(occurrence => occurrence.date),
+    resources: Object.fromEntries(
+      occurrences
+        .filter(occurrence => occurrence.available)
+        .map(occurrence => [occurrence.date, pickResources(context, usage, occurrence.date, time)])
+    )
+  };
+}
+
+/**
+ * Build the availability engine input from a loaded schedule context
+ */
+export function buildAvailabilityInput(
+  context: ScheduleContext,
+  busy: BusyInterval[],
+  startDate: string,
+  endDate: string,
+  now: Date = new Date(),
+  resourceUsage: ResourceUsage[] = []
+): AvailabilityInput {
+  return {
+    professionalId: context.professional.id,
+    availability: context.professional.availability,
+    operatingHours: context.store?.operatingHours || null,
+    exceptions: context.professional.scheduleExceptions || [],
+    storeExceptions: context.store?.scheduleExceptions || [],
+    durationMin: context.durationMin,
+    bufferBefore: context.policy.bufferBefore,
+    bufferAfter: context.policy.bufferAfter,
+    advanceBookingDays: context.policy.advanceBookingDays,
+    minLeadTimeMinutes: context.policy.minLeadTimeMinutes,
+    slotInterval: context.policy.slotInterval,
+    timezone: context.timezone,
+    startDate,
+    endDate,
+    now,
+    busy,
+    resources: context.resources,
+    resourceUsage
+  };
+}
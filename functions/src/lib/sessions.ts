@@ -0,0 +1,121 @@
+/**
+ * Class sessions
+ *
+ * Services with a capacity are group classes: the org schedules sessions of
+ * them ahead of time and customers book a seat in a session instead of a
+ * slot in someone's open availability. A session counts its booked seats,
+ * updated in the same transaction as the bookings taking or freeing them.
+ */
+
+import { HttpsError } from 'firebase-functions/v2/https';
+import type { DocumentReference, Firestore, Query, QuerySnapshot } from 'firebase-admin/firestore';
+import type { ClassSessionDoc, ServiceDoc } from '../types/models';
+import {
+  getZonedDateTime,
+  parseTime,
+  toBusyInterval,
+  type AvailabilitySlot,
+  type BusyInterval
+} from './availability';
+
+export function isClassService(service: Pick<ServiceDoc, 'capacity'>): boolean {
+  return typeof service.capacity === 'number' && service.capacity > 0;
+}
+
+/**
+ * Get the class service of a booking, if it is one. Classes are booked on
+ * their own, never back to back with other services.
+ */
+export function getClassService(services: ServiceDoc[]): ServiceDoc | null {
+  const classService = services.find(isClassService) || null;
+  if (classService && services.length > 1) {
+    throw new HttpsError('invalid-argument', 'Classes must be booked on their own');
+  }
+  return classService;
+}
+
+export function classSessionRef(db: Firestore, orgId: string, sessionId: string): DocumentReference {
+  return db.collection('orgs').doc(orgId).collection('classSessions').doc(sessionId);
+}
+
+/**
+ * Query for the scheduled sessions of a class service in a date range
+ */
+export function classSessionsQuery(
+  db: Firestore,
+  orgId: string,
+  serviceId: string,
+  startDate: string,
+  endDate: string
+): Query {
+  return db
+    .collection('orgs')
+    .doc(orgId)
+    .collection('classSessions')
+    .where('serviceId', '==', serviceId)
+    .where('status', '==', 'scheduled')
+    .where('date', '>=', startDate)
+    .where('date', '<=', endDate);
+}
+
+/**
+ * Query for the scheduled sessions a professional teaches in a date range,
+ * across every class they teach
+ */
+export function professionalSessionsQuery(
+  db: Firestore,
+  professionalId: string,
+  startDate: string,
+  endDate: string
+): Query {
+  return db
+    .collectionGroup('classSessions')
+    .where('professionalId', '==', professionalId)
+    .where('status', '==', 'scheduled')
+    .where('date', '>=', startDate)
+    .where('date', '<=', endDate);
+}
+
+/**
+ * Convert a sessions query snapshot into busy intervals: teaching a class
+ * keeps the professional busy whether or not anyone has booked it yet
+ */
+export function toSessionBusyIntervals(snapshot: QuerySnapshot): BusyInterval[] {
+  return snapshot.docs.map(doc => toBusyInterval(doc.data() as ClassSessionDoc));
+}
+
+export function getSeatsLeft(session: Pick<ClassSessionDoc, 'capacity' | 'seatsBooked'>): number {
+  return Math.max(session.capacity - (session.seatsBooked || 0), 0);
+}
+
+/**
+ * Whether a session is scheduled and hasn't started yet
+ */
+export function isSessionUpcoming(session: ClassSessionDoc, now: Date): boolean {
+  if (session.status !== 'scheduled') {
+    return false;
+  }
+
+  const today = getZonedDateTime(now, session.timezone);
+  return session.date > today.date || (session.date === today.date && parseTime(session.time) > today.minutes);
+}
+
+/**
+ * Present the upcoming sessions of a class as availability slots, full ones
+ * included so customers can join their waitlist
+ */
+export function toSessionSlots(sessions: ClassSessionDoc[], now: Date): AvailabilitySlot[] {
+  return sessions
+    .filter(session => isSessionUpcoming(session, now))
+    .map(session => ({
+      id: session.id,
+      date: session.date,
+      time: session.time,
+      duration: session.duration,
+      available: getSeatsLeft(session) > 0,
+      professionalId: session.professionalId,
+      sessionId: session.id,
+      seatsLeft: getSeatsLeft(session)
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+}
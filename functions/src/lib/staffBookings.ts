@@ -0,0 +1,102 @@
+/**
+ * Staff bookings
+ *
+ * Front-desk staff add bookings for phone and walk-in customers from the
+ * dashboard. They go through createBooking like the customer's own, marked
+ * with `source: 'staff'`, and staff can pick a customer who booked with the
+ * org before instead of typing their details again.
+ */
+
+import { HttpsError, type CallableRequest } from 'firebase-functions/v2/https';
+import { validateAuth, validateOrgWriteAccess, type AuthUser } from './authz';
+import type { BookingCustomer, BookingDoc, ProfessionalDoc } from '../types/models';
+
+// Customers returned for a search
+export const MAX_CUSTOMER_MATCHES = 20;
+
+/**
+ * A customer who booked with an org, with the details of their latest booking
+ */
+export type OrgCustomer = Pick<BookingCustomer, 'firstName' | 'lastName' | 'email' | 'phone'>;
+
+/**
+ * Check the caller can book for a professional: the professional themself,
+ * or org staff with write access. `professional` is null for "any
+ * professional" requests, which only staff can make.
+ */
+export async function authorizeStaffBooking(
+  request: CallableRequest,
+  orgId: string,
+  professional: ProfessionalDoc | null
+): Promise<AuthUser> {
+  const authResult = await validateAuth(request);
+  if (!authResult.success || !authResult.user) {
+    throw new HttpsError('unauthenticated', authResult.error || 'Authentication required');
+  }
+
+  if (professional && professional.userId === authResult.user.uid) {
+    return authResult.user;
+  }
+
+  const writeResult = await validateOrgWriteAccess(request, orgId);
+  if (!writeResult.success) {
+    throw new HttpsError('permission-denied', writeResult.error || 'Booking access denied');
+  }
+  return authResult.user;
+}
+
+const toDigits = (value: string) => value.replace(/\D/g, '');
+
+/**
+ * Whether a customer's name, email or phone number matches a search
+ */
+export function matchesCustomer(customer: OrgCustomer, search: string): boolean {
+  const term = search.trim().toLowerCase();
+  if (!term) {
+    return false;
+  }
+
+  const name = `${customer.firstName} ${customer.lastName}`.toLowerCase();
+  const digits = toDigits(term);
+  return (
+    name.includes(term) ||
+    customer.email.toLowerCase().includes(term) ||
+    (digits.length >= 3 && toDigits(customer.phone).includes(digits))
+  );
+}
+
+/**
+ * Find the customers of bookings, most recent first, that match a search,
+ * once per email with the details they last booked with
+ */
+export function findOrgCustomers(
+  bookings: BookingDoc[],
+  search: string,
+  limit: number = MAX_CUSTOMER_MATCHES
+): OrgCustomer[] {
+  const seen = new Set<string>();
+  const customers: OrgCustomer[] = [];
+
+  for (const booking of bookings) {
+    const email = booking.customer.email.toLowerCase();
+    if (seen.has(email)) {
+      continue;
+    }
+    seen.add(email);
+
+    const customer = {
+      firstName: booking.customer.firstName,
+      lastName: booking.customer.lastName,
+      email,
+      phone: booking.customer.phone
+    };
+    if (matchesCustomer(customer, search)) {
+      customers.push(customer);
+    }
+    if (customers.length >= limit) {
+      break;
+    }
+  }
+
+  return customers;
+}
@@ -0,0 +1,133 @@
+/**
+ * Timezone utilities
+ *
+ * Converts between wall-clock times in an IANA timezone and UTC instants,
+ * and finds UTC offset transitions (DST changes), using only the Intl API.
+ */
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is a timezone known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock fields of an instant in a timezone
+ */
+export function getWallClock(instant: Date, timezone: string): WallClock {
+  const parts = getFormatter(timezone).formatToParts(instant);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value || 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+/**
+ * Get the UTC offset of a timezone at an instant, in minutes (e.g. -180 for UTC-3)
+ */
+export function getTimezoneOffset(instant: Date, timezone: string): number {
+  const wall = getWallClock(instant, timezone);
+  const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const truncated = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallAsUtc - truncated) / 60000);
+}
+
+/**
+ * Convert a wall-clock date (YYYY-MM-DD) and time (HH:MM) in a timezone to a UTC instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallAsUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Two passes settle the offset, including around DST transitions
+  let instant = wallAsUtc - getTimezoneOffset(new Date(wallAsUtc), timezone) * 60000;
+  instant = wallAsUtc - getTimezoneOffset(new Date(instant), timezone) * 60000;
+
+  return new Date(instant);
+}
+
+export interface OffsetTransition {
+  instant: Date;
+  offsetFrom: number; // minutes
+  offsetTo: number; // minutes
+}
+
+/**
+ * Find the instants in [from, to) where the timezone's UTC offset changes
+ */
+export function getOffsetTransitions(timezone: string, from: Date, to: Date): OffsetTransition[] {
+  const transitions: OffsetTransition[] = [];
+  const dayMs = 86400000;
+
+  let previous = from.getTime();
+  let previousOffset = getTimezoneOffset(from, timezone);
+
+  for (let next = previous + dayMs; ; next += dayMs) {
+    const probe = Math.min(next, to.getTime());
+    const offset = getTimezoneOffset(new Date(probe), timezone);
+
+    if (offset !== previousOffset) {
+      // Narrow the change down to the minute
+      let low = previous;
+      let high = probe;
+      while (high - low > 60000) {
+        const mid = low + Math.max(1, Math.floor((high - low) / 120000)) * 60000;
+        if (getTimezoneOffset(new Date(mid), timezone) === previousOffset) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+
+      transitions.push({ instant: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+      previousOffset = offset;
+    }
+
+    previous = probe;
+    if (probe >= to.getTime()) break;
+  }
+
+  return transitions;
+}
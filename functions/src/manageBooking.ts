@@ -0,0 +1,492 @@
+/**
+ * Customer booking management Cloud Functions
+ *
+ * Lets customers view, cancel or reschedule a booking from the signed link
+ * in their confirmation. Changes are only allowed until the cancellation
+ * window of the store (or professional) closes.
+ */
+
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { defineSecret } from 'firebase-functions/params';
+import { z } from 'zod';
+import { isSlotAvailable } from './lib/availability';
+import {
+  getBooking,
+  loadBookingDetails,
+  toConfirmationData,
+  getChangeDeadline,
+  getCancellationHours,
+  getManagePath,
+  getBookingServices,
+  type BookingDetails,
+  type BookingConfirmationData
+} from './lib/bookings';
+import {
+  loadScheduleContext,
+  readBusyIntervals,
+  readResourceUsage,
+  pickResources,
+  bookingLockRef,
+  buildAvailabilityInput
+} from './lib/schedule';
+import { classSessionRef } from './lib/sessions';
+import { resourceLockRef } from './lib/resources';
+import { createBookingAuditLog } from './lib/audit';
+import { createBookingLinks } from './bookings';
+import { toICSBookingData, generateICSFile, getICSFileName } from './ics';
+import { sendBookingUpdateEmail } from './email';
+import { validateBookingToken } from './tokens';
+import { refundCancelledBooking } from './payments';
+import { notifySessionWaitlist } from './sessions';
+import { notifyBookingWaitlist } from './bookingWaitlist';
+import { getRefundAmount } from './lib/payments';
+import type { BookingDoc, BookingServiceLine, BookingStatus } from './types/models';
+import type { BookingUpdateKind } from './lib/email';
+
+// Define secrets
+const jwtSecret = defineSecret('JWT_SECRET');
+const publicAppUrl = defineSecret('PUBLIC_APP_URL');
+const resendApiKey = defineSecret('RESEND_API_KEY');
+const fromEmail = defineSecret('FROM_EMAIL');
+const fromName = defineSecret('FROM_NAME');
+const paymentWebhookSecret = defineSecret('PAYMENT_WEBHOOK_SECRET');
+
+const TokenSchema = z.object({
+  token: z.string().min(1)
+});
+
+const CancelBookingSchema = TokenSchema.extend({
+  reason: z.string().trim().max(500).optional(),
+  scope: z.enum(['occurrence', 'series']).optional() // for recurring bookings, defaults to this occurrence
+});
+
+const RescheduleBookingSchema = TokenSchema.extend({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must use the YYYY-MM-DD format'),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must use the HH:MM format')
+});
+
+export type GetManagedBookingRequest = z.infer<typeof TokenSchema>;
+export type CancelBookingRequest = z.infer<typeof CancelBookingSchema>;
+export type RescheduleBookingRequest = z.infer<typeof RescheduleBookingSchema>;
+
+export interface ManagedBookingData extends BookingConfirmationData {
+  status: BookingStatus;
+  professionalId: string;
+  storeId: string | null;
+  serviceId: string;
+  services: BookingServiceLine[];
+  price: number;
+  cancellationHours: number;
+  changeDeadline: string; // ISO 8601
+  canChange: boolean;
+  payment: {
+    amountPaid: number;
+    refundedAmount: number;
+    refundAmount: number; // what cancelling now would refund
+    currency: string;
+  } | null;
+  series: {
+    interval: number; // weeks
+    upcoming: string[]; // dates still booked from this occurrence on, including it
+  } | null;
+  sessionId: string | null; // seat in a class session, which can't be rescheduled
+  resources: string[]; // store resource units taken, e.g. "Massage room 2"
+}
+
+export interface ManagedBookingResponse {
+  success: boolean;
+  booking: ManagedBookingData;
+}
+
+/**
+ * Parse a request with a zod schema, mapping failures to invalid-argument
+ */
+function parseRequest<T>(schema: z.ZodType<T>, data: unknown): T {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new HttpsError('invalid-argument', `Invalid request: ${issue.path.join('.')} ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Resolve the booking ID a manage token grants access to
+ */
+function getBookingIdFromToken(token: string): string {
+  const result = validateBookingToken(token, 'manage');
+  if (!result.valid || !result.payload) {
+    throw new HttpsError('permission-denied', 'This link is invalid or has expired');
+  }
+  return result.payload.bookingId;
+}
+
+function canChangeBooking(details: BookingDetails, now: Date): boolean {
+  return details.booking.status === 'confirmed' && now < getChangeDeadline(details);
+}
+
+/**
+ * Throw unless the booking can still be cancelled or rescheduled
+ */
+function assertCanChange(details: BookingDetails, now: Date): void {
+  if (details.booking.status !== 'confirmed') {
+    throw new HttpsError('failed-precondition', `Booking is ${details.booking.status}`);
+  }
+  if (!canChangeBooking(details, now)) {
+    throw new HttpsError(
+      'failed-precondition',
+      `Bookings can only be changed up to ${getCancellationHours(details)} hours before the appointment`
+    );
+  }
+}
+
+function toManagedBookingData(details: BookingDetails, now: Date = new Date()): ManagedBookingData {
+  const { booking } = details;
+
+  return {
+    ...toConfirmationData(details, createBookingLinks(booking.id)),
+    status: booking.status,
+    professionalId: booking.professionalId,
+    storeId: booking.storeId,
+    serviceId: booking.serviceId,
+    services: getBookingServices(booking),
+    price: booking.price,
+    cancellationHours: getCancellationHours(details),
+    changeDeadline: getChangeDeadline(details).toISOString(),
+    canChange: canChangeBooking(details, now),
+    payment: booking.payment?.status === 'paid'
+      ? {
+          amountPaid: booking.payment.amountPaid,
+          refundedAmount: booking.payment.refundedAmount || 0,
+          refundAmount: getRefundAmount(booking.payment, now, getChangeDeadline(details)),
+          currency: booking.payment.currency
+        }
+      : null,
+    series: details.series
+      ? {
+          interval: details.series.rule.interval,
+          upcoming: details.series.occurrences.filter(
+            date => date >= booking.date && !details.series?.exdates.includes(date)
+          )
+        }
+      : null,
+    sessionId: booking.sessionId || null,
+    resources: (booking.resources || []).map(resource => `${resource.name} ${resource.unit}`)
+  };
+}
+
+/**
+ * Email the customer the updated calendar file. Failures are logged but don't
+ * undo the change, which whoever made it already sees on screen. Also used
+ * when staff move a booking from the dashboard.
+ */
+export async function notifyCustomer(
+  details: BookingDetails,
+  kind: BookingUpdateKind,
+  token: string
+): Promise<void> {
+  const confirmation = toConfirmationData(details, createBookingLinks(details.booking.id));
+  const icsBooking = toICSBookingData(details);
+
+  const result = await sendBookingUpdateEmail({
+    ...confirmation,
+    email: details.booking.customer.email,
+    locale: details.booking.locale || null,
+    kind,
+    manageUrl: `${publicAppUrl.value()}${getManagePath(token)}`,
+    ics: {
+      filename: getICSFileName(icsBooking),
+      content: generateICSFile(icsBooking)
+    }
+  });
+
+  if (!result.success) {
+    console.error(`Failed to send booking ${kind} email:`, result.error);
+  }
+}
+
+/**
+ * Gets a booking from its manage link
+ */
+export const getManagedBooking = onCall(
+  { region: 'us-central1', cors: true, secrets: [jwtSecret] },
+  async (request: CallableRequest<GetManagedBookingRequest>): Promise<ManagedBookingResponse> => {
+    try {
+      const { token } = parseRequest(TokenSchema, request.data);
+      const bookingId = getBookingIdFromToken(token);
+
+      const db = getFirestore();
+      const booking = await getBooking(db, bookingId);
+      const details = await loadBookingDetails(db, booking);
+
+      return {
+        success: true,
+        booking: toManagedBookingData(details)
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in getManagedBooking:', error);
+      throw new HttpsError('internal', 'Failed to load booking');
+    }
+  }
+);
+
+/**
+ * Cancels a booking from its manage link
+ *
+ * Frees the slot, bumps the calendar SEQUENCE and emails a METHOD:CANCEL
+ * calendar file to the customer.
+ *
+ * For an occurrence of a recurring series, `scope: 'series'` also cancels
+ * every later occurrence that can still be changed. Cancelled dates become
+ * EXDATEs of the series, whose updated calendar file is what gets emailed.
+ *
+ * Cancelling a seat in a class session frees it and emails the first
+ * customer on the session's waitlist.
+ */
+export const cancelBooking = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+    secrets: [jwtSecret, publicAppUrl, resendApiKey, fromEmail, fromName, paymentWebhookSecret]
+  },
+  async (request: CallableRequest<CancelBookingRequest>): Promise<ManagedBookingResponse> => {
+    try {
+      const { token, reason, scope } = parseRequest(CancelBookingSchema, request.data);
+      const bookingId = getBookingIdFromToken(token);
+
+      const db = getFirestore();
+      const bookingRef = db.collection('bookings').doc(bookingId);
+      const details = await loadBookingDetails(db, await getBooking(db, bookingId));
+      const cancelledAt = new Date();
+
+      const { cancelled, dates } = await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(bookingRef);
+        const booking = { ...snapshot.data(), id: snapshot.id } as BookingDoc;
+        assertCanChange({ ...details, booking }, cancelledAt);
+
+        const seriesRef = booking.seriesId ? db.collection('bookingSeries').doc(booking.seriesId) : null;
+        const seriesSnap = seriesRef ? await transaction.get(seriesRef) : null;
+        const sessionRef = booking.sessionId ? classSessionRef(db, booking.orgId, booking.sessionId) : null;
+        const sessionSnap = sessionRef ? await transaction.get(sessionRef) : null;
+
+        let targets = [booking];
+        if (scope === 'series' && booking.seriesId) {
+          const occurrences = await transaction.get(
+            db.collection('bookings').where('seriesId', '==', booking.seriesId).where('status', '==', 'confirmed')
+          );
+          targets = occurrences.docs
+            .map(doc => ({ ...doc.data(), id: doc.id }) as BookingDoc)
+            .filter(occurrence => occurrence.date >= booking.date)
+            .filter(occurrence => canChangeBooking({ ...details, booking: occurrence }, cancelledAt));
+        }
+
+        for (const target of targets) {
+          transaction.update(db.collection('bookings').doc(target.id), {
+            status: 'cancelled',
+            sequence: (target.sequence || 0) + 1,
+            cancelledAt: FieldValue.serverTimestamp(),
+            ...(reason ? { cancellationReason: reason } : {}),
+            updatedAt: FieldValue.serverTimestamp()
+          });
+        }
+
+        if (seriesRef && seriesSnap?.exists) {
+          transaction.update(seriesRef, {
+            exdates: FieldValue.arrayUnion(...targets.map(target => target.date)),
+            sequence: FieldValue.increment(1),
+            updatedAt: FieldValue.serverTimestamp()
+          });
+        }
+
+        if (sessionRef && sessionSnap?.exists) {
+          transaction.update(sessionRef, {
+            seatsBooked: FieldValue.increment(-1),
+            updatedAt: FieldValue.serverTimestamp()
+          });
+        }
+
+        return { cancelled: booking, dates: targets.map(target => target.date) };
+      });
+
+      await refundCancelledBooking(db, { ...details, booking: cancelled }, cancelledAt).catch(error =>
+        console.error(`Failed to refund payment for booking ${bookingId}:`, error)
+      );
+
+      if (cancelled.sessionId) {
+        await notifySessionWaitlist(db, cancelled.orgId, cancelled.sessionId).catch(error =>
+          console.error(`Failed to notify waitlist of class session ${cancelled.sessionId}:`, error)
+        );
+      } else {
+        for (const date of dates) {
+          await notifyBookingWaitlist(db, {
+            orgId: cancelled.orgId,
+            storeId: cancelled.storeId || null,
+            professionalId: cancelled.professionalId,
+            date
+          }).catch(error => console.error(`Failed to notify booking waitlist for ${date}:`, error));
+        }
+      }
+
+      const updated = await loadBookingDetails(db, await getBooking(db, bookingId));
+
+      await createBookingAuditLog(
+        { uid: request.auth?.uid || 'customer', email: updated.booking.customer.email },
+        'cancel',
+        bookingId,
+        {
+          orgId: updated.booking.orgId,
+          date: updated.booking.date,
+          time: updated.booking.time,
+          ...(updated.booking.seriesId ? { seriesId: updated.booking.seriesId, dates } : {}),
+          ...(reason ? { reason } : {})
+        },
+        { source: 'manage_link' }
+      );
+
+      await notifyCustomer(updated, 'cancelled', token);
+
+      return {
+        success: true,
+        booking: toManagedBookingData(updated)
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in cancelBooking:', error);
+      throw new HttpsError('internal', 'Failed to cancel booking');
+    }
+  }
+);
+
+/**
+ * Moves a booking to a new slot from its manage link
+ *
+ * The new slot is checked and taken inside a transaction, exactly like a new
+ * booking, and the old one is released in the same write.
+ */
+export const rescheduleBooking = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+    secrets: [jwtSecret, publicAppUrl, resendApiKey, fromEmail, fromName]
+  },
+  async (request: CallableRequest<RescheduleBookingRequest>): Promise<ManagedBookingResponse> => {
+    try {
+      const { token, date, time } = parseRequest(RescheduleBookingSchema, request.data);
+      const bookingId = getBookingIdFromToken(token);
+
+      const db = getFirestore();
+      const bookingRef = db.collection('bookings').doc(bookingId);
+      const current = await getBooking(db, bookingId);
+      const details = await loadBookingDetails(db, current);
+
+      if (current.seriesId) {
+        throw new HttpsError(
+          'failed-precondition',
+          'Appointments in a recurring series cannot be rescheduled. Cancel this date and book another instead.'
+        );
+      }
+      if (current.sessionId) {
+        throw new HttpsError(
+          'failed-precondition',
+          'Class bookings cannot be rescheduled. Cancel this one and book another session instead.'
+        );
+      }
+
+      const context = await loadScheduleContext(db, {
+        professionalId: current.professionalId,
+        serviceIds: getBookingServices(current).map(service => service.serviceId)
+      });
+      const lockRef = bookingLockRef(db, current.professionalId, date);
+
+      await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(bookingRef);
+        const booking = { ...snapshot.data(), id: snapshot.id } as BookingDoc;
+        const now = new Date();
+        assertCanChange({ ...details, booking }, now);
+
+        await transaction.get(lockRef);
+        const busy = await readBusyIntervals(transaction, db, booking.professionalId, date, now, { bookingId });
+        const usage = await readResourceUsage(transaction, db, context, date, { bookingId });
+
+        const input = buildAvailabilityInput(context, busy, date, date, now, usage);
+        if (!isSlotAvailable(input, date, time)) {
+          throw new HttpsError('failed-precondition', 'The selected time slot is no longer available');
+        }
+        const resources = pickResources(context, usage, date, time);
+
+        transaction.set(lockRef, {
+          professionalId: booking.professionalId,
+          date,
+          lastBookingId: bookingId,
+          updatedAt: FieldValue.serverTimestamp()
+        });
+
+        if (context.store && resources.length > 0) {
+          transaction.set(resourceLockRef(db, context.store.id, date), {
+            storeId: context.store.id,
+            date,
+            lastBookingId: bookingId,
+            updatedAt: FieldValue.serverTimestamp()
+          });
+        }
+
+        transaction.update(bookingRef, {
+          date,
+          time,
+          ...(resources.length > 0 || booking.resources ? { resources } : {}),
+          sequence: (booking.sequence || 0) + 1,
+          rescheduledAt: FieldValue.serverTimestamp(),
+          'comms.reminders': FieldValue.delete(), // the new time gets its own reminders
+          updatedAt: FieldValue.serverTimestamp()
+        });
+      });
+
+      // The time the booking moved away from may suit someone on the waitlist
+      await notifyBookingWaitlist(db, {
+        orgId: current.orgId,
+        storeId: current.storeId || null,
+        professionalId: current.professionalId,
+        date: current.date
+      }).catch(error => console.error(`Failed to notify booking waitlist for ${current.date}:`, error));
+
+      const updated = await loadBookingDetails(db, await getBooking(db, bookingId));
+
+      await createBookingAuditLog(
+        { uid: request.auth?.uid || 'customer', email: updated.booking.customer.email },
+        'reschedule',
+        bookingId,
+        {
+          orgId: updated.booking.orgId,
+          from: { date: current.date, time: current.time },
+          to: { date, time }
+        },
+        { source: 'manage_link' }
+      );
+
+      await notifyCustomer(updated, 'rescheduled', token);
+
+      return {
+        success: true,
+        booking: toManagedBookingData(updated)
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in rescheduleBooking:', error);
+      throw new HttpsError('internal', 'Failed to reschedule booking');
+    }
+  }
+);
@@ -0,0 +1,252 @@
+/**
+ * Booking payment Cloud Functions
+ *
+ * Payment events from the provider arrive on a signed webhook. A successful
+ * payment confirms the draft booking it belongs to; refunds follow the
+ * cancellation window of the store (or professional).
+ */
+
+import { onCall, HttpsError, CallableRequest, type Request } from 'firebase-functions/v2/https';
+import type { Response } from 'express';
+import { getFirestore, FieldValue, type Firestore } from 'firebase-admin/firestore';
+import { defineSecret } from 'firebase-functions/params';
+import { getBooking, getChangeDeadline, isDraftExpired, type BookingDetails } from './lib/bookings';
+import {
+  getPaymentProvider,
+  getRefundAmount,
+  isTestEnvironment,
+  type PaymentEvent,
+  type PaymentProvider
+} from './lib/payments';
+import { FakePaymentProvider } from './lib/fakePaymentProvider';
+import { cancelExpiredDraft, confirmDraftBooking } from './bookings';
+import type { BookingDoc } from './types/models';
+
+// Define secrets
+const jwtSecret = defineSecret('JWT_SECRET');
+const publicAppUrl = defineSecret('PUBLIC_APP_URL');
+const resendApiKey = defineSecret('RESEND_API_KEY');
+const fromEmail = defineSecret('FROM_EMAIL');
+const fromName = defineSecret('FROM_NAME');
+const paymentWebhookSecret = defineSecret('PAYMENT_WEBHOOK_SECRET');
+
+/**
+ * Refund what's owed on a booking's payment and record it on the booking
+ */
+async function refundPayment(
+  db: Firestore,
+  provider: PaymentProvider,
+  booking: BookingDoc,
+  amount: number
+): Promise<number> {
+  if (!booking.payment?.intentId || amount <= 0) {
+    return 0;
+  }
+
+  const refund = await provider.refund(booking.payment.intentId, amount);
+  await db.collection('bookings').doc(booking.id).update({
+    'payment.refundedAmount': (booking.payment.refundedAmount || 0) + refund.amount,
+    'payment.refundId': refund.id,
+    'payment.refundedAt': FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp()
+  });
+
+  return refund.amount;
+}
+
+/**
+ * Apply a verified payment event to its booking
+ *
+ * A successful payment confirms the draft booking. Events that don't match
+ * the booking's payment, or repeat one already handled, are ignored. If the
+ * booking was cancelled, or its draft expired, before the money arrived,
+ * it's refunded in full.
+ */
+export async function handlePaymentEvent(
+  db: Firestore,
+  provider: PaymentProvider,
+  event: PaymentEvent
+): Promise<void> {
+  const bookingRef = db.collection('bookings').doc(event.bookingId);
+
+  const booking = await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(bookingRef);
+    if (!snapshot.exists) {
+      console.warn(`Payment event ${event.id} is for unknown booking ${event.bookingId}`);
+      return null;
+    }
+
+    const current = { ...snapshot.data(), id: snapshot.id } as BookingDoc;
+    const payment = current.payment;
+    if (!payment || payment.intentId !== event.intentId) {
+      console.warn(`Payment event ${event.id} does not match booking ${current.id}`);
+      return null;
+    }
+    if (payment.status === 'paid') {
+      return null;
+    }
+
+    if (event.type === 'payment.failed') {
+      transaction.update(bookingRef, {
+        'payment.status': 'failed',
+        updatedAt: FieldValue.serverTimestamp()
+      });
+      return null;
+    }
+
+    if (event.amount < payment.amountDue) {
+      console.warn(`Payment event ${event.id} covers ${event.amount} of ${payment.amountDue} due`);
+      return null;
+    }
+
+    transaction.update(bookingRef, {
+      'payment.status': 'paid',
+      'payment.amountPaid': event.amount,
+      'payment.paidAt': FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+    return { ...current, payment: { ...payment, status: 'paid' as const, amountPaid: event.amount } };
+  });
+
+  if (!booking) {
+    return;
+  }
+
+  // Paid too late to keep the slot
+  const expired = isDraftExpired(booking, new Date());
+  if (expired) {
+    await cancelExpiredDraft(db, booking.id);
+  }
+  if (booking.status === 'cancelled' || expired) {
+    await refundPayment(db, provider, booking, booking.payment.amountPaid);
+    return;
+  }
+
+  await confirmDraftBooking(db, booking.id);
+}
+
+/**
+ * Refund a booking the customer cancelled, according to the cancellation
+ * window at the time of cancelling
+ *
+ * Returns the amount refunded.
+ */
+export async function refundCancelledBooking(
+  db: Firestore,
+  details: BookingDetails,
+  cancelledAt: Date
+): Promise<number> {
+  const { booking } = details;
+  const amount = getRefundAmount(booking.payment, cancelledAt, getChangeDeadline(details));
+  if (amount <= 0) {
+    return 0;
+  }
+
+  const provider = getPaymentProvider(paymentWebhookSecret.value());
+  if (!provider) {
+    throw new Error(`No payment provider is configured to refund booking ${booking.id}`);
+  }
+  return refundPayment(db, provider, booking, amount);
+}
+
+/**
+ * Receives payment events from the provider
+ *
+ * POST with the provider's signature of the raw body in the
+ * `x-payment-signature` header. Anything but a 2xx makes the provider retry.
+ */
+export async function handlePaymentWebhook(req: Request, res: Response): Promise<void> {
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed. Use POST.' });
+    return;
+  }
+
+  try {
+    const provider = getPaymentProvider(paymentWebhookSecret.value());
+    if (!provider) {
+      res.status(404).json({ error: 'Payments are not configured' });
+      return;
+    }
+    const event = provider.parseWebhookEvent(req.rawBody.toString('utf8'), req.get('x-payment-signature'));
+    if (!event) {
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+
+    await handlePaymentEvent(getFirestore(), provider, event);
+    res.status(200).json({ received: true });
+  } catch (error) {
+    console.error('Error handling payment webhook:', error);
+    res.status(500).json({ error: 'Failed to handle payment event' });
+  }
+}
+
+export interface CompleteTestPaymentRequest {
+  bookingId: string;
+  intentId: string;
+}
+
+export interface CompleteTestPaymentResponse {
+  success: boolean;
+}
+
+/**
+ * Pays a booking with the fake provider
+ *
+ * Stands in for the processor's checkout page in the emulator: it produces
+ * the same signed event the webhook would receive. The intent ID, only ever
+ * returned to whoever created the booking, proves the caller owns it.
+ */
+const testPayment = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+    secrets: [jwtSecret, publicAppUrl, resendApiKey, fromEmail, fromName, paymentWebhookSecret]
+  },
+  async (request: CallableRequest<CompleteTestPaymentRequest>): Promise<CompleteTestPaymentResponse> => {
+    try {
+      const { bookingId, intentId } = request.data || {};
+
+      if (!bookingId || !intentId) {
+        throw new HttpsError('invalid-argument', 'Booking ID and payment intent ID are required');
+      }
+
+      const provider = getPaymentProvider(paymentWebhookSecret.value());
+      if (!(provider instanceof FakePaymentProvider)) {
+        throw new HttpsError('failed-precondition', 'Test payments are only available with the fake provider');
+      }
+
+      const db = getFirestore();
+      const booking = await getBooking(db, bookingId);
+      if (!booking.payment || booking.payment.intentId !== intentId) {
+        throw new HttpsError('permission-denied', 'Payment does not match this booking');
+      }
+
+      const delivery = provider.createWebhookEvent({
+        type: 'payment.succeeded',
+        intentId,
+        bookingId,
+        amount: booking.payment.amountDue
+      });
+      const event = provider.parseWebhookEvent(delivery.payload, delivery.signature);
+      if (!event) {
+        throw new Error('Fake provider produced an invalid signature');
+      }
+
+      await handlePaymentEvent(db, provider, event);
+
+      return { success: true };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in completeTestPayment:', error);
+      throw new HttpsError('internal', 'Failed to complete payment');
+    }
+  }
+);
+
+// Only exported, and so only deployed, in the emulator and tests
+export const completeTestPayment = isTestEnvironment() ? testPayment : undefined;
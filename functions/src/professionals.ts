@@ -0,0 +1,105 @@
+/**
+ * Professional profile Cloud Functions
+ *
+ * Professionals read their profile and bookings straight from Firestore on
+ * the dashboard, but profile edits go through this function so they are
+ * validated and can't touch the professional's org, slug or settings.
+ */
+
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { z } from 'zod';
+import { validateAuth, validateOrgWriteAccess } from './lib/authz';
+import { normalizeSpecialties, MAX_SPECIALTIES } from './lib/professionals';
+import type { ProfessionalDoc } from './types/models';
+
+const UpdateProfessionalProfileSchema = z.object({
+  orgId: z.string().trim().min(1),
+  professionalId: z.string().trim().min(1),
+  profile: z.object({
+    name: z.string().trim().min(1).max(100),
+    title: z.string().trim().max(100),
+    bio: z.string().trim().max(1000),
+    specialties: z.array(z.string().max(50)).max(MAX_SPECIALTIES)
+  })
+});
+
+export type UpdateProfessionalProfileRequest = z.infer<typeof UpdateProfessionalProfileSchema>;
+
+export interface ProfessionalProfile {
+  name: string;
+  title: string;
+  bio: string;
+  specialties: string[];
+}
+
+export interface UpdateProfessionalProfileResponse {
+  success: boolean;
+  profile: ProfessionalProfile;
+}
+
+/**
+ * Saves the editable parts of a professional's profile
+ *
+ * Professionals can edit their own; org staff with write access can edit
+ * anyone's.
+ */
+export const updateProfessionalProfile = onCall(
+  { region: 'us-central1', cors: true },
+  async (request: CallableRequest<UpdateProfessionalProfileRequest>): Promise<UpdateProfessionalProfileResponse> => {
+    try {
+      const parsed = UpdateProfessionalProfileSchema.safeParse(request.data);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new HttpsError('invalid-argument', `Invalid profile: ${issue.path.join('.')} ${issue.message}`);
+      }
+
+      const authResult = await validateAuth(request);
+      if (!authResult.success) {
+        throw new HttpsError('unauthenticated', authResult.error || 'Authentication required');
+      }
+
+      const { orgId, professionalId } = parsed.data;
+      const db = getFirestore();
+      const professionalRef = db.collection('orgs').doc(orgId).collection('professionals').doc(professionalId);
+
+      const professionalSnap = await professionalRef.get();
+      if (!professionalSnap.exists) {
+        throw new HttpsError('not-found', 'Professional not found');
+      }
+
+      const isSelf = (professionalSnap.data() as ProfessionalDoc).userId === authResult.user!.uid;
+      if (!isSelf) {
+        const writeResult = await validateOrgWriteAccess(request, orgId);
+        if (!writeResult.success) {
+          throw new HttpsError('permission-denied', writeResult.error || 'Profile access denied');
+        }
+      }
+
+      const profile: ProfessionalProfile = {
+        name: parsed.data.profile.name,
+        title: parsed.data.profile.title,
+        bio: parsed.data.profile.bio,
+        specialties: normalizeSpecialties(parsed.data.profile.specialties)
+      };
+
+      await professionalRef.update({
+        ...profile,
+        updatedAt: FieldValue.serverTimestamp()
+      });
+
+      return {
+        success: true,
+        profile
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in updateProfessionalProfile:', error);
+      throw new HttpsError('internal', 'Failed to update profile');
+    }
+  }
+);
@@ -0,0 +1,195 @@
+/**
+ * Appointment reminder Cloud Functions
+ *
+ * A scheduled job emails customers ahead of their appointments, at the
+ * offsets configured in the store's `bookingSettings.reminderOffsets`.
+ * Every reminder is claimed under `comms.reminders` on the booking before
+ * it's sent and recorded there once it has been, so overlapping runs, or the
+ * DLQ replayer, never send the same reminder twice.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue, type Firestore } from 'firebase-admin/firestore';
+import { defineSecret } from 'firebase-functions/params';
+import { addDays } from './lib/availability';
+import { loadBookingDetails, toConfirmationData } from './lib/bookings';
+import {
+  getReminderOffsets,
+  getReminderKey,
+  getDueReminders,
+  isReminderHandled,
+  MAX_REMINDER_OFFSET
+} from './lib/reminders';
+import { saveBookingToDeadLetterQueue } from './lib/firestore';
+import { createBookingLinks } from './bookings';
+import { sendBookingReminderEmail, type EmailResult } from './email';
+import type { BookingDoc } from './types/models';
+
+// Define secrets
+const jwtSecret = defineSecret('JWT_SECRET');
+const publicAppUrl = defineSecret('PUBLIC_APP_URL');
+const resendApiKey = defineSecret('RESEND_API_KEY');
+const fromEmail = defineSecret('FROM_EMAIL');
+const fromName = defineSecret('FROM_NAME');
+
+/**
+ * Claim a reminder for sending inside a transaction, returning the booking,
+ * or null when it was already sent or another send holds the claim
+ *
+ * Failed sends may be claimed again, which is how the DLQ replayer retries
+ * them.
+ */
+async function claimReminder(
+  db: Firestore,
+  bookingId: string,
+  offsets: number[]
+): Promise<BookingDoc | null> {
+  const bookingRef = db.collection('bookings').doc(bookingId);
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(bookingRef);
+    if (!snapshot.exists) {
+      throw new HttpsError('not-found', 'Booking not found');
+    }
+
+    const booking = { ...snapshot.data(), id: snapshot.id } as BookingDoc;
+    const previous = booking.comms?.reminders?.[getReminderKey(offsets[0])];
+    if (previous?.sent || (previous?.claimedAt && isReminderHandled(previous, new Date()))) {
+      return null;
+    }
+
+    const claim = {
+      sent: false,
+      sentAt: null,
+      messageId: null,
+      error: null,
+      claimedAt: FieldValue.serverTimestamp()
+    };
+    const updates: Record<string, unknown> = {};
+    for (const offset of offsets) {
+      updates[`comms.reminders.${getReminderKey(offset)}`] = claim;
+    }
+    transaction.update(bookingRef, updates);
+    return booking;
+  });
+}
+
+/**
+ * Email one reminder for a booking and record the outcome on the booking
+ *
+ * The reminder is claimed first, so concurrent calls send it once. `covers`
+ * lists other due offsets this send stands in for; they're marked with the
+ * same result so they aren't sent on the next run. Used by the scheduled job
+ * and by the DLQ replayer.
+ */
+export async function sendBookingReminder(
+  db: Firestore,
+  bookingId: string,
+  offsetHours: number,
+  covers: number[] = []
+): Promise<EmailResult> {
+  const booking = await claimReminder(db, bookingId, [offsetHours, ...covers]);
+  if (!booking) {
+    return { success: true };
+  }
+
+  const details = await loadBookingDetails(db, booking);
+  const links = createBookingLinks(bookingId);
+
+  const result = await sendBookingReminderEmail({
+    ...toConfirmationData(details, links),
+    bookingId,
+    email: booking.customer.email,
+    locale: booking.locale || null,
+    offsetHours,
+    manageUrl: `${publicAppUrl.value()}${links.manageUrl}`
+  });
+
+  const record = {
+    sent: result.success,
+    sentAt: result.success ? FieldValue.serverTimestamp() : null,
+    messageId: result.messageId || null,
+    error: result.success ? null : { code: 'SEND_FAILED', msg: result.error || 'Unknown error' }
+  };
+
+  const updates: Record<string, unknown> = {};
+  for (const offset of [offsetHours, ...covers]) {
+    updates[`comms.reminders.${getReminderKey(offset)}`] = record;
+  }
+  await db.collection('bookings').doc(bookingId).update(updates);
+
+  return result;
+}
+
+/**
+ * Send the reminders that are due for one booking, queueing failures for
+ * the DLQ replayer
+ */
+async function processBooking(db: Firestore, booking: BookingDoc, now: Date): Promise<boolean> {
+  const details = await loadBookingDetails(db, booking);
+  const due = getDueReminders(booking, getReminderOffsets(details.store), now);
+  if (due.length === 0) {
+    return false;
+  }
+
+  // Only the reminder closest to the appointment goes out; any earlier ones
+  // missed (e.g. while the job wasn't running) are covered by it
+  const [offset, ...covers] = due;
+  const result = await sendBookingReminder(db, booking.id, offset, covers);
+
+  if (!result.success) {
+    console.error(`Failed to send ${getReminderKey(offset)} reminder for booking ${booking.id}:`, result.error);
+    await saveBookingToDeadLetterQueue(
+      booking.id,
+      booking.customer.email,
+      { code: 'SEND_FAILED', msg: result.error || 'Unknown error' },
+      offset
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Sends due appointment reminders every 15 minutes
+ */
+export const sendBookingReminders = onSchedule(
+  {
+    schedule: 'every 15 minutes',
+    region: 'us-central1',
+    timeZone: 'UTC',
+    timeoutSeconds: 540,
+    secrets: [jwtSecret, publicAppUrl, resendApiKey, fromEmail, fromName]
+  },
+  async () => {
+    const db = getFirestore();
+    const now = new Date();
+
+    // Booking dates are wall-clock dates in the store's timezone, so pad the
+    // window by a day on each side to cover every UTC offset
+    const today = now.toISOString().split('T')[0];
+    const snapshot = await db
+      .collection('bookings')
+      .where('status', '==', 'confirmed')
+      .where('date', '>=', addDays(today, -1))
+      .where('date', '<=', addDays(today, Math.ceil(MAX_REMINDER_OFFSET / 24) + 1))
+      .get();
+
+    const results = { scanned: snapshot.size, processed: 0, failed: 0 };
+
+    for (const doc of snapshot.docs) {
+      try {
+        const booking = { ...doc.data(), id: doc.id } as BookingDoc;
+        if (await processBooking(db, booking, now)) {
+          results.processed++;
+        }
+      } catch (error) {
+        results.failed++;
+        console.error(`Error processing reminders for booking ${doc.id}:`, error);
+      }
+    }
+
+    console.log('Booking reminders completed:', results);
+  }
+);
@@ -0,0 +1,212 @@
+/**
+ * Schedule exception Cloud Functions
+ *
+ * Professionals and stores can override their weekly hours on specific
+ * dates: time off, holidays, one-off hours or blocked ranges. Slot
+ * computation respects them straight away; bookings made before an
+ * exception was added are flagged instead of cancelled, so staff can decide
+ * what to tell the customer.
+ */
+
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue, Timestamp, type DocumentReference } from 'firebase-admin/firestore';
+import { z } from 'zod';
+import { validateAuth, validateOrgWriteAccess } from './lib/authz';
+import { findConflictingException, getZonedDateTime, parseTime } from './lib/availability';
+import { BLOCKING_STATUSES, DEFAULT_TIMEZONE } from './lib/schedule';
+import { DateSchema, TimeSchema } from './bookings';
+import type {
+  BookingDoc,
+  ProfessionalDoc,
+  ScheduleConflictFlag,
+  ScheduleException,
+  StoreDoc
+} from './types/models';
+
+const MAX_EXCEPTIONS = 100;
+const BATCH_SIZE = 500;
+
+const ScheduleExceptionSchema = z
+  .object({
+    id: z.string().trim().min(1).max(64),
+    startDate: DateSchema,
+    endDate: DateSchema,
+    type: z.enum(['closed', 'custom_hours', 'blocked']),
+    start: TimeSchema.optional(),
+    end: TimeSchema.optional(),
+    reason: z.string().trim().max(200).optional()
+  })
+  .refine(exception => exception.endDate >= exception.startDate, {
+    message: 'must not end before it starts',
+    path: ['endDate']
+  })
+  .refine(
+    exception =>
+      exception.type === 'closed' ||
+      (!!exception.start && !!exception.end && parseTime(exception.end) > parseTime(exception.start)),
+    { message: 'needs a start and end time, the end after the start', path: ['start'] }
+  );
+
+const UpdateScheduleExceptionsSchema = z.object({
+  orgId: z.string().trim().min(1),
+  target: z.enum(['professional', 'store']),
+  targetId: z.string().trim().min(1),
+  exceptions: z
+    .array(ScheduleExceptionSchema)
+    .max(MAX_EXCEPTIONS)
+    .refine(exceptions => new Set(exceptions.map(exception => exception.id)).size === exceptions.length, {
+      message: 'must have unique IDs'
+    })
+});
+
+export type UpdateScheduleExceptionsRequest = z.infer<typeof UpdateScheduleExceptionsSchema>;
+
+export interface ScheduleConflict {
+  bookingId: string;
+  date: string;
+  time: string;
+  customerName: string;
+  serviceName: string;
+  exceptionId: string;
+}
+
+export interface UpdateScheduleExceptionsResponse {
+  success: boolean;
+  conflicts: ScheduleConflict[]; // upcoming bookings the exceptions overlap
+}
+
+/**
+ * Replaces the schedule exceptions of a professional or store
+ *
+ * Professionals can edit their own; org staff with write access can edit
+ * anyone's. Upcoming bookings the new exceptions overlap are flagged with a
+ * `scheduleConflict`, and flags this target set before are cleared from
+ * bookings that no longer overlap.
+ */
+export const updateScheduleExceptions = onCall(
+  { region: 'us-central1', cors: true },
+  async (request: CallableRequest<UpdateScheduleExceptionsRequest>): Promise<UpdateScheduleExceptionsResponse> => {
+    try {
+      const parsed = UpdateScheduleExceptionsSchema.safeParse(request.data);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new HttpsError(
+          'invalid-argument',
+          `Invalid schedule exceptions request: ${issue.path.join('.')} ${issue.message}`
+        );
+      }
+
+      const { orgId, target, targetId } = parsed.data;
+      const exceptions = parsed.data.exceptions.map(exception => ({
+        id: exception.id,
+        startDate: exception.startDate,
+        endDate: exception.endDate,
+        type: exception.type,
+        ...(exception.type !== 'closed' ? { start: exception.start, end: exception.end } : {}),
+        ...(exception.reason ? { reason: exception.reason } : {})
+      })) as ScheduleException[];
+
+      const authResult = await validateAuth(request);
+      if (!authResult.success) {
+        throw new HttpsError('unauthenticated', authResult.error || 'Authentication required');
+      }
+
+      const db = getFirestore();
+      const targetRef = db
+        .collection('orgs')
+        .doc(orgId)
+        .collection(target === 'professional' ? 'professionals' : 'stores')
+        .doc(targetId);
+
+      const targetSnap = await targetRef.get();
+      if (!targetSnap.exists) {
+        throw new HttpsError('not-found', target === 'professional' ? 'Professional not found' : 'Store not found');
+      }
+
+      const targetDoc = targetSnap.data() as ProfessionalDoc | StoreDoc;
+      const isSelf = target === 'professional' && (targetDoc as ProfessionalDoc).userId === authResult.user!.uid;
+      if (!isSelf) {
+        const writeResult = await validateOrgWriteAccess(request, orgId);
+        if (!writeResult.success) {
+          throw new HttpsError('permission-denied', writeResult.error || 'Schedule access denied');
+        }
+      }
+
+      await targetRef.update({
+        scheduleExceptions: exceptions,
+        updatedAt: FieldValue.serverTimestamp()
+      });
+
+      const today = getZonedDateTime(new Date(), targetDoc.settings?.timezone || DEFAULT_TIMEZONE).date;
+      const bookingsSnap = await db
+        .collection('bookings')
+        .where(target === 'professional' ? 'professionalId' : 'storeId', '==', targetId)
+        .where('status', 'in', BLOCKING_STATUSES)
+        .where('date', '>=', today)
+        .get();
+
+      const conflicts: ScheduleConflict[] = [];
+      const updates: Array<{ ref: DocumentReference; flag: ScheduleConflictFlag | null }> = [];
+
+      for (const doc of bookingsSnap.docs) {
+        const booking = doc.data() as BookingDoc;
+        const conflict = findConflictingException(booking, exceptions);
+        const flag = booking.scheduleConflict;
+
+        if (conflict) {
+          conflicts.push({
+            bookingId: doc.id,
+            date: booking.date,
+            time: booking.time,
+            customerName: `${booking.customer.firstName} ${booking.customer.lastName}`,
+            serviceName: booking.serviceName,
+            exceptionId: conflict.id
+          });
+        }
+
+        // A booking keeps the first flag it got; another source's flag is
+        // theirs to clear
+        if (flag && flag.source !== target) {
+          continue;
+        }
+        if (conflict && flag?.exceptionId !== conflict.id) {
+          updates.push({
+            ref: doc.ref,
+            flag: {
+              source: target,
+              exceptionId: conflict.id,
+              ...(conflict.reason ? { reason: conflict.reason } : {}),
+              flaggedAt: Timestamp.now()
+            }
+          });
+        } else if (!conflict && flag) {
+          updates.push({ ref: doc.ref, flag: null });
+        }
+      }
+
+      for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+        const batch = db.batch();
+        updates.slice(i, i + BATCH_SIZE).forEach(({ ref, flag }) => {
+          batch.update(ref, {
+            scheduleConflict: flag || FieldValue.delete(),
+            updatedAt: FieldValue.serverTimestamp()
+          });
+        });
+        await batch.commit();
+      }
+
+      return {
+        success: true,
+        conflicts: conflicts.sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time))
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in updateScheduleExceptions:', error);
+      throw new HttpsError('internal', 'Failed to update schedule exceptions');
+    }
+  }
+);
@@ -0,0 +1,209 @@
+/**
+ * Class session Cloud Functions
+ *
+ * Customers who find a class session full can join its waitlist. Whenever a
+ * seat frees up, the first customer still waiting is emailed a link to book
+ * it; seats aren't reserved for them, so whoever books first gets it.
+ */
+
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue, type Firestore } from 'firebase-admin/firestore';
+import { defineSecret } from 'firebase-functions/params';
+import { z } from 'zod';
+import { classSessionRef, getSeatsLeft, isSessionUpcoming } from './lib/sessions';
+import { formatStoreLocation, getBookingPagePath } from './lib/bookings';
+import { sendSessionSeatOpenEmail } from './email';
+import type {
+  ClassSessionDoc,
+  OrgDoc,
+  ProfessionalDoc,
+  ServiceDoc,
+  SessionWaitlistEntryDoc,
+  StoreDoc
+} from './types/models';
+
+// Define secrets
+const publicAppUrl = defineSecret('PUBLIC_APP_URL');
+
+const JoinSessionWaitlistSchema = z.object({
+  sessionId: z.string().trim().min(1),
+  customer: z.object({
+    firstName: z.string().trim().min(1).max(100),
+    lastName: z.string().trim().min(1).max(100),
+    email: z.email().max(254)
+  }),
+  locale: z.enum(['en-US', 'pt-BR', 'it-IT']).optional()
+});
+
+export type JoinSessionWaitlistRequest = z.infer<typeof JoinSessionWaitlistSchema>;
+
+export interface JoinSessionWaitlistResponse {
+  success: boolean;
+  entryId: string;
+  position: number; // 1 for the next customer to be notified
+}
+
+/**
+ * Adds a customer to the waitlist of a full class session
+ *
+ * Public callable, like createBooking. Joining twice with the same email
+ * returns the existing entry.
+ */
+export const joinSessionWaitlist = onCall(
+  { region: 'us-central1', cors: true },
+  async (request: CallableRequest<JoinSessionWaitlistRequest>): Promise<JoinSessionWaitlistResponse> => {
+    try {
+      const parsed = JoinSessionWaitlistSchema.safeParse(request.data);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new HttpsError('invalid-argument', `Invalid waitlist request: ${issue.path.join('.')} ${issue.message}`);
+      }
+
+      const { sessionId, customer, locale } = parsed.data;
+      const email = customer.email.toLowerCase();
+
+      const db = getFirestore();
+      const sessionSnapshot = await db.collectionGroup('classSessions').where('id', '==', sessionId).limit(1).get();
+      if (sessionSnapshot.empty) {
+        throw new HttpsError('not-found', 'Class session not found');
+      }
+
+      const sessionRef = sessionSnapshot.docs[0].ref;
+      const waitlist = sessionRef.collection('waitlist');
+
+      const entryId = await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(sessionRef);
+        const session = { ...snapshot.data(), id: snapshot.id } as ClassSessionDoc;
+        if (!isSessionUpcoming(session, new Date())) {
+          throw new HttpsError('failed-precondition', 'This class session is no longer available');
+        }
+        if (getSeatsLeft(session) > 0) {
+          throw new HttpsError('failed-precondition', 'This class session still has seats available');
+        }
+
+        const existing = await transaction.get(
+          waitlist.where('customer.email', '==', email).where('status', '==', 'waiting').limit(1)
+        );
+        if (!existing.empty) {
+          return existing.docs[0].id;
+        }
+
+        const entryRef = waitlist.doc();
+        transaction.set(entryRef, {
+          id: entryRef.id,
+          customer: {
+            firstName: customer.firstName,
+            lastName: customer.lastName,
+            email
+          },
+          ...(locale ? { locale } : {}),
+          status: 'waiting',
+          createdAt: FieldValue.serverTimestamp()
+        });
+        return entryRef.id;
+      });
+
+      const entry = (await waitlist.doc(entryId).get()).data() as SessionWaitlistEntryDoc;
+      const ahead = await waitlist
+        .where('status', '==', 'waiting')
+        .where('createdAt', '<', entry.createdAt)
+        .count()
+        .get();
+
+      return {
+        success: true,
+        entryId,
+        position: ahead.data().count + 1
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in joinSessionWaitlist:', error);
+      throw new HttpsError('internal', 'Failed to join waitlist');
+    }
+  }
+);
+
+/**
+ * Email the first customer waiting for a class session, if it has a seat
+ * free and hasn't started yet
+ *
+ * Called after a booking frees a seat. Needs the PUBLIC_APP_URL and Resend
+ * secrets on the calling function.
+ */
+export async function notifySessionWaitlist(db: Firestore, orgId: string, sessionId: string): Promise<void> {
+  const sessionRef = classSessionRef(db, orgId, sessionId);
+
+  const notified = await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(sessionRef);
+    if (!snapshot.exists) {
+      return null;
+    }
+
+    const session = { ...snapshot.data(), id: snapshot.id } as ClassSessionDoc;
+    if (!isSessionUpcoming(session, new Date()) || getSeatsLeft(session) === 0) {
+      return null;
+    }
+
+    const waiting = await transaction.get(
+      sessionRef.collection('waitlist').where('status', '==', 'waiting').orderBy('createdAt').limit(1)
+    );
+    if (waiting.empty) {
+      return null;
+    }
+
+    const entryRef = waiting.docs[0].ref;
+    transaction.update(entryRef, {
+      status: 'notified',
+      notifiedAt: FieldValue.serverTimestamp()
+    });
+
+    return { session, entry: { ...waiting.docs[0].data(), id: entryRef.id } as SessionWaitlistEntryDoc };
+  });
+
+  if (!notified) {
+    return;
+  }
+
+  const { session, entry } = notified;
+  const orgRef = db.collection('orgs').doc(orgId);
+  const [orgSnap, serviceSnap, professionalSnap, storeSnap] = await Promise.all([
+    orgRef.get(),
+    orgRef.collection('services').doc(session.serviceId).get(),
+    orgRef.collection('professionals').doc(session.professionalId).get(),
+    session.storeId ? orgRef.collection('stores').doc(session.storeId).get() : Promise.resolve(null)
+  ]);
+
+  const org = orgSnap.data() as OrgDoc;
+  const service = serviceSnap.data() as ServiceDoc;
+  const professional = professionalSnap.data() as ProfessionalDoc;
+  const store = storeSnap?.exists ? ({ ...storeSnap.data(), id: storeSnap.id } as StoreDoc) : null;
+
+  const bookPath = getBookingPagePath(org.slug, store?.slug || null, professional.slug, {
+    service: service.slug,
+    date: session.date,
+    time: session.time
+  });
+
+  const result = await sendSessionSeatOpenEmail({
+    sessionId,
+    entryId: entry.id,
+    email: entry.customer.email,
+    locale: entry.locale || null,
+    bookUrl: `${publicAppUrl.value()}${bookPath}`,
+    customerName: `${entry.customer.firstName} ${entry.customer.lastName}`,
+    serviceName: service.name,
+    professionalName: professional.name,
+    appointmentDate: session.date,
+    appointmentTime: session.time,
+    timezone: session.timezone,
+    location: formatStoreLocation(store)
+  });
+
+  if (!result.success) {
+    console.error(`Failed to notify waitlist of class session ${sessionId}:`, result.error);
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * Staff booking Cloud Functions
+ *
+ * Staff add bookings for phone and walk-in customers from the dashboard
+ * through createBooking. Customer accounts are shared across orgs and kept
+ * server-only, so staff pick an existing customer from the org's own
+ * bookings instead. Bookings dragged to another time on the dashboard
+ * calendar are moved here, and customers checked in, their bookings
+ * completed or marked no-shows.
+ */
+
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { defineSecret } from 'firebase-functions/params';
+import { z } from 'zod';
+import { validateOrgAccess, getUserOrgRole } from './lib/authz';
+import { findSlotConflict, type SlotConflict } from './lib/availability';
+import { getBooking, getBookingServices, loadBookingDetails } from './lib/bookings';
+import {
+  loadScheduleContext,
+  readBusyIntervals,
+  readResourceUsage,
+  pickResources,
+  bookingLockRef,
+  buildAvailabilityInput
+} from './lib/schedule';
+import { resourceLockRef } from './lib/resources';
+import { createBookingAuditLog } from './lib/audit';
+import {
+  ATTENDANCE_STATUSES,
+  ATTENDANCE_TIMESTAMPS,
+  assertAttendanceChange,
+  getNoShowChange,
+  orgCustomerStatsRef,
+  type AttendanceStatus
+} from './lib/bookingStatus';
+import { authorizeStaffBooking, findOrgCustomers, type OrgCustomer } from './lib/staffBookings';
+import { DateSchema, TimeSchema } from './bookings';
+import { notifyCustomer } from './manageBooking';
+import { notifyBookingWaitlist } from './bookingWaitlist';
+import { createBookingToken } from './tokens';
+import type { BookingDoc, BookingStatus } from './types/models';
+
+// Define secrets
+const jwtSecret = defineSecret('JWT_SECRET');
+const publicAppUrl = defineSecret('PUBLIC_APP_URL');
+const resendApiKey = defineSecret('RESEND_API_KEY');
+const fromEmail = defineSecret('FROM_EMAIL');
+const fromName = defineSecret('FROM_NAME');
+
+// Recent bookings searched for customers
+const MAX_BOOKINGS_SEARCHED = 500;
+
+const SearchOrgCustomersSchema = z.object({
+  orgId: z.string().trim().min(1),
+  search: z.string().trim().min(2).max(100)
+});
+
+const MoveBookingSchema = z.object({
+  bookingId: z.string().trim().min(1),
+  professionalId: z.string().trim().min(1).optional(), // another professional of the org, defaults to the booking's
+  date: DateSchema,
+  time: TimeSchema
+});
+
+const UpdateBookingStatusSchema = z.object({
+  bookingId: z.string().trim().min(1),
+  status: z.enum(ATTENDANCE_STATUSES)
+});
+
+export type SearchOrgCustomersRequest = z.infer<typeof SearchOrgCustomersSchema>;
+export type MoveBookingRequest = z.infer<typeof MoveBookingSchema>;
+export type UpdateBookingStatusRequest = z.infer<typeof UpdateBookingStatusSchema>;
+
+export interface SearchOrgCustomersResponse {
+  success: boolean;
+  customers: OrgCustomer[];
+}
+
+export interface MoveBookingResponse {
+  success: boolean;
+  professionalId: string;
+  date: string;
+  time: string;
+}
+
+export interface UpdateBookingStatusResponse {
+  success: boolean;
+  status: AttendanceStatus;
+}
+
+// Reasons a booking can't be dropped at a time, shown on the dashboard
+const SLOT_CONFLICT_MESSAGES: Record<SlotConflict, string> = {
+  past: 'That time has already passed',
+  closed: 'That time is outside working hours',
+  time_off: 'That time overlaps time off',
+  booked: 'That time overlaps another booking or the buffer time around it',
+  resources: 'No room or equipment the services need is free at that time'
+};
+
+/**
+ * Finds customers who booked with an org by name, email or phone number,
+ * with the details they last booked with
+ *
+ * Org members only. Professionals only find the customers of their own
+ * bookings, like they only see those on the dashboard.
+ */
+export const searchOrgCustomers = onCall(
+  { region: 'us-central1', cors: true },
+  async (request: CallableRequest<SearchOrgCustomersRequest>): Promise<SearchOrgCustomersResponse> => {
+    try {
+      const parsed = SearchOrgCustomersSchema.safeParse(request.data);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new HttpsError('invalid-argument', `Invalid search: ${issue.path.join('.')} ${issue.message}`);
+      }
+
+      const { orgId, search } = parsed.data;
+      const authResult = await validateOrgAccess(request, orgId);
+      if (!authResult.success || !authResult.user) {
+        throw new HttpsError(
+          request.auth ? 'permission-denied' : 'unauthenticated',
+          authResult.error || 'Customer access denied'
+        );
+      }
+
+      const db = getFirestore();
+      let bookings = db.collection('bookings').where('orgId', '==', orgId);
+
+      if (getUserOrgRole(authResult.user, orgId) === 'professional') {
+        const professionals = await db
+          .collection('orgs')
+          .doc(orgId)
+          .collection('professionals')
+          .where('userId', '==', authResult.user.uid)
+          .limit(1)
+          .get();
+        if (professionals.empty) {
+          return { success: true, customers: [] };
+        }
+        bookings = bookings.where('professionalId', '==', professionals.docs[0].id);
+      }
+
+      const snapshot = await bookings.orderBy('date', 'desc').limit(MAX_BOOKINGS_SEARCHED).get();
+      const customers = findOrgCustomers(
+        snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as BookingDoc),
+        search
+      );
+
+      return {
+        success: true,
+        customers
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in searchOrgCustomers:', error);
+      throw new HttpsError('internal', 'Failed to search customers');
+    }
+  }
+);
+
+/**
+ * Moves a confirmed booking to another time, or another professional of the
+ * org, from the dashboard calendar
+ *
+ * The professional can move their own bookings; moving anyone's, or to
+ * another professional, takes write access to the org. The new time is
+ * re-checked inside a transaction like a new booking, buffers included, but
+ * the customer's change deadline, lead time and booking window don't apply.
+ * A conflict fails with the reason in the message and `details.conflict`.
+ * The customer is emailed the updated calendar file and the move is written
+ * to the audit log.
+ */
+export const moveBooking = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+    secrets: [jwtSecret, publicAppUrl, resendApiKey, fromEmail, fromName]
+  },
+  async (request: CallableRequest<MoveBookingRequest>): Promise<MoveBookingResponse> => {
+    try {
+      const parsed = MoveBookingSchema.safeParse(request.data);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new HttpsError('invalid-argument', `Invalid move: ${issue.path.join('.')} ${issue.message}`);
+      }
+
+      const { bookingId, date, time } = parsed.data;
+      const db = getFirestore();
+      const bookingRef = db.collection('bookings').doc(bookingId);
+      const current = await getBooking(db, bookingId);
+      const professionalId = parsed.data.professionalId || current.professionalId;
+
+      const context = await loadScheduleContext(db, {
+        professionalId,
+        serviceIds: getBookingServices(current).map(service => service.serviceId),
+        storeId: current.storeId || undefined
+      });
+      if (context.orgId !== current.orgId) {
+        throw new HttpsError('invalid-argument', 'Bookings can only move to a professional of the same org');
+      }
+
+      const samePro = context.professional.id === current.professionalId;
+      const actor = await authorizeStaffBooking(request, current.orgId, samePro ? context.professional : null);
+
+      if (current.seriesId) {
+        throw new HttpsError('failed-precondition', 'Appointments in a recurring series cannot be moved');
+      }
+      if (current.sessionId) {
+        throw new HttpsError('failed-precondition', 'Class bookings cannot be moved');
+      }
+      if (samePro && current.date === date && current.time === time) {
+        return { success: true, professionalId, date, time };
+      }
+
+      const lockRef = bookingLockRef(db, context.professional.id, date);
+
+      await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(bookingRef);
+        const booking = { ...snapshot.data(), id: snapshot.id } as BookingDoc;
+        if (booking.status !== 'confirmed') {
+          throw new HttpsError('failed-precondition', `Booking is ${booking.status}`);
+        }
+
+        const now = new Date();
+        await transaction.get(lockRef);
+        const busy = await readBusyIntervals(transaction, db, context.professional.id, date, now, { bookingId });
+        const usage = await readResourceUsage(transaction, db, context, date, { bookingId });
+
+        const conflict = findSlotConflict(buildAvailabilityInput(context, busy, date, date, now, usage), date, time);
+        if (conflict) {
+          throw new HttpsError('failed-precondition', SLOT_CONFLICT_MESSAGES[conflict], { conflict });
+        }
+        const resources = pickResources(context, usage, date, time);
+
+        transaction.set(lockRef, {
+          professionalId: context.professional.id,
+          date,
+          lastBookingId: bookingId,
+          updatedAt: FieldValue.serverTimestamp()
+        });
+
+        if (context.store && resources.length > 0) {
+          transaction.set(resourceLockRef(db, context.store.id, date), {
+            storeId: context.store.id,
+            date,
+            lastBookingId: bookingId,
+            updatedAt: FieldValue.serverTimestamp()
+          });
+        }
+
+        transaction.update(bookingRef, {
+          ...(samePro ? {} : { professionalId: context.professional.id }),
+          date,
+          time,
+          ...(resources.length > 0 || booking.resources ? { resources } : {}),
+          sequence: (booking.sequence || 0) + 1,
+          rescheduledAt: FieldValue.serverTimestamp(),
+          'comms.reminders': FieldValue.delete(), // the new time gets its own reminders
+          updatedAt: FieldValue.serverTimestamp()
+        });
+      });
+
+      // The time the booking moved away from may suit someone on the waitlist
+      await notifyBookingWaitlist(db, {
+        orgId: current.orgId,
+        storeId: current.storeId || null,
+        professionalId: current.professionalId,
+        date: current.date
+      }).catch(error => console.error(`Failed to notify booking waitlist for ${current.date}:`, error));
+
+      const updated = await loadBookingDetails(db, await getBooking(db, bookingId));
+
+      await createBookingAuditLog(
+        actor,
+        'reschedule',
+        bookingId,
+        {
+          orgId: current.orgId,
+          from: { professionalId: current.professionalId, date: current.date, time: current.time },
+          to: { professionalId: context.professional.id, date, time }
+        },
+        { source: 'dashboard' }
+      );
+
+      const manageToken = createBookingToken(bookingId, 'manage');
+      if (manageToken.token) {
+        await notifyCustomer(updated, 'rescheduled', manageToken.token);
+      } else {
+        console.error('Failed to create manage token for moved booking:', manageToken.error);
+      }
+
+      return {
+        success: true,
+        professionalId: context.professional.id,
+        date,
+        time
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in moveBooking:', error);
+      throw new HttpsError('internal', 'Failed to move booking');
+    }
+  }
+);
+
+/**
+ * Checks a customer in, completes their booking or marks it a no-show from
+ * the dashboard
+ *
+ * Allowed for the same staff as moving the booking, and only along the
+ * lifecycle in `BOOKING_STATUS_TRANSITIONS`. The time of the change is kept
+ * on the booking, and the customer's no-show count with the org is kept in
+ * step in the same transaction, including when a no-show turns out to have
+ * arrived late.
+ */
+export const updateBookingStatus = onCall(
+  { region: 'us-central1', cors: true },
+  async (request: CallableRequest<UpdateBookingStatusRequest>): Promise<UpdateBookingStatusResponse> => {
+    try {
+      const parsed = UpdateBookingStatusSchema.safeParse(request.data);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new HttpsError('invalid-argument', `Invalid status: ${issue.path.join('.')} ${issue.message}`);
+      }
+
+      const { bookingId, status } = parsed.data;
+      const db = getFirestore();
+      const bookingRef = db.collection('bookings').doc(bookingId);
+      const current = await getBooking(db, bookingId);
+      const { professional } = await loadBookingDetails(db, current);
+      const actor = await authorizeStaffBooking(request, current.orgId, professional);
+
+      let from: BookingStatus = current.status;
+
+      await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(bookingRef);
+        const booking = { ...snapshot.data(), id: snapshot.id } as BookingDoc;
+        from = booking.status;
+        if (from === status) {
+          return;
+        }
+        assertAttendanceChange(booking, status, new Date());
+
+        transaction.update(bookingRef, {
+          status,
+          [ATTENDANCE_TIMESTAMPS[status]]: FieldValue.serverTimestamp(),
+          statusUpdatedBy: actor.uid,
+          updatedAt: FieldValue.serverTimestamp()
+        });
+
+        const noShowChange = getNoShowChange(from, status);
+        if (noShowChange !== 0) {
+          const statsRef = orgCustomerStatsRef(db, booking.orgId, booking.customer.email);
+          transaction.set(
+            statsRef,
+            {
+              email: booking.customer.email.toLowerCase(),
+              noShowCount: FieldValue.increment(noShowChange),
+              ...(noShowChange > 0 ? { lastNoShowAt: FieldValue.serverTimestamp() } : {}),
+              updatedAt: FieldValue.serverTimestamp()
+            },
+            { merge: true }
+          );
+        }
+      });
+
+      if (from !== status) {
+        await createBookingAuditLog(
+          actor,
+          'status',
+          bookingId,
+          { orgId: current.orgId, from, to: status },
+          { source: 'dashboard' }
+        );
+      }
+
+      return {
+        success: true,
+        status
+      };
+
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Error in updateBookingStatus:', error);
+      throw new HttpsError('internal', 'Failed to update booking status');
+    }
+  }
+);
@@ -20,6 +20,21 @@ export interface MagicLinkPayload {
   exp?: number;
 }
 
+export type BookingTokenPurpose = 'ics' | 'manage';
+
+export interface BookingTokenPayload {
+  bookingId: string;
+  purpose: BookingTokenPurpose;
+  iat?: number;
+  exp?: number;
+}
+
+export interface BookingTokenValidationResult {
+  valid: boolean;
+  payload?: BookingTokenPayload;
+  error?: string;
+}
+
 export interface TokenValidationResult {
   valid: boolean;
   payload?: MagicLinkPayload;
@@ -275,3 +290,191 @@ export function createShortLivedToken(
     };
   }
 }
+
+/**
+ * Creates a signed token granting access to a single booking
+ * (downloading its calendar file, or managing it from the confirmation link)
+ */
+export function createBookingToken(
+  bookingId: string,
+  purpose: BookingTokenPurpose,
+  expiresInDays: number = 180
+): MagicLinkResult {
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = new Date((now + (expiresInDays * 86400)) * 1000);
+
+    const payload: BookingTokenPayload = {
+      bookingId,
+      purpose,
+      iat: now
+    };
+
+    const token = jwt.sign(payload, jwtSecret.value(), {
+      algorithm: 'HS256',
+      expiresIn: `${expiresInDays}d`
+    });
+
+    return {
+      success: true,
+      token,
+      expiresAt
+    };
+
+  } catch (error) {
+    console.error('Error creating booking token:', error);
+    return {
+      success: false,
+      error: `Failed to create token: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
+
+/**
+ * Validates a booking access token for the expected purpose
+ */
+export function validateBookingToken(
+  token: string,
+  purpose: BookingTokenPurpose
+): BookingTokenValidationResult {
+  try {
+    const payload = jwt.verify(token, jwtSecret.value(), {
+      algorithms: ['HS256']
+    }) as BookingTokenPayload;
+
+    if (!payload.bookingId || payload.purpose !== purpose) {
+      return {
+        valid: false,
+        error: 'Invalid token payload'
+      };
+    }
+
+    return {
+      valid: true,
+      payload
+    };
+
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      return {
+        valid: false,
+        error: 'Token has expired'
+      };
+    }
+
+    if (error instanceof jwt.JsonWebTokenError) {
+      return {
+        valid: false,
+        error: 'Invalid token'
+      };
+    }
+
+    console.error('Error validating booking token:', error);
+    return {
+      valid: false,
+      error: `Token validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
+
+export type CustomerTokenPurpose = 'sign_in' | 'session';
+
+export interface CustomerTokenPayload {
+  email: string;
+  purpose: CustomerTokenPurpose;
+  iat?: number;
+  exp?: number;
+}
+
+export interface CustomerTokenValidationResult {
+  valid: boolean;
+  payload?: CustomerTokenPayload;
+  error?: string;
+}
+
+/**
+ * Creates a signed token for a customer's email: the short-lived one sent in
+ * the sign-in link, or the session it's exchanged for
+ */
+export function createCustomerToken(
+  email: string,
+  purpose: CustomerTokenPurpose,
+  expiresInMinutes: number = purpose === 'sign_in' ? 30 : 30 * 24 * 60
+): MagicLinkResult {
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = new Date((now + (expiresInMinutes * 60)) * 1000);
+
+    const payload: CustomerTokenPayload = {
+      email,
+      purpose,
+      iat: now
+    };
+
+    const token = jwt.sign(payload, jwtSecret.value(), {
+      algorithm: 'HS256',
+      expiresIn: `${expiresInMinutes}m`
+    });
+
+    return {
+      success: true,
+      token,
+      ...(purpose === 'sign_in' ? { url: `${publicAppUrl.value()}/me/sign-in?token=${token}` } : {}),
+      expiresAt
+    };
+
+  } catch (error) {
+    console.error('Error creating customer token:', error);
+    return {
+      success: false,
+      error: `Failed to create token: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
+
+/**
+ * Validates a customer token for the expected purpose
+ */
+export function validateCustomerToken(
+  token: string,
+  purpose: CustomerTokenPurpose
+): CustomerTokenValidationResult {
+  try {
+    const payload = jwt.verify(token, jwtSecret.value(), {
+      algorithms: ['HS256']
+    }) as CustomerTokenPayload;
+
+    if (!payload.email || payload.purpose !== purpose) {
+      return {
+        valid: false,
+        error: 'Invalid token payload'
+      };
+    }
+
+    return {
+      valid: true,
+      payload
+    };
+
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      return {
+        valid: false,
+        error: 'Token has expired'
+      };
+    }
+
+    if (error instanceof jwt.JsonWebTokenError) {
+      return {
+        valid: false,
+        error: 'Invalid token'
+      };
+    }
+
+    console.error('Error validating customer token:', error);
+    return {
+      valid: false,
+      error: `Token validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
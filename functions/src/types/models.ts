@@ -10,8 +10,12 @@ import type {
   FeatureFlagsDoc as SharedFeatureFlagsDoc,
   EmailEventDoc as SharedEmailEventDoc,
   DeadLetterQueueDoc as SharedDeadLetterQueueDoc,
-  EmailTemplate as SharedEmailTemplate,
-  LocalizedStrings as SharedLocalizedStrings
+  EmailTemplate,
+  LocalizedStrings,
+  BookingPolicy,
+  SlotInterval,
+  IntakeQuestion,
+  IntakeAnswer
 } from './shared';
 
 // Re-export shared types
@@ -27,9 +31,17 @@ export type {
   EmailEventDoc,
   DeadLetterQueueDoc,
   EmailTemplate,
-  LocalizedStrings
+  LocalizedStrings,
+  BookingPolicy,
+  SlotInterval,
+  IntakeQuestion,
+  IntakeAnswer
 };
 
+// Booking policies a level sets. `bufferTime`, the gap kept between
+// appointments before buffers were split, counts as the after buffer.
+export type BookingPolicySettings = Partial<BookingPolicy> & { bufferTime?: number };
+
 export type EmailEventType = 'delivered' | 'bounced' | 'opened' | 'clicked' | 'complained' | 'dropped';
 
 // Backend-specific WaitlistDoc that extends shared type with Firestore Timestamp
@@ -80,9 +92,37 @@ export interface OrgDoc {
     timezone: string;
     currency: string;
     language: Locale;
+    bookingSettings?: BookingPolicySettings; // defaults for every store and professional
   };
 }
 
+export type ScheduleExceptionType = 'closed' | 'custom_hours' | 'blocked';
+
+/**
+ * A date-specific change to a weekly schedule: closed all day, different
+ * hours, or a blocked range within the usual hours. Applies to every day
+ * from `startDate` to `endDate`.
+ */
+export interface ScheduleException {
+  id: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive; same as startDate for a single day
+  type: ScheduleExceptionType;
+  start?: string; // HH:MM, for custom hours and blocked ranges
+  end?: string; // HH:MM
+  reason?: string; // e.g. "Vacation", "Christmas"
+}
+
+/**
+ * A room, chair or piece of equipment a store has a fixed number of, shared
+ * by everyone working there
+ */
+export interface StoreResource {
+  id: string;
+  name: string; // e.g. "Massage room"
+  quantity: number; // how many the store has, booked one unit at a time
+}
+
 export interface StoreDoc {
   id: string;
   orgId: string;
@@ -107,13 +147,18 @@ export interface StoreDoc {
       closed: boolean;
     };
   };
+  scheduleExceptions?: ScheduleException[]; // holidays and one-off hours
+  resources?: StoreResource[];
   settings: {
     timezone: string;
     currency: string;
-    bookingSettings: {
+    bookingSettings: BookingPolicySettings & {
       advanceBookingDays: number;
       cancellationHours: number;
       bufferTime: number;
+      reminderOffsets?: number[]; // hours before the appointment, e.g. [24, 2]
+      paymentRequirements?: Record<string, PaymentRequirement>; // by service ID, paymentsAlpha only
+      noShowDeposit?: NoShowDepositPolicy; // paymentsAlpha only
     };
   };
   createdAt: Timestamp;
@@ -128,6 +173,7 @@ export interface ProfessionalDoc {
   name: string;
   slug: string;
   title: string;
+  storeId?: string; // store the professional works at, omitted for solo professionals
   bio?: string;
   avatar?: string;
   specialties: string[];
@@ -139,10 +185,11 @@ export interface ProfessionalDoc {
       available: boolean;
     };
   };
+  scheduleExceptions?: ScheduleException[]; // time off and one-off hours
   settings: {
     timezone: string;
     currency: string;
-    bookingSettings: {
+    bookingSettings: BookingPolicySettings & {
       sessionDuration: number;
       advanceBookingDays: number;
       cancellationHours: number;
@@ -153,6 +200,297 @@ export interface ProfessionalDoc {
   createdBy: string;
 }
 
+export interface ServiceDoc {
+  id: string;
+  orgId: string;
+  name: string;
+  slug: string;
+  description?: string;
+  durationMin: number;
+  price: number;
+  capacity?: number; // seats per class; services with a capacity are booked into scheduled sessions
+  requiredResources?: string[]; // IDs of the store resources the service takes one unit of each
+  bookingSettings?: BookingPolicySettings; // overrides the professional's, store's and org's
+  intakeQuestions?: IntakeQuestion[]; // asked when the service is booked
+  active: boolean;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  createdBy: string;
+}
+
+export type BookingStatus = 'draft' | 'confirmed' | 'checked_in' | 'completed' | 'no_show' | 'cancelled';
+
+/**
+ * Marks a booking that a schedule exception added after it was booked
+ * overlaps, so staff can follow up with the customer
+ */
+export interface ScheduleConflictFlag {
+  source: 'professional' | 'store';
+  exceptionId: string;
+  reason?: string;
+  flaggedAt: Timestamp;
+}
+
+export type PaymentMode = 'deposit' | 'full';
+
+export interface PaymentRequirement {
+  mode: PaymentMode;
+  amount?: number; // deposit, in the store's currency; capped at the service price
+}
+
+/**
+ * Upfront payment asked of customers who didn't turn up for earlier
+ * bookings with the org, on services that don't already require more
+ */
+export interface NoShowDepositPolicy {
+  after: number; // no-shows it takes, e.g. 2 for the second one onwards
+  requirement: PaymentRequirement;
+}
+
+export type PaymentStatus = 'pending' | 'paid' | 'failed';
+
+export interface BookingPayment {
+  provider: string;
+  intentId: string | null; // set once the provider has created the intent
+  mode: PaymentMode;
+  amountDue: number;
+  amountPaid: number;
+  currency: string;
+  status: PaymentStatus;
+  paidAt?: Timestamp;
+  refundedAmount?: number;
+  refundId?: string;
+  refundedAt?: Timestamp;
+}
+
+export interface BookingCustomer {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  notes?: string;
+}
+
+/**
+ * A customer who signed in with an emailed link, kept apart from staff
+ * `UserDoc`s. The document ID is derived from the email, so each email has
+ * one profile.
+ */
+export interface CustomerDoc {
+  id: string;
+  email: string; // lowercase
+  firstName?: string; // saved from the last booking made while signed in
+  lastName?: string;
+  phone?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  lastSignInAt: Timestamp;
+}
+
+/**
+ * A customer's record with one org, keyed like `CustomerDoc` by their email
+ * but kept for every customer, signed in or not
+ */
+export interface OrgCustomerStatsDoc {
+  id: string;
+  email: string; // lowercase
+  noShowCount: number;
+  lastNoShowAt?: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * A reminder sent, handed to the DLQ, or being sent: `claimedAt` is only set
+ * while a send is in flight
+ */
+export interface ReminderComms extends ConfirmationComms {
+  claimedAt?: Timestamp;
+}
+
+export interface BookingServiceLine {
+  serviceId: string;
+  serviceName: string;
+  duration: number; // minutes
+  price: number;
+}
+
+// The unit of a store resource a booking takes for its whole duration
+export interface BookingResource {
+  resourceId: string;
+  name: string;
+  unit: number; // 1-based, e.g. 2 for "Massage room 2"
+}
+
+export interface BookingDoc {
+  id: string;
+  orgId: string;
+  storeId: string | null;
+  professionalId: string;
+  serviceId: string; // first service of the booking
+  serviceName: string; // all service names, e.g. "Haircut + Hair Coloring"
+  price: number; // total of all services
+  services?: BookingServiceLine[]; // in the order they're performed; absent on older bookings
+  autoAssigned?: boolean; // customer asked for any professional and the server picked one
+  payment?: BookingPayment; // only when the store requires a deposit or prepayment
+  seriesId?: string; // occurrence of a recurring series
+  sessionId?: string; // seat in a class session, under the booking's org
+  source?: 'staff'; // added by staff from the dashboard; absent for customer bookings
+  createdBy?: string; // UID of the staff member who added it
+  availabilityOverridden?: boolean; // staff booked it at a time that wasn't free
+  resources?: BookingResource[]; // store resources the booking's services require
+  cancellationHours?: number; // the policy when it was booked; absent on older bookings
+  scheduleConflict?: ScheduleConflictFlag; // set when time off added later overlaps the booking
+  date: string; // YYYY-MM-DD, wall-clock date in the schedule's timezone
+  time: string; // HH:MM, wall-clock time in the schedule's timezone
+  duration: number; // minutes, total of all services
+  timezone: string;
+  customer: BookingCustomer;
+  intake?: IntakeAnswer[]; // answers to the services' intake questions
+  status: BookingStatus;
+  expiresAt?: Timestamp; // drafts only: when they stop holding the slot unless confirmed
+  confirmationCode?: string;
+  confirmedAt?: Timestamp;
+  checkedInAt?: Timestamp;
+  completedAt?: Timestamp;
+  noShowAt?: Timestamp;
+  statusUpdatedBy?: string; // UID of the staff member who last checked in, completed or marked a no-show
+  sequence?: number; // ICS SEQUENCE, bumped on every reschedule or cancellation
+  rescheduledAt?: Timestamp; // last moved to another time; reminders are worked out from then
+  cancelledAt?: Timestamp;
+  cancellationReason?: string;
+  locale?: Locale; // language of customer emails
+  comms?: {
+    confirmation?: ConfirmationComms;
+    reminders?: Record<string, ReminderComms>; // keyed by offset, e.g. "24h"
+  };
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface RecurrenceRule {
+  interval: number; // weeks between occurrences
+  count?: number; // number of occurrences, or
+  until?: string; // YYYY-MM-DD, last possible date
+}
+
+/**
+ * A weekly series of bookings. Every occurrence is a booking with the
+ * series' ID; the series only describes the pattern for calendar files.
+ */
+export interface BookingSeriesDoc {
+  id: string;
+  orgId: string;
+  storeId: string | null;
+  professionalId: string;
+  rule: RecurrenceRule;
+  rrule: string; // e.g. FREQ=WEEKLY;INTERVAL=2;COUNT=6
+  startDate: string; // YYYY-MM-DD, first date of the pattern
+  time: string; // HH:MM
+  duration: number; // minutes
+  timezone: string;
+  occurrences: string[]; // every date of the pattern, booked or not
+  exdates: string[]; // dates left out: unavailable when booking, or cancelled since
+  sequence?: number; // ICS SEQUENCE of the series' calendar file
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type ClassSessionStatus = 'scheduled' | 'cancelled';
+
+/**
+ * A scheduled session of a class service, stored under its org at
+ * orgs/{orgId}/classSessions. Customers book seats instead of slots.
+ */
+export interface ClassSessionDoc {
+  id: string;
+  orgId: string;
+  serviceId: string;
+  professionalId: string;
+  storeId: string | null;
+  date: string; // YYYY-MM-DD, wall-clock date in the session's timezone
+  time: string; // HH:MM, wall-clock time in the session's timezone
+  duration: number; // minutes
+  timezone: string;
+  capacity: number; // seats, defaults to the service's capacity
+  seatsBooked: number; // maintained by booking functions only
+  status: ClassSessionStatus;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  createdBy: string;
+}
+
+export type SessionWaitlistStatus = 'waiting' | 'notified';
+
+/**
+ * A customer waiting for a seat in a full class session, stored at
+ * orgs/{orgId}/classSessions/{sessionId}/waitlist
+ */
+export interface SessionWaitlistEntryDoc {
+  id: string;
+  customer: {
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  locale?: Locale;
+  status: SessionWaitlistStatus;
+  createdAt: Timestamp;
+  notifiedAt?: Timestamp;
+}
+
+export type BookingWaitlistStatus = 'waiting' | 'notified' | 'booked' | 'expired';
+
+/**
+ * A customer who found no free time and asked to be told when a slot opens
+ * up for their services in a date window, stored at bookingWaitlist/{entryId}.
+ * Separate from the product signup waitlist.
+ */
+export interface BookingWaitlistEntryDoc {
+  id: string;
+  orgId: string;
+  storeId: string | null;
+  professionalId: string; // or ANY_PROFESSIONAL, which requires a store
+  serviceIds: string[]; // in the order they're performed
+  serviceName: string; // all service names, e.g. "Haircut + Hair Coloring"
+  dateFrom: string; // YYYY-MM-DD, first acceptable date
+  dateTo: string; // YYYY-MM-DD, last acceptable date
+  customer: {
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  locale?: Locale;
+  status: BookingWaitlistStatus;
+  claim?: {
+    holdId: string; // hold keeping the slot for the customer until it expires
+    professionalId: string;
+    date: string;
+    time: string;
+    expiresAt: Timestamp;
+  };
+  bookingId?: string; // once the claim was booked
+  createdAt: Timestamp;
+  notifiedAt?: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Keeps a slot out of everyone else's availability while a customer fills
+ * in their details
+ */
+export interface SlotHoldDoc {
+  id: string;
+  professionalId: string;
+  date: string; // YYYY-MM-DD, wall-clock date in the schedule's timezone
+  time: string; // HH:MM, wall-clock time in the schedule's timezone
+  duration: number; // minutes, total of the held services
+  storeId?: string; // set when the hold takes store resources
+  resources?: BookingResource[]; // store resource units held along with the professional
+  waitlistEntryId?: string; // booking waitlist entry the slot is held for
+  expiresAt: Timestamp;
+  createdAt: Timestamp;
+}
+
 export interface PublicLinkDoc {
   id: string;
   orgId: string;
@@ -263,6 +601,7 @@ export interface ResendEmailPayload {
   html: string;
   headers?: Record<string, string>;
   tags?: { name: string; value: string }[];
+  attachments?: { filename: string; content: Buffer; contentType?: string }[];
 }
 
 export interface ResendWebhookPayload {
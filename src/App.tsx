@@ -2,6 +2,7 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { Suspense, lazy } from 'react';
 import { LanguageProvider } from './contexts/LanguageContext';
 import { AuthProvider } from './contexts/AuthContext';
+import { CustomerProvider } from './contexts/CustomerContext';
 import { ToastProvider } from './components/ToastProvider';
 import ErrorBoundary from './components/ErrorBoundary';
 import LoadingSpinner from './components/LoadingSpinner';
@@ -25,56 +26,78 @@ const SoloBookingRoute = lazy(
   () => import('./features/booking/components/SoloBookingRoute')
 );
 const BookingSuccess = lazy(() => import('./pages/booking/BookingSuccess'));
+const ManageBooking = lazy(() => import('./pages/booking/ManageBooking'));
+
+// Lazy load customer account pages
+const CustomerSignIn = lazy(() => import('./pages/customer/CustomerSignIn'));
+const MyBookings = lazy(() => import('./pages/customer/MyBookings'));
 
 function App() {
   return (
     <ErrorBoundary>
       <AuthProvider>
-        <LanguageProvider>
-          <ToastProvider>
-            <Router>
-              <Suspense
-                fallback={
-                  <LoadingSpinner
-                    size='lg'
-                    text='Loading...'
-                    className='min-h-screen'
-                  />
-                }
-              >
-                <Routes>
-                  <Route path='/' element={<Landing />} />
-                  <Route path='/admin' element={<Admin />} />
-                  <Route path='/dashboard' element={<Dashboard />} />
-                  <Route path='/invite/:token' element={<InviteConsume />} />
+        <CustomerProvider>
+          <LanguageProvider>
+            <ToastProvider>
+              <Router>
+                <Suspense
+                  fallback={
+                    <LoadingSpinner
+                      size='lg'
+                      text='Loading...'
+                      className='min-h-screen'
+                    />
+                  }
+                >
+                  <Routes>
+                    <Route path='/' element={<Landing />} />
+                    <Route path='/admin' element={<Admin />} />
+                    <Route path='/dashboard' element={<Dashboard />} />
+                    <Route path='/invite/:token' element={<InviteConsume />} />
+
+                    {/* Booking Routes */}
+                    <Route
+                      path='/book/:brandSlug/:storeSlug'
+                      element={<BookingRoute />}
+                    />
+                    <Route
+                      path='/book/:brandSlug/:storeSlug/:proSlug'
+                      element={<BookingRoute />}
+                    />
+                    <Route
+                      path='/book/u/:proSlug'
+                      element={<SoloBookingRoute />}
+                    />
+                    <Route
+                      path='/booking/success'
+                      element={<BookingSuccess />}
+                    />
+                    <Route
+                      path='/booking/manage/:token'
+                      element={<ManageBooking />}
+                    />
 
-                  {/* Booking Routes */}
-                  <Route
-                    path='/book/:brandSlug/:storeSlug/:proSlug'
-                    element={<BookingRoute />}
-                  />
-                  <Route
-                    path='/book/u/:proSlug'
-                    element={<SoloBookingRoute />}
-                  />
-                  <Route path='/booking/success' element={<BookingSuccess />} />
+                    {/* Customer Account Routes */}
+                    <Route path='/me/sign-in' element={<CustomerSignIn />} />
+                    <Route path='/me/bookings' element={<MyBookings />} />
 
-                  {/* Public Routes */}
-                  <Route path='/:brandSlug' element={<NewBrandPage />} />
-                  <Route
-                    path='/:brandSlug/:storeSlug'
-                    element={<NewStorePage />}
-                  />
-                  <Route
-                    path='/:brandSlug/:storeSlug/:proSlug'
-                    element={<NewProPage />}
-                  />
-                  <Route path='/u/:proSlug' element={<NewProPage />} />
-                </Routes>
-              </Suspense>
-            </Router>
-          </ToastProvider>
-        </LanguageProvider>
+                    {/* Public Routes */}
+                    <Route path='/:brandSlug' element={<NewBrandPage />} />
+                    <Route
+                      path='/:brandSlug/:storeSlug'
+                      element={<NewStorePage />}
+                    />
+                    <Route
+                      path='/:brandSlug/:storeSlug/:proSlug'
+                      element={<NewProPage />}
+                    />
+                    <Route path='/u/:proSlug' element={<NewProPage />} />
+                  </Routes>
+                </Suspense>
+              </Router>
+            </ToastProvider>
+          </LanguageProvider>
+        </CustomerProvider>
       </AuthProvider>
     </ErrorBoundary>
   );
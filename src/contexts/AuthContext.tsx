@@ -149,7 +149,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
 
     const unsubscribe = onAuthStateChanged(auth, async firebaseUser => {
-      if (firebaseUser) {
+      // Customers are signed in anonymously to upload intake photos
+      if (firebaseUser && !firebaseUser.isAnonymous) {
         const roles = await extractRolesFromToken(firebaseUser);
         setUser(createAuthUser(firebaseUser, roles));
       } else {
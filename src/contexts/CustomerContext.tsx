@@ -0,0 +1,102 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import {
+  clearCustomerSession,
+  getStoredCustomerSession,
+  saveCustomerSession,
+} from '../features/customer/session';
+import { redeemCustomerSignIn } from '../features/customer/services/customerService';
+import type {
+  CustomerProfile,
+  CustomerSession,
+} from '../features/customer/types';
+
+/**
+ * Signed-in customer, separate from staff and admins in AuthContext
+ */
+interface CustomerContextType {
+  session: CustomerSession | null;
+  profile: CustomerProfile | null;
+  signIn: (token: string) => Promise<void>;
+  signOut: () => void;
+  updateProfile: (profile: CustomerProfile) => void;
+}
+
+const CustomerContext = createContext<CustomerContextType | undefined>(
+  undefined
+);
+
+interface CustomerProviderProps {
+  children: ReactNode;
+}
+
+export const CustomerProvider: React.FC<CustomerProviderProps> = ({
+  children,
+}) => {
+  const [session, setSession] = useState<CustomerSession | null>(() =>
+    getStoredCustomerSession()
+  );
+
+  // Pick up sign-ins and sign-outs from other tabs, e.g. the one the
+  // emailed link opened while a booking is in progress
+  useEffect(() => {
+    const handleStorage = () => setSession(getStoredCustomerSession());
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Exchange the token from a sign-in link for a session
+  const signIn = useCallback(async (token: string) => {
+    const newSession = await redeemCustomerSignIn(token);
+    saveCustomerSession(newSession);
+    setSession(newSession);
+  }, []);
+
+  const signOut = useCallback(() => {
+    clearCustomerSession();
+    setSession(null);
+  }, []);
+
+  // Keep the stored profile in step with the one loaded from the server
+  const updateProfile = useCallback((profile: CustomerProfile) => {
+    setSession(prev => {
+      if (!prev) return prev;
+      const next = { ...prev, profile };
+      saveCustomerSession(next);
+      return next;
+    });
+  }, []);
+
+  const value = useMemo<CustomerContextType>(
+    () => ({
+      session,
+      profile: session?.profile ?? null,
+      signIn,
+      signOut,
+      updateProfile,
+    }),
+    [session, signIn, signOut, updateProfile]
+  );
+
+  return (
+    <CustomerContext.Provider value={value}>
+      {children}
+    </CustomerContext.Provider>
+  );
+};
+
+// Hook to use customer context
+export const useCustomer = (): CustomerContextType => {
+  const context = useContext(CustomerContext);
+  if (context === undefined) {
+    throw new Error('useCustomer must be used within a CustomerProvider');
+  }
+  return context;
+};
@@ -1,26 +1,30 @@
 /**
  * Booking route component
- * Extracts context from URL parameters and renders the booking wizard
+ * Extracts context from URL parameters and renders the booking wizard.
+ * Without a professional in the URL the customer books any professional at
+ * the store.
  */
 
 import React from 'react';
 import { useParams } from 'react-router-dom';
 import { BookingWizardWrapper } from './BookingWizardWrapper';
+import { ANY_PROFESSIONAL } from '../utils';
 
 export const BookingRoute: React.FC = () => {
   const params = useParams<{
     brandSlug?: string;
     storeSlug?: string;
-    proSlug: string;
+    proSlug?: string;
   }>();
 
   const context = {
     brandId: params.brandSlug || '',
     brandSlug: params.brandSlug || '',
-    storeId: params.storeSlug,
-    storeSlug: params.storeSlug,
-    professionalId: params.proSlug,
-    professionalSlug: params.proSlug,
+    ...(params.storeSlug
+      ? { storeId: params.storeSlug, storeSlug: params.storeSlug }
+      : {}),
+    professionalId: params.proSlug || ANY_PROFESSIONAL,
+    ...(params.proSlug ? { professionalSlug: params.proSlug } : {}),
   };
 
   return <BookingWizardWrapper context={context} />;
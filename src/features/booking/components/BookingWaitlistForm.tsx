@@ -0,0 +1,181 @@
+/**
+ * Booking waitlist form
+ * Lets a customer ask to be emailed when a time opens up for their services
+ * in a date window
+ */
+
+import React, { useState } from 'react';
+import { Input } from '../../../components/ui/Input';
+import { Button } from '../../../components/ui/Button';
+import { bookingService } from '../services/bookingService';
+import type { BookingContext } from '../types';
+
+// Longest window the server accepts
+const MAX_WINDOW_DAYS = 31;
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0] ?? '';
+
+const addDays = (dateString: string, days: number) => {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateString(date);
+};
+
+interface BookingWaitlistFormProps {
+  context: BookingContext;
+  serviceIds: string[];
+  serviceLabel: string; // e.g. "Haircut + Beard trim"
+  initialDate?: string; // YYYY-MM-DD, defaults to today
+  onClose?: () => void;
+}
+
+export const BookingWaitlistForm: React.FC<BookingWaitlistFormProps> = ({
+  context,
+  serviceIds,
+  serviceLabel,
+  initialDate,
+  onClose,
+}) => {
+  const today = toDateString(new Date());
+  const [dates, setDates] = useState(() => {
+    const dateFrom = initialDate && initialDate > today ? initialDate : today;
+    return { dateFrom, dateTo: addDays(dateFrom, 7) };
+  });
+  const [customer, setCustomer] = useState({
+    firstName: '',
+    lastName: '',
+    email: '',
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [joined, setJoined] = useState(false);
+
+  const isValidWindow =
+    dates.dateFrom >= today &&
+    dates.dateTo >= dates.dateFrom &&
+    dates.dateTo <= addDays(dates.dateFrom, MAX_WINDOW_DAYS);
+
+  const isValid =
+    isValidWindow &&
+    !!customer.firstName.trim() &&
+    !!customer.lastName.trim() &&
+    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(customer.email);
+
+  const handleChange = (field: keyof typeof customer, value: string) => {
+    setCustomer(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await bookingService.joinBookingWaitlist(
+        context,
+        serviceIds,
+        dates,
+        customer
+      );
+      setJoined(true);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to join the waitlist'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (joined) {
+    return (
+      <div className='mt-6 p-4 bg-green-50 border border-green-200 rounded-lg text-left'>
+        <p className='text-green-800'>
+          You're on the waitlist. If a time opens up between {dates.dateFrom}{' '}
+          and {dates.dateTo}, we'll hold it for you and email you a link to book
+          it.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className='mt-6 p-4 bg-gray-50 border border-gray-200 rounded-lg text-left'>
+      <h3 className='text-lg font-semibold text-gray-900 mb-2'>
+        Notify me if something opens
+      </h3>
+      <p className='text-sm text-gray-600 mb-4'>
+        Tell us which days suit you for {serviceLabel}. If a time opens up,
+        we'll hold it for you for a while and email you a link to book it.
+      </p>
+      <div className='grid grid-cols-1 md:grid-cols-2 gap-4 mb-4'>
+        <Input
+          type='date'
+          label='From'
+          value={dates.dateFrom}
+          min={today}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setDates(prev => ({ ...prev, dateFrom: e.target.value }))
+          }
+          disabled={submitting}
+        />
+        <Input
+          type='date'
+          label='To'
+          value={dates.dateTo}
+          min={dates.dateFrom}
+          max={addDays(dates.dateFrom, MAX_WINDOW_DAYS)}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setDates(prev => ({ ...prev, dateTo: e.target.value }))
+          }
+          disabled={submitting}
+        />
+      </div>
+      <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+        <Input
+          type='text'
+          value={customer.firstName}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            handleChange('firstName', e.target.value)
+          }
+          placeholder='First name'
+          disabled={submitting}
+        />
+        <Input
+          type='text'
+          value={customer.lastName}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            handleChange('lastName', e.target.value)
+          }
+          placeholder='Last name'
+          disabled={submitting}
+        />
+        <Input
+          type='email'
+          value={customer.email}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            handleChange('email', e.target.value)
+          }
+          placeholder='Email'
+          disabled={submitting}
+        />
+      </div>
+      {!isValidWindow && (
+        <p className='mt-3 text-sm text-red-600'>
+          Choose dates from today on, at most {MAX_WINDOW_DAYS} days apart.
+        </p>
+      )}
+      {error && <p className='mt-3 text-sm text-red-600'>{error}</p>}
+      <div className='mt-4 flex gap-4 justify-end'>
+        {onClose && (
+          <Button variant='secondary' onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+        )}
+        <Button onClick={handleSubmit} disabled={!isValid || submitting}>
+          {submitting ? 'Joining...' : 'Notify me'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -10,7 +10,14 @@ import { ServiceSelectionStep } from './steps/ServiceSelectionStep';
 import { AvailabilityStep } from './steps/AvailabilityStep';
 import { CustomerInfoStep } from './steps/CustomerInfoStep';
 import { ConfirmationStep } from './steps/ConfirmationStep';
+import { PaymentStep } from './steps/PaymentStep';
 import { BookingProgress } from './BookingProgress';
+import { SlotHoldCountdown } from './SlotHoldCountdown';
+import {
+  bookingService,
+  SlotUnavailableError,
+} from '../services/bookingService';
+import { logger } from '../../../lib/logger';
 import { Card, CardContent } from '../../../components/ui/Card';
 import { Button } from '../../../components/ui/Button';
 import { ArrowLeft, ArrowRight } from 'lucide-react';
@@ -29,13 +36,62 @@ interface BookingWizardProps {
 const BookingWizardContent: React.FC = () => {
   const { state, dispatch, canProceed, canGoBack } = useBooking();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  // A booking waitlist claim link holds its slot for the customer
+  const claimHoldId = searchParams.get('claim') ?? undefined;
+
+  // Hold the chosen slot while the customer fills in their details. Class
+  // seats aren't held; the seat is taken when the booking is made. The first
+  // hold takes over the one from a waitlist claim link.
+  const holdSelectedSlot = async () => {
+    if (!state.context || !state.selectedSlot) return true;
+    if (state.selectedSlot.sessionId) {
+      dispatch({ type: 'SET_SLOT_HOLD', payload: null });
+      return true;
+    }
 
-  const handleNext = () => {
-    if (canProceed) {
-      dispatch({ type: 'NEXT_STEP' });
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
+      const hold = await bookingService.holdSlot(
+        state.context,
+        state.selectedServices.map(service => service.id),
+        state.selectedSlot,
+        state.slotHold?.id ?? claimHoldId
+      );
+      dispatch({ type: 'SET_SLOT_HOLD', payload: hold });
+      return true;
+    } catch (error) {
+      if (error instanceof SlotUnavailableError) {
+        dispatch({
+          type: 'SET_ERROR',
+          payload:
+            'Sorry, that time was just taken by someone else. Please choose another slot.',
+        });
+        return false;
+      }
+
+      // Holding is best effort: the slot is checked again when booking
+      logger.error('Error holding slot', error as Error, {
+        component: 'BookingWizard',
+      });
+      dispatch({ type: 'SET_SLOT_HOLD', payload: null });
+      return true;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
     }
   };
 
+  const handleNext = async () => {
+    if (!canProceed) return;
+
+    if (state.currentStep === 1 && !(await holdSelectedSlot())) {
+      return;
+    }
+
+    dispatch({ type: 'NEXT_STEP' });
+  };
+
   const handleBack = () => {
     if (canGoBack) {
       dispatch({ type: 'PREV_STEP' });
@@ -57,6 +113,8 @@ const BookingWizardContent: React.FC = () => {
         return <CustomerInfoStep />;
       case 3:
         return <ConfirmationStep />;
+      case 4:
+        return <PaymentStep />;
       default:
         return <ServiceSelectionStep />;
     }
@@ -78,6 +136,12 @@ const BookingWizardContent: React.FC = () => {
         {/* Progress Indicator */}
         <BookingProgress />
 
+        {state.slotHold &&
+          !state.bookingDraft &&
+          (state.currentStep === 2 || state.currentStep === 3) && (
+            <SlotHoldCountdown expiresAt={state.slotHold.expiresAt} />
+          )}
+
         {/* Main Content */}
         <Card className='mt-8'>
           <CardContent className='p-8'>{renderCurrentStep()}</CardContent>
@@ -103,7 +167,7 @@ const BookingWizardContent: React.FC = () => {
             {state.currentStep < 3 && (
               <Button
                 onClick={handleNext}
-                disabled={!canProceed}
+                disabled={!canProceed || state.isLoading}
                 className='flex items-center space-x-2'
               >
                 <span>Next</span>
@@ -0,0 +1,73 @@
+/**
+ * Intake answers list
+ * Shows staff what a customer answered to a booking's intake questions
+ */
+
+import React, { useState } from 'react';
+import { Button } from '../../../components/ui/Button';
+import { getIntakePhotoUrl } from '../services/intakeService';
+import type { IntakeAnswer } from '../../../types/shared';
+
+interface IntakeAnswersListProps {
+  bookingId: string;
+  answers: IntakeAnswer[];
+}
+
+export const IntakeAnswersList: React.FC<IntakeAnswersListProps> = ({
+  bookingId,
+  answers,
+}) => {
+  const [opening, setOpening] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenPhoto = async (questionId: string) => {
+    try {
+      setOpening(questionId);
+      setError(null);
+      window.open(
+        await getIntakePhotoUrl(bookingId, questionId),
+        '_blank',
+        'noopener'
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open the photo');
+    } finally {
+      setOpening(null);
+    }
+  };
+
+  if (answers.length === 0) {
+    return <p className='text-sm text-gray-500'>No intake answers</p>;
+  }
+
+  return (
+    <dl className='space-y-2 text-sm'>
+      {answers.map(answer => (
+        <div key={answer.questionId}>
+          <dt className='font-medium text-gray-700'>{answer.label}</dt>
+          <dd className='text-gray-900'>
+            {answer.type === 'photo' ? (
+              <Button
+                variant='outline'
+                size='sm'
+                onClick={() => handleOpenPhoto(answer.questionId)}
+                disabled={opening !== null}
+              >
+                {opening === answer.questionId ? 'Opening...' : 'View photo'}
+              </Button>
+            ) : typeof answer.value === 'boolean' ? (
+              answer.value ? (
+                'Yes'
+              ) : (
+                'No'
+              )
+            ) : (
+              answer.value
+            )}
+          </dd>
+        </div>
+      ))}
+      {error && <p className='text-red-600'>{error}</p>}
+    </dl>
+  );
+};
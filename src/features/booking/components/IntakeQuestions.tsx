@@ -0,0 +1,163 @@
+/**
+ * Intake questions
+ * Renders the questions the selected services ask, e.g. allergies, consent
+ * checkboxes, dropdowns and reference photo uploads
+ */
+
+import React, { useState } from 'react';
+import { Input } from '../../../components/ui/Input';
+import { uploadIntakePhoto } from '../services/intakeService';
+import type { IntakeQuestion } from '../../../types/shared';
+import type { IntakeAnswers } from '../types';
+
+interface IntakeQuestionsProps {
+  questions: IntakeQuestion[];
+  answers: IntakeAnswers;
+  errors: Record<string, string>;
+  onChange: (questionId: string, value: string | boolean) => void;
+  onUploadingChange: (uploading: boolean) => void;
+}
+
+export const IntakeQuestions: React.FC<IntakeQuestionsProps> = ({
+  questions,
+  answers,
+  errors,
+  onChange,
+  onUploadingChange,
+}) => {
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [uploadErrors, setUploadErrors] = useState<Record<string, string>>({});
+
+  const handlePhoto = async (questionId: string, file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setUploading(questionId);
+      onUploadingChange(true);
+      setUploadErrors(prev => ({ ...prev, [questionId]: '' }));
+      onChange(questionId, await uploadIntakePhoto(file));
+    } catch (err) {
+      setUploadErrors(prev => ({
+        ...prev,
+        [questionId]:
+          err instanceof Error ? err.message : 'Failed to upload the photo',
+      }));
+    } finally {
+      setUploading(null);
+      onUploadingChange(false);
+    }
+  };
+
+  const renderField = (question: IntakeQuestion) => {
+    const value = answers[question.id];
+    const fieldClassName = errors[question.id] ? 'border-red-500' : '';
+
+    switch (question.type) {
+      case 'textarea':
+        return (
+          <textarea
+            id={`intake-${question.id}`}
+            value={typeof value === 'string' ? value : ''}
+            onChange={e => onChange(question.id, e.target.value)}
+            className={`w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent ${fieldClassName}`}
+            rows={3}
+          />
+        );
+      case 'select':
+        return (
+          <select
+            id={`intake-${question.id}`}
+            value={typeof value === 'string' ? value : ''}
+            onChange={e => onChange(question.id, e.target.value)}
+            className={`w-full border border-gray-300 rounded-md px-3 py-2 ${fieldClassName}`}
+          >
+            <option value=''>Choose an option</option>
+            {(question.options || []).map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      case 'checkbox':
+        return (
+          <label className='flex items-start space-x-2 text-sm text-gray-700'>
+            <input
+              id={`intake-${question.id}`}
+              type='checkbox'
+              checked={value === true}
+              onChange={e => onChange(question.id, e.target.checked)}
+              className='mt-1'
+            />
+            <span>
+              {question.label}
+              {question.required && ' *'}
+            </span>
+          </label>
+        );
+      case 'photo':
+        return (
+          <div>
+            <input
+              id={`intake-${question.id}`}
+              type='file'
+              accept='image/*'
+              onChange={e => handlePhoto(question.id, e.target.files?.[0])}
+              disabled={uploading !== null}
+              className='text-sm text-gray-700'
+            />
+            {uploading === question.id && (
+              <p className='mt-1 text-sm text-gray-500'>Uploading...</p>
+            )}
+            {typeof value === 'string' &&
+              value &&
+              uploading !== question.id && (
+                <p className='mt-1 text-sm text-green-700'>Photo uploaded</p>
+              )}
+            {uploadErrors[question.id] && (
+              <p className='mt-1 text-sm text-red-600'>
+                {uploadErrors[question.id]}
+              </p>
+            )}
+          </div>
+        );
+      default:
+        return (
+          <Input
+            id={`intake-${question.id}`}
+            type='text'
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              onChange(question.id, e.target.value)
+            }
+            className={fieldClassName}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className='space-y-6'>
+      {questions.map(question => (
+        <div key={question.id}>
+          {question.type !== 'checkbox' && (
+            <label
+              htmlFor={`intake-${question.id}`}
+              className='block text-sm font-medium text-gray-700 mb-2'
+            >
+              {question.label}
+              {question.required ? ' *' : ' (Optional)'}
+            </label>
+          )}
+          {renderField(question)}
+          {question.helpText && (
+            <p className='mt-1 text-sm text-gray-500'>{question.helpText}</p>
+          )}
+          {errors[question.id] && (
+            <p className='mt-1 text-sm text-red-600'>{errors[question.id]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
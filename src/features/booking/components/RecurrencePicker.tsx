@@ -0,0 +1,125 @@
+/**
+ * Recurrence picker
+ * Lets the customer repeat an appointment every N weeks, ending after a
+ * number of appointments or on a date
+ */
+
+import React from 'react';
+import { Checkbox } from '../../../components/ui/Checkbox';
+import type { RecurrenceRule } from '../types';
+
+const MAX_INTERVAL = 4; // weeks
+const MAX_COUNT = 52;
+const DEFAULT_COUNT = 4;
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | null;
+  onChange: (value: RecurrenceRule | null) => void;
+  startDate: string; // YYYY-MM-DD, first appointment
+  disabled?: boolean;
+}
+
+export const RecurrencePicker: React.FC<RecurrencePickerProps> = ({
+  value,
+  onChange,
+  startDate,
+  disabled = false,
+}) => {
+  const endsOnDate = value?.until !== undefined;
+
+  const changeInterval = (interval: number) => {
+    if (value) onChange({ ...value, interval });
+  };
+
+  const changeCount = (count: number) => {
+    if (value) onChange({ interval: value.interval, count });
+  };
+
+  const changeUntil = (until: string) => {
+    if (value) onChange({ interval: value.interval, until });
+  };
+
+  return (
+    <div className='space-y-4'>
+      <label className='flex items-center space-x-3'>
+        <Checkbox
+          checked={!!value}
+          onChange={event =>
+            onChange(
+              event.target.checked
+                ? { interval: 1, count: DEFAULT_COUNT }
+                : null
+            )
+          }
+          disabled={disabled}
+        />
+        <span className='text-gray-900'>Repeat this appointment</span>
+      </label>
+
+      {value && (
+        <div className='pl-7 space-y-3 text-sm text-gray-700'>
+          <div className='flex items-center space-x-2'>
+            <span>Every</span>
+            <select
+              value={value.interval}
+              onChange={event => changeInterval(Number(event.target.value))}
+              disabled={disabled}
+              className='border border-gray-300 rounded-md px-2 py-1'
+            >
+              {Array.from(
+                { length: MAX_INTERVAL },
+                (_, index) => index + 1
+              ).map(interval => (
+                <option key={interval} value={interval}>
+                  {interval === 1 ? 'week' : `${interval} weeks`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className='flex items-center space-x-2'>
+            <input
+              type='radio'
+              checked={!endsOnDate}
+              onChange={() => changeCount(value.count || DEFAULT_COUNT)}
+              disabled={disabled}
+            />
+            <span>After</span>
+            <input
+              type='number'
+              min={2}
+              max={MAX_COUNT}
+              value={value.count ?? DEFAULT_COUNT}
+              onChange={event =>
+                changeCount(
+                  Math.min(Math.max(Number(event.target.value), 2), MAX_COUNT)
+                )
+              }
+              disabled={disabled || endsOnDate}
+              className='w-20 border border-gray-300 rounded-md px-2 py-1'
+            />
+            <span>appointments</span>
+          </div>
+
+          <div className='flex items-center space-x-2'>
+            <input
+              type='radio'
+              checked={endsOnDate}
+              onChange={() => changeUntil(value.until || startDate)}
+              disabled={disabled}
+            />
+            <span>Until</span>
+            <input
+              type='date'
+              min={startDate}
+              value={value.until ?? ''}
+              onChange={event => changeUntil(event.target.value)}
+              disabled={disabled || !endsOnDate}
+              className='border border-gray-300 rounded-md px-2 py-1'
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
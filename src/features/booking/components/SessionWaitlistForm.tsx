@@ -0,0 +1,119 @@
+/**
+ * Session waitlist form
+ * Lets a customer join the waitlist of a full class session
+ */
+
+import React, { useState } from 'react';
+import { Input } from '../../../components/ui/Input';
+import { Button } from '../../../components/ui/Button';
+import { bookingService } from '../services/bookingService';
+import type { AvailabilitySlot, SessionWaitlistEntry } from '../types';
+
+interface SessionWaitlistFormProps {
+  session: AvailabilitySlot; // a full class session
+  sessionLabel: string; // e.g. "Monday, January 7 at 6:00 PM"
+  onClose: () => void;
+}
+
+export const SessionWaitlistForm: React.FC<SessionWaitlistFormProps> = ({
+  session,
+  sessionLabel,
+  onClose,
+}) => {
+  const [customer, setCustomer] = useState({
+    firstName: '',
+    lastName: '',
+    email: '',
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [entry, setEntry] = useState<SessionWaitlistEntry | null>(null);
+
+  const isValid =
+    !!customer.firstName.trim() &&
+    !!customer.lastName.trim() &&
+    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(customer.email);
+
+  const handleChange = (field: keyof typeof customer, value: string) => {
+    setCustomer(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async () => {
+    if (!session.sessionId || !isValid) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      setEntry(
+        await bookingService.joinSessionWaitlist(session.sessionId, customer)
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to join the waitlist'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (entry) {
+    return (
+      <div className='mt-6 p-4 bg-green-50 border border-green-200 rounded-lg'>
+        <p className='text-green-800'>
+          You're number {entry.position} on the waitlist for {sessionLabel}.
+          We'll email you if a seat opens up.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className='mt-6 p-4 bg-gray-50 border border-gray-200 rounded-lg'>
+      <h3 className='text-lg font-semibold text-gray-900 mb-2'>
+        Join the waitlist
+      </h3>
+      <p className='text-sm text-gray-600 mb-4'>
+        The class on {sessionLabel} is full. Leave your details and we'll email
+        you if a seat opens up.
+      </p>
+      <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+        <Input
+          type='text'
+          value={customer.firstName}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            handleChange('firstName', e.target.value)
+          }
+          placeholder='First name'
+          disabled={submitting}
+        />
+        <Input
+          type='text'
+          value={customer.lastName}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            handleChange('lastName', e.target.value)
+          }
+          placeholder='Last name'
+          disabled={submitting}
+        />
+        <Input
+          type='email'
+          value={customer.email}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            handleChange('email', e.target.value)
+          }
+          placeholder='Email'
+          disabled={submitting}
+        />
+      </div>
+      {error && <p className='mt-3 text-sm text-red-600'>{error}</p>}
+      <div className='mt-4 flex gap-4 justify-end'>
+        <Button variant='secondary' onClick={onClose} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={!isValid || submitting}>
+          {submitting ? 'Joining...' : 'Join waitlist'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+/**
+ * Slot hold countdown
+ * Shows how long the selected slot stays held for the customer
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+
+interface SlotHoldCountdownProps {
+  expiresAt: string; // ISO 8601
+}
+
+const getSecondsLeft = (expiresAt: string) =>
+  Math.max(Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 1000), 0);
+
+export const SlotHoldCountdown: React.FC<SlotHoldCountdownProps> = ({
+  expiresAt,
+}) => {
+  const [secondsLeft, setSecondsLeft] = useState(() =>
+    getSecondsLeft(expiresAt)
+  );
+
+  useEffect(() => {
+    setSecondsLeft(getSecondsLeft(expiresAt));
+    const interval = setInterval(() => {
+      const remaining = getSecondsLeft(expiresAt);
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        clearInterval(interval);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [expiresAt]);
+
+  if (secondsLeft === 0) {
+    return (
+      <div className='mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center space-x-2'>
+        <Clock className='w-4 h-4 text-yellow-700' />
+        <p className='text-sm text-yellow-800'>
+          We're no longer holding this time for you. You can still book it if
+          nobody else has.
+        </p>
+      </div>
+    );
+  }
+
+  const minutes = Math.floor(secondsLeft / 60);
+  const seconds = String(secondsLeft % 60).padStart(2, '0');
+
+  return (
+    <div className='mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center space-x-2'>
+      <Clock className='w-4 h-4 text-blue-700' />
+      <p className='text-sm text-blue-800'>
+        We're holding this time for you for{' '}
+        <strong>
+          {minutes}:{seconds}
+        </strong>
+      </p>
+    </div>
+  );
+};
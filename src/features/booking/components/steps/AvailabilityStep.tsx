@@ -9,9 +9,28 @@ import { useBooking } from '../../context/BookingContext';
 import { availabilityProvider } from '../../services/availabilityProvider';
 // import { Card, CardContent } from '../../../components/ui/Card';
 import { Button } from '../../../../components/ui/Button';
-import { Calendar, Clock, Check } from 'lucide-react';
+import { Calendar, Clock, Check, Users } from 'lucide-react';
 import type { AvailabilitySlot } from '../../types';
+import type { BookingPolicy } from '../../../../types/shared';
 import { logger } from '../../../../lib/logger';
+import { getTotalDuration } from '../../utils';
+import { SessionWaitlistForm } from '../SessionWaitlistForm';
+import { BookingWaitlistForm } from '../BookingWaitlistForm';
+
+// Slots customers can pick: free ones, and full class sessions they can
+// join the waitlist of
+const isOffered = (slot: AvailabilitySlot) =>
+  slot.available || !!slot.sessionId;
+
+// The server leaves out dates beyond the advance booking window
+const SEARCH_DAYS = 60;
+
+const formatNotice = (minutes: number) =>
+  minutes % 1440 === 0
+    ? `${minutes / 1440} ${minutes === 1440 ? 'day' : 'days'}`
+    : minutes % 60 === 0
+      ? `${minutes / 60} ${minutes === 60 ? 'hour' : 'hours'}`
+      : `${minutes} minutes`;
 
 export const AvailabilityStep: React.FC = () => {
   const { state, dispatch } = useBooking();
@@ -20,6 +39,10 @@ export const AvailabilityStep: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [availableDates, setAvailableDates] = useState<string[]>([]);
+  const [waitlistSession, setWaitlistSession] =
+    useState<AvailabilitySlot | null>(null);
+  const [policy, setPolicy] = useState<BookingPolicy | null>(null);
+  const [showBookingWaitlist, setShowBookingWaitlist] = useState(false);
 
   const loadAvailability = useCallback(async () => {
     try {
@@ -28,28 +51,30 @@ export const AvailabilityStep: React.FC = () => {
 
       const startDate = new Date();
       const endDate = new Date();
-      endDate.setDate(startDate.getDate() + 30); // Next 30 days
+      endDate.setDate(startDate.getDate() + SEARCH_DAYS);
 
-      const availableSlots = await availabilityProvider.getAvailableSlots(
-        state.context!.professionalId!,
-        state.selectedService!.id,
+      const availability = await availabilityProvider.getAvailableSlots(
+        state.context!,
+        state.selectedServices.map(service => service.id),
         startDate.toISOString().split('T')[0],
-        endDate.toISOString().split('T')[0]
+        endDate.toISOString().split('T')[0],
+        // The slot held by a waitlist claim link shows as free
+        searchParams.get('claim') ?? undefined
       );
 
-      // Update slot duration to match service duration
-      const updatedSlots = availableSlots.map(slot => ({
+      setPolicy(availability.policy);
+
+      // Update slot duration to cover every selected service
+      const updatedSlots = availability.slots.map(slot => ({
         ...slot,
-        duration: state.selectedService!.durationMin,
+        duration: getTotalDuration(state.selectedServices),
       }));
 
       setSlots(updatedSlots);
 
       // Get unique available dates
       const dates = [
-        ...new Set(
-          updatedSlots.filter(slot => slot.available).map(slot => slot.date)
-        ),
+        ...new Set(updatedSlots.filter(isOffered).map(slot => slot.date)),
       ].sort();
 
       setAvailableDates(dates);
@@ -89,20 +114,35 @@ export const AvailabilityStep: React.FC = () => {
       setLoading(false);
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [state.selectedService, state.context, dispatch, searchParams]);
+  }, [state.selectedServices, state.context, dispatch, searchParams]);
 
   useEffect(() => {
-    if (state.selectedService && state.context?.professionalId) {
+    if (state.selectedServices.length > 0 && state.context?.professionalId) {
       loadAvailability();
     }
-  }, [state.selectedService, state.context?.professionalId, loadAvailability]);
+  }, [state.selectedServices, state.context?.professionalId, loadAvailability]);
 
   const handleSelectSlot = (slot: AvailabilitySlot) => {
+    // Full class sessions can only be waitlisted
+    if (!slot.available) {
+      setWaitlistSession(slot);
+      return;
+    }
+    setWaitlistSession(null);
     dispatch({ type: 'SET_SLOT', payload: slot });
   };
 
+  // Classes have their own waitlist per session
+  const isClassBooking = state.selectedServices.some(
+    service => !!service.capacity
+  );
+  const waitlistContext = isClassBooking ? null : state.context;
+  const serviceLabel = state.selectedServices
+    .map(service => service.name)
+    .join(' + ');
+
   const getTimeSlotsForDate = (date: string) => {
-    return slots.filter(slot => slot.date === date && slot.available);
+    return slots.filter(slot => slot.date === date && isOffered(slot));
   };
 
   const formatDate = (dateString: string) => {
@@ -138,19 +178,38 @@ export const AvailabilityStep: React.FC = () => {
           Choose Your Time
         </h2>
         <p className='text-gray-600'>
-          Select your preferred date and time for {state.selectedService?.name}
+          Select your preferred date and time for{' '}
+          {state.selectedServices.map(service => service.name).join(' + ')}
         </p>
+        {policy && (
+          <p className='text-sm text-gray-500 mt-2'>
+            {policy.minLeadTimeMinutes > 0 &&
+              `Book at least ${formatNotice(policy.minLeadTimeMinutes)} ahead. `}
+            You can cancel or reschedule up to {policy.cancellationHours}{' '}
+            {policy.cancellationHours === 1 ? 'hour' : 'hours'} before your
+            appointment.
+          </p>
+        )}
       </div>
 
       {availableDates.length === 0 ? (
         <div className='text-center py-8'>
           <Calendar className='w-12 h-12 text-gray-400 mx-auto mb-4' />
           <p className='text-gray-500 mb-4'>
-            No available times found for the next 30 days.
+            No available times found for the next{' '}
+            {Math.min(policy?.advanceBookingDays ?? SEARCH_DAYS, SEARCH_DAYS)}{' '}
+            days.
           </p>
           <p className='text-sm text-gray-400'>
             Please try a different service or contact us directly.
           </p>
+          {waitlistContext && (
+            <BookingWaitlistForm
+              context={waitlistContext}
+              serviceIds={state.selectedServices.map(service => service.id)}
+              serviceLabel={serviceLabel}
+            />
+          )}
         </div>
       ) : (
         <div className='space-y-6'>
@@ -201,11 +260,23 @@ export const AvailabilityStep: React.FC = () => {
                     onClick={() => handleSelectSlot(slot)}
                     className='h-auto p-3'
                   >
-                    <div className='flex items-center space-x-2'>
-                      <Clock className='w-4 h-4' />
-                      <span>{formatTime(slot.time)}</span>
-                      {state.selectedSlot?.id === slot.id && (
-                        <Check className='w-4 h-4 ml-1' />
+                    <div>
+                      <div className='flex items-center space-x-2'>
+                        <Clock className='w-4 h-4' />
+                        <span>{formatTime(slot.time)}</span>
+                        {state.selectedSlot?.id === slot.id && (
+                          <Check className='w-4 h-4 ml-1' />
+                        )}
+                      </div>
+                      {slot.seatsLeft !== undefined && (
+                        <div className='flex items-center space-x-1 mt-1 text-xs'>
+                          <Users className='w-3 h-3' />
+                          <span>
+                            {slot.available
+                              ? `${slot.seatsLeft} ${slot.seatsLeft === 1 ? 'seat' : 'seats'} left`
+                              : 'Full - join waitlist'}
+                          </span>
+                        </div>
                       )}
                     </div>
                   </Button>
@@ -213,6 +284,37 @@ export const AvailabilityStep: React.FC = () => {
               </div>
             </div>
           )}
+
+          {waitlistContext &&
+            (showBookingWaitlist ? (
+              <BookingWaitlistForm
+                context={waitlistContext}
+                serviceIds={state.selectedServices.map(service => service.id)}
+                serviceLabel={serviceLabel}
+                {...(selectedDate ? { initialDate: selectedDate } : {})}
+                onClose={() => setShowBookingWaitlist(false)}
+              />
+            ) : (
+              <p className='text-sm text-gray-600'>
+                Day you want fully booked?{' '}
+                <button
+                  type='button'
+                  onClick={() => setShowBookingWaitlist(true)}
+                  className='text-primary-600 hover:underline'
+                >
+                  Notify me if something opens
+                </button>
+              </p>
+            ))}
+
+          {waitlistSession && (
+            <SessionWaitlistForm
+              key={waitlistSession.id}
+              session={waitlistSession}
+              sessionLabel={`${formatDate(waitlistSession.date)} at ${formatTime(waitlistSession.time)}`}
+              onClose={() => setWaitlistSession(null)}
+            />
+          )}
         </div>
       )}
 
@@ -3,19 +3,86 @@
  * Shows booking summary and handles final confirmation
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useBooking } from '../../context/BookingContext';
-import { bookingService } from '../../services/bookingService';
+import {
+  bookingService,
+  SlotUnavailableError,
+} from '../../services/bookingService';
 import { Card, CardContent } from '../../../../components/ui/Card';
 import { Button } from '../../../../components/ui/Button';
 import { logger } from '../../../../lib/logger';
-import { Calendar, User, Mail, Phone, MapPin } from 'lucide-react';
+import { getTotalDuration, getTotalPrice, ANY_PROFESSIONAL } from '../../utils';
+import { RecurrencePicker } from '../RecurrencePicker';
+import { getIntakeQuestions } from '../../intake';
+import type { OccurrenceAvailability } from '../../types';
+import {
+  Calendar,
+  User,
+  Mail,
+  Phone,
+  MapPin,
+  Repeat,
+  XCircle,
+} from 'lucide-react';
 
 export const ConfirmationStep: React.FC = () => {
   const { state, dispatch } = useBooking();
   const navigate = useNavigate();
   const [isConfirming, setIsConfirming] = useState(false);
+  const [occurrences, setOccurrences] = useState<OccurrenceAvailability[]>([]);
+  const [checkingOccurrences, setCheckingOccurrences] = useState(false);
+
+  // Series need a specific professional, and classes are booked one
+  // session at a time
+  const canRepeat =
+    !!state.context?.professionalId &&
+    state.context.professionalId !== ANY_PROFESSIONAL &&
+    !state.selectedSlot?.sessionId;
+
+  const { context, selectedServices, selectedSlot, slotHold, recurrence } =
+    state;
+
+  // Check every date of the series so conflicts show before confirming
+  useEffect(() => {
+    if (!recurrence || !context || !selectedSlot) {
+      setOccurrences([]);
+      return;
+    }
+
+    let cancelled = false;
+    setCheckingOccurrences(true);
+    bookingService
+      .checkRecurringAvailability(
+        context,
+        selectedServices.map(service => service.id),
+        selectedSlot,
+        recurrence,
+        slotHold?.id
+      )
+      .then(result => {
+        if (!cancelled) setOccurrences(result);
+      })
+      .catch(error => {
+        logger.error('Error checking recurring availability', error as Error, {
+          component: 'ConfirmationStep',
+        });
+        if (!cancelled) setOccurrences([]);
+      })
+      .finally(() => {
+        if (!cancelled) setCheckingOccurrences(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recurrence, context, selectedServices, selectedSlot, slotHold]);
+
+  const skipDates = occurrences
+    .filter(occurrence => !occurrence.available)
+    .map(occurrence => occurrence.date);
+  const bookedCount = occurrences.length - skipDates.length;
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -54,7 +121,11 @@ export const ConfirmationStep: React.FC = () => {
   };
 
   const handleConfirmBooking = async () => {
-    if (!state.selectedService || !state.selectedSlot || !state.customerInfo) {
+    if (
+      state.selectedServices.length === 0 ||
+      !state.selectedSlot ||
+      !state.customerInfo
+    ) {
       return;
     }
 
@@ -65,45 +136,60 @@ export const ConfirmationStep: React.FC = () => {
       // Create booking draft
       const bookingDraft = await bookingService.createBookingDraft({
         context: state.context!,
-        serviceId: state.selectedService.id,
-        serviceName: state.selectedService.name,
-        serviceDuration: state.selectedService.durationMin,
-        servicePrice: state.selectedService.price,
+        services: state.selectedServices.map(service => ({
+          serviceId: service.id,
+          serviceName: service.name,
+          duration: service.durationMin,
+          price: service.price,
+        })),
         selectedSlot: state.selectedSlot,
+        ...(state.slotHold ? { holdId: state.slotHold.id } : {}),
+        ...(state.recurrence
+          ? { recurrence: state.recurrence, skipDates }
+          : {}),
         customer: state.customerInfo,
+        ...(Object.keys(state.intakeAnswers).length > 0
+          ? { intake: state.intakeAnswers }
+          : {}),
         status: 'draft',
       });
 
       dispatch({ type: 'SET_BOOKING_DRAFT', payload: bookingDraft });
 
-      // Confirm booking
-      const confirmation = await bookingService.confirmBooking(bookingDraft.id);
-
-      // Send confirmation email
-      await bookingService.sendConfirmationEmail(confirmation);
-
-      // Navigate to success page with booking data
-      navigate('/booking/success', {
-        state: {
-          bookingData: {
-            bookingId: bookingDraft.id,
-            confirmationCode: confirmation.confirmationCode,
-            serviceName: state.selectedService!.name,
-            professionalName: 'Professional Name', // Would come from context
-            customerName: `${state.customerInfo!.firstName} ${state.customerInfo!.lastName}`,
-            customerEmail: state.customerInfo!.email,
-            appointmentDate: state.selectedSlot!.date,
-            appointmentTime: state.selectedSlot!.time,
-            duration: state.selectedService!.durationMin,
-            location: 'Store Location', // Would come from context
-            icsFileUrl: confirmation.icsFileUrl,
-          },
-        },
-      });
+      // Bookings that need paying first move on to the payment step
+      if (bookingDraft.payment) {
+        return;
+      }
+
+      // Confirm booking (the confirmation email is sent server-side)
+      const confirmation = await bookingService.confirmBooking(bookingDraft);
+
+      // Navigate to success page with the confirmed booking
+      navigate('/booking/success', { state: { confirmation } });
     } catch (error) {
       logger.error('Error confirming booking', error as Error, {
         component: 'ConfirmationStep',
       });
+      if (error instanceof SlotUnavailableError && state.recurrence) {
+        // Another date of the series was just taken; check the dates again
+        dispatch({ type: 'SET_RECURRENCE', payload: { ...state.recurrence } });
+        dispatch({
+          type: 'SET_ERROR',
+          payload:
+            'Some dates of your series were just booked by someone else. Please review the dates and confirm again.',
+        });
+        return;
+      }
+      if (error instanceof SlotUnavailableError) {
+        // Send the customer back to pick another time
+        dispatch({ type: 'GO_TO_STEP', payload: 1 });
+        dispatch({
+          type: 'SET_ERROR',
+          payload:
+            'Sorry, that time was just booked by someone else. Please choose another slot.',
+        });
+        return;
+      }
       dispatch({
         type: 'SET_ERROR',
         payload: 'Failed to confirm booking. Please try again.',
@@ -137,18 +223,38 @@ export const ConfirmationStep: React.FC = () => {
             <h3 className='text-lg font-semibold text-gray-900 mb-4'>
               Service Details
             </h3>
-            <div className='flex items-center justify-between'>
+            <div className='space-y-4'>
+              {state.selectedServices.map(service => (
+                <div
+                  key={service.id}
+                  className='flex items-center justify-between'
+                >
+                  <div>
+                    <h4 className='font-medium text-gray-900'>
+                      {service.name}
+                    </h4>
+                    <p className='text-sm text-gray-600'>
+                      {formatDuration(service.durationMin)}
+                    </p>
+                  </div>
+                  <div className='text-right'>
+                    <p className='text-gray-900'>
+                      {formatPrice(service.price)}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className='mt-4 pt-4 border-t border-gray-200 flex items-center justify-between'>
               <div>
-                <h4 className='font-medium text-gray-900'>
-                  {state.selectedService?.name}
-                </h4>
+                <h4 className='font-medium text-gray-900'>Total</h4>
                 <p className='text-sm text-gray-600'>
-                  {formatDuration(state.selectedService?.durationMin || 0)}
+                  {formatDuration(getTotalDuration(state.selectedServices))}
                 </p>
               </div>
               <div className='text-right'>
                 <p className='text-lg font-semibold text-gray-900'>
-                  {formatPrice(state.selectedService?.price || 0)}
+                  {formatPrice(getTotalPrice(state.selectedServices))}
                 </p>
               </div>
             </div>
@@ -177,6 +283,61 @@ export const ConfirmationStep: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Recurrence */}
+        {canRepeat && selectedSlot && (
+          <Card>
+            <CardContent className='p-6'>
+              <h3 className='text-lg font-semibold text-gray-900 mb-4'>
+                Repeat
+              </h3>
+              <RecurrencePicker
+                value={recurrence}
+                onChange={value =>
+                  dispatch({ type: 'SET_RECURRENCE', payload: value })
+                }
+                startDate={selectedSlot.date}
+                disabled={isConfirming}
+              />
+
+              {recurrence && (
+                <div className='mt-4 pt-4 border-t border-gray-200'>
+                  {checkingOccurrences ? (
+                    <p className='text-sm text-gray-600'>Checking dates...</p>
+                  ) : (
+                    <>
+                      <p className='text-sm text-gray-600 mb-3'>
+                        {bookedCount} appointments at{' '}
+                        {formatTime(selectedSlot.time)}
+                        {skipDates.length > 0 &&
+                          `; ${skipDates.length} unavailable dates will be skipped`}
+                      </p>
+                      <ul className='space-y-1'>
+                        {occurrences.map(occurrence => (
+                          <li
+                            key={occurrence.date}
+                            className={`flex items-center space-x-2 text-sm ${
+                              occurrence.available
+                                ? 'text-gray-900'
+                                : 'text-gray-400 line-through'
+                            }`}
+                          >
+                            {occurrence.available ? (
+                              <Repeat className='w-4 h-4 text-gray-500' />
+                            ) : (
+                              <XCircle className='w-4 h-4 text-red-400' />
+                            )}
+                            <span>{formatDate(occurrence.date)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Customer Details */}
         <Card>
           <CardContent className='p-6'>
@@ -209,6 +370,25 @@ export const ConfirmationStep: React.FC = () => {
                   </p>
                 </div>
               )}
+              {getIntakeQuestions(state.selectedServices)
+                .filter(
+                  question => state.intakeAnswers[question.id] !== undefined
+                )
+                .map(question => {
+                  const value = state.intakeAnswers[question.id];
+                  return (
+                    <p key={question.id} className='text-sm text-gray-600'>
+                      <strong>{question.label}:</strong>{' '}
+                      {typeof value === 'boolean'
+                        ? value
+                          ? 'Yes'
+                          : 'No'
+                        : question.type === 'photo'
+                          ? 'Photo uploaded'
+                          : value}
+                    </p>
+                  );
+                })}
             </div>
           </CardContent>
         </Card>
@@ -217,11 +397,18 @@ export const ConfirmationStep: React.FC = () => {
         <div className='text-center'>
           <Button
             onClick={handleConfirmBooking}
-            disabled={isConfirming}
+            disabled={
+              isConfirming ||
+              (!!recurrence && (checkingOccurrences || bookedCount === 0))
+            }
             className='px-8 py-3'
             size='lg'
           >
-            {isConfirming ? 'Confirming...' : 'Confirm Booking'}
+            {isConfirming
+              ? 'Confirming...'
+              : recurrence
+                ? `Confirm ${bookedCount} Bookings`
+                : 'Confirm Booking'}
           </Button>
         </div>
       </div>
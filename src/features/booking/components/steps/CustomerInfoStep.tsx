@@ -1,26 +1,61 @@
 /**
  * Customer information step
- * Collects customer contact details
+ * Collects customer contact details and answers to the selected services'
+ * intake questions. Signed-in customers get their saved details filled in.
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useBooking } from '../../context/BookingContext';
+import { useCustomer } from '../../../../contexts/CustomerContext';
+import type { CustomerProfile } from '../../../customer/types';
 import { Input } from '../../../../components/ui/Input';
 import { Button } from '../../../../components/ui/Button';
 import { Card, CardContent } from '../../../../components/ui/Card';
 import { User, Mail, Phone, MessageSquare } from 'lucide-react';
-import type { CustomerInfo } from '../../types';
+import type { CustomerInfo, IntakeAnswers } from '../../types';
+import { getIntakeQuestions, validateIntakeAnswers } from '../../intake';
+import { IntakeQuestions } from '../IntakeQuestions';
+
+// Fill in the fields the customer hasn't typed from their saved profile
+const fillFromProfile = (
+  info: CustomerInfo,
+  profile: CustomerProfile | null
+): CustomerInfo => ({
+  ...info,
+  firstName: info.firstName || profile?.firstName || '',
+  lastName: info.lastName || profile?.lastName || '',
+  email: info.email || profile?.email || '',
+  phone: info.phone || profile?.phone || '',
+});
 
 export const CustomerInfoStep: React.FC = () => {
   const { state, dispatch } = useBooking();
-  const [formData, setFormData] = useState<CustomerInfo>({
-    firstName: state.customerInfo?.firstName || '',
-    lastName: state.customerInfo?.lastName || '',
-    email: state.customerInfo?.email || '',
-    phone: state.customerInfo?.phone || '',
-    notes: state.customerInfo?.notes || '',
-  });
+  const { profile, signOut } = useCustomer();
+  const [formData, setFormData] = useState<CustomerInfo>(() =>
+    fillFromProfile(
+      {
+        firstName: state.customerInfo?.firstName || '',
+        lastName: state.customerInfo?.lastName || '',
+        email: state.customerInfo?.email || '',
+        phone: state.customerInfo?.phone || '',
+        notes: state.customerInfo?.notes || '',
+      },
+      profile
+    )
+  );
   const [errors, setErrors] = useState<Partial<CustomerInfo>>({});
+  const questions = getIntakeQuestions(state.selectedServices);
+  const [intake, setIntake] = useState<IntakeAnswers>(state.intakeAnswers);
+  const [intakeErrors, setIntakeErrors] = useState<Record<string, string>>({});
+  const [uploading, setUploading] = useState(false);
+
+  // Customers may sign in from the emailed link in another tab mid-booking
+  useEffect(() => {
+    if (profile) {
+      setFormData(prev => fillFromProfile(prev, profile));
+    }
+  }, [profile]);
 
   const handleInputChange = (field: keyof CustomerInfo, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -31,6 +66,18 @@ export const CustomerInfoStep: React.FC = () => {
     }
   };
 
+  const handleIntakeChange = (questionId: string, value: string | boolean) => {
+    setIntake(prev => ({ ...prev, [questionId]: value }));
+
+    if (intakeErrors[questionId]) {
+      setIntakeErrors(prev => {
+        const next = { ...prev };
+        delete next[questionId];
+        return next;
+      });
+    }
+  };
+
   const validateForm = (): boolean => {
     const newErrors: Partial<CustomerInfo> = {};
 
@@ -56,12 +103,28 @@ export const CustomerInfoStep: React.FC = () => {
       newErrors.phone = 'Please enter a valid phone number';
     }
 
+    const newIntakeErrors = validateIntakeAnswers(questions, intake);
+
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    setIntakeErrors(newIntakeErrors);
+    return (
+      Object.keys(newErrors).length === 0 &&
+      Object.keys(newIntakeErrors).length === 0
+    );
   };
 
   const handleSubmit = () => {
     if (validateForm()) {
+      // Only keep answers to questions the selected services ask
+      dispatch({
+        type: 'SET_INTAKE_ANSWERS',
+        payload: Object.fromEntries(
+          questions.flatMap(question => {
+            const value = intake[question.id];
+            return value === undefined ? [] : [[question.id, value]];
+          })
+        ),
+      });
       dispatch({ type: 'SET_CUSTOMER_INFO', payload: formData });
     }
   };
@@ -80,6 +143,34 @@ export const CustomerInfoStep: React.FC = () => {
       <div className='max-w-2xl mx-auto'>
         <Card>
           <CardContent className='p-6'>
+            {/* Customer Account */}
+            <div className='mb-6 text-sm text-gray-600'>
+              {profile ? (
+                <p>
+                  Signed in as {profile.email}.{' '}
+                  <button
+                    type='button'
+                    onClick={signOut}
+                    className='text-primary-600 hover:underline'
+                  >
+                    Not you?
+                  </button>
+                </p>
+              ) : (
+                <p>
+                  Booked with us before?{' '}
+                  <Link
+                    to='/me/sign-in'
+                    target='_blank'
+                    className='text-primary-600 hover:underline'
+                  >
+                    Sign in
+                  </Link>{' '}
+                  to fill in your details.
+                </p>
+              )}
+            </div>
+
             <div className='space-y-6'>
               {/* Name Fields */}
               <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
@@ -212,9 +303,30 @@ export const CustomerInfoStep: React.FC = () => {
               </div>
             </div>
 
+            {/* Intake Questions */}
+            {questions.length > 0 && (
+              <div className='mt-8 pt-6 border-t border-gray-200'>
+                <h3 className='text-lg font-semibold text-gray-900 mb-4'>
+                  Before Your Appointment
+                </h3>
+                <IntakeQuestions
+                  questions={questions}
+                  answers={intake}
+                  errors={intakeErrors}
+                  onChange={handleIntakeChange}
+                  onUploadingChange={setUploading}
+                />
+              </div>
+            )}
+
             {/* Submit Button */}
             <div className='mt-8 text-center'>
-              <Button onClick={handleSubmit} className='px-8 py-3' size='lg'>
+              <Button
+                onClick={handleSubmit}
+                className='px-8 py-3'
+                size='lg'
+                disabled={uploading}
+              >
                 Continue to Confirmation
               </Button>
             </div>
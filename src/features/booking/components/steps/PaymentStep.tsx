@@ -0,0 +1,124 @@
+/**
+ * Payment step
+ * Collects the deposit or prepayment the store requires, then confirms the
+ * booking
+ */
+
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useBooking } from '../../context/BookingContext';
+import { bookingService } from '../../services/bookingService';
+import { payBooking, PaymentError } from '../../services/paymentService';
+import { Card, CardContent } from '../../../../components/ui/Card';
+import { Button } from '../../../../components/ui/Button';
+import { logger } from '../../../../lib/logger';
+import { CreditCard } from 'lucide-react';
+import { getTotalPrice } from '../../utils';
+
+export const PaymentStep: React.FC = () => {
+  const { state, dispatch } = useBooking();
+  const navigate = useNavigate();
+  const [isPaying, setIsPaying] = useState(false);
+
+  const payment = state.bookingDraft?.payment;
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: payment?.currency || 'USD',
+    }).format(price);
+  };
+
+  const handlePay = async () => {
+    if (!state.bookingDraft || !payment) {
+      return;
+    }
+
+    try {
+      setIsPaying(true);
+      dispatch({ type: 'SET_LOADING', payload: true });
+      dispatch({ type: 'SET_ERROR', payload: null });
+
+      await payBooking(state.bookingDraft);
+
+      // The booking is confirmed server-side once the payment goes through
+      const confirmation = await bookingService.confirmBooking(
+        state.bookingDraft
+      );
+
+      navigate('/booking/success', { state: { confirmation } });
+    } catch (error) {
+      logger.error('Error paying for booking', error as Error, {
+        component: 'PaymentStep',
+      });
+      dispatch({
+        type: 'SET_ERROR',
+        payload:
+          error instanceof PaymentError
+            ? error.message
+            : 'Your payment was received but we could not confirm your booking yet. Please check your email shortly.',
+      });
+    } finally {
+      setIsPaying(false);
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  if (!payment) {
+    return null;
+  }
+
+  const total = getTotalPrice(state.selectedServices);
+
+  return (
+    <div>
+      <div className='text-center mb-8'>
+        <h2 className='text-2xl font-bold text-gray-900 mb-2'>
+          {payment.mode === 'full' ? 'Prepay Your Booking' : 'Pay Your Deposit'}
+        </h2>
+        <p className='text-gray-600'>
+          Your appointment is held for you. It will be confirmed as soon as your
+          payment goes through.
+        </p>
+      </div>
+
+      <div className='max-w-2xl mx-auto space-y-6'>
+        <Card>
+          <CardContent className='p-6'>
+            <div className='flex items-center justify-between'>
+              <div className='flex items-center space-x-3'>
+                <CreditCard className='w-5 h-5 text-gray-500' />
+                <span className='font-medium text-gray-900'>
+                  {payment.mode === 'full' ? 'Amount due now' : 'Deposit'}
+                </span>
+              </div>
+              <p className='text-lg font-semibold text-gray-900'>
+                {formatPrice(payment.amount)}
+              </p>
+            </div>
+            {payment.mode === 'deposit' && (
+              <p className='mt-4 text-sm text-gray-600'>
+                The remaining {formatPrice(Math.max(total - payment.amount, 0))}{' '}
+                is paid at your appointment.
+              </p>
+            )}
+            <p className='mt-4 text-sm text-gray-600'>
+              Cancel within the store's cancellation window for a full refund.
+            </p>
+          </CardContent>
+        </Card>
+
+        <div className='text-center'>
+          <Button
+            onClick={handlePay}
+            disabled={isPaying}
+            className='px-8 py-3'
+            size='lg'
+          >
+            {isPaying ? 'Processing...' : `Pay ${formatPrice(payment.amount)}`}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 /**
  * Service selection step
- * Allows users to select a service for booking
+ * Allows users to select one or more services for booking, in the order
+ * they'll be performed
  */
 
 import React, { useEffect, useState, useCallback } from 'react';
@@ -8,12 +9,13 @@ import { useSearchParams } from 'react-router-dom';
 import { useBooking } from '../../context/BookingContext';
 import { Card, CardContent } from '../../../../components/ui/Card';
 import { Badge } from '../../../../components/ui/Badge';
-import { Clock, DollarSign, Star } from 'lucide-react';
+import { Clock, DollarSign, Star, Users } from 'lucide-react';
 import {
   getProfessionalBySlug,
   type Service,
 } from '../../../../lib/bookingMockData';
 import { logger } from '../../../../lib/logger';
+import { getTotalDuration, getTotalPrice } from '../../utils';
 
 export const ServiceSelectionStep: React.FC = () => {
   const { state, dispatch } = useBooking();
@@ -120,15 +122,20 @@ export const ServiceSelectionStep: React.FC = () => {
         service => service.slug === preselectedServiceSlug
       );
       if (preselectedService) {
-        dispatch({ type: 'SET_SERVICE', payload: preselectedService });
+        dispatch({ type: 'SET_SERVICES', payload: [preselectedService] });
       }
     }
   }, [services, searchParams, dispatch]);
 
-  const handleSelectService = (service: Service) => {
-    dispatch({ type: 'SET_SERVICE', payload: service });
+  const handleToggleService = (service: Service) => {
+    dispatch({ type: 'TOGGLE_SERVICE', payload: service });
   };
 
+  const getSelectedPosition = (service: Service) =>
+    state.selectedServices.findIndex(selected => selected.id === service.id);
+
+  const isSelected = (service: Service) => getSelectedPosition(service) >= 0;
+
   const formatDuration = (minutes: number) => {
     if (minutes < 60) {
       return `${minutes} minutes`;
@@ -160,9 +167,11 @@ export const ServiceSelectionStep: React.FC = () => {
     <div>
       <div className='text-center mb-8'>
         <h2 className='text-2xl font-bold text-gray-900 mb-2'>
-          Select a Service
+          Select Services
         </h2>
-        <p className='text-gray-600'>Choose the service you'd like to book</p>
+        <p className='text-gray-600'>
+          Choose the services you'd like to book, in the order you'd like them
+        </p>
       </div>
 
       {services.length === 0 ? (
@@ -177,19 +186,23 @@ export const ServiceSelectionStep: React.FC = () => {
             <Card
               key={service.id}
               className={`cursor-pointer transition-all duration-200 ${
-                state.selectedService?.id === service.id
+                isSelected(service)
                   ? 'ring-2 ring-primary-500 bg-primary-50'
                   : 'hover:shadow-lg'
               }`}
-              onClick={() => handleSelectService(service)}
+              onClick={() => handleToggleService(service)}
             >
               <CardContent className='p-6'>
                 <div className='flex items-start justify-between mb-4'>
                   <h3 className='text-lg font-semibold text-gray-900'>
                     {service.name}
                   </h3>
-                  {state.selectedService?.id === service.id && (
-                    <Badge variant='secondary'>Selected</Badge>
+                  {isSelected(service) && (
+                    <Badge variant='secondary'>
+                      {state.selectedServices.length > 1
+                        ? `Selected #${getSelectedPosition(service) + 1}`
+                        : 'Selected'}
+                    </Badge>
                   )}
                 </div>
 
@@ -213,6 +226,14 @@ export const ServiceSelectionStep: React.FC = () => {
                         {formatPrice(service.price)}
                       </span>
                     </div>
+                    {service.capacity && (
+                      <div className='flex items-center space-x-1'>
+                        <Users className='w-4 h-4 text-gray-500' />
+                        <span className='text-sm text-gray-600'>
+                          Class of {service.capacity}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -221,14 +242,19 @@ export const ServiceSelectionStep: React.FC = () => {
         </div>
       )}
 
-      {state.selectedService && (
+      {state.selectedServices.length > 0 && (
         <div className='mt-6 p-4 bg-green-50 border border-green-200 rounded-lg'>
           <div className='flex items-center space-x-2'>
             <Star className='w-5 h-5 text-green-600' />
             <p className='text-green-800'>
-              <strong>{state.selectedService.name}</strong> selected -{' '}
-              {formatDuration(state.selectedService.durationMin)} •{' '}
-              {formatPrice(state.selectedService.price)}
+              <strong>
+                {state.selectedServices
+                  .map(service => service.name)
+                  .join(' + ')}
+              </strong>{' '}
+              selected -{' '}
+              {formatDuration(getTotalDuration(state.selectedServices))} •{' '}
+              {formatPrice(getTotalPrice(state.selectedServices))}
             </p>
           </div>
         </div>
@@ -15,6 +15,9 @@ import type {
   BookingStep,
   AvailabilitySlot,
   CustomerInfo,
+  IntakeAnswers,
+  SlotHold,
+  RecurrenceRule,
 } from '../types';
 import type { Service } from '../../lib/bookingMockData';
 
@@ -22,9 +25,12 @@ interface BookingState {
   context: BookingContext | null;
   currentStep: number;
   steps: BookingStep[];
-  selectedService: Service | null;
+  selectedServices: Service[]; // in the order they're performed
   selectedSlot: AvailabilitySlot | null;
+  slotHold: SlotHold | null; // kept until replaced so it can be released
+  recurrence: RecurrenceRule | null; // repeat the selected slot weekly
   customerInfo: CustomerInfo | null;
+  intakeAnswers: IntakeAnswers; // answers to the selected services' questions
   bookingDraft: BookingDraft | null;
   isLoading: boolean;
   error: string | null;
@@ -32,9 +38,13 @@ interface BookingState {
 
 type BookingAction =
   | { type: 'SET_CONTEXT'; payload: BookingContext }
-  | { type: 'SET_SERVICE'; payload: Service }
+  | { type: 'TOGGLE_SERVICE'; payload: Service }
+  | { type: 'SET_SERVICES'; payload: Service[] }
   | { type: 'SET_SLOT'; payload: AvailabilitySlot }
+  | { type: 'SET_SLOT_HOLD'; payload: SlotHold | null }
+  | { type: 'SET_RECURRENCE'; payload: RecurrenceRule | null }
   | { type: 'SET_CUSTOMER_INFO'; payload: CustomerInfo }
+  | { type: 'SET_INTAKE_ANSWERS'; payload: IntakeAnswers }
   | { type: 'NEXT_STEP' }
   | { type: 'PREV_STEP' }
   | { type: 'GO_TO_STEP'; payload: number }
@@ -43,6 +53,15 @@ type BookingAction =
   | { type: 'SET_BOOKING_DRAFT'; payload: BookingDraft }
   | { type: 'RESET_BOOKING' };
 
+// Added to the wizard when the booking draft needs paying before it's confirmed
+const PAYMENT_STEP: BookingStep = {
+  id: 'payment',
+  title: 'Payment',
+  description: 'Pay to secure your appointment',
+  isCompleted: false,
+  isActive: false,
+};
+
 const initialState: BookingState = {
   context: null,
   currentStep: 0,
@@ -50,7 +69,7 @@ const initialState: BookingState = {
     {
       id: 'service',
       title: 'Select Service',
-      description: 'Choose the service you want to book',
+      description: 'Choose the services you want to book',
       isCompleted: false,
       isActive: true,
     },
@@ -76,14 +95,36 @@ const initialState: BookingState = {
       isActive: false,
     },
   ],
-  selectedService: null,
+  selectedServices: [],
   selectedSlot: null,
+  slotHold: null,
+  recurrence: null,
   customerInfo: null,
+  intakeAnswers: {},
   bookingDraft: null,
   isLoading: false,
   error: null,
 };
 
+/**
+ * Replace the selected services. A previously chosen slot was sized for the
+ * old total duration, so it's cleared.
+ */
+function withServices(state: BookingState, services: Service[]): BookingState {
+  const hasServices = services.length > 0;
+  return {
+    ...state,
+    selectedServices: services,
+    selectedSlot: null,
+    steps: state.steps.map((step, index) => ({
+      ...step,
+      isCompleted: index === 0 ? hasServices : step.isCompleted,
+      isActive: index === (hasServices ? 1 : 0),
+    })),
+    error: null,
+  };
+}
+
 function bookingReducer(
   state: BookingState,
   action: BookingAction
@@ -96,17 +137,34 @@ function bookingReducer(
         error: null,
       };
 
-    case 'SET_SERVICE':
-      return {
-        ...state,
-        selectedService: action.payload,
-        steps: state.steps.map((step, index) => ({
-          ...step,
-          isCompleted: index === 0 ? true : step.isCompleted,
-          isActive: index === 1,
-        })),
-        error: null,
-      };
+    case 'TOGGLE_SERVICE': {
+      const isSelected = state.selectedServices.some(
+        service => service.id === action.payload.id
+      );
+      if (isSelected) {
+        return withServices(
+          state,
+          state.selectedServices.filter(
+            service => service.id !== action.payload.id
+          )
+        );
+      }
+
+      // Classes are booked on their own, so picking one replaces the
+      // selection and picking anything else replaces a class
+      const replacesSelection =
+        !!action.payload.capacity ||
+        state.selectedServices.some(service => !!service.capacity);
+      return withServices(
+        state,
+        replacesSelection
+          ? [action.payload]
+          : [...state.selectedServices, action.payload]
+      );
+    }
+
+    case 'SET_SERVICES':
+      return withServices(state, action.payload);
 
     case 'SET_SLOT':
       return {
@@ -120,6 +178,18 @@ function bookingReducer(
         error: null,
       };
 
+    case 'SET_SLOT_HOLD':
+      return {
+        ...state,
+        slotHold: action.payload,
+      };
+
+    case 'SET_RECURRENCE':
+      return {
+        ...state,
+        recurrence: action.payload,
+      };
+
     case 'SET_CUSTOMER_INFO':
       return {
         ...state,
@@ -132,6 +202,12 @@ function bookingReducer(
         error: null,
       };
 
+    case 'SET_INTAKE_ANSWERS':
+      return {
+        ...state,
+        intakeAnswers: action.payload,
+      };
+
     case 'NEXT_STEP': {
       const nextStep = Math.min(state.currentStep + 1, state.steps.length - 1);
       return {
@@ -179,11 +255,29 @@ function bookingReducer(
         isLoading: false,
       };
 
-    case 'SET_BOOKING_DRAFT':
+    case 'SET_BOOKING_DRAFT': {
+      if (!action.payload.payment) {
+        return {
+          ...state,
+          bookingDraft: action.payload,
+        };
+      }
+
+      const steps = state.steps.some(step => step.id === PAYMENT_STEP.id)
+        ? state.steps
+        : [...state.steps, PAYMENT_STEP];
+      const paymentStep = steps.length - 1;
       return {
         ...state,
         bookingDraft: action.payload,
+        currentStep: paymentStep,
+        steps: steps.map((step, index) => ({
+          ...step,
+          isCompleted: index < paymentStep ? true : step.isCompleted,
+          isActive: index === paymentStep,
+        })),
       };
+    }
 
     case 'RESET_BOOKING':
       return {
@@ -217,7 +311,7 @@ export const BookingProvider: React.FC<BookingProviderProps> = ({
   const canProceed = (() => {
     switch (state.currentStep) {
       case 0:
-        return !!state.selectedService;
+        return state.selectedServices.length > 0;
       case 1:
         return !!state.selectedSlot;
       case 2:
@@ -234,7 +328,8 @@ export const BookingProvider: React.FC<BookingProviderProps> = ({
     }
   })();
 
-  const canGoBack = state.currentStep > 0;
+  // Once the draft exists its slot is held, so the selection can't change
+  const canGoBack = state.currentStep > 0 && !state.bookingDraft;
 
   const value: BookingContextType = {
     state,
@@ -0,0 +1,79 @@
+/**
+ * Booking intake questions
+ * Collects the questions of the selected services and validates answers the
+ * same way the createBooking function does
+ */
+
+import { z } from 'zod';
+import type { Service } from '../../lib/bookingMockData';
+import type { IntakeQuestion } from '../../types/shared';
+import type { IntakeAnswers } from './types';
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_TEXTAREA_LENGTH = 2000;
+
+/**
+ * Get the questions of the selected services in order, asking a question
+ * shared by several services once
+ */
+export const getIntakeQuestions = (services: Service[]): IntakeQuestion[] => {
+  const questions = new Map<string, IntakeQuestion>();
+  services
+    .flatMap(service => service.intakeQuestions || [])
+    .forEach(question => {
+      if (!questions.has(question.id)) questions.set(question.id, question);
+    });
+  return [...questions.values()];
+};
+
+const toAnswerSchema = (question: IntakeQuestion): z.ZodType => {
+  switch (question.type) {
+    case 'checkbox':
+      return question.required
+        ? z.literal(true, { message: 'Please check this box to continue' })
+        : z.boolean();
+    case 'select':
+      return z
+        .string()
+        .refine(value => (question.options || []).includes(value), {
+          message: 'Please choose an option',
+        });
+    case 'photo':
+      return z.string().min(1, { message: 'Please upload a photo' });
+    default:
+      return z
+        .string()
+        .trim()
+        .min(question.required ? 1 : 0, { message: 'This field is required' })
+        .max(
+          question.type === 'textarea' ? MAX_TEXTAREA_LENGTH : MAX_TEXT_LENGTH,
+          { message: 'This answer is too long' }
+        );
+  }
+};
+
+/**
+ * Validate answers to a set of questions, returning an error message for
+ * each question answered wrongly
+ */
+export const validateIntakeAnswers = (
+  questions: IntakeQuestion[],
+  answers: IntakeAnswers
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  questions.forEach(question => {
+    const value = answers[question.id];
+    if (!question.required && (value === undefined || value === '')) return;
+
+    const result = toAnswerSchema(question).safeParse(value);
+    if (!result.success) {
+      errors[question.id] =
+        value === undefined
+          ? 'This field is required'
+          : (result.error.issues[0]?.message ?? 'This answer is not valid');
+    }
+  });
+
+  return errors;
+};
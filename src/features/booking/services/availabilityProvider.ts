@@ -1,75 +1,67 @@
 /**
- * Mock availability provider
- * Simulates availability checking for booking slots
+ * Availability provider
+ * Fetches bookable slots computed server-side by the getAvailability function
  */
 
-import type { AvailabilitySlot, AvailabilityProvider } from '../types';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../../../firebase';
+import type { BookingPolicy } from '../../../types/shared';
+import type {
+  AvailabilitySlot,
+  AvailabilityProvider,
+  AvailabilityResult,
+  BookingContext,
+} from '../types';
 
-export class MockAvailabilityProvider implements AvailabilityProvider {
-  async getAvailableSlots(
-    professionalId: string,
-    _serviceId: string,
-    startDate: string,
-    endDate: string
-  ): Promise<AvailabilitySlot[]> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    const slots: AvailabilitySlot[] = [];
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const currentDate = new Date();
-
-    // Generate slots for the next 30 days
-    for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-      // Skip past dates
-      if (d < currentDate) continue;
+interface GetAvailabilityRequest {
+  orgId?: string; // the brand's slug, so its store is looked up in its own org
+  professionalId: string;
+  serviceIds: string[];
+  storeId?: string;
+  startDate: string;
+  endDate: string;
+  holdId?: string;
+}
 
-      // Skip weekends (optional - remove if you want weekend availability)
-      if (d.getDay() === 0 || d.getDay() === 6) continue;
+interface GetAvailabilityResponse {
+  success: boolean;
+  timezone: string;
+  slots: AvailabilitySlot[];
+  policy: BookingPolicy;
+}
 
-      const dateStr = d.toISOString().split('T')[0];
+export class FirebaseAvailabilityProvider implements AvailabilityProvider {
+  async getAvailableSlots(
+    context: BookingContext,
+    serviceIds: string[],
+    startDate: string,
+    endDate: string,
+    holdId?: string
+  ): Promise<AvailabilityResult> {
+    if (!functions) throw new Error('Firebase not initialized');
 
-      // Generate time slots (9 AM to 6 PM, every 30 minutes)
-      const timeSlots = [
-        '09:00',
-        '09:30',
-        '10:00',
-        '10:30',
-        '11:00',
-        '11:30',
-        '12:00',
-        '12:30',
-        '13:00',
-        '13:30',
-        '14:00',
-        '14:30',
-        '15:00',
-        '15:30',
-        '16:00',
-        '16:30',
-        '17:00',
-        '17:30',
-      ];
+    const { brandSlug, professionalId, storeId } = context;
+    if (!professionalId) throw new Error('Missing professional');
 
-      timeSlots.forEach(time => {
-        // Randomly make some slots unavailable (70% availability)
-        const isAvailable = Math.random() > 0.3;
+    const getAvailability = httpsCallable<
+      GetAvailabilityRequest,
+      GetAvailabilityResponse
+    >(functions, 'getAvailability');
 
-        slots.push({
-          id: `${professionalId}-${dateStr}-${time}`,
-          date: dateStr,
-          time,
-          duration: 30, // Default 30 minutes, will be overridden by service duration
-          available: isAvailable,
-          professionalId,
-        });
-      });
-    }
+    const result = await getAvailability({
+      ...(brandSlug ? { orgId: brandSlug } : {}),
+      professionalId,
+      serviceIds,
+      startDate,
+      endDate,
+      ...(storeId ? { storeId } : {}),
+      ...(holdId ? { holdId } : {}),
+    });
 
-    return slots;
+    const { timezone, slots, policy } = result.data;
+    return { timezone, slots, policy };
   }
 }
 
 // Singleton instance
-export const availabilityProvider = new MockAvailabilityProvider();
+export const availabilityProvider = new FirebaseAvailabilityProvider();
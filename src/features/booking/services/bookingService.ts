@@ -1,117 +1,350 @@
 /**
  * Booking service
- * Handles booking creation, confirmation, and email sending
+ * Handles booking creation and confirmation. The confirmation email is sent
+ * by the confirmBooking function.
  */
 
-import {
-  collection,
-  addDoc,
-  doc,
-  updateDoc,
-  serverTimestamp,
-} from 'firebase/firestore';
-import { db } from '../../../firebase';
+import { httpsCallable, type FunctionsError } from 'firebase/functions';
+import { functions } from '../../../firebase';
+import { getBrowserLocale } from '../../../lib/waitlistUtils';
+import { getStoredCustomerSession } from '../../customer/session';
+import type { Locale } from '../../../types/shared';
 import type {
   BookingDraft,
   BookingConfirmation,
+  BookingPaymentRequest,
   BookingService,
+  BookingContext,
+  AvailabilitySlot,
+  SlotHold,
+  RecurrenceRule,
+  OccurrenceAvailability,
+  CustomerInfo,
+  IntakeAnswers,
+  SessionWaitlistEntry,
+  BookingWaitlistWindow,
 } from '../types';
 
+interface HoldSlotRequest {
+  orgId?: string; // the brand's slug
+  professionalId: string;
+  serviceIds: string[];
+  storeId?: string;
+  date: string;
+  time: string;
+  replaceHoldId?: string;
+}
+
+interface HoldSlotResponse {
+  success: boolean;
+  holdId: string;
+  professionalId: string;
+  expiresAt: string;
+}
+
+interface CheckRecurringAvailabilityRequest {
+  orgId?: string; // the brand's slug
+  professionalId: string;
+  serviceIds: string[];
+  storeId?: string;
+  date: string;
+  time: string;
+  recurrence: RecurrenceRule;
+  holdId?: string;
+}
+
+interface CheckRecurringAvailabilityResponse {
+  success: boolean;
+  timezone: string;
+  occurrences: OccurrenceAvailability[];
+}
+
+interface JoinSessionWaitlistRequest {
+  sessionId: string;
+  customer: Pick<CustomerInfo, 'firstName' | 'lastName' | 'email'>;
+  locale: Locale;
+}
+
+interface JoinBookingWaitlistRequest extends BookingWaitlistWindow {
+  orgId?: string; // the brand's slug
+  professionalId: string;
+  serviceIds: string[];
+  storeId?: string;
+  customer: Pick<CustomerInfo, 'firstName' | 'lastName' | 'email'>;
+  locale: Locale;
+}
+
+interface JoinSessionWaitlistResponse {
+  success: boolean;
+  entryId: string;
+  position: number;
+}
+
+interface CreateBookingRequest {
+  orgId?: string; // the brand's slug
+  professionalId: string;
+  serviceIds: string[];
+  storeId?: string;
+  date: string;
+  time: string;
+  holdId?: string;
+  sessionId?: string;
+  recurrence?: RecurrenceRule;
+  skipDates?: string[];
+  customer: BookingDraft['customer'];
+  intake?: IntakeAnswers;
+  customerSession?: string; // saves the details to the signed-in customer's profile
+  locale: Locale;
+}
+
+interface CreateBookingResponse {
+  success: boolean;
+  bookingId: string;
+  status: BookingDraft['status'];
+  date: string;
+  time: string;
+  duration: number;
+  timezone: string;
+  manageToken: string;
+  payment?: BookingPaymentRequest;
+  seriesId?: string;
+  occurrences?: string[];
+}
+
+interface ConfirmBookingRequest {
+  bookingId: string;
+  token: string;
+}
+
+interface ConfirmBookingResponse {
+  success: boolean;
+  confirmation: BookingConfirmation;
+}
+
+/**
+ * Thrown when the selected slot was taken by someone else before the
+ * booking could be created
+ */
+export class SlotUnavailableError extends Error {
+  constructor(message = 'The selected time slot is no longer available') {
+    super(message);
+    this.name = 'SlotUnavailableError';
+  }
+}
+
 export class FirebaseBookingService implements BookingService {
-  async createBookingDraft(
-    draft: Omit<BookingDraft, 'id' | 'createdAt' | 'updatedAt'>
-  ): Promise<BookingDraft> {
-    try {
-      const bookingData = {
-        ...draft,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-        status: 'draft' as const,
-      };
+  async holdSlot(
+    context: BookingContext,
+    serviceIds: string[],
+    slot: AvailabilitySlot,
+    replaceHoldId?: string
+  ): Promise<SlotHold> {
+    if (!functions) throw new Error('Firebase not initialized');
 
-      if (!db) throw new Error('Firebase not initialized');
-      const docRef = await addDoc(collection(db, 'bookings'), bookingData);
+    const holdSlot = httpsCallable<HoldSlotRequest, HoldSlotResponse>(
+      functions,
+      'holdSlot'
+    );
 
-      const bookingDraft: BookingDraft = {
-        ...draft,
-        id: docRef.id,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        status: 'draft',
-      };
+    try {
+      const { brandSlug, professionalId, storeId } = context;
+      if (!professionalId) throw new Error('Missing professional');
 
-      return bookingDraft;
+      const result = await holdSlot({
+        ...(brandSlug ? { orgId: brandSlug } : {}),
+        professionalId,
+        serviceIds,
+        ...(storeId ? { storeId } : {}),
+        date: slot.date,
+        time: slot.time,
+        ...(replaceHoldId ? { replaceHoldId } : {}),
+      });
+
+      return { id: result.data.holdId, expiresAt: result.data.expiresAt };
     } catch (error) {
-      console.error('Error creating booking draft:', error);
-      throw new Error('Failed to create booking draft');
+      console.error('Error holding slot:', error);
+      if ((error as FunctionsError).code === 'functions/failed-precondition') {
+        throw new SlotUnavailableError();
+      }
+      throw new Error('Failed to hold slot');
     }
   }
 
-  async confirmBooking(bookingId: string): Promise<BookingConfirmation> {
+  async checkRecurringAvailability(
+    context: BookingContext,
+    serviceIds: string[],
+    slot: AvailabilitySlot,
+    recurrence: RecurrenceRule,
+    holdId?: string
+  ): Promise<OccurrenceAvailability[]> {
+    if (!functions) throw new Error('Firebase not initialized');
+
+    const checkRecurringAvailability = httpsCallable<
+      CheckRecurringAvailabilityRequest,
+      CheckRecurringAvailabilityResponse
+    >(functions, 'checkRecurringAvailability');
+
     try {
-      // Update booking status to confirmed
-      if (!db) throw new Error('Firebase not initialized');
-      const bookingRef = doc(db, 'bookings', bookingId);
-      await updateDoc(bookingRef, {
-        status: 'confirmed',
-        updatedAt: serverTimestamp(),
-        confirmationCode: this.generateConfirmationCode(),
+      const { brandSlug, professionalId, storeId } = context;
+      if (!professionalId) throw new Error('Missing professional');
+
+      const result = await checkRecurringAvailability({
+        ...(brandSlug ? { orgId: brandSlug } : {}),
+        professionalId,
+        serviceIds,
+        ...(storeId ? { storeId } : {}),
+        date: slot.date,
+        time: slot.time,
+        recurrence,
+        ...(holdId ? { holdId } : {}),
       });
 
-      // In a real implementation, you would fetch the booking data here
-      // For now, we'll create a mock confirmation
-      const confirmation: BookingConfirmation = {
-        bookingId,
-        confirmationCode: this.generateConfirmationCode(),
-        icsFileUrl: `/api/bookings/${bookingId}/ics`,
-        customerEmail: 'customer@example.com', // Would come from booking data
-        professionalName: 'Professional Name', // Would come from booking data
-        serviceName: 'Service Name', // Would come from booking data
-        appointmentDate: '2024-01-15', // Would come from booking data
-        appointmentTime: '10:00', // Would come from booking data
-        location: 'Store Address', // Would come from booking data
-      };
+      return result.data.occurrences;
+    } catch (error) {
+      console.error('Error checking recurring availability:', error);
+      throw new Error('Failed to check the dates of the series');
+    }
+  }
+
+  async joinSessionWaitlist(
+    sessionId: string,
+    customer: Pick<CustomerInfo, 'firstName' | 'lastName' | 'email'>
+  ): Promise<SessionWaitlistEntry> {
+    if (!functions) throw new Error('Firebase not initialized');
 
-      return confirmation;
+    const joinSessionWaitlist = httpsCallable<
+      JoinSessionWaitlistRequest,
+      JoinSessionWaitlistResponse
+    >(functions, 'joinSessionWaitlist');
+
+    try {
+      const result = await joinSessionWaitlist({
+        sessionId,
+        customer,
+        locale: getBrowserLocale(),
+      });
+
+      return { id: result.data.entryId, position: result.data.position };
     } catch (error) {
-      console.error('Error confirming booking:', error);
-      throw new Error('Failed to confirm booking');
+      console.error('Error joining waitlist:', error);
+      if ((error as FunctionsError).code === 'functions/failed-precondition') {
+        throw new SlotUnavailableError((error as FunctionsError).message);
+      }
+      throw new Error('Failed to join the waitlist');
     }
   }
 
-  async sendConfirmationEmail(
-    confirmation: BookingConfirmation
+  async joinBookingWaitlist(
+    context: BookingContext,
+    serviceIds: string[],
+    window: BookingWaitlistWindow,
+    customer: Pick<CustomerInfo, 'firstName' | 'lastName' | 'email'>
   ): Promise<void> {
-    try {
-      // In a real implementation, this would call your email service
-      console.log('Sending confirmation email:', confirmation);
+    if (!functions) throw new Error('Firebase not initialized');
 
-      // Simulate email sending
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    const joinBookingWaitlist = httpsCallable<
+      JoinBookingWaitlistRequest,
+      { success: boolean; entryId: string }
+    >(functions, 'joinBookingWaitlist');
 
-      console.log('Confirmation email sent successfully');
+    try {
+      const { brandSlug, professionalId, storeId } = context;
+      if (!professionalId) throw new Error('Missing professional');
+
+      await joinBookingWaitlist({
+        ...(brandSlug ? { orgId: brandSlug } : {}),
+        professionalId,
+        serviceIds,
+        ...(storeId ? { storeId } : {}),
+        ...window,
+        customer,
+        locale: getBrowserLocale(),
+      });
     } catch (error) {
-      console.error('Error sending confirmation email:', error);
-      throw new Error('Failed to send confirmation email');
+      console.error('Error joining booking waitlist:', error);
+      throw new Error('Failed to join the waitlist');
     }
   }
 
-  async generateICSFile(booking: BookingDraft): Promise<string> {
+  async createBookingDraft(
+    draft: Omit<BookingDraft, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<BookingDraft> {
+    if (!functions) throw new Error('Firebase not initialized');
+
+    const createBooking = httpsCallable<
+      CreateBookingRequest,
+      CreateBookingResponse
+    >(functions, 'createBooking');
+
     try {
-      // In a real implementation, this would generate an actual ICS file
-      // For now, we'll return a mock URL
-      const icsUrl = `/api/bookings/${booking.id}/ics`;
-      console.log('Generated ICS file URL:', icsUrl);
-      return icsUrl;
+      const { brandSlug, professionalId, storeId } = draft.context;
+      if (!professionalId) throw new Error('Missing professional');
+      const customerSession = getStoredCustomerSession();
+
+      const result = await createBooking({
+        ...(brandSlug ? { orgId: brandSlug } : {}),
+        professionalId,
+        serviceIds: draft.services.map(service => service.serviceId),
+        ...(storeId ? { storeId } : {}),
+        date: draft.selectedSlot.date,
+        time: draft.selectedSlot.time,
+        ...(draft.holdId ? { holdId: draft.holdId } : {}),
+        ...(draft.selectedSlot.sessionId
+          ? { sessionId: draft.selectedSlot.sessionId }
+          : {}),
+        ...(draft.recurrence ? { recurrence: draft.recurrence } : {}),
+        ...(draft.skipDates?.length ? { skipDates: draft.skipDates } : {}),
+        customer: draft.customer,
+        ...(draft.intake ? { intake: draft.intake } : {}),
+        ...(customerSession ? { customerSession: customerSession.token } : {}),
+        locale: getBrowserLocale(),
+      });
+
+      return {
+        ...draft,
+        id: result.data.bookingId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        status: result.data.status,
+        manageToken: result.data.manageToken,
+        ...(result.data.payment ? { payment: result.data.payment } : {}),
+        ...(result.data.seriesId
+          ? {
+              seriesId: result.data.seriesId,
+              occurrences: result.data.occurrences || [],
+            }
+          : {}),
+      };
     } catch (error) {
-      console.error('Error generating ICS file:', error);
-      throw new Error('Failed to generate ICS file');
+      console.error('Error creating booking draft:', error);
+      if ((error as FunctionsError).code === 'functions/failed-precondition') {
+        throw new SlotUnavailableError();
+      }
+      throw new Error('Failed to create booking draft');
     }
   }
 
-  private generateConfirmationCode(): string {
-    // Generate a 6-digit confirmation code
-    return Math.floor(100000 + Math.random() * 900000).toString();
+  async confirmBooking(
+    draft: Pick<BookingDraft, 'id' | 'manageToken'>
+  ): Promise<BookingConfirmation> {
+    if (!functions) throw new Error('Firebase not initialized');
+
+    const confirmBooking = httpsCallable<
+      ConfirmBookingRequest,
+      ConfirmBookingResponse
+    >(functions, 'confirmBooking');
+
+    try {
+      if (!draft.manageToken) throw new Error('Missing booking token');
+      const result = await confirmBooking({
+        bookingId: draft.id,
+        token: draft.manageToken,
+      });
+      return result.data.confirmation;
+    } catch (error) {
+      console.error('Error confirming booking:', error);
+      throw new Error('Failed to confirm booking');
+    }
   }
 }
 
@@ -0,0 +1,81 @@
+/**
+ * Intake service
+ * Uploads reference photos customers attach to their intake answers, and
+ * gets staff a link to view them
+ */
+
+import { signInAnonymously } from 'firebase/auth';
+import { httpsCallable, type FunctionsError } from 'firebase/functions';
+import { ref, uploadBytes } from 'firebase/storage';
+import { auth, functions, storage } from '../../../firebase';
+
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+
+interface GetIntakePhotoUrlRequest {
+  bookingId: string;
+  questionId: string;
+}
+
+interface GetIntakePhotoUrlResponse {
+  success: boolean;
+  url: string;
+  expiresAt: string;
+}
+
+/**
+ * Upload a reference photo, returning the path to send as the answer.
+ * Customers who aren't signed in are signed in anonymously, since only
+ * signed-in users can upload.
+ */
+export async function uploadIntakePhoto(file: File): Promise<string> {
+  if (!auth || !storage) throw new Error('Firebase not initialized');
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Please choose an image file');
+  }
+  if (file.size >= MAX_PHOTO_BYTES) {
+    throw new Error('Photos must be smaller than 10 MB');
+  }
+
+  const path = `intake/${crypto.randomUUID()}/photo`;
+
+  try {
+    if (!auth.currentUser) {
+      await signInAnonymously(auth);
+    }
+    await uploadBytes(ref(storage, path), file, { contentType: file.type });
+    return path;
+  } catch (error) {
+    console.error('Error uploading intake photo:', error);
+    throw new Error('Failed to upload the photo');
+  }
+}
+
+/**
+ * Get a short-lived link to a photo a customer uploaded with a booking
+ */
+export async function getIntakePhotoUrl(
+  bookingId: string,
+  questionId: string
+): Promise<string> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const getUrl = httpsCallable<
+    GetIntakePhotoUrlRequest,
+    GetIntakePhotoUrlResponse
+  >(functions, 'getIntakePhotoUrl');
+
+  try {
+    const result = await getUrl({ bookingId, questionId });
+    return result.data.url;
+  } catch (error) {
+    console.error('Error getting intake photo:', error);
+    const { code, message } = error as FunctionsError;
+    if (
+      code === 'functions/not-found' ||
+      code === 'functions/permission-denied'
+    ) {
+      throw new Error(message);
+    }
+    throw new Error('Failed to open the photo');
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Manage booking service
+ * Lets customers view, cancel and reschedule a booking from their manage link
+ */
+
+import { httpsCallable, type FunctionsError } from 'firebase/functions';
+import { functions } from '../../../firebase';
+import type { ManagedBooking } from '../types';
+import { SlotUnavailableError } from './bookingService';
+
+export type CancelScope = 'occurrence' | 'series';
+
+interface ManagedBookingResponse {
+  success: boolean;
+  booking: ManagedBooking;
+}
+
+/**
+ * Thrown when the link is invalid, expired or the booking can no longer
+ * be changed
+ */
+export class ManageBookingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ManageBookingError';
+  }
+}
+
+const toManageBookingError = (error: unknown, fallback: string): Error => {
+  const { code, message } = error as FunctionsError;
+  if (
+    code === 'functions/permission-denied' ||
+    code === 'functions/failed-precondition' ||
+    code === 'functions/not-found'
+  ) {
+    return new ManageBookingError(message);
+  }
+  return new Error(fallback);
+};
+
+export async function getManagedBooking(
+  token: string
+): Promise<ManagedBooking> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const getBooking = httpsCallable<{ token: string }, ManagedBookingResponse>(
+    functions,
+    'getManagedBooking'
+  );
+
+  try {
+    const result = await getBooking({ token });
+    return result.data.booking;
+  } catch (error) {
+    console.error('Error loading booking:', error);
+    throw toManageBookingError(error, 'Failed to load booking');
+  }
+}
+
+/**
+ * Cancels the booking, or with scope 'series' this and every later
+ * appointment of its recurring series
+ */
+export async function cancelBooking(
+  token: string,
+  reason?: string,
+  scope: CancelScope = 'occurrence'
+): Promise<ManagedBooking> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const cancel = httpsCallable<
+    { token: string; reason?: string; scope: CancelScope },
+    ManagedBookingResponse
+  >(functions, 'cancelBooking');
+
+  try {
+    const result = await cancel({
+      token,
+      ...(reason ? { reason } : {}),
+      scope,
+    });
+    return result.data.booking;
+  } catch (error) {
+    console.error('Error cancelling booking:', error);
+    throw toManageBookingError(error, 'Failed to cancel booking');
+  }
+}
+
+export async function rescheduleBooking(
+  token: string,
+  date: string,
+  time: string
+): Promise<ManagedBooking> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const reschedule = httpsCallable<
+    { token: string; date: string; time: string },
+    ManagedBookingResponse
+  >(functions, 'rescheduleBooking');
+
+  try {
+    const result = await reschedule({ token, date, time });
+    return result.data.booking;
+  } catch (error) {
+    console.error('Error rescheduling booking:', error);
+    const { code, message } = error as FunctionsError;
+    if (
+      code === 'functions/failed-precondition' &&
+      message === new SlotUnavailableError().message
+    ) {
+      throw new SlotUnavailableError();
+    }
+    throw toManageBookingError(error, 'Failed to reschedule booking');
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Payment service
+ * Collects the deposit or prepayment a store requires before confirming a
+ * booking. The booking is confirmed server-side once the payment provider
+ * reports the payment.
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../../../firebase';
+import type { BookingDraft } from '../types';
+
+interface CompleteTestPaymentRequest {
+  bookingId: string;
+  intentId: string;
+}
+
+interface CompleteTestPaymentResponse {
+  success: boolean;
+}
+
+/**
+ * Thrown when the payment could not be taken
+ */
+export class PaymentError extends Error {
+  constructor(message = 'Your payment could not be processed') {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+/**
+ * Pay for a booking draft that requires payment
+ */
+export async function payBooking(draft: BookingDraft): Promise<void> {
+  if (!functions) throw new Error('Firebase not initialized');
+  if (!draft.payment) return;
+
+  switch (draft.payment.provider) {
+    case 'fake': {
+      // The fake provider has no checkout and only runs in the emulator; the
+      // server completes the payment as the processor would
+      const completeTestPayment = httpsCallable<
+        CompleteTestPaymentRequest,
+        CompleteTestPaymentResponse
+      >(functions, 'completeTestPayment');
+
+      try {
+        await completeTestPayment({
+          bookingId: draft.id,
+          intentId: draft.payment.intentId,
+        });
+      } catch (error) {
+        console.error('Error completing payment:', error);
+        throw new PaymentError();
+      }
+      return;
+    }
+    default:
+      throw new PaymentError(
+        `Unsupported payment provider: ${draft.payment.provider}`
+      );
+  }
+}
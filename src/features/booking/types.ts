@@ -3,6 +3,8 @@
  * Defines data contracts for the booking wizard
  */
 
+import type { BookingPolicy } from '../../types/shared';
+
 export interface BookingContext {
   brandId: string;
   brandSlug: string;
@@ -27,6 +29,46 @@ export interface AvailabilitySlot {
   duration: number; // minutes
   available: boolean;
   professionalId?: string;
+  sessionId?: string; // class sessions only
+  seatsLeft?: number; // class sessions only
+}
+
+/**
+ * Weekly repetition of the selected slot, ending after a number of
+ * appointments or on a date
+ */
+export interface RecurrenceRule {
+  interval: number; // weeks between appointments
+  count?: number;
+  until?: string; // YYYY-MM-DD
+}
+
+export interface OccurrenceAvailability {
+  date: string; // YYYY-MM-DD
+  available: boolean;
+}
+
+/**
+ * A short-lived hold on the selected slot while the customer fills in
+ * their details
+ */
+export interface SlotHold {
+  id: string;
+  expiresAt: string; // ISO 8601
+}
+
+/**
+ * A customer's place on the waitlist of a full class session
+ */
+export interface SessionWaitlistEntry {
+  id: string;
+  position: number; // 1 for the next customer to be told about a free seat
+}
+
+// Dates a customer on the booking waitlist can come in, YYYY-MM-DD
+export interface BookingWaitlistWindow {
+  dateFrom: string;
+  dateTo: string;
 }
 
 export interface CustomerInfo {
@@ -37,47 +79,146 @@ export interface CustomerInfo {
   notes?: string;
 }
 
+// Answers to the selected services' intake questions, by question ID
+export type IntakeAnswers = Record<string, string | boolean>;
+
+export interface BookingServiceLine {
+  serviceId: string;
+  serviceName: string;
+  duration: number; // minutes
+  price: number;
+}
+
+/**
+ * Upfront payment the store requires before a booking is confirmed
+ */
+export interface BookingPaymentRequest {
+  provider: string;
+  intentId: string;
+  clientSecret: string;
+  amount: number;
+  currency: string;
+  mode: 'deposit' | 'full';
+}
+
+// Bookings are drafts until confirmed; staff then check the customer in and
+// complete the booking, or mark it a no-show
+export type BookingStatus =
+  | 'draft'
+  | 'confirmed'
+  | 'checked_in'
+  | 'completed'
+  | 'no_show'
+  | 'cancelled';
+
 export interface BookingDraft {
   id: string;
   context: BookingContext;
-  serviceId: string;
-  serviceName: string;
-  serviceDuration: number;
-  servicePrice: number;
+  services: BookingServiceLine[]; // in the order they're performed
   selectedSlot: AvailabilitySlot;
   customer: CustomerInfo;
-  status: 'draft' | 'confirmed' | 'cancelled';
+  intake?: IntakeAnswers;
+  status: BookingStatus;
   createdAt: Date;
   updatedAt: Date;
+  manageToken?: string; // issued by createBooking, needed to confirm the draft
   confirmationCode?: string;
+  holdId?: string; // hold on the selected slot, released once booked
+  recurrence?: RecurrenceRule;
+  skipDates?: string[]; // occurrences left out because they're unavailable
+  seriesId?: string;
+  occurrences?: string[]; // dates booked in the series
+  payment?: BookingPaymentRequest;
 }
 
 export interface BookingConfirmation {
   bookingId: string;
   confirmationCode: string;
   icsFileUrl: string;
+  manageUrl: string; // path of the manage-booking page
+  customerName: string;
   customerEmail: string;
+  customerPhone: string;
   professionalName: string;
   serviceName: string;
   appointmentDate: string;
   appointmentTime: string;
+  duration: number; // minutes
+  timezone: string;
   location?: string;
 }
 
+/**
+ * A confirmed booking as seen from the customer's manage link
+ */
+export interface ManagedBooking extends BookingConfirmation {
+  status: BookingDraft['status'];
+  professionalId: string;
+  storeId: string | null;
+  serviceId: string;
+  services: BookingServiceLine[];
+  price: number;
+  cancellationHours: number;
+  changeDeadline: string; // ISO 8601
+  canChange: boolean;
+  payment: {
+    amountPaid: number;
+    refundedAmount: number;
+    refundAmount: number; // what cancelling now would refund
+    currency: string;
+  } | null;
+  series: {
+    interval: number; // weeks
+    upcoming: string[]; // dates still booked from this appointment on
+  } | null;
+  sessionId: string | null; // seat in a class session
+  resources: string[]; // rooms or chairs taken, e.g. "Massage room 2"
+}
+
+export interface AvailabilityResult {
+  timezone: string;
+  slots: AvailabilitySlot[];
+  policy: BookingPolicy; // lead time, advance window and cancellation window
+}
+
 export interface AvailabilityProvider {
   getAvailableSlots(
-    professionalId: string,
-    serviceId: string,
+    context: BookingContext,
+    serviceIds: string[],
     startDate: string,
-    endDate: string
-  ): Promise<AvailabilitySlot[]>;
+    endDate: string,
+    holdId?: string // the customer's own hold, whose slot shows as free
+  ): Promise<AvailabilityResult>;
 }
 
 export interface BookingService {
+  holdSlot(
+    context: BookingContext,
+    serviceIds: string[],
+    slot: AvailabilitySlot,
+    replaceHoldId?: string
+  ): Promise<SlotHold>;
+  checkRecurringAvailability(
+    context: BookingContext,
+    serviceIds: string[],
+    slot: AvailabilitySlot,
+    recurrence: RecurrenceRule,
+    holdId?: string
+  ): Promise<OccurrenceAvailability[]>;
+  joinSessionWaitlist(
+    sessionId: string,
+    customer: Pick<CustomerInfo, 'firstName' | 'lastName' | 'email'>
+  ): Promise<SessionWaitlistEntry>;
+  joinBookingWaitlist(
+    context: BookingContext,
+    serviceIds: string[],
+    window: BookingWaitlistWindow,
+    customer: Pick<CustomerInfo, 'firstName' | 'lastName' | 'email'>
+  ): Promise<void>;
   createBookingDraft(
     draft: Omit<BookingDraft, 'id' | 'createdAt' | 'updatedAt'>
   ): Promise<BookingDraft>;
-  confirmBooking(bookingId: string): Promise<BookingConfirmation>;
-  sendConfirmationEmail(confirmation: BookingConfirmation): Promise<void>;
-  generateICSFile(booking: BookingDraft): Promise<string>;
+  confirmBooking(
+    draft: Pick<BookingDraft, 'id' | 'manageToken'>
+  ): Promise<BookingConfirmation>;
 }
@@ -0,0 +1,16 @@
+/**
+ * Booking wizard helpers
+ * Totals for bookings that combine several services
+ */
+
+import type { Service } from '../../lib/bookingMockData';
+
+// Professional ID for "any professional" bookings; the server merges the
+// store's schedules and assigns someone when the booking is created
+export const ANY_PROFESSIONAL = 'any';
+
+export const getTotalDuration = (services: Service[]): number =>
+  services.reduce((total, service) => total + service.durationMin, 0);
+
+export const getTotalPrice = (services: Service[]): number =>
+  services.reduce((total, service) => total + service.price, 0);
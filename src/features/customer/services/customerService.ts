@@ -0,0 +1,113 @@
+/**
+ * Customer service
+ * Emails customers a sign-in link, exchanges it for a session and loads
+ * their account
+ */
+
+import { httpsCallable, type FunctionsError } from 'firebase/functions';
+import { functions } from '../../../firebase';
+import type {
+  CustomerAccount,
+  CustomerProfile,
+  CustomerSession,
+} from '../types';
+
+interface RedeemCustomerSignInResponse {
+  success: boolean;
+  sessionToken: string;
+  expiresAt: string;
+  profile: CustomerProfile;
+}
+
+interface GetCustomerAccountResponse extends CustomerAccount {
+  success: boolean;
+}
+
+/**
+ * Thrown when a sign-in link or session is invalid or has expired
+ */
+export class CustomerSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomerSessionError';
+  }
+}
+
+const toCustomerError = (error: unknown, fallback: string): Error => {
+  const { code, message } = error as FunctionsError;
+  if (code === 'functions/unauthenticated') {
+    return new CustomerSessionError(message);
+  }
+  return new Error(fallback);
+};
+
+/**
+ * Email the customer a link to sign in
+ */
+export async function requestCustomerSignIn(email: string): Promise<void> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const requestSignIn = httpsCallable<{ email: string }, { success: boolean }>(
+    functions,
+    'requestCustomerSignIn'
+  );
+
+  try {
+    await requestSignIn({ email });
+  } catch (error) {
+    console.error('Error requesting sign-in link:', error);
+    throw new Error('Failed to send the sign-in link');
+  }
+}
+
+/**
+ * Exchange the token from a sign-in link for a session
+ */
+export async function redeemCustomerSignIn(
+  token: string
+): Promise<CustomerSession> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const redeem = httpsCallable<{ token: string }, RedeemCustomerSignInResponse>(
+    functions,
+    'redeemCustomerSignIn'
+  );
+
+  try {
+    const result = await redeem({ token });
+    return {
+      token: result.data.sessionToken,
+      expiresAt: result.data.expiresAt,
+      profile: result.data.profile,
+    };
+  } catch (error) {
+    console.error('Error signing in:', error);
+    throw toCustomerError(error, 'Failed to sign in');
+  }
+}
+
+/**
+ * Load the signed-in customer's profile and bookings
+ */
+export async function getCustomerAccount(
+  sessionToken: string
+): Promise<CustomerAccount> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const getAccount = httpsCallable<
+    { sessionToken: string },
+    GetCustomerAccountResponse
+  >(functions, 'getCustomerAccount');
+
+  try {
+    const result = await getAccount({ sessionToken });
+    return {
+      profile: result.data.profile,
+      upcoming: result.data.upcoming,
+      past: result.data.past,
+    };
+  } catch (error) {
+    console.error('Error loading customer account:', error);
+    throw toCustomerError(error, 'Failed to load your bookings');
+  }
+}
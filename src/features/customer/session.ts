@@ -0,0 +1,45 @@
+/**
+ * Customer session storage
+ * Keeps the signed-in customer's session in localStorage so it survives
+ * reloads and is sent along with their bookings
+ */
+
+import type { CustomerSession } from './types';
+
+const SESSION_KEY = 'calendado-customer-session';
+
+/**
+ * Get the stored session, or null when signed out or the session expired
+ */
+export const getStoredCustomerSession = (): CustomerSession | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    if (!stored) return null;
+
+    const session = JSON.parse(stored) as CustomerSession;
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      localStorage.removeItem(SESSION_KEY);
+      return null;
+    }
+    return session;
+  } catch {
+    localStorage.removeItem(SESSION_KEY);
+    return null;
+  }
+};
+
+export const saveCustomerSession = (session: CustomerSession): void => {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  }
+};
+
+export const clearCustomerSession = (): void => {
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(SESSION_KEY);
+  }
+};
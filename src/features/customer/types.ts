@@ -0,0 +1,40 @@
+/**
+ * Customer account types
+ * Customers sign in with an emailed link to have their details filled in
+ * and see their bookings; they are separate from staff users
+ */
+
+import type { BookingStatus } from '../booking/types';
+
+export interface CustomerProfile {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+}
+
+export interface CustomerSession {
+  token: string;
+  expiresAt: string; // ISO 8601
+  profile: CustomerProfile;
+}
+
+export interface CustomerBookingSummary {
+  bookingId: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  timezone: string;
+  duration: number; // minutes
+  status: BookingStatus;
+  serviceName: string;
+  professionalName?: string;
+  storeName?: string;
+  manageUrl?: string; // path of the manage-booking page, upcoming bookings only
+  rebookUrl?: string; // path of the booking page with the service preselected
+}
+
+export interface CustomerAccount {
+  profile: CustomerProfile;
+  upcoming: CustomerBookingSummary[]; // soonest first
+  past: CustomerBookingSummary[]; // latest first, including cancelled bookings
+}
@@ -0,0 +1,289 @@
+/**
+ * Calendar helpers
+ * Date ranges, working hours and booking layout for the dashboard calendar.
+ * Dates are YYYY-MM-DD and times HH:MM, wall-clock in the professional's
+ * schedule, like the bookings themselves.
+ */
+
+import type { ScheduleException } from '../schedule/types';
+import type { ProfessionalBooking, ProfessionalProfile } from './types';
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+// Hours shown on the day and week grids when nothing falls outside them
+const DEFAULT_GRID_START = 8 * 60;
+const DEFAULT_GRID_END = 20 * 60;
+
+// Bookings dragged on a grid start on the quarter hour
+const DROP_INTERVAL = 15;
+
+const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+// Part of a day shaded on the grid, in minutes from midnight
+export interface ShadedRange {
+  start: number;
+  end: number;
+  kind: 'closed' | 'time_off'; // outside working hours, or a schedule exception
+  label?: string;
+}
+
+// A booking placed on the grid; overlapping bookings share the width
+export interface BookingBlock {
+  booking: ProfessionalBooking;
+  start: number; // minutes from midnight
+  end: number;
+  column: number;
+  columns: number;
+}
+
+const parseDate = (date: string) => new Date(`${date}T00:00:00`);
+
+export const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const addDays = (date: string, days: number) => {
+  const result = parseDate(date);
+  result.setDate(result.getDate() + days);
+  return toDateString(result);
+};
+
+export const toMinutes = (time: string) => {
+  const [hours = '0', minutes = '0'] = time.split(':');
+  return parseInt(hours) * 60 + parseInt(minutes);
+};
+
+export const toTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const getWeekday = (date: string) =>
+  WEEKDAYS[parseDate(date).getDay()] ?? 'sunday';
+
+/**
+ * Dates shown by a view around the anchor date: the day, its week from
+ * Sunday, or whole weeks covering its month
+ */
+export function getViewDates(view: CalendarView, anchor: string): string[] {
+  if (view === 'day') {
+    return [anchor];
+  }
+
+  if (view === 'week') {
+    const start = addDays(anchor, -parseDate(anchor).getDay());
+    return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+  }
+
+  const first = `${anchor.slice(0, 8)}01`;
+  const start = addDays(first, -parseDate(first).getDay());
+  const dates: string[] = [];
+  for (
+    let date = start;
+    date.slice(0, 7) <= anchor.slice(0, 7) || dates.length % 7 !== 0;
+    date = addDays(date, 1)
+  ) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Move the anchor date a day, week or month back or forward
+ */
+export function shiftAnchor(
+  view: CalendarView,
+  anchor: string,
+  direction: 1 | -1
+): string {
+  if (view === 'day') return addDays(anchor, direction);
+  if (view === 'week') return addDays(anchor, direction * 7);
+
+  const date = parseDate(`${anchor.slice(0, 8)}01`);
+  date.setMonth(date.getMonth() + direction);
+  return toDateString(date);
+}
+
+export function getViewTitle(view: CalendarView, anchor: string): string {
+  if (view === 'day') {
+    return parseDate(anchor).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  }
+
+  if (view === 'month') {
+    return parseDate(anchor).toLocaleDateString('en-US', {
+      month: 'long',
+      year: 'numeric',
+    });
+  }
+
+  const dates = getViewDates('week', anchor);
+  const format = (date: string) =>
+    parseDate(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+    });
+  return `${format(dates[0] ?? anchor)} – ${format(dates[6] ?? anchor)}, ${anchor.slice(0, 4)}`;
+}
+
+const exceptionsOn = (exceptions: ScheduleException[], date: string) =>
+  exceptions.filter(
+    exception => exception.startDate <= date && exception.endDate >= date
+  );
+
+/**
+ * Parts of a day to shade: outside the weekly hours, or the custom hours
+ * that replace them, and any time off
+ */
+export function getShadedRanges(
+  profile: Pick<ProfessionalProfile, 'availability' | 'scheduleExceptions'>,
+  date: string
+): ShadedRange[] {
+  const exceptions = exceptionsOn(profile.scheduleExceptions, date);
+
+  const closed = exceptions.find(exception => exception.type === 'closed');
+  if (closed) {
+    return [
+      {
+        start: 0,
+        end: 24 * 60,
+        kind: 'time_off',
+        label: closed.reason || 'Time off',
+      },
+    ];
+  }
+
+  const custom = exceptions.find(
+    exception => exception.type === 'custom_hours'
+  );
+  const weekly = profile.availability[getWeekday(date)];
+  const hours =
+    custom?.start && custom.end
+      ? { start: toMinutes(custom.start), end: toMinutes(custom.end) }
+      : weekly?.available
+        ? { start: toMinutes(weekly.start), end: toMinutes(weekly.end) }
+        : null;
+
+  const ranges: ShadedRange[] = hours
+    ? [
+        { start: 0, end: hours.start, kind: 'closed' as const },
+        { start: hours.end, end: 24 * 60, kind: 'closed' as const },
+      ].filter(range => range.end > range.start)
+    : [{ start: 0, end: 24 * 60, kind: 'closed' }];
+
+  for (const exception of exceptions) {
+    if (exception.type === 'blocked' && exception.start && exception.end) {
+      ranges.push({
+        start: toMinutes(exception.start),
+        end: toMinutes(exception.end),
+        kind: 'time_off',
+        label: exception.reason || 'Blocked',
+      });
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Hours to show on a time grid: the default day, widened to the working
+ * hours and bookings of the dates shown, in whole hours
+ */
+export function getGridHours(
+  profile: Pick<ProfessionalProfile, 'availability' | 'scheduleExceptions'>,
+  dates: string[],
+  bookings: ProfessionalBooking[]
+): { start: number; end: number } {
+  let start = DEFAULT_GRID_START;
+  let end = DEFAULT_GRID_END;
+
+  for (const date of dates) {
+    const open = getShadedRanges(profile, date).filter(
+      range => range.kind === 'closed'
+    );
+    const opensAt = open.find(range => range.start === 0)?.end ?? start;
+    const closesAt = open.find(range => range.end === 24 * 60)?.start ?? end;
+    if (opensAt < closesAt) {
+      start = Math.min(start, opensAt);
+      end = Math.max(end, closesAt);
+    }
+  }
+
+  for (const booking of bookings) {
+    if (!dates.includes(booking.date)) continue;
+    start = Math.min(start, toMinutes(booking.time));
+    end = Math.max(end, toMinutes(booking.time) + booking.duration);
+  }
+
+  return {
+    start: Math.floor(start / 60) * 60,
+    end: Math.min(Math.ceil(end / 60) * 60, 24 * 60),
+  };
+}
+
+/**
+ * Start time of a booking dropped on a grid at the given minutes from
+ * midnight, on the quarter hour and ending by midnight
+ */
+export function getDropTime(minutes: number, duration: number): string {
+  const snapped = Math.round(minutes / DROP_INTERVAL) * DROP_INTERVAL;
+  const latest = 24 * 60 - Math.max(duration, DROP_INTERVAL);
+  return toTime(Math.min(Math.max(snapped, 0), latest));
+}
+
+/**
+ * Place a day's bookings on the grid, splitting the width between bookings
+ * that overlap
+ */
+export function layoutBookings(
+  bookings: ProfessionalBooking[]
+): BookingBlock[] {
+  const blocks = bookings
+    .map(booking => ({
+      booking,
+      start: toMinutes(booking.time),
+      end: toMinutes(booking.time) + Math.max(booking.duration, 15),
+      column: 0,
+      columns: 1,
+    }))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  // Blocks that overlap, directly or through each other, share columns
+  let group: BookingBlock[] = [];
+  let groupEnd = -1;
+  const closeGroup = () => {
+    const columns = Math.max(...group.map(block => block.column)) + 1;
+    group.forEach(block => {
+      block.columns = columns;
+    });
+  };
+
+  for (const block of blocks) {
+    if (group.length > 0 && block.start >= groupEnd) {
+      closeGroup();
+      group = [];
+    }
+
+    const taken = group
+      .filter(other => other.end > block.start)
+      .map(other => other.column);
+    let column = 0;
+    while (taken.includes(column)) column++;
+    block.column = column;
+
+    group.push(block);
+    groupEnd = Math.max(groupEnd, block.end);
+  }
+  if (group.length > 0) closeGroup();
+
+  return blocks;
+}
@@ -0,0 +1,232 @@
+/**
+ * Booking detail dialog
+ * Customer details, notes and intake answers of a booking picked on the
+ * calendar, with buttons to check the customer in, complete the booking or
+ * mark it a no-show
+ */
+
+import React, { useState } from 'react';
+import {
+  X,
+  Calendar,
+  Clock,
+  Mail,
+  Phone,
+  MessageSquare,
+  UserCheck,
+  CheckCircle,
+  UserX,
+} from 'lucide-react';
+import { Button } from '../../../components/ui/Button';
+import { Card, CardContent } from '../../../components/ui/Card';
+import { IntakeAnswersList } from '../../booking/components/IntakeAnswersList';
+import type {
+  AttendanceStatus,
+  ProfessionalBooking,
+  ProfessionalBookingStatus,
+} from '../types';
+
+const STATUS_BADGES: Record<
+  ProfessionalBookingStatus,
+  { label: string; className: string }
+> = {
+  pending: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  confirmed: { label: 'Confirmed', className: 'bg-green-100 text-green-800' },
+  checked_in: { label: 'Checked in', className: 'bg-blue-100 text-blue-800' },
+  completed: { label: 'Completed', className: 'bg-gray-100 text-gray-800' },
+  no_show: { label: 'No-show', className: 'bg-red-100 text-red-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-800' },
+};
+
+// What staff can do next from each status; the server enforces the same
+const STATUS_ACTIONS: Partial<
+  Record<ProfessionalBookingStatus, AttendanceStatus[]>
+> = {
+  confirmed: ['checked_in', 'no_show'],
+  checked_in: ['completed'],
+  no_show: ['checked_in'],
+};
+
+const ACTION_BUTTONS: Record<
+  AttendanceStatus,
+  { label: string; icon: React.ElementType }
+> = {
+  checked_in: { label: 'Check In', icon: UserCheck },
+  completed: { label: 'Complete', icon: CheckCircle },
+  no_show: { label: 'No-show', icon: UserX },
+};
+
+interface BookingDetailDialogProps {
+  booking: ProfessionalBooking;
+  onClose: () => void;
+  onUpdateStatus?: (
+    booking: ProfessionalBooking,
+    status: AttendanceStatus
+  ) => Promise<void>;
+}
+
+export const BookingDetailDialog: React.FC<BookingDetailDialogProps> = ({
+  booking,
+  onClose,
+  onUpdateStatus,
+}) => {
+  const [updating, setUpdating] = useState<AttendanceStatus | null>(null);
+  const badge = STATUS_BADGES[booking.status];
+  const actions = onUpdateStatus ? STATUS_ACTIONS[booking.status] || [] : [];
+
+  const formatDate = (dateString: string) =>
+    new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+
+  const formatTime = (timeString: string) =>
+    new Date(`2000-01-01T${timeString}`).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    });
+
+  const formatMoment = (date: Date) =>
+    date.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const statusTimes = [
+    { label: 'Checked in', at: booking.checkedInAt },
+    { label: 'Completed', at: booking.completedAt },
+    { label: 'Marked no-show', at: booking.noShowAt },
+  ].filter((entry): entry is { label: string; at: Date } => !!entry.at);
+
+  const handleUpdateStatus = async (status: AttendanceStatus) => {
+    if (!onUpdateStatus) return;
+
+    try {
+      setUpdating(status);
+      await onUpdateStatus(booking, status);
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  return (
+    <div
+      className='fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50'
+      onClick={onClose}
+    >
+      <Card
+        className='w-full max-w-lg max-h-full overflow-y-auto'
+        onClick={(e: React.MouseEvent) => e.stopPropagation()}
+      >
+        <CardContent className='p-6'>
+          <div className='flex items-start justify-between mb-6'>
+            <div>
+              <h2 className='text-xl font-semibold text-gray-900'>
+                {booking.customerName}
+              </h2>
+              <p className='text-sm text-gray-600'>{booking.service}</p>
+            </div>
+            <Button variant='ghost' size='sm' onClick={onClose} className='p-1'>
+              <X className='w-5 h-5' />
+            </Button>
+          </div>
+
+          <div className='flex flex-wrap gap-2 mb-4'>
+            <span
+              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${badge.className}`}
+            >
+              {badge.label}
+            </span>
+            {booking.scheduleConflict && (
+              <span className='inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800'>
+                Schedule conflict
+              </span>
+            )}
+          </div>
+
+          <div className='space-y-2 text-sm text-gray-700 mb-6'>
+            <p className='flex items-center'>
+              <Calendar className='w-4 h-4 mr-2 text-gray-400' />
+              {formatDate(booking.date)}
+            </p>
+            <p className='flex items-center'>
+              <Clock className='w-4 h-4 mr-2 text-gray-400' />
+              {formatTime(booking.time)}, {booking.duration} minutes
+            </p>
+            <p className='flex items-center'>
+              <Mail className='w-4 h-4 mr-2 text-gray-400' />
+              <a
+                href={`mailto:${booking.customerEmail}`}
+                className='text-primary-600 hover:underline'
+              >
+                {booking.customerEmail}
+              </a>
+            </p>
+            {booking.customerPhone && (
+              <p className='flex items-center'>
+                <Phone className='w-4 h-4 mr-2 text-gray-400' />
+                <a
+                  href={`tel:${booking.customerPhone}`}
+                  className='text-primary-600 hover:underline'
+                >
+                  {booking.customerPhone}
+                </a>
+              </p>
+            )}
+            {statusTimes.map(entry => (
+              <p key={entry.label} className='text-gray-500'>
+                {entry.label} {formatMoment(entry.at)}
+              </p>
+            ))}
+          </div>
+
+          {actions.length > 0 && (
+            <div className='flex flex-wrap gap-2 mb-6'>
+              {actions.map(status => {
+                const { label, icon: Icon } = ACTION_BUTTONS[status];
+                return (
+                  <Button
+                    key={status}
+                    size='sm'
+                    variant={status === 'no_show' ? 'outline' : 'primary'}
+                    loading={updating === status}
+                    disabled={updating !== null}
+                    onClick={() => handleUpdateStatus(status)}
+                  >
+                    <Icon className='w-4 h-4 mr-2' />
+                    {label}
+                  </Button>
+                );
+              })}
+            </div>
+          )}
+
+          {booking.notes && (
+            <div className='mb-6'>
+              <h3 className='flex items-center text-sm font-semibold text-gray-900 mb-2'>
+                <MessageSquare className='w-4 h-4 mr-2' />
+                Notes
+              </h3>
+              <p className='text-sm text-gray-700 whitespace-pre-line'>
+                {booking.notes}
+              </p>
+            </div>
+          )}
+
+          <h3 className='text-sm font-semibold text-gray-900 mb-2'>
+            Intake Answers
+          </h3>
+          <IntakeAnswersList
+            bookingId={booking.id}
+            answers={booking.intake || []}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
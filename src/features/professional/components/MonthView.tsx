@@ -0,0 +1,85 @@
+/**
+ * Calendar month view
+ * Whole weeks covering a month with the number of bookings on each day;
+ * picking a day opens it in the day view
+ */
+
+import React from 'react';
+import { getShadedRanges, toDateString } from '../calendar';
+import type { ProfessionalBooking, ProfessionalProfile } from '../types';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface MonthViewProps {
+  profile: ProfessionalProfile;
+  dates: string[]; // whole weeks, from getViewDates
+  month: string; // YYYY-MM shown
+  bookings: ProfessionalBooking[];
+  onSelectDate: (date: string) => void;
+}
+
+export const MonthView: React.FC<MonthViewProps> = ({
+  profile,
+  dates,
+  month,
+  bookings,
+  onSelectDate,
+}) => {
+  const today = toDateString(new Date());
+
+  const countOn = (date: string) =>
+    bookings.filter(
+      booking => booking.date === date && booking.status !== 'cancelled'
+    ).length;
+
+  // Days off and time off are shaded like on the time grid
+  const isDayOff = (date: string) =>
+    getShadedRanges(profile, date).some(
+      range => range.start === 0 && range.end === 24 * 60
+    );
+
+  return (
+    <div>
+      <div className='grid grid-cols-7 border-b border-gray-200'>
+        {WEEKDAY_LABELS.map(label => (
+          <div
+            key={label}
+            className='py-2 text-center text-sm font-medium text-gray-700'
+          >
+            {label}
+          </div>
+        ))}
+      </div>
+      <div className='grid grid-cols-7'>
+        {dates.map(date => {
+          const count = countOn(date);
+          return (
+            <button
+              key={date}
+              type='button'
+              onClick={() => onSelectDate(date)}
+              className={`h-20 p-2 border-b border-r border-gray-100 text-left hover:bg-primary-50 ${
+                isDayOff(date) ? 'bg-gray-100' : ''
+              } ${date.startsWith(month) ? '' : 'opacity-50'}`}
+            >
+              <span
+                className={`text-sm ${
+                  date === today
+                    ? 'font-bold text-primary-600'
+                    : 'text-gray-700'
+                }`}
+              >
+                {parseInt(date.slice(8))}
+              </span>
+              {count > 0 && (
+                <span className='mt-1 block w-fit rounded-full bg-primary-100 px-2 py-0.5 text-xs font-medium text-primary-800'>
+                  {count} {count === 1 ? 'booking' : 'bookings'}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,431 @@
+/**
+ * New booking dialog
+ * Lets the professional or front-desk staff book a phone or walk-in
+ * customer: pick a customer who booked before or add a new one, the
+ * services and a time, and book over time that isn't free after a warning
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, AlertTriangle, Search } from 'lucide-react';
+import { Button } from '../../../components/ui/Button';
+import { Card, CardContent } from '../../../components/ui/Card';
+import { Input } from '../../../components/ui/Input';
+import { IntakeQuestions } from '../../booking/components/IntakeQuestions';
+import {
+  getIntakeQuestions,
+  validateIntakeAnswers,
+} from '../../booking/intake';
+import { SlotUnavailableError } from '../../booking/services/bookingService';
+import {
+  createStaffBooking,
+  loadBookableServices,
+  searchCustomers,
+} from '../services/professionalService';
+import { toDateString } from '../calendar';
+import type { Service } from '../../../lib/bookingMockData';
+import type { CustomerInfo, IntakeAnswers } from '../../booking/types';
+import type { OrgCustomer, ProfessionalProfile } from '../types';
+
+// Wait for a pause in typing before searching customers
+const SEARCH_DELAY_MS = 300;
+
+const EMPTY_CUSTOMER: CustomerInfo = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+};
+
+// The current time, rounded down to 5 minutes, for walk-ins
+const getCurrentTime = () => {
+  const now = new Date();
+  const minutes = Math.floor(now.getMinutes() / 5) * 5;
+  return `${String(now.getHours()).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+interface NewBookingDialogProps {
+  profile: Pick<ProfessionalProfile, 'id' | 'orgId' | 'storeId' | 'services'>;
+  initialDate: string; // YYYY-MM-DD
+  onClose: () => void;
+  onCreated: (customer: CustomerInfo) => void;
+}
+
+export const NewBookingDialog: React.FC<NewBookingDialogProps> = ({
+  profile,
+  initialDate,
+  onClose,
+  onCreated,
+}) => {
+  const [services, setServices] = useState<Service[]>([]);
+  const [loadingServices, setLoadingServices] = useState(true);
+  const [serviceIds, setServiceIds] = useState<string[]>([]);
+  const [slot, setSlot] = useState({ date: initialDate, time: '' });
+  const [customer, setCustomer] = useState<CustomerInfo>(EMPTY_CUSTOMER);
+  const [search, setSearch] = useState('');
+  const [matches, setMatches] = useState<OrgCustomer[]>([]);
+  const [intake, setIntake] = useState<IntakeAnswers>({});
+  const [intakeErrors, setIntakeErrors] = useState<Record<string, string>>({});
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+
+  const { orgId } = profile;
+
+  useEffect(() => {
+    loadBookableServices(profile)
+      .then(setServices)
+      .catch(err => {
+        console.error('Error loading services:', err);
+        setError('Failed to load services');
+      })
+      .finally(() => setLoadingServices(false));
+  }, [profile]);
+
+  useEffect(() => {
+    const term = search.trim();
+    if (term.length < 2) {
+      setMatches([]);
+      return;
+    }
+
+    let current = true;
+    const timeout = setTimeout(() => {
+      searchCustomers(orgId, term)
+        .then(found => {
+          if (current) setMatches(found);
+        })
+        .catch(err => {
+          console.error('Error searching customers:', err);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      current = false;
+      clearTimeout(timeout);
+    };
+  }, [orgId, search]);
+
+  const selectedServices = serviceIds
+    .map(id => services.find(service => service.id === id))
+    .filter((service): service is Service => !!service);
+  const questions = getIntakeQuestions(selectedServices);
+
+  const isValid =
+    serviceIds.length > 0 &&
+    !!slot.date &&
+    !!slot.time &&
+    !!customer.firstName.trim() &&
+    !!customer.lastName.trim() &&
+    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(customer.email) &&
+    !!customer.phone.trim();
+
+  // Any change to what's booked needs a fresh availability check
+  const handleToggleService = (serviceId: string) => {
+    setUnavailable(false);
+    setServiceIds(prev =>
+      prev.includes(serviceId)
+        ? prev.filter(id => id !== serviceId)
+        : [...prev, serviceId]
+    );
+  };
+
+  const handleSlotChange = (field: keyof typeof slot, value: string) => {
+    setUnavailable(false);
+    setSlot(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleWalkIn = () => {
+    setUnavailable(false);
+    setSlot({ date: toDateString(new Date()), time: getCurrentTime() });
+  };
+
+  const handleCustomerChange = (field: keyof CustomerInfo, value: string) => {
+    setCustomer(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handlePickCustomer = (picked: OrgCustomer) => {
+    setCustomer(prev => ({
+      ...picked,
+      ...(prev.notes ? { notes: prev.notes } : {}),
+    }));
+    setSearch('');
+    setMatches([]);
+  };
+
+  const handleSubmit = async (overrideAvailability: boolean) => {
+    if (!isValid) return;
+
+    const errors = validateIntakeAnswers(questions, intake);
+    setIntakeErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await createStaffBooking(profile, {
+        serviceIds,
+        date: slot.date,
+        time: slot.time,
+        customer: {
+          firstName: customer.firstName.trim(),
+          lastName: customer.lastName.trim(),
+          email: customer.email.trim(),
+          phone: customer.phone.trim(),
+          ...(customer.notes?.trim() ? { notes: customer.notes.trim() } : {}),
+        },
+        ...(questions.length > 0 ? { intake } : {}),
+        ...(overrideAvailability ? { overrideAvailability } : {}),
+      });
+      onCreated(customer);
+    } catch (err) {
+      if (err instanceof SlotUnavailableError) {
+        setUnavailable(true);
+      } else {
+        setError(
+          err instanceof Error ? err.message : 'Failed to create the booking'
+        );
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className='fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50'
+      onClick={onClose}
+    >
+      <Card
+        className='w-full max-w-2xl max-h-full overflow-y-auto'
+        onClick={(e: React.MouseEvent) => e.stopPropagation()}
+      >
+        <CardContent className='p-6'>
+          <div className='flex items-start justify-between mb-6'>
+            <div>
+              <h2 className='text-xl font-semibold text-gray-900'>
+                New Booking
+              </h2>
+              <p className='text-sm text-gray-600'>
+                For a phone or walk-in customer. They'll get the usual
+                confirmation email.
+              </p>
+            </div>
+            <Button variant='ghost' size='sm' onClick={onClose} className='p-1'>
+              <X className='w-5 h-5' />
+            </Button>
+          </div>
+
+          <section className='mb-6'>
+            <h3 className='text-sm font-semibold text-gray-900 mb-2'>
+              Customer
+            </h3>
+            <div className='relative mb-3'>
+              <Search className='w-4 h-4 text-gray-400 absolute left-3 top-3' />
+              <Input
+                value={search}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setSearch(e.target.value)
+                }
+                placeholder='Find a customer by name, email or phone'
+                className='pl-9'
+                disabled={submitting}
+              />
+              {matches.length > 0 && (
+                <ul className='absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto'>
+                  {matches.map(match => (
+                    <li key={match.email}>
+                      <button
+                        type='button'
+                        className='w-full text-left px-3 py-2 hover:bg-gray-50'
+                        onClick={() => handlePickCustomer(match)}
+                      >
+                        <span className='block text-sm font-medium text-gray-900'>
+                          {match.firstName} {match.lastName}
+                        </span>
+                        <span className='block text-xs text-gray-500'>
+                          {match.email} · {match.phone}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <p className='text-xs text-gray-500 mb-3'>
+              Or enter a new customer's details below.
+            </p>
+            <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+              <Input
+                value={customer.firstName}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  handleCustomerChange('firstName', e.target.value)
+                }
+                placeholder='First name'
+                disabled={submitting}
+              />
+              <Input
+                value={customer.lastName}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  handleCustomerChange('lastName', e.target.value)
+                }
+                placeholder='Last name'
+                disabled={submitting}
+              />
+              <Input
+                type='email'
+                value={customer.email}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  handleCustomerChange('email', e.target.value)
+                }
+                placeholder='Email'
+                disabled={submitting}
+              />
+              <Input
+                type='tel'
+                value={customer.phone}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  handleCustomerChange('phone', e.target.value)
+                }
+                placeholder='Phone'
+                disabled={submitting}
+              />
+            </div>
+          </section>
+
+          <section className='mb-6'>
+            <h3 className='text-sm font-semibold text-gray-900 mb-2'>
+              Services
+            </h3>
+            {loadingServices ? (
+              <p className='text-sm text-gray-500'>Loading services...</p>
+            ) : services.length === 0 ? (
+              <p className='text-sm text-gray-500'>
+                No services can be booked with this professional.
+              </p>
+            ) : (
+              <div className='space-y-2'>
+                {services.map(service => (
+                  <label
+                    key={service.id}
+                    className='flex items-center justify-between text-sm'
+                  >
+                    <span className='flex items-center'>
+                      <input
+                        type='checkbox'
+                        className='mr-2'
+                        checked={serviceIds.includes(service.id)}
+                        onChange={() => handleToggleService(service.id)}
+                        disabled={submitting}
+                      />
+                      {service.name}
+                    </span>
+                    <span className='text-gray-500'>
+                      {service.durationMin} min · ${service.price}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section className='mb-6'>
+            <div className='flex items-center justify-between mb-2'>
+              <h3 className='text-sm font-semibold text-gray-900'>Time</h3>
+              <Button
+                variant='outline'
+                size='sm'
+                onClick={handleWalkIn}
+                disabled={submitting}
+              >
+                Walk-in: now
+              </Button>
+            </div>
+            <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+              <Input
+                type='date'
+                value={slot.date}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  handleSlotChange('date', e.target.value)
+                }
+                disabled={submitting}
+              />
+              <Input
+                type='time'
+                step={300}
+                value={slot.time}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  handleSlotChange('time', e.target.value)
+                }
+                disabled={submitting}
+              />
+            </div>
+          </section>
+
+          {questions.length > 0 && (
+            <section className='mb-6'>
+              <h3 className='text-sm font-semibold text-gray-900 mb-2'>
+                Intake Questions
+              </h3>
+              <IntakeQuestions
+                questions={questions}
+                answers={intake}
+                errors={intakeErrors}
+                onChange={(questionId, value) =>
+                  setIntake(prev => ({ ...prev, [questionId]: value }))
+                }
+                onUploadingChange={setUploading}
+              />
+            </section>
+          )}
+
+          <section className='mb-6'>
+            <h3 className='text-sm font-semibold text-gray-900 mb-2'>Notes</h3>
+            <textarea
+              className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500'
+              rows={2}
+              maxLength={1000}
+              value={customer.notes || ''}
+              onChange={e => handleCustomerChange('notes', e.target.value)}
+              disabled={submitting}
+            />
+          </section>
+
+          {unavailable && (
+            <div className='mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg'>
+              <p className='flex items-start text-sm text-yellow-800'>
+                <AlertTriangle className='w-4 h-4 mr-2 mt-0.5 flex-shrink-0' />
+                <span>
+                  This time isn't free: it overlaps another booking or time off,
+                  or falls outside working hours. Book anyway?
+                </span>
+              </p>
+            </div>
+          )}
+          {error && <p className='mb-4 text-sm text-red-600'>{error}</p>}
+
+          <div className='flex gap-4 justify-end'>
+            <Button variant='secondary' onClick={onClose} disabled={submitting}>
+              Cancel
+            </Button>
+            {unavailable ? (
+              <Button
+                onClick={() => handleSubmit(true)}
+                disabled={!isValid || uploading || submitting}
+              >
+                {submitting ? 'Booking...' : 'Book anyway'}
+              </Button>
+            ) : (
+              <Button
+                onClick={() => handleSubmit(false)}
+                disabled={!isValid || uploading || submitting}
+              >
+                {submitting ? 'Booking...' : 'Book'}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+/**
+ * Schedule calendar
+ * The professional's bookings by day, week or month, with navigation, and
+ * bookings dragged to another time on the day and week views
+ */
+
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '../../../components/ui/Button';
+import {
+  getViewDates,
+  getViewTitle,
+  shiftAnchor,
+  toDateString,
+  type CalendarView,
+} from '../calendar';
+import { TimeGrid } from './TimeGrid';
+import { MonthView } from './MonthView';
+import type { ProfessionalBooking, ProfessionalProfile } from '../types';
+
+const VIEWS: { id: CalendarView; name: string }[] = [
+  { id: 'day', name: 'Day' },
+  { id: 'week', name: 'Week' },
+  { id: 'month', name: 'Month' },
+];
+
+interface ScheduleCalendarProps {
+  profile: ProfessionalProfile;
+  bookings: ProfessionalBooking[];
+  view: CalendarView;
+  anchor: string; // YYYY-MM-DD the view is around
+  onNavigate: (view: CalendarView, anchor: string) => void;
+  onSelectBooking: (booking: ProfessionalBooking) => void;
+  onMoveBooking?: (
+    booking: ProfessionalBooking,
+    date: string,
+    time: string
+  ) => void;
+}
+
+export const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
+  profile,
+  bookings,
+  view,
+  anchor,
+  onNavigate,
+  onSelectBooking,
+  onMoveBooking,
+}) => {
+  const dates = getViewDates(view, anchor);
+
+  return (
+    <div>
+      <div className='flex flex-wrap items-center justify-between gap-4 mb-4'>
+        <div className='flex items-center space-x-2'>
+          <Button
+            variant='outline'
+            size='sm'
+            onClick={() => onNavigate(view, toDateString(new Date()))}
+          >
+            Today
+          </Button>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={() => onNavigate(view, shiftAnchor(view, anchor, -1))}
+            aria-label='Previous'
+          >
+            <ChevronLeft className='w-4 h-4' />
+          </Button>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={() => onNavigate(view, shiftAnchor(view, anchor, 1))}
+            aria-label='Next'
+          >
+            <ChevronRight className='w-4 h-4' />
+          </Button>
+          <h3 className='text-lg font-semibold text-gray-900'>
+            {getViewTitle(view, anchor)}
+          </h3>
+        </div>
+        <div className='flex rounded-md border border-gray-200'>
+          {VIEWS.map(option => (
+            <button
+              key={option.id}
+              type='button'
+              onClick={() => onNavigate(option.id, anchor)}
+              className={`px-3 py-1 text-sm font-medium ${
+                view === option.id
+                  ? 'bg-primary-600 text-white'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {view === 'month' ? (
+        <MonthView
+          profile={profile}
+          dates={dates}
+          month={anchor.slice(0, 7)}
+          bookings={bookings}
+          onSelectDate={date => onNavigate('day', date)}
+        />
+      ) : (
+        <TimeGrid
+          profile={profile}
+          dates={dates}
+          bookings={bookings}
+          onSelectBooking={onSelectBooking}
+          {...(onMoveBooking ? { onMoveBooking } : {})}
+        />
+      )}
+
+      <div className='flex flex-wrap gap-4 mt-4 text-xs text-gray-600'>
+        <span className='flex items-center'>
+          <span className='w-3 h-3 mr-1 rounded bg-gray-100 border border-gray-200' />
+          Outside working hours
+        </span>
+        <span className='flex items-center'>
+          <span className='w-3 h-3 mr-1 rounded bg-orange-50 border border-orange-200' />
+          Time off
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+/**
+ * Calendar time grid
+ * Day and week views: one column per date with bookings as blocks sized by
+ * their duration, and closed hours and time off shaded. Confirmed bookings
+ * can be dragged to another time or date.
+ */
+
+import React, { useRef } from 'react';
+import {
+  getDropTime,
+  getGridHours,
+  getShadedRanges,
+  layoutBookings,
+  toDateString,
+  type BookingBlock,
+} from '../calendar';
+import type { ProfessionalBooking, ProfessionalProfile } from '../types';
+
+// Pixels per hour of the grid
+const HOUR_HEIGHT = 48;
+
+const toPixels = (minutes: number) => (minutes / 60) * HOUR_HEIGHT;
+
+const formatHour = (minutes: number) => {
+  const hour = Math.floor(minutes / 60);
+  const ampm = hour >= 12 && hour < 24 ? 'PM' : 'AM';
+  return `${hour % 12 || 12} ${ampm}`;
+};
+
+const blockClassName = (booking: ProfessionalBooking) => {
+  if (booking.status === 'cancelled') {
+    return 'bg-gray-100 border-gray-300 text-gray-500 line-through';
+  }
+  if (booking.status === 'no_show') {
+    return 'bg-red-50 border-red-400 text-red-900';
+  }
+  if (booking.status === 'completed') {
+    return 'bg-gray-100 border-gray-400 text-gray-700';
+  }
+  if (booking.status === 'checked_in') {
+    return 'bg-green-100 border-green-500 text-green-900';
+  }
+  if (booking.scheduleConflict) {
+    return 'bg-orange-100 border-orange-500 text-orange-900';
+  }
+  return booking.status === 'pending'
+    ? 'bg-yellow-100 border-yellow-500 text-yellow-900'
+    : 'bg-primary-100 border-primary-500 text-primary-900';
+};
+
+interface TimeGridProps {
+  profile: ProfessionalProfile;
+  dates: string[];
+  bookings: ProfessionalBooking[];
+  onSelectBooking: (booking: ProfessionalBooking) => void;
+  onMoveBooking?: (
+    booking: ProfessionalBooking,
+    date: string,
+    time: string
+  ) => void;
+}
+
+export const TimeGrid: React.FC<TimeGridProps> = ({
+  profile,
+  dates,
+  bookings,
+  onSelectBooking,
+  onMoveBooking,
+}) => {
+  const dragged = useRef<BookingBlock | null>(null);
+  const grabOffset = useRef(0); // minutes from the top of the dragged block
+  const today = toDateString(new Date());
+  const hours = getGridHours(profile, dates, bookings);
+  const height = toPixels(hours.end - hours.start);
+  const hourMarks = Array.from(
+    { length: (hours.end - hours.start) / 60 },
+    (_, index) => hours.start + index * 60
+  );
+
+  const handleDragStart = (e: React.DragEvent, block: BookingBlock) => {
+    dragged.current = block;
+    grabOffset.current =
+      ((e.clientY - e.currentTarget.getBoundingClientRect().top) /
+        HOUR_HEIGHT) *
+      60;
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', block.booking.id);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!dragged.current) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+  };
+
+  const handleDrop = (e: React.DragEvent, date: string) => {
+    const block = dragged.current;
+    dragged.current = null;
+    if (!block || !onMoveBooking) return;
+    e.preventDefault();
+
+    const top = e.currentTarget.getBoundingClientRect().top;
+    const minutes =
+      hours.start + ((e.clientY - top) / HOUR_HEIGHT) * 60 - grabOffset.current;
+    const time = getDropTime(minutes, block.booking.duration);
+    if (date !== block.booking.date || time !== block.booking.time) {
+      onMoveBooking(block.booking, date, time);
+    }
+  };
+
+  return (
+    <div className='overflow-x-auto'>
+      <div style={{ minWidth: dates.length > 1 ? 720 : undefined }}>
+        {/* Date headers */}
+        <div className='flex border-b border-gray-200'>
+          <div className='w-16 flex-shrink-0' />
+          {dates.map(date => (
+            <div
+              key={date}
+              className={`flex-1 py-2 text-center text-sm font-medium ${
+                date === today ? 'text-primary-600' : 'text-gray-700'
+              }`}
+            >
+              {new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+                weekday: 'short',
+                month: 'short',
+                day: 'numeric',
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className='flex'>
+          {/* Hour labels */}
+          <div className='w-16 flex-shrink-0 relative' style={{ height }}>
+            {hourMarks.map(minutes => (
+              <div
+                key={minutes}
+                className='absolute right-2 -translate-y-2 text-xs text-gray-500'
+                style={{ top: toPixels(minutes - hours.start) }}
+              >
+                {formatHour(minutes)}
+              </div>
+            ))}
+          </div>
+
+          {dates.map(date => (
+            <div
+              key={date}
+              className='flex-1 relative border-l border-gray-200'
+              style={{ height }}
+              onDragOver={handleDragOver}
+              onDrop={e => handleDrop(e, date)}
+            >
+              {hourMarks.map(minutes => (
+                <div
+                  key={minutes}
+                  className='absolute inset-x-0 border-t border-gray-100'
+                  style={{ top: toPixels(minutes - hours.start) }}
+                />
+              ))}
+
+              {getShadedRanges(profile, date).map(range => {
+                const start = Math.max(range.start, hours.start);
+                const end = Math.min(range.end, hours.end);
+                if (end <= start) return null;
+                return (
+                  <div
+                    key={`${range.kind}-${range.start}`}
+                    className={`absolute inset-x-0 ${
+                      range.kind === 'time_off'
+                        ? 'bg-orange-50 border-y border-orange-200'
+                        : 'bg-gray-100'
+                    }`}
+                    style={{
+                      top: toPixels(start - hours.start),
+                      height: toPixels(end - start),
+                    }}
+                  >
+                    {range.label && (
+                      <span className='block px-1 text-xs text-orange-700 truncate'>
+                        {range.label}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+
+              {layoutBookings(
+                bookings.filter(booking => booking.date === date)
+              ).map(block => (
+                <button
+                  key={block.booking.id}
+                  type='button'
+                  draggable={
+                    !!onMoveBooking && block.booking.status === 'confirmed'
+                  }
+                  onDragStart={e => handleDragStart(e, block)}
+                  onDragEnd={() => {
+                    dragged.current = null;
+                  }}
+                  onClick={() => onSelectBooking(block.booking)}
+                  className={`absolute overflow-hidden rounded border-l-4 px-1 text-left text-xs hover:shadow-md ${
+                    onMoveBooking && block.booking.status === 'confirmed'
+                      ? 'cursor-move'
+                      : ''
+                  } ${blockClassName(block.booking)}`}
+                  style={{
+                    top: toPixels(block.start - hours.start),
+                    height: Math.max(toPixels(block.end - block.start) - 2, 16),
+                    left: `${(block.column / block.columns) * 100}%`,
+                    width: `calc(${100 / block.columns}% - 2px)`,
+                  }}
+                >
+                  <span className='block font-medium truncate'>
+                    {block.booking.time} {block.booking.customerName}
+                  </span>
+                  <span className='block truncate'>
+                    {block.booking.service}
+                  </span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,395 @@
+/**
+ * Professional service
+ * Subscribes to the signed-in professional's profile and bookings, saves
+ * profile edits through the updateProfessionalProfile function, adds
+ * bookings for their phone and walk-in customers through createBooking,
+ * moves bookings dragged on the calendar through moveBooking and checks
+ * customers in through updateBookingStatus
+ */
+
+import {
+  collection,
+  collectionGroup,
+  getDocs,
+  limit,
+  onSnapshot,
+  query,
+  where,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { httpsCallable, type FunctionsError } from 'firebase/functions';
+import { db, functions } from '../../../firebase';
+import { SlotUnavailableError } from '../../booking/services/bookingService';
+import type { Service } from '../../../lib/bookingMockData';
+import type {
+  AttendanceStatus,
+  OrgCustomer,
+  ProfessionalBooking,
+  ProfessionalProfile,
+  ProfessionalProfileUpdate,
+  StaffBookingRequest,
+} from '../types';
+
+// Bookings loaded for the dates the calendar shows
+const MAX_BOOKINGS = 500;
+
+interface UpdateProfessionalProfileRequest {
+  orgId: string;
+  professionalId: string;
+  profile: ProfessionalProfileUpdate;
+}
+
+interface UpdateProfessionalProfileResponse {
+  success: boolean;
+  profile: ProfessionalProfileUpdate;
+}
+
+interface SearchOrgCustomersResponse {
+  success: boolean;
+  customers: OrgCustomer[];
+}
+
+interface CreateStaffBookingRequest extends StaffBookingRequest {
+  orgId: string;
+  storeId?: string; // the professional's store, whose rules still apply
+  professionalId: string;
+  source: 'staff';
+}
+
+interface CreateStaffBookingResponse {
+  success: boolean;
+  bookingId: string;
+  manageToken: string;
+}
+
+interface MoveBookingRequest {
+  bookingId: string;
+  date: string;
+  time: string;
+}
+
+interface MoveBookingResponse {
+  success: boolean;
+  professionalId: string;
+  date: string;
+  time: string;
+}
+
+interface UpdateBookingStatusRequest {
+  bookingId: string;
+  status: AttendanceStatus;
+}
+
+interface UpdateBookingStatusResponse {
+  success: boolean;
+  status: AttendanceStatus;
+}
+
+const toProfile = (
+  doc: QueryDocumentSnapshot<DocumentData>
+): ProfessionalProfile => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    orgId: data.orgId,
+    ...(data.storeId ? { storeId: data.storeId } : {}),
+    name: data.name || '',
+    title: data.title || '',
+    bio: data.bio || '',
+    specialties: data.specialties || [],
+    availability: data.availability || {},
+    scheduleExceptions: data.scheduleExceptions || [],
+    services: data.services || [],
+    slug: data.slug,
+  };
+};
+
+const toService = (doc: QueryDocumentSnapshot<DocumentData>): Service => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    slug: data.slug,
+    name: data.name,
+    description: data.description || '',
+    duration: data.durationMin,
+    durationMin: data.durationMin,
+    price: data.price,
+    ...(data.intakeQuestions ? { intakeQuestions: data.intakeQuestions } : {}),
+  };
+};
+
+const toBooking = (
+  doc: QueryDocumentSnapshot<DocumentData>
+): ProfessionalBooking => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    customerName: `${data.customer.firstName} ${data.customer.lastName}`,
+    customerEmail: data.customer.email,
+    ...(data.customer.phone ? { customerPhone: data.customer.phone } : {}),
+    ...(data.customer.notes ? { notes: data.customer.notes } : {}),
+    service: data.serviceName,
+    date: data.date,
+    time: data.time,
+    duration: data.duration,
+    status: data.status === 'draft' ? 'pending' : data.status,
+    ...(data.checkedInAt ? { checkedInAt: data.checkedInAt.toDate() } : {}),
+    ...(data.completedAt ? { completedAt: data.completedAt.toDate() } : {}),
+    ...(data.noShowAt ? { noShowAt: data.noShowAt.toDate() } : {}),
+    ...(data.scheduleConflict ? { scheduleConflict: true } : {}),
+    ...(data.intake ? { intake: data.intake } : {}),
+  };
+};
+
+/**
+ * Follow the professional profile of a user; null when none is linked to
+ * them. Returns the unsubscribe function.
+ */
+export function subscribeToProfessionalProfile(
+  userId: string,
+  onChange: (profile: ProfessionalProfile | null) => void,
+  onError: (error: Error) => void
+): () => void {
+  if (!db) throw new Error('Firebase not initialized');
+
+  const profileQuery = query(
+    collectionGroup(db, 'professionals'),
+    where('userId', '==', userId),
+    limit(1)
+  );
+
+  return onSnapshot(
+    profileQuery,
+    snapshot => {
+      const [doc] = snapshot.docs;
+      onChange(doc ? toProfile(doc) : null);
+    },
+    onError
+  );
+}
+
+/**
+ * Follow a professional's bookings between two dates, inclusive, soonest
+ * first. Returns the unsubscribe function.
+ */
+export function subscribeToBookings(
+  profile: Pick<ProfessionalProfile, 'id' | 'orgId'>,
+  range: { startDate: string; endDate: string },
+  onChange: (bookings: ProfessionalBooking[]) => void,
+  onError: (error: Error) => void
+): () => void {
+  if (!db) throw new Error('Firebase not initialized');
+
+  const bookingsQuery = query(
+    collection(db, 'bookings'),
+    where('orgId', '==', profile.orgId),
+    where('professionalId', '==', profile.id),
+    where('date', '>=', range.startDate),
+    where('date', '<=', range.endDate),
+    limit(MAX_BOOKINGS)
+  );
+
+  return onSnapshot(
+    bookingsQuery,
+    snapshot => {
+      const bookings = snapshot.docs
+        .map(toBooking)
+        .sort(
+          (a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time)
+        );
+      onChange(bookings);
+    },
+    onError
+  );
+}
+
+/**
+ * Save the editable parts of a professional's profile
+ */
+export async function updateProfessionalProfile(
+  profile: Pick<ProfessionalProfile, 'id' | 'orgId'>,
+  update: ProfessionalProfileUpdate
+): Promise<ProfessionalProfileUpdate> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const updateProfile = httpsCallable<
+    UpdateProfessionalProfileRequest,
+    UpdateProfessionalProfileResponse
+  >(functions, 'updateProfessionalProfile');
+
+  try {
+    const result = await updateProfile({
+      orgId: profile.orgId,
+      professionalId: profile.id,
+      profile: update,
+    });
+    return result.data.profile;
+  } catch (error) {
+    console.error('Error updating professional profile:', error);
+    const { code, message } = error as FunctionsError;
+    if (
+      code === 'functions/invalid-argument' ||
+      code === 'functions/permission-denied'
+    ) {
+      throw new Error(message);
+    }
+    throw new Error('Failed to save your profile');
+  }
+}
+
+/**
+ * Load the active services a professional offers that can be booked at any
+ * free time, leaving out classes, which are booked into sessions
+ */
+export async function loadBookableServices(
+  profile: Pick<ProfessionalProfile, 'orgId' | 'services'>
+): Promise<Service[]> {
+  if (!db) throw new Error('Firebase not initialized');
+
+  const snapshot = await getDocs(
+    query(
+      collection(db, 'orgs', profile.orgId, 'services'),
+      where('active', '==', true)
+    )
+  );
+
+  return snapshot.docs
+    .filter(doc => profile.services.includes(doc.id) && !doc.data().capacity)
+    .map(toService)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find customers who booked with the org by name, email or phone number
+ */
+export async function searchCustomers(
+  orgId: string,
+  search: string
+): Promise<OrgCustomer[]> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const searchOrgCustomers = httpsCallable<
+    { orgId: string; search: string },
+    SearchOrgCustomersResponse
+  >(functions, 'searchOrgCustomers');
+
+  try {
+    const result = await searchOrgCustomers({ orgId, search });
+    return result.data.customers;
+  } catch (error) {
+    console.error('Error searching customers:', error);
+    throw new Error('Failed to search customers');
+  }
+}
+
+/**
+ * Book a phone or walk-in customer with a professional and confirm it, which
+ * emails the customer their confirmation. Throws SlotUnavailableError when
+ * the time isn't free, so staff can choose to override availability.
+ */
+export async function createStaffBooking(
+  profile: Pick<ProfessionalProfile, 'id' | 'orgId' | 'storeId'>,
+  booking: StaffBookingRequest
+): Promise<void> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const createBooking = httpsCallable<
+    CreateStaffBookingRequest,
+    CreateStaffBookingResponse
+  >(functions, 'createBooking');
+  const confirmBooking = httpsCallable<
+    { bookingId: string; token: string },
+    unknown
+  >(functions, 'confirmBooking');
+
+  try {
+    const result = await createBooking({
+      ...booking,
+      orgId: profile.orgId,
+      ...(profile.storeId ? { storeId: profile.storeId } : {}),
+      professionalId: profile.id,
+      source: 'staff',
+    });
+    await confirmBooking({
+      bookingId: result.data.bookingId,
+      token: result.data.manageToken,
+    });
+  } catch (error) {
+    console.error('Error creating staff booking:', error);
+    const { code, message } = error as FunctionsError;
+    if (code === 'functions/failed-precondition') {
+      throw new SlotUnavailableError(message);
+    }
+    if (
+      code === 'functions/invalid-argument' ||
+      code === 'functions/permission-denied' ||
+      code === 'functions/not-found'
+    ) {
+      throw new Error(message);
+    }
+    throw new Error('Failed to create the booking');
+  }
+}
+
+/**
+ * Move a booking to another date and time. The server re-checks the time
+ * and emails the customer; a conflict throws with the reason as the message.
+ */
+export async function moveBooking(
+  booking: Pick<ProfessionalBooking, 'id'>,
+  date: string,
+  time: string
+): Promise<void> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const move = httpsCallable<MoveBookingRequest, MoveBookingResponse>(
+    functions,
+    'moveBooking'
+  );
+
+  try {
+    await move({ bookingId: booking.id, date, time });
+  } catch (error) {
+    console.error('Error moving booking:', error);
+    const { code, message } = error as FunctionsError;
+    if (
+      code === 'functions/failed-precondition' ||
+      code === 'functions/invalid-argument' ||
+      code === 'functions/permission-denied'
+    ) {
+      throw new Error(message);
+    }
+    throw new Error('Failed to move the booking');
+  }
+}
+
+/**
+ * Check a customer in, complete their booking or mark it a no-show. The
+ * server only allows changes along the booking lifecycle.
+ */
+export async function updateBookingStatus(
+  booking: Pick<ProfessionalBooking, 'id'>,
+  status: AttendanceStatus
+): Promise<void> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const update = httpsCallable<
+    UpdateBookingStatusRequest,
+    UpdateBookingStatusResponse
+  >(functions, 'updateBookingStatus');
+
+  try {
+    await update({ bookingId: booking.id, status });
+  } catch (error) {
+    console.error('Error updating booking status:', error);
+    const { code, message } = error as FunctionsError;
+    if (
+      code === 'functions/failed-precondition' ||
+      code === 'functions/permission-denied'
+    ) {
+      throw new Error(message);
+    }
+    throw new Error('Failed to update the booking');
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Professional types
+ * The signed-in professional's profile and bookings, as shown on the
+ * dashboard
+ */
+
+import type { IntakeAnswer } from '../../types/shared';
+import type {
+  BookingStatus,
+  CustomerInfo,
+  IntakeAnswers,
+} from '../booking/types';
+import type { ScheduleException } from '../schedule/types';
+
+export interface DaySchedule {
+  start: string; // HH:MM
+  end: string; // HH:MM
+  available: boolean;
+}
+
+export interface ProfessionalProfile {
+  id: string;
+  orgId: string;
+  storeId?: string; // store they work at, omitted for solo professionals
+  name: string;
+  title: string;
+  bio: string;
+  specialties: string[];
+  availability: Record<string, DaySchedule>; // keyed by weekday, e.g. "monday"
+  scheduleExceptions: ScheduleException[];
+  services: string[]; // IDs of the services they offer
+  slug: string;
+}
+
+// What the professional can edit from the dashboard
+export type ProfessionalProfileUpdate = Pick<
+  ProfessionalProfile,
+  'name' | 'title' | 'bio' | 'specialties'
+>;
+
+// Drafts are bookings waiting for payment
+export type ProfessionalBookingStatus =
+  | Exclude<BookingStatus, 'draft'>
+  | 'pending';
+
+// Statuses staff set on the day of the booking
+export type AttendanceStatus = 'checked_in' | 'completed' | 'no_show';
+
+export interface ProfessionalBooking {
+  id: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string;
+  notes?: string; // left by the customer when booking
+  service: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  duration: number; // minutes
+  status: ProfessionalBookingStatus;
+  checkedInAt?: Date;
+  completedAt?: Date;
+  noShowAt?: Date;
+  scheduleConflict?: boolean; // overlaps time off added after it was booked
+  intake?: IntakeAnswer[]; // answers to the services' intake questions
+}
+
+// A customer who booked with the org before, found by staff adding a booking
+export type OrgCustomer = Omit<CustomerInfo, 'notes'>;
+
+// A booking staff add for a phone or walk-in customer
+export interface StaffBookingRequest {
+  serviceIds: string[]; // in the order they're performed
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  customer: CustomerInfo;
+  intake?: IntakeAnswers;
+  overrideAvailability?: boolean; // book even though the time isn't free
+}
@@ -0,0 +1,259 @@
+/**
+ * Schedule exceptions editor
+ * Lets a professional or store add time off, holidays, custom hours and
+ * blocked ranges for specific dates, and lists the bookings they overlap
+ */
+
+import React, { useState } from 'react';
+import { Input } from '../../../components/ui/Input';
+import { Button } from '../../../components/ui/Button';
+import { generateId } from '../../../lib/utils';
+import { updateScheduleExceptions } from '../services/scheduleService';
+import type {
+  ScheduleConflict,
+  ScheduleException,
+  ScheduleExceptionType,
+  ScheduleTarget,
+} from '../types';
+
+const TYPE_LABELS: Record<ScheduleExceptionType, string> = {
+  closed: 'Closed all day',
+  custom_hours: 'Custom hours',
+  blocked: 'Blocked time',
+};
+
+interface ScheduleExceptionsEditorProps {
+  orgId: string;
+  target: ScheduleTarget;
+  targetId: string;
+  exceptions: ScheduleException[];
+  onSaved: (
+    exceptions: ScheduleException[],
+    conflicts: ScheduleConflict[]
+  ) => void;
+}
+
+const emptyDraft = {
+  type: 'closed' as ScheduleExceptionType,
+  startDate: '',
+  endDate: '',
+  start: '09:00',
+  end: '17:00',
+  reason: '',
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const describeException = (exception: ScheduleException) => {
+  const dates =
+    exception.endDate === exception.startDate
+      ? formatDay(exception.startDate)
+      : `${formatDay(exception.startDate)} - ${formatDay(exception.endDate)}`;
+  const hours =
+    exception.type === 'closed'
+      ? TYPE_LABELS.closed
+      : `${TYPE_LABELS[exception.type]} ${exception.start} - ${exception.end}`;
+  return `${dates}: ${hours}`;
+};
+
+export const ScheduleExceptionsEditor: React.FC<
+  ScheduleExceptionsEditorProps
+> = ({ orgId, target, targetId, exceptions, onSaved }) => {
+  const [draft, setDraft] = useState(emptyDraft);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+
+  const endDate = draft.endDate || draft.startDate;
+  const isValid =
+    !!draft.startDate &&
+    endDate >= draft.startDate &&
+    (draft.type === 'closed' || draft.end > draft.start);
+
+  const handleChange = (field: keyof typeof draft, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const save = async (next: ScheduleException[]) => {
+    try {
+      setSaving(true);
+      setError(null);
+      const found = await updateScheduleExceptions({
+        orgId,
+        target,
+        targetId,
+        exceptions: next,
+      });
+      setConflicts(found);
+      onSaved(next, found);
+      return true;
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to save schedule changes'
+      );
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!isValid) return;
+
+    const exception: ScheduleException = {
+      id: generateId(),
+      startDate: draft.startDate,
+      endDate,
+      type: draft.type,
+      ...(draft.type !== 'closed'
+        ? { start: draft.start, end: draft.end }
+        : {}),
+      ...(draft.reason.trim() ? { reason: draft.reason.trim() } : {}),
+    };
+
+    const saved = await save(
+      [...exceptions, exception].sort((a, b) =>
+        a.startDate.localeCompare(b.startDate)
+      )
+    );
+    if (saved) setDraft(emptyDraft);
+  };
+
+  const handleRemove = (id: string) => {
+    save(exceptions.filter(exception => exception.id !== id));
+  };
+
+  const reasonOf = (exceptionId: string) =>
+    exceptions.find(exception => exception.id === exceptionId)?.reason;
+
+  return (
+    <div className='space-y-4'>
+      {exceptions.length === 0 ? (
+        <p className='text-sm text-gray-500'>
+          No time off or special hours planned
+        </p>
+      ) : (
+        <ul className='space-y-2'>
+          {exceptions.map(exception => (
+            <li
+              key={exception.id}
+              className='flex items-center justify-between text-sm'
+            >
+              <div>
+                <p className='text-gray-900'>{describeException(exception)}</p>
+                {exception.reason && (
+                  <p className='text-gray-500'>{exception.reason}</p>
+                )}
+              </div>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={() => handleRemove(exception.id)}
+                disabled={saving}
+              >
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className='space-y-3 pt-4 border-t border-gray-200'>
+        <select
+          value={draft.type}
+          onChange={event => handleChange('type', event.target.value)}
+          disabled={saving}
+          className='w-full border border-gray-300 rounded-md px-2 py-2 text-sm'
+        >
+          {Object.entries(TYPE_LABELS).map(([type, label]) => (
+            <option key={type} value={type}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <div className='grid grid-cols-2 gap-2'>
+          <Input
+            type='date'
+            value={draft.startDate}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              handleChange('startDate', e.target.value)
+            }
+            disabled={saving}
+          />
+          <Input
+            type='date'
+            value={endDate}
+            min={draft.startDate}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              handleChange('endDate', e.target.value)
+            }
+            disabled={saving}
+          />
+        </div>
+        {draft.type !== 'closed' && (
+          <div className='grid grid-cols-2 gap-2'>
+            <Input
+              type='time'
+              value={draft.start}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                handleChange('start', e.target.value)
+              }
+              disabled={saving}
+            />
+            <Input
+              type='time'
+              value={draft.end}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                handleChange('end', e.target.value)
+              }
+              disabled={saving}
+            />
+          </div>
+        )}
+        <Input
+          type='text'
+          value={draft.reason}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            handleChange('reason', e.target.value)
+          }
+          placeholder='Reason (optional), e.g. Vacation'
+          disabled={saving}
+        />
+        {error && <p className='text-sm text-red-600'>{error}</p>}
+        <Button
+          size='sm'
+          fullWidth
+          onClick={handleAdd}
+          disabled={!isValid || saving}
+        >
+          {saving ? 'Saving...' : 'Add'}
+        </Button>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className='p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm'>
+          <p className='font-medium text-yellow-900 mb-1'>
+            {conflicts.length === 1
+              ? '1 booking overlaps your changes'
+              : `${conflicts.length} bookings overlap your changes`}
+          </p>
+          <ul className='text-yellow-800 space-y-1'>
+            {conflicts.map(conflict => (
+              <li key={conflict.bookingId}>
+                {formatDay(conflict.date)} at {conflict.time}:{' '}
+                {conflict.customerName}, {conflict.serviceName}
+                {reasonOf(conflict.exceptionId) &&
+                  ` (${reasonOf(conflict.exceptionId)})`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+/**
+ * Schedule service
+ * Saves the schedule exceptions of a professional or store. The function
+ * flags upcoming bookings the exceptions overlap and returns them.
+ */
+
+import { httpsCallable, type FunctionsError } from 'firebase/functions';
+import { functions } from '../../../firebase';
+import type {
+  ScheduleConflict,
+  ScheduleException,
+  ScheduleTarget,
+} from '../types';
+
+interface UpdateScheduleExceptionsRequest {
+  orgId: string;
+  target: ScheduleTarget;
+  targetId: string;
+  exceptions: ScheduleException[];
+}
+
+interface UpdateScheduleExceptionsResponse {
+  success: boolean;
+  conflicts: ScheduleConflict[];
+}
+
+export async function updateScheduleExceptions(
+  request: UpdateScheduleExceptionsRequest
+): Promise<ScheduleConflict[]> {
+  if (!functions) throw new Error('Firebase not initialized');
+
+  const update = httpsCallable<
+    UpdateScheduleExceptionsRequest,
+    UpdateScheduleExceptionsResponse
+  >(functions, 'updateScheduleExceptions');
+
+  try {
+    const result = await update(request);
+    return result.data.conflicts;
+  } catch (error) {
+    console.error('Error updating schedule exceptions:', error);
+    const { code, message } = error as FunctionsError;
+    if (
+      code === 'functions/invalid-argument' ||
+      code === 'functions/permission-denied'
+    ) {
+      throw new Error(message);
+    }
+    throw new Error('Failed to save schedule changes');
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Schedule types
+ * Date-specific exceptions to the weekly hours of professionals and stores
+ */
+
+export type ScheduleExceptionType = 'closed' | 'custom_hours' | 'blocked';
+
+export interface ScheduleException {
+  id: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  type: ScheduleExceptionType;
+  start?: string; // HH:MM, custom hours and blocked ranges only
+  end?: string; // HH:MM
+  reason?: string;
+}
+
+export type ScheduleTarget = 'professional' | 'store';
+
+// An upcoming booking that a schedule exception overlaps
+export interface ScheduleConflict {
+  bookingId: string;
+  date: string;
+  time: string;
+  customerName: string;
+  serviceName: string;
+  exceptionId: string;
+}
@@ -1,6 +1,8 @@
 import { initializeApp, type FirebaseApp } from 'firebase/app';
 import { getAuth, type Auth } from 'firebase/auth';
 import { getFirestore, type Firestore } from 'firebase/firestore';
+import { getFunctions, type Functions } from 'firebase/functions';
+import { getStorage, type FirebaseStorage } from 'firebase/storage';
 import { logger } from './lib/logger';
 
 const firebaseConfig = {
@@ -26,12 +28,16 @@ const hasValidConfig =
 let app: FirebaseApp | null;
 let auth: Auth | null;
 let db: Firestore | null;
+let functions: Functions | null;
+let storage: FirebaseStorage | null;
 
 if (hasValidConfig) {
   try {
     app = initializeApp(firebaseConfig);
     auth = getAuth(app);
     db = getFirestore(app);
+    functions = getFunctions(app, 'us-central1');
+    storage = getStorage(app);
     logger.info('Firebase initialized successfully', {
       component: 'firebase',
     });
@@ -42,6 +48,8 @@ if (hasValidConfig) {
     app = null;
     auth = null;
     db = null;
+    functions = null;
+    storage = null;
   }
 } else {
   logger.warn('Firebase not configured. Using demo values for development.', {
@@ -56,9 +64,11 @@ if (hasValidConfig) {
   app = null;
   auth = null;
   db = null;
+  functions = null;
+  storage = null;
 }
 
 // Export Firebase services
-export { auth, db };
+export { auth, db, functions, storage };
 
 export default app;
@@ -2,6 +2,8 @@
  * Mock data for booking system
  */
 
+import type { IntakeQuestion } from '../types/shared';
+
 export interface Service {
   id: string;
   name: string;
@@ -9,6 +11,8 @@ export interface Service {
   duration: number; // in minutes
   durationMin: number; // in minutes
   price: number;
+  capacity?: number; // seats per class session, for group classes
+  intakeQuestions?: IntakeQuestion[]; // asked when the service is booked
   slug: string;
 }
 
@@ -39,6 +43,34 @@ export const mockServices: Service[] = [
     duration: 120,
     durationMin: 120,
     price: 120,
+    intakeQuestions: [
+      {
+        id: 'allergies',
+        type: 'textarea',
+        label: 'Allergies or sensitivities',
+        required: false,
+        helpText: 'e.g. to hair dye, latex or fragrances',
+      },
+      {
+        id: 'hair-length',
+        type: 'select',
+        label: 'Current hair length',
+        required: true,
+        options: ['Short', 'Shoulder length', 'Long'],
+      },
+      {
+        id: 'reference-photo',
+        type: 'photo',
+        label: 'Reference photo of the color you want',
+        required: false,
+      },
+      {
+        id: 'patch-test-consent',
+        type: 'checkbox',
+        label: 'I agree to a patch test and understand color results can vary',
+        required: true,
+      },
+    ],
     slug: 'hair-color',
   },
   {
@@ -15,41 +15,55 @@ import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
 import {
   Calendar,
-  Clock,
   Users,
   Link,
   Settings,
   Copy,
   Check,
+  Plus,
 } from 'lucide-react';
 import { useToast } from '../hooks/useToast';
 import DashboardRouteGuard from '../components/DashboardRouteGuard';
+import { ScheduleExceptionsEditor } from '../features/schedule/components/ScheduleExceptionsEditor';
+import { ScheduleCalendar } from '../features/professional/components/ScheduleCalendar';
+import { BookingDetailDialog } from '../features/professional/components/BookingDetailDialog';
+import { NewBookingDialog } from '../features/professional/components/NewBookingDialog';
+import {
+  getViewDates,
+  toDateString,
+  type CalendarView,
+} from '../features/professional/calendar';
+import {
+  subscribeToProfessionalProfile,
+  subscribeToBookings,
+  moveBooking,
+  updateBookingStatus,
+  updateProfessionalProfile,
+} from '../features/professional/services/professionalService';
+import type {
+  AttendanceStatus,
+  ProfessionalBooking,
+  ProfessionalProfile,
+  ProfessionalProfileUpdate,
+} from '../features/professional/types';
+import type {
+  ScheduleConflict,
+  ScheduleException,
+} from '../features/schedule/types';
+import type { CustomerInfo } from '../features/booking/types';
 
-interface ProfessionalProfile {
-  id: string;
-  firstName: string;
-  lastName: string;
-  title: string;
-  bio: string;
-  specialties: string[];
-  services: string[];
-  availability: Record<
-    string,
-    { start: string; end: string; available: boolean }
-  >;
-  slug: string;
-}
-
-interface Booking {
-  id: string;
-  customerName: string;
-  customerEmail: string;
-  service: string;
+// A booking dragged on the calendar, shown at its new time until saved
+interface PendingMove {
+  bookingId: string;
   date: string;
   time: string;
-  status: 'confirmed' | 'pending' | 'cancelled';
 }
 
+// Profile edits, with specialties typed as a comma-separated list
+type ProfileDraft = Omit<ProfessionalProfileUpdate, 'specialties'> & {
+  specialties: string;
+};
+
 const DashboardContent: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -57,63 +71,80 @@ const DashboardContent: React.FC = () => {
     'schedule'
   );
   const [profile, setProfile] = useState<ProfessionalProfile | null>(null);
-  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [bookings, setBookings] = useState<ProfessionalBooking[]>([]);
   const [loading, setLoading] = useState(true);
   const [copiedLink, setCopiedLink] = useState<string | null>(null);
+  const [calendarView, setCalendarView] = useState<CalendarView>('week');
+  const [calendarAnchor, setCalendarAnchor] = useState(() =>
+    toDateString(new Date())
+  );
+  const [selectedBooking, setSelectedBooking] =
+    useState<ProfessionalBooking | null>(null);
+  const [addingBooking, setAddingBooking] = useState(false);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
 
-  // Mock data for demonstration
+  const [error, setError] = useState<string | null>(null);
+  const [profileDraft, setProfileDraft] = useState<ProfileDraft | null>(null);
+  const [savingProfile, setSavingProfile] = useState(false);
+
+  const uid = user?.uid;
+  const profileId = profile?.id;
+  const profileOrgId = profile?.orgId;
+
+  // Bookings are loaded for the dates the calendar shows
+  const viewDates = getViewDates(calendarView, calendarAnchor);
+  const rangeStart = viewDates[0] ?? calendarAnchor;
+  const rangeEnd = viewDates[viewDates.length - 1] ?? calendarAnchor;
+
+  // The profile and bookings stay live: changes made elsewhere, like a new
+  // booking or a cancellation, show up without reloading
   useEffect(() => {
-    // Simulate loading user's professional profile
-    const timeoutId = setTimeout(() => {
-      setProfile({
-        id: 'prof-1',
-        firstName: user?.displayName?.split(' ')[0] || 'John',
-        lastName: user?.displayName?.split(' ')[1] || 'Doe',
-        title: 'Hair Stylist',
-        bio: 'Professional hair stylist with 5+ years of experience',
-        specialties: ['Hair Cutting', 'Hair Coloring', 'Hair Styling'],
-        services: ['Haircut', 'Hair Color', 'Blowout', 'Updo'],
-        availability: {
-          monday: { start: '09:00', end: '17:00', available: true },
-          tuesday: { start: '09:00', end: '17:00', available: true },
-          wednesday: { start: '09:00', end: '17:00', available: true },
-          thursday: { start: '09:00', end: '17:00', available: true },
-          friday: { start: '09:00', end: '17:00', available: true },
-          saturday: { start: '10:00', end: '16:00', available: true },
-          sunday: { start: '10:00', end: '14:00', available: false },
-        },
-        slug: 'john-doe-hair',
-      });
+    if (!uid) return;
 
-      // Mock bookings
-      setBookings([
-        {
-          id: 'booking-1',
-          customerName: 'Sarah Johnson',
-          customerEmail: 'sarah@example.com',
-          service: 'Haircut',
-          date: '2024-01-15',
-          time: '10:00',
-          status: 'confirmed',
-        },
-        {
-          id: 'booking-2',
-          customerName: 'Mike Wilson',
-          customerEmail: 'mike@example.com',
-          service: 'Hair Color',
-          date: '2024-01-16',
-          time: '14:00',
-          status: 'pending',
+    const handleError = (err: Error) => {
+      console.error('Error loading professional profile:', err);
+      setError('Failed to load your profile');
+      setLoading(false);
+    };
+
+    try {
+      return subscribeToProfessionalProfile(
+        uid,
+        loaded => {
+          setProfile(loaded);
+          setLoading(false);
         },
-      ]);
+        handleError
+      );
+    } catch (err) {
+      handleError(err as Error);
+      return undefined;
+    }
+  }, [uid]);
 
-      setLoading(false);
-    }, 1000);
+  useEffect(() => {
+    if (!profileId || !profileOrgId) {
+      setBookings([]);
+      return;
+    }
 
-    return () => {
-      clearTimeout(timeoutId);
+    const handleError = (err: Error) => {
+      console.error('Error loading bookings:', err);
+      setError('Failed to load your bookings');
     };
-  }, [user?.displayName]);
+
+    try {
+      return subscribeToBookings(
+        { id: profileId, orgId: profileOrgId },
+        { startDate: rangeStart, endDate: rangeEnd },
+        setBookings,
+        handleError
+      );
+    } catch (err) {
+      handleError(err as Error);
+      return undefined;
+    }
+  }, [profileId, profileOrgId, rangeStart, rangeEnd]);
 
   const handleCopyLink = (link: string) => {
     navigator.clipboard.writeText(link);
@@ -125,28 +156,141 @@ const DashboardContent: React.FC = () => {
     setTimeout(() => setCopiedLink(null), 2000);
   };
 
-  const generateBookingLink = () => {
-    if (!profile) return '';
-    return `${window.location.origin}/u/${profile.slug}`;
+  // The new exceptions and conflict flags arrive through the subscriptions
+  const handleScheduleExceptionsSaved = (
+    _scheduleExceptions: ScheduleException[],
+    conflicts: ScheduleConflict[]
+  ) => {
+    toast({
+      title: 'Schedule updated',
+      description:
+        conflicts.length > 0
+          ? `${conflicts.length} upcoming booking(s) overlap your changes`
+          : 'Your time off and special hours have been saved.',
+    });
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
+  // The new booking arrives through the bookings subscription
+  const handleBookingCreated = (customer: CustomerInfo) => {
+    setAddingBooking(false);
+    toast({
+      title: 'Booking added',
+      description: `${customer.firstName} ${customer.lastName} will get a confirmation email.`,
     });
   };
 
-  const formatTime = (timeString: string) => {
-    return new Date(`2000-01-01T${timeString}`).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
+  // The moved booking arrives through the bookings subscription; on a
+  // conflict it drops back to where it was
+  const handleMoveBooking = async (
+    booking: ProfessionalBooking,
+    date: string,
+    time: string
+  ) => {
+    if (pendingMove) return;
+
+    try {
+      setPendingMove({ bookingId: booking.id, date, time });
+      await moveBooking(booking, date, time);
+      toast({
+        title: 'Booking moved',
+        description: `${booking.customerName} will get the updated time by email.`,
+      });
+    } catch (err) {
+      toast({
+        title: 'Could not move the booking',
+        description:
+          err instanceof Error ? err.message : 'Failed to move the booking',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingMove(null);
+    }
+  };
+
+  // The new status arrives through the bookings subscription
+  const handleUpdateStatus = async (
+    booking: ProfessionalBooking,
+    status: AttendanceStatus
+  ) => {
+    try {
+      await updateBookingStatus(booking, status);
+      toast({
+        title:
+          status === 'checked_in'
+            ? 'Customer checked in'
+            : status === 'completed'
+              ? 'Booking completed'
+              : 'Marked as no-show',
+        description: `${booking.customerName}, ${booking.service}`,
+      });
+    } catch (err) {
+      toast({
+        title: 'Could not update the booking',
+        description:
+          err instanceof Error ? err.message : 'Failed to update the booking',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Follows the picked booking as the subscription updates it
+  const shownBooking = selectedBooking
+    ? bookings.find(booking => booking.id === selectedBooking.id) ||
+      selectedBooking
+    : null;
+
+  const calendarBookings = pendingMove
+    ? bookings.map(booking =>
+        booking.id === pendingMove.bookingId
+          ? { ...booking, date: pendingMove.date, time: pendingMove.time }
+          : booking
+      )
+    : bookings;
+
+  const handleEditProfile = () => {
+    if (!profile) return;
+    setProfileDraft({
+      name: profile.name,
+      title: profile.title,
+      bio: profile.bio,
+      specialties: profile.specialties.join(', '),
     });
   };
 
+  const handleSaveProfile = async () => {
+    if (!profile || !profileDraft) return;
+
+    try {
+      setSavingProfile(true);
+      await updateProfessionalProfile(profile, {
+        ...profileDraft,
+        specialties: profileDraft.specialties
+          .split(',')
+          .map(specialty => specialty.trim())
+          .filter(Boolean),
+      });
+      setProfileDraft(null);
+      toast({
+        title: 'Profile saved',
+        description: 'Your booking page shows the new details.',
+      });
+    } catch (err) {
+      toast({
+        title: 'Could not save your profile',
+        description:
+          err instanceof Error ? err.message : 'Failed to save your profile',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const generateBookingLink = () => {
+    if (!profile) return '';
+    return `${window.location.origin}/u/${profile.slug}`;
+  };
+
   if (loading) {
     return (
       <div className='min-h-screen bg-gray-50 flex items-center justify-center'>
@@ -158,6 +302,23 @@ const DashboardContent: React.FC = () => {
     );
   }
 
+  if (!profile) {
+    return (
+      <div className='min-h-screen bg-gray-50 flex items-center justify-center'>
+        <div className='text-center max-w-md px-4'>
+          <Users className='w-12 h-12 text-gray-400 mx-auto mb-4' />
+          <h1 className='text-xl font-semibold text-gray-900 mb-2'>
+            No professional profile yet
+          </h1>
+          <p className='text-gray-600'>
+            {error ||
+              'Your account is not linked to a professional profile. Ask your organization admin to add you.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className='min-h-screen bg-gray-50'>
       {/* Header */}
@@ -166,7 +327,7 @@ const DashboardContent: React.FC = () => {
           <div className='flex justify-between items-center py-6'>
             <div>
               <h1 className='text-2xl font-bold text-gray-900'>
-                Welcome back, {profile?.firstName}!
+                Welcome back, {profile.name.split(' ')[0]}!
               </h1>
               <p className='text-gray-600'>Manage your schedule and bookings</p>
             </div>
@@ -181,6 +342,12 @@ const DashboardContent: React.FC = () => {
       </header>
 
       <div className='max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8'>
+        {error && (
+          <div className='mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800'>
+            {error}
+          </div>
+        )}
+
         {/* Navigation Tabs */}
         <div className='border-b border-gray-200 mb-8'>
           <nav className='-mb-px flex space-x-8'>
@@ -211,67 +378,32 @@ const DashboardContent: React.FC = () => {
         {activeTab === 'schedule' && (
           <div className='space-y-6'>
             <div className='grid grid-cols-1 lg:grid-cols-3 gap-6'>
-              {/* Upcoming Bookings */}
+              {/* Calendar */}
               <div className='lg:col-span-2'>
                 <Card>
-                  <CardHeader>
+                  <CardHeader className='flex flex-row items-center justify-between space-y-0'>
                     <CardTitle className='flex items-center'>
                       <Calendar className='w-5 h-5 mr-2' />
-                      Upcoming Bookings
+                      Calendar
                     </CardTitle>
+                    <Button size='sm' onClick={() => setAddingBooking(true)}>
+                      <Plus className='w-4 h-4 mr-2' />
+                      New Booking
+                    </Button>
                   </CardHeader>
                   <CardContent>
-                    <div className='space-y-4'>
-                      {bookings.length === 0 ? (
-                        <p className='text-gray-500 text-center py-8'>
-                          No upcoming bookings
-                        </p>
-                      ) : (
-                        bookings.map(booking => (
-                          <div
-                            key={booking.id}
-                            className='flex items-center justify-between p-4 bg-gray-50 rounded-lg'
-                          >
-                            <div className='flex-1'>
-                              <div className='flex items-center space-x-3'>
-                                <div>
-                                  <h3 className='font-medium text-gray-900'>
-                                    {booking.customerName}
-                                  </h3>
-                                  <p className='text-sm text-gray-600'>
-                                    {booking.service}
-                                  </p>
-                                </div>
-                                <span
-                                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                                    booking.status === 'confirmed'
-                                      ? 'bg-green-100 text-green-800'
-                                      : booking.status === 'pending'
-                                        ? 'bg-yellow-100 text-yellow-800'
-                                        : 'bg-red-100 text-red-800'
-                                  }`}
-                                >
-                                  {booking.status}
-                                </span>
-                              </div>
-                              <div className='mt-2 flex items-center text-sm text-gray-500'>
-                                <Clock className='w-4 h-4 mr-1' />
-                                {formatDate(booking.date)} at{' '}
-                                {formatTime(booking.time)}
-                              </div>
-                            </div>
-                            <div className='flex space-x-2'>
-                              <Button variant='outline' size='sm'>
-                                View
-                              </Button>
-                              <Button variant='outline' size='sm'>
-                                Reschedule
-                              </Button>
-                            </div>
-                          </div>
-                        ))
-                      )}
-                    </div>
+                    <ScheduleCalendar
+                      profile={profile}
+                      bookings={calendarBookings}
+                      view={calendarView}
+                      anchor={calendarAnchor}
+                      onNavigate={(view, anchor) => {
+                        setCalendarView(view);
+                        setCalendarAnchor(anchor);
+                      }}
+                      onSelectBooking={setSelectedBooking}
+                      onMoveBooking={handleMoveBooking}
+                    />
                   </CardContent>
                 </Card>
               </div>
@@ -280,7 +412,7 @@ const DashboardContent: React.FC = () => {
               <div className='space-y-6'>
                 <Card>
                   <CardHeader>
-                    <CardTitle>This Week</CardTitle>
+                    <CardTitle>In View</CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className='space-y-4'>
@@ -313,60 +445,86 @@ const DashboardContent: React.FC = () => {
                   </CardHeader>
                   <CardContent>
                     <div className='space-y-2'>
-                      {profile &&
-                        Object.entries(profile.availability).map(
-                          ([day, schedule]) => (
-                            <div
-                              key={day}
-                              className='flex justify-between items-center'
+                      {Object.entries(profile.availability).map(
+                        ([day, schedule]) => (
+                          <div
+                            key={day}
+                            className='flex justify-between items-center'
+                          >
+                            <span className='capitalize text-sm'>{day}</span>
+                            <span
+                              className={`text-sm ${schedule.available ? 'text-green-600' : 'text-red-600'}`}
                             >
-                              <span className='capitalize text-sm'>{day}</span>
-                              <span
-                                className={`text-sm ${schedule.available ? 'text-green-600' : 'text-red-600'}`}
-                              >
-                                {schedule.available
-                                  ? `${schedule.start} - ${schedule.end}`
-                                  : 'Unavailable'}
-                              </span>
-                            </div>
-                          )
-                        )}
+                              {schedule.available
+                                ? `${schedule.start} - ${schedule.end}`
+                                : 'Unavailable'}
+                            </span>
+                          </div>
+                        )
+                      )}
                     </div>
                   </CardContent>
                 </Card>
+
+                {profile && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Time Off & Special Hours</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <ScheduleExceptionsEditor
+                        orgId={profile.orgId}
+                        target='professional'
+                        targetId={profile.id}
+                        exceptions={profile.scheduleExceptions}
+                        onSaved={handleScheduleExceptionsSaved}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
               </div>
             </div>
           </div>
         )}
 
         {/* Profile Tab */}
-        {activeTab === 'profile' && profile && (
+        {activeTab === 'profile' && (
           <div className='max-w-2xl'>
             <Card>
               <CardHeader>
                 <CardTitle>Professional Profile</CardTitle>
               </CardHeader>
               <CardContent className='space-y-6'>
-                <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
-                  <div>
-                    <label className='block text-sm font-medium text-gray-700 mb-1'>
-                      First Name
-                    </label>
-                    <Input value={profile.firstName} readOnly />
-                  </div>
-                  <div>
-                    <label className='block text-sm font-medium text-gray-700 mb-1'>
-                      Last Name
-                    </label>
-                    <Input value={profile.lastName} readOnly />
-                  </div>
+                <div>
+                  <label className='block text-sm font-medium text-gray-700 mb-1'>
+                    Name
+                  </label>
+                  <Input
+                    value={profileDraft ? profileDraft.name : profile.name}
+                    readOnly={!profileDraft}
+                    disabled={savingProfile}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setProfileDraft(prev =>
+                        prev ? { ...prev, name: e.target.value } : prev
+                      )
+                    }
+                  />
                 </div>
 
                 <div>
                   <label className='block text-sm font-medium text-gray-700 mb-1'>
                     Title
                   </label>
-                  <Input value={profile.title} readOnly />
+                  <Input
+                    value={profileDraft ? profileDraft.title : profile.title}
+                    readOnly={!profileDraft}
+                    disabled={savingProfile}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setProfileDraft(prev =>
+                        prev ? { ...prev, title: e.target.value } : prev
+                      )
+                    }
+                  />
                 </div>
 
                 <div>
@@ -376,8 +534,15 @@ const DashboardContent: React.FC = () => {
                   <textarea
                     className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500'
                     rows={3}
-                    value={profile.bio}
-                    readOnly
+                    maxLength={1000}
+                    value={profileDraft ? profileDraft.bio : profile.bio}
+                    readOnly={!profileDraft}
+                    disabled={savingProfile}
+                    onChange={e =>
+                      setProfileDraft(prev =>
+                        prev ? { ...prev, bio: e.target.value } : prev
+                      )
+                    }
                   />
                 </div>
 
@@ -385,36 +550,61 @@ const DashboardContent: React.FC = () => {
                   <label className='block text-sm font-medium text-gray-700 mb-1'>
                     Specialties
                   </label>
-                  <div className='flex flex-wrap gap-2'>
-                    {profile.specialties.map((specialty, index) => (
-                      <span
-                        key={index}
-                        className='inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800'
-                      >
-                        {specialty}
-                      </span>
-                    ))}
-                  </div>
-                </div>
-
-                <div>
-                  <label className='block text-sm font-medium text-gray-700 mb-1'>
-                    Services
-                  </label>
-                  <div className='flex flex-wrap gap-2'>
-                    {profile.services.map((service, index) => (
-                      <span
-                        key={index}
-                        className='inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800'
-                      >
-                        {service}
-                      </span>
-                    ))}
-                  </div>
+                  {profileDraft ? (
+                    <>
+                      <Input
+                        value={profileDraft.specialties}
+                        disabled={savingProfile}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setProfileDraft(prev =>
+                            prev
+                              ? { ...prev, specialties: e.target.value }
+                              : prev
+                          )
+                        }
+                      />
+                      <p className='text-xs text-gray-500 mt-1'>
+                        Separate specialties with commas
+                      </p>
+                    </>
+                  ) : (
+                    <div className='flex flex-wrap gap-2'>
+                      {profile.specialties.map(specialty => (
+                        <span
+                          key={specialty}
+                          className='inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800'
+                        >
+                          {specialty}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 <div className='pt-4'>
-                  <Button className='w-full'>Edit Profile</Button>
+                  {profileDraft ? (
+                    <div className='flex gap-4'>
+                      <Button
+                        variant='outline'
+                        className='flex-1'
+                        onClick={() => setProfileDraft(null)}
+                        disabled={savingProfile}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        className='flex-1'
+                        onClick={handleSaveProfile}
+                        disabled={!profileDraft.name.trim() || savingProfile}
+                      >
+                        {savingProfile ? 'Saving...' : 'Save Profile'}
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button className='w-full' onClick={handleEditProfile}>
+                      Edit Profile
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -500,6 +690,23 @@ const DashboardContent: React.FC = () => {
           </div>
         )}
       </div>
+
+      {shownBooking && (
+        <BookingDetailDialog
+          booking={shownBooking}
+          onClose={() => setSelectedBooking(null)}
+          onUpdateStatus={handleUpdateStatus}
+        />
+      )}
+
+      {addingBooking && (
+        <NewBookingDialog
+          profile={profile}
+          initialDate={calendarAnchor}
+          onClose={() => setAddingBooking(false)}
+          onCreated={handleBookingCreated}
+        />
+      )}
     </div>
   );
 };
@@ -19,42 +19,36 @@ import {
   Download,
   ArrowLeft,
 } from 'lucide-react';
-
-interface BookingSuccessData {
-  bookingId: string;
-  confirmationCode: string;
-  serviceName: string;
-  professionalName: string;
-  customerName: string;
-  customerEmail: string;
-  appointmentDate: string;
-  appointmentTime: string;
-  duration: number;
-  location?: string;
-  icsFileUrl: string;
-}
+import type { BookingConfirmation } from '../../features/booking/types';
 
 export const BookingSuccess: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
 
-  // In a real implementation, this data would come from the location state or be fetched
-  const bookingData: BookingSuccessData = location.state?.bookingData || {
-    bookingId: 'demo-booking-123',
-    confirmationCode: 'ABC123',
-    serviceName: 'Haircut & Styling',
-    professionalName: 'Maria Silva',
-    customerName: 'John Doe',
-    customerEmail: 'john.doe@example.com',
-    appointmentDate: '2024-01-15',
-    appointmentTime: '10:00',
-    duration: 60,
-    location: 'Glow Beauty Studio - Porto Alegre',
-    icsFileUrl: '/api/bookings/demo-booking-123/ics',
-  };
+  const bookingData = (
+    location.state as { confirmation?: BookingConfirmation } | null
+  )?.confirmation;
+
+  if (!bookingData) {
+    return (
+      <div className='min-h-screen bg-gray-50 flex items-center justify-center px-4'>
+        <Card className='max-w-md w-full'>
+          <CardContent className='p-8 text-center'>
+            <h1 className='text-2xl font-bold text-gray-900 mb-4'>
+              No booking to show
+            </h1>
+            <p className='text-gray-600 mb-6'>
+              Your confirmation details are in the email we sent you.
+            </p>
+            <Button onClick={() => navigate('/')}>Back to home</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
 
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
+    const date = new Date(`${dateString}T00:00:00`);
     return date.toLocaleDateString('en-US', {
       weekday: 'long',
       year: 'numeric',
@@ -83,7 +77,6 @@ export const BookingSuccess: React.FC = () => {
   };
 
   const handleDownloadICS = () => {
-    // In a real implementation, this would trigger the ICS file download
     window.open(bookingData.icsFileUrl, '_blank');
   };
 
@@ -128,7 +121,8 @@ export const BookingSuccess: React.FC = () => {
                       {formatDate(bookingData.appointmentDate)}
                     </p>
                     <p className='text-gray-600'>
-                      {formatTime(bookingData.appointmentTime)}
+                      {formatTime(bookingData.appointmentTime)} (
+                      {bookingData.timezone})
                     </p>
                   </div>
                 </div>
@@ -198,8 +192,10 @@ export const BookingSuccess: React.FC = () => {
                 <div className='flex items-center space-x-4'>
                   <Phone className='w-6 h-6 text-primary-600' />
                   <div>
-                    <p className='font-medium text-gray-900'>Phone</p>
-                    <p className='text-gray-600'>Provided during booking</p>
+                    <p className='font-medium text-gray-900'>
+                      {bookingData.customerPhone}
+                    </p>
+                    <p className='text-gray-600'>Phone</p>
                   </div>
                 </div>
               </div>
@@ -246,7 +242,7 @@ export const BookingSuccess: React.FC = () => {
                 </div>
                 <h3 className='font-semibold text-gray-900 mb-2'>Reminder</h3>
                 <p className='text-sm text-gray-600'>
-                  You'll receive a reminder 15 minutes before your appointment.
+                  We'll email you a reminder before your appointment.
                 </p>
               </div>
             </div>
@@ -287,6 +283,13 @@ export const BookingSuccess: React.FC = () => {
           <p className='text-gray-600 mb-4'>
             Need to make changes to your appointment?
           </p>
+          <Button
+            onClick={() => navigate(bookingData.manageUrl)}
+            variant='outline'
+            className='mb-4'
+          >
+            Manage booking
+          </Button>
           <p className='text-sm text-gray-500'>
             Contact us at{' '}
             <a
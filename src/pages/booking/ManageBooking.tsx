@@ -0,0 +1,432 @@
+/**
+ * Manage booking page
+ * Lets customers cancel or reschedule a booking from the link in their email
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Card, CardContent } from '../../components/ui/Card';
+import { Button } from '../../components/ui/Button';
+import { Badge } from '../../components/ui/Badge';
+import {
+  Calendar,
+  Clock,
+  User,
+  MapPin,
+  Download,
+  XCircle,
+  AlertCircle,
+  Repeat,
+} from 'lucide-react';
+import {
+  BookingProvider,
+  useBooking,
+} from '../../features/booking/context/BookingContext';
+import { AvailabilityStep } from '../../features/booking/components/steps/AvailabilityStep';
+import {
+  getManagedBooking,
+  cancelBooking,
+  rescheduleBooking,
+  ManageBookingError,
+  type CancelScope,
+} from '../../features/booking/services/manageBookingService';
+import { SlotUnavailableError } from '../../features/booking/services/bookingService';
+import type { ManagedBooking } from '../../features/booking/types';
+
+const formatDate = (dateString: string) => {
+  const date = new Date(`${dateString}T00:00:00`);
+  return date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+};
+
+const formatTime = (time: string) => {
+  const [hours = '0', minutes = '00'] = time.split(':');
+  const hour = parseInt(hours);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour % 12 || 12;
+  return `${displayHour}:${minutes} ${ampm}`;
+};
+
+const formatPrice = (price: number, currency: string) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+  }).format(price);
+};
+
+interface RescheduleFormProps {
+  booking: ManagedBooking;
+  submitting: boolean;
+  onConfirm: (date: string, time: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Reuses the wizard's availability step to pick a new slot for the same
+ * professional and services
+ */
+const RescheduleForm: React.FC<RescheduleFormProps> = ({
+  booking,
+  submitting,
+  onConfirm,
+  onCancel,
+}) => {
+  const { state, dispatch } = useBooking();
+
+  useEffect(() => {
+    dispatch({
+      type: 'SET_CONTEXT',
+      payload: {
+        brandId: '',
+        brandSlug: '',
+        professionalId: booking.professionalId,
+        ...(booking.storeId ? { storeId: booking.storeId } : {}),
+      },
+    });
+    dispatch({
+      type: 'SET_SERVICES',
+      payload: booking.services.map(service => ({
+        id: service.serviceId,
+        name: service.serviceName,
+        description: '',
+        duration: service.duration,
+        durationMin: service.duration,
+        price: service.price,
+        slug: service.serviceId,
+      })),
+    });
+  }, [booking, dispatch]);
+
+  return (
+    <div>
+      {state.selectedServices.length > 0 && <AvailabilityStep />}
+      {state.error && (
+        <p className='mt-4 text-sm text-red-600'>{state.error}</p>
+      )}
+      <div className='mt-6 flex flex-col sm:flex-row gap-4 justify-end'>
+        <Button variant='secondary' onClick={onCancel} disabled={submitting}>
+          Keep current time
+        </Button>
+        <Button
+          onClick={() =>
+            state.selectedSlot &&
+            onConfirm(state.selectedSlot.date, state.selectedSlot.time)
+          }
+          disabled={!state.selectedSlot || submitting}
+        >
+          {submitting ? 'Rescheduling...' : 'Confirm new time'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const ManageBooking: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [booking, setBooking] = useState<ManagedBooking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [rescheduling, setRescheduling] = useState(false);
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadBooking = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      setLoading(true);
+      setBooking(await getManagedBooking(token));
+    } catch (err) {
+      setError(
+        err instanceof ManageBookingError
+          ? err.message
+          : 'We could not load this booking. Please try again later.'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadBooking();
+  }, [loadBooking]);
+
+  const handleCancel = async (scope: CancelScope = 'occurrence') => {
+    if (!token) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const cancelled = await cancelBooking(token, undefined, scope);
+      setBooking(cancelled);
+      setConfirmingCancel(false);
+      setNotice(
+        cancelled.payment && cancelled.payment.refundedAmount > 0
+          ? `Your appointment has been cancelled and ${formatPrice(cancelled.payment.refundedAmount, cancelled.payment.currency)} has been refunded.`
+          : scope === 'series'
+            ? 'Your remaining appointments in this series have been cancelled.'
+            : 'Your appointment has been cancelled.'
+      );
+    } catch (err) {
+      setError(
+        err instanceof ManageBookingError
+          ? err.message
+          : 'Failed to cancel booking'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReschedule = async (date: string, time: string) => {
+    if (!token) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      setBooking(await rescheduleBooking(token, date, time));
+      setRescheduling(false);
+      setNotice('Your appointment has been rescheduled.');
+    } catch (err) {
+      setError(
+        err instanceof SlotUnavailableError || err instanceof ManageBookingError
+          ? err.message
+          : 'Failed to reschedule booking'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className='min-h-screen bg-gray-50 flex items-center justify-center'>
+        <div className='animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600'></div>
+      </div>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <div className='min-h-screen bg-gray-50 flex items-center justify-center px-4'>
+        <Card className='max-w-md w-full'>
+          <CardContent className='p-8 text-center'>
+            <AlertCircle className='w-12 h-12 text-red-500 mx-auto mb-4' />
+            <h1 className='text-2xl font-bold text-gray-900 mb-4'>
+              Booking unavailable
+            </h1>
+            <p className='text-gray-600'>
+              {error || 'This link is invalid or has expired.'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isCancelled = booking.status === 'cancelled';
+  const remainingInSeries = booking.series?.upcoming.length ?? 0;
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <div className='max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12'>
+        <div className='text-center mb-8'>
+          <h1 className='text-3xl font-bold text-gray-900 mb-4'>
+            Manage your booking
+          </h1>
+          <Badge variant={isCancelled ? 'error' : 'secondary'}>
+            {isCancelled
+              ? 'Cancelled'
+              : `Confirmation Code: ${booking.confirmationCode}`}
+          </Badge>
+        </div>
+
+        {notice && (
+          <div className='mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-800'>
+            {notice}
+          </div>
+        )}
+        {error && (
+          <div className='mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800'>
+            {error}
+          </div>
+        )}
+
+        <Card className='mb-8'>
+          <CardContent className='p-8'>
+            <div className='space-y-4'>
+              <div className='flex items-center space-x-4'>
+                <Calendar className='w-6 h-6 text-primary-600' />
+                <div>
+                  <p className='font-medium text-gray-900'>
+                    {formatDate(booking.appointmentDate)}
+                  </p>
+                  <p className='text-gray-600'>
+                    {formatTime(booking.appointmentTime)} ({booking.timezone})
+                  </p>
+                </div>
+              </div>
+
+              <div className='flex items-center space-x-4'>
+                <Clock className='w-6 h-6 text-primary-600' />
+                <div>
+                  <p className='font-medium text-gray-900'>
+                    {booking.serviceName}
+                  </p>
+                  <p className='text-gray-600'>{booking.duration} minutes</p>
+                </div>
+              </div>
+
+              <div className='flex items-center space-x-4'>
+                <User className='w-6 h-6 text-primary-600' />
+                <div>
+                  <p className='font-medium text-gray-900'>
+                    {booking.professionalName}
+                  </p>
+                  <p className='text-gray-600'>Professional</p>
+                </div>
+              </div>
+
+              {booking.series && (
+                <div className='flex items-center space-x-4'>
+                  <Repeat className='w-6 h-6 text-primary-600' />
+                  <div>
+                    <p className='font-medium text-gray-900'>
+                      Repeats every{' '}
+                      {booking.series.interval === 1
+                        ? 'week'
+                        : `${booking.series.interval} weeks`}
+                    </p>
+                    <p className='text-gray-600'>
+                      {remainingInSeries} appointments remaining
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {booking.location && (
+                <div className='flex items-center space-x-4'>
+                  <MapPin className='w-6 h-6 text-primary-600' />
+                  <div>
+                    <p className='font-medium text-gray-900'>Location</p>
+                    <p className='text-gray-600'>{booking.location}</p>
+                    {booking.resources.length > 0 && (
+                      <p className='text-gray-600'>
+                        {booking.resources.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {rescheduling ? (
+          <Card>
+            <CardContent className='p-8'>
+              <BookingProvider>
+                <RescheduleForm
+                  booking={booking}
+                  submitting={submitting}
+                  onConfirm={handleReschedule}
+                  onCancel={() => setRescheduling(false)}
+                />
+              </BookingProvider>
+            </CardContent>
+          </Card>
+        ) : (
+          !isCancelled && (
+            <div className='text-center'>
+              {booking.canChange && confirmingCancel ? (
+                <div>
+                  <p className='text-gray-900 font-medium mb-4'>
+                    Cancel this appointment?
+                  </p>
+                  {booking.payment && (
+                    <p className='text-gray-600 mb-4'>
+                      {booking.payment.refundAmount > 0
+                        ? `Your payment of ${formatPrice(booking.payment.refundAmount, booking.payment.currency)} will be refunded.`
+                        : `Your payment of ${formatPrice(booking.payment.amountPaid, booking.payment.currency)} is no longer refundable.`}
+                    </p>
+                  )}
+                  <div className='flex flex-col sm:flex-row gap-4 justify-center'>
+                    <Button
+                      variant='secondary'
+                      onClick={() => setConfirmingCancel(false)}
+                      disabled={submitting}
+                    >
+                      Keep appointment
+                    </Button>
+                    <Button
+                      variant='destructive'
+                      onClick={() => handleCancel()}
+                      disabled={submitting}
+                    >
+                      {submitting
+                        ? 'Cancelling...'
+                        : remainingInSeries > 1
+                          ? 'Cancel this date'
+                          : 'Yes, cancel'}
+                    </Button>
+                    {remainingInSeries > 1 && (
+                      <Button
+                        variant='destructive'
+                        onClick={() => handleCancel('series')}
+                        disabled={submitting}
+                      >
+                        Cancel all {remainingInSeries} remaining
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ) : booking.canChange ? (
+                <div className='flex flex-col sm:flex-row gap-4 justify-center'>
+                  <Button
+                    variant='secondary'
+                    onClick={() => window.open(booking.icsFileUrl, '_blank')}
+                    className='flex items-center space-x-2'
+                  >
+                    <Download className='w-4 h-4' />
+                    <span>Add to Calendar</span>
+                  </Button>
+                  {!booking.series && !booking.sessionId && (
+                    <Button
+                      onClick={() => setRescheduling(true)}
+                      disabled={submitting}
+                      className='flex items-center space-x-2'
+                    >
+                      <Calendar className='w-4 h-4' />
+                      <span>Reschedule</span>
+                    </Button>
+                  )}
+                  <Button
+                    variant='destructive'
+                    onClick={() => setConfirmingCancel(true)}
+                    className='flex items-center space-x-2'
+                  >
+                    <XCircle className='w-4 h-4' />
+                    <span>Cancel Appointment</span>
+                  </Button>
+                </div>
+              ) : (
+                <p className='text-gray-600'>
+                  Bookings can be changed up to {booking.cancellationHours}{' '}
+                  hours before the appointment. Please contact the professional
+                  directly.
+                </p>
+              )}
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ManageBooking;
@@ -0,0 +1,141 @@
+/**
+ * Customer sign-in page
+ * Emails customers a sign-in link, and signs them in when they open it
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Mail, AlertCircle, CheckCircle } from 'lucide-react';
+import { Card, CardContent } from '../../components/ui/Card';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { useCustomer } from '../../contexts/CustomerContext';
+import {
+  CustomerSessionError,
+  requestCustomerSignIn,
+} from '../../features/customer/services/customerService';
+
+export const CustomerSignIn: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { session, signIn } = useCustomer();
+  const token = searchParams.get('token');
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const redeemed = useRef(false);
+
+  // Redeem the link once, even when effects run twice in development
+  useEffect(() => {
+    if (!token || redeemed.current) return;
+    redeemed.current = true;
+
+    signIn(token)
+      .then(() => navigate('/me/bookings', { replace: true }))
+      .catch(err =>
+        setError(
+          err instanceof CustomerSessionError
+            ? 'This sign-in link is invalid or has expired. Please request a new one.'
+            : 'We could not sign you in. Please try again later.'
+        )
+      );
+  }, [token, signIn, navigate]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    try {
+      setSending(true);
+      setError(null);
+      await requestCustomerSignIn(email.trim());
+      setSent(true);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to send the sign-in link'
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (token && !error) {
+    return (
+      <div className='min-h-screen bg-gray-50 flex items-center justify-center'>
+        <div className='animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600'></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className='min-h-screen bg-gray-50 flex items-center justify-center px-4'>
+      <Card className='max-w-md w-full'>
+        <CardContent className='p-8'>
+          <h1 className='text-2xl font-bold text-gray-900 mb-2 text-center'>
+            Sign in to see your bookings
+          </h1>
+
+          {sent ? (
+            <div className='text-center'>
+              <CheckCircle className='w-12 h-12 text-green-500 mx-auto my-4' />
+              <p className='text-gray-600'>
+                A sign-in link is on its way to {email.trim()}. It expires in 30
+                minutes.
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className='space-y-4'>
+              <p className='text-gray-600 text-center'>
+                We&apos;ll email you a link to sign in, no password needed. Your
+                details are filled in next time you book.
+              </p>
+
+              {session && (
+                <p className='text-sm text-gray-600 text-center'>
+                  You&apos;re signed in as {session.profile.email}.{' '}
+                  <Link
+                    to='/me/bookings'
+                    className='text-primary-600 hover:underline'
+                  >
+                    See your bookings
+                  </Link>
+                </p>
+              )}
+
+              {error && (
+                <div className='flex items-start space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm'>
+                  <AlertCircle className='w-4 h-4 mt-0.5 flex-shrink-0' />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <div className='relative'>
+                <Mail className='absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400' />
+                <Input
+                  id='email'
+                  type='email'
+                  value={email}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setEmail(e.target.value)
+                  }
+                  className='pl-10'
+                  placeholder='Enter your email address'
+                />
+              </div>
+
+              <Button type='submit' className='w-full' disabled={sending}>
+                {sending ? 'Sending...' : 'Email me a sign-in link'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CustomerSignIn;
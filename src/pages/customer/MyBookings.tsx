@@ -0,0 +1,226 @@
+/**
+ * My bookings page
+ * Lists a signed-in customer's upcoming and past bookings, with links to
+ * manage upcoming ones and to book a past service again
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link, Navigate, useNavigate } from 'react-router-dom';
+import { Calendar, Clock, User, MapPin, RotateCcw } from 'lucide-react';
+import { Card, CardContent } from '../../components/ui/Card';
+import { Button } from '../../components/ui/Button';
+import { Badge } from '../../components/ui/Badge';
+import { useCustomer } from '../../contexts/CustomerContext';
+import {
+  CustomerSessionError,
+  getCustomerAccount,
+} from '../../features/customer/services/customerService';
+import type {
+  CustomerAccount,
+  CustomerBookingSummary,
+} from '../../features/customer/types';
+
+const formatDate = (dateString: string) => {
+  const date = new Date(`${dateString}T00:00:00`);
+  return date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+};
+
+const formatTime = (time: string) => {
+  const [hours = '0', minutes = '00'] = time.split(':');
+  const hour = parseInt(hours);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour % 12 || 12;
+  return `${displayHour}:${minutes} ${ampm}`;
+};
+
+interface BookingSummaryCardProps {
+  booking: CustomerBookingSummary;
+}
+
+const BookingSummaryCard: React.FC<BookingSummaryCardProps> = ({ booking }) => {
+  const navigate = useNavigate();
+
+  return (
+    <Card>
+      <CardContent className='p-6'>
+        <div className='flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4'>
+          <div className='space-y-2'>
+            <div className='flex items-center space-x-2'>
+              <p className='font-medium text-gray-900'>{booking.serviceName}</p>
+              {booking.status === 'cancelled' && (
+                <Badge variant='error' size='sm'>
+                  Cancelled
+                </Badge>
+              )}
+              {booking.status === 'no_show' && (
+                <Badge variant='warning' size='sm'>
+                  Missed
+                </Badge>
+              )}
+            </div>
+            <p className='flex items-center text-sm text-gray-600'>
+              <Calendar className='w-4 h-4 mr-2' />
+              {formatDate(booking.date)}
+            </p>
+            <p className='flex items-center text-sm text-gray-600'>
+              <Clock className='w-4 h-4 mr-2' />
+              {formatTime(booking.time)} ({booking.timezone}),{' '}
+              {booking.duration} minutes
+            </p>
+            {booking.professionalName && (
+              <p className='flex items-center text-sm text-gray-600'>
+                <User className='w-4 h-4 mr-2' />
+                {booking.professionalName}
+              </p>
+            )}
+            {booking.storeName && (
+              <p className='flex items-center text-sm text-gray-600'>
+                <MapPin className='w-4 h-4 mr-2' />
+                {booking.storeName}
+              </p>
+            )}
+          </div>
+
+          <div className='flex flex-col gap-2'>
+            {booking.manageUrl && (
+              <Button
+                variant='secondary'
+                size='sm'
+                onClick={() => booking.manageUrl && navigate(booking.manageUrl)}
+              >
+                Manage
+              </Button>
+            )}
+            {booking.rebookUrl && (
+              <Button
+                size='sm'
+                onClick={() => booking.rebookUrl && navigate(booking.rebookUrl)}
+                className='flex items-center space-x-2'
+              >
+                <RotateCcw className='w-4 h-4' />
+                <span>Book again</span>
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const MyBookings: React.FC = () => {
+  const { session, signOut, updateProfile } = useCustomer();
+  const [account, setAccount] = useState<CustomerAccount | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const sessionToken = session?.token;
+
+  useEffect(() => {
+    if (!sessionToken) return;
+
+    const loadAccount = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const loaded = await getCustomerAccount(sessionToken);
+        setAccount(loaded);
+        updateProfile(loaded.profile);
+      } catch (err) {
+        if (err instanceof CustomerSessionError) {
+          // Expired sessions send the customer back to sign in
+          signOut();
+          return;
+        }
+        setError(
+          err instanceof Error ? err.message : 'Failed to load your bookings'
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAccount();
+  }, [sessionToken, signOut, updateProfile]);
+
+  if (!session) {
+    return <Navigate to='/me/sign-in' replace />;
+  }
+
+  if (loading) {
+    return (
+      <div className='min-h-screen bg-gray-50 flex items-center justify-center'>
+        <div className='animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600'></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <div className='max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12'>
+        <div className='flex items-center justify-between mb-8'>
+          <div>
+            <h1 className='text-3xl font-bold text-gray-900'>My bookings</h1>
+            <p className='text-gray-600'>{session.profile.email}</p>
+          </div>
+          <Button variant='outline' size='sm' onClick={signOut}>
+            Sign out
+          </Button>
+        </div>
+
+        {error && (
+          <div className='mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800'>
+            {error}
+          </div>
+        )}
+
+        {account && (
+          <>
+            <h2 className='text-xl font-semibold text-gray-900 mb-4'>
+              Upcoming
+            </h2>
+            {account.upcoming.length > 0 ? (
+              <div className='space-y-4 mb-10'>
+                {account.upcoming.map(booking => (
+                  <BookingSummaryCard
+                    key={booking.bookingId}
+                    booking={booking}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className='text-gray-600 mb-10'>
+                You have no upcoming bookings.
+              </p>
+            )}
+
+            <h2 className='text-xl font-semibold text-gray-900 mb-4'>Past</h2>
+            {account.past.length > 0 ? (
+              <div className='space-y-4'>
+                {account.past.map(booking => (
+                  <BookingSummaryCard
+                    key={booking.bookingId}
+                    booking={booking}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className='text-gray-600'>
+                Your past bookings will show up here.{' '}
+                <Link to='/' className='text-primary-600 hover:underline'>
+                  Find a professional
+                </Link>
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MyBookings;
@@ -89,12 +89,17 @@ const StorePage: React.FC = () => {
   };
 
   const handleSelectService = (service: Service) => {
-    // For now, just log. In production, this would navigate to booking flow
     logger.debug('Service selected', {
       component: 'StorePage',
       serviceId: service.id,
       serviceName: service.name,
     });
+    navigate(`/book/${brandSlug}/${storeSlug}?service=${service.slug}`);
+  };
+
+  // Books with whichever professional is free
+  const handleBookAnyProfessional = () => {
+    navigate(`/book/${brandSlug}/${storeSlug}`);
   };
 
   const filteredProfessionals =
@@ -304,10 +309,11 @@ const StorePage: React.FC = () => {
             Ready to Book?
           </h3>
           <p className='text-gray-600 mb-6'>
-            Choose a professional or service to start your booking process.
+            Choose a professional above, or book with any available
+            professional.
           </p>
-          <Button size='lg'>
-            Start Booking
+          <Button size='lg' onClick={handleBookAnyProfessional}>
+            Book Any Professional
             <ArrowRight className='w-5 h-5 ml-2' />
           </Button>
         </div>
@@ -3,6 +3,8 @@
  * Defines types for brands, stores, professionals, and services
  */
 
+import type { IntakeQuestion } from './shared';
+
 export interface Brand {
   id: string;
   slug: string;
@@ -45,6 +47,8 @@ export interface Service {
   name: string;
   durationMin: number;
   price: number;
+  capacity?: number; // seats per class session, for group classes
+  intakeQuestions?: IntakeQuestion[]; // asked when the service is booked
   description?: string;
 }
 
@@ -111,6 +111,52 @@ export interface FeatureFlagsDoc {
   updatedBy: string;
 }
 
+export type SlotInterval = 15 | 30 | 60;
+
+/**
+ * Booking policies. The org, a store, a professional and a service can each
+ * set any of them; the most specific one wins.
+ */
+export interface BookingPolicy {
+  advanceBookingDays: number; // how far ahead customers can book
+  minLeadTimeMinutes: number; // how soon before it starts a slot can still be booked
+  cancellationHours: number; // customers can cancel or reschedule up to this many hours before
+  bufferBefore: number; // minutes kept free before an appointment
+  bufferAfter: number; // minutes kept free after an appointment
+  slotInterval: SlotInterval; // minutes between slot starts
+}
+
+export type IntakeQuestionType =
+  | 'text'
+  | 'textarea'
+  | 'select'
+  | 'checkbox'
+  | 'photo';
+
+/**
+ * A question a service asks customers when they book, e.g. allergies, a
+ * consent checkbox or a reference photo
+ */
+export interface IntakeQuestion {
+  id: string; // services asking a question with the same ID ask it once
+  type: IntakeQuestionType;
+  label: string;
+  required: boolean; // for a checkbox, that it must be checked
+  helpText?: string;
+  options?: string[]; // choices of a select question
+}
+
+/**
+ * A customer's answer, stored on the booking with the question as it was
+ * asked. Photo answers hold the path of the uploaded file.
+ */
+export interface IntakeAnswer {
+  questionId: string;
+  type: IntakeQuestionType;
+  label: string;
+  value: string | boolean;
+}
+
 export interface EmailEventDoc {
   messageId: string;
   type: